@@ -0,0 +1,243 @@
+import { Check, arrayDimensions, zero } from '../utils';
+import { ExtrapolationType } from '../types';
+import { FftReal } from './fft-real';
+import { KaiserWindow } from './kaiser-window';
+
+/**
+ * A linear-phase (symmetric) FIR band-pass filter.
+ * <p>
+ * The filter is designed by the window method: an ideal band-pass impulse
+ * response, the difference of two sinc functions, is multiplied by a
+ * {@link KaiserWindow}. The filter passes frequencies between specified
+ * lower and upper frequencies, and attenuates all others. A lower
+ * frequency of zero yields a low-pass filter, and an upper frequency of
+ * 0.5 (the Nyquist frequency) yields a high-pass filter.
+ * <p>
+ * The transition width and maximum amplitude error determine the length
+ * of the filter. Amplitudes are within the specified error of 1 in the
+ * pass band, and within that error of 0 in the stop bands, for frequencies
+ * more than half the transition width from the lower and upper
+ * frequencies. Narrower transitions and smaller errors require longer
+ * filters.
+ * <p>
+ * Filters are applied along one dimension of 1D, 2D or 3D arrays. Long
+ * filters are applied by multiplication of fast Fourier transforms,
+ * computed with {@link FftReal}; shorter filters are applied by direct
+ * convolution. Input values beyond the ends of arrays are extrapolated
+ * with zero values (the default) or zero slopes.
+ * <p>
+ * For all methods, input and output arrays may be the same array.
+ */
+export class BandPassFilter {
+
+  /**
+   * Filters with more than this number of coefficients are applied with
+   * fast Fourier transforms.
+   */
+  private static readonly FFT_THRESHOLD = 64;
+
+  private readonly _klower: number;
+  private readonly _kupper: number;
+  private readonly _nh: number;
+  private readonly _h: number[];
+  private _extrapolation: ExtrapolationType = 'ZeroValue';
+  private _nfft = 0;
+  private _hfft: number[];
+
+  /**
+   * Constructs a band-pass filter with specified parameters.
+   * @param klower the lower frequency, in cycles per sample.
+   * @param kupper the upper frequency, in cycles per sample;
+   *               0 &lt;= klower &lt; kupper &lt;= 0.5.
+   * @param kwidth the width of the transitions between pass and stop bands,
+   *               in cycles per sample; must be positive.
+   * @param aerror the maximum absolute error in amplitude; 0 &lt; aerror &lt; 1.
+   */
+  constructor(klower: number, kupper: number, kwidth: number, aerror: number) {
+    Check.argument(0.0 <= klower && klower < kupper && kupper <= 0.5, '0.0 <= klower < kupper <= 0.5');
+    Check.argument(kwidth > 0.0, 'kwidth > 0.0');
+    Check.argument(0.0 < aerror && aerror < 1.0, '0.0 < aerror < 1.0');
+    this._klower = klower;
+    this._kupper = kupper;
+    const length = KaiserWindow.FromErrorAndWidth(aerror, kwidth).length;
+    const nh = this._nh = Math.ceil(0.5 * length);
+    const kwin = KaiserWindow.FromErrorAndLength(aerror, 2 * nh);
+    this._h = zero(2 * nh + 1);
+    for (let j = -nh; j <= nh; ++j) {
+      const h = 2.0 * kupper * sinc(2.0 * kupper * j) - 2.0 * klower * sinc(2.0 * klower * j);
+      this._h[nh + j] = h * kwin.evaluate(j);
+    }
+  }
+
+  /**
+   * Gets the lower frequency, in cycles per sample.
+   */
+  get lowerFrequency(): number { return this._klower; }
+
+  /**
+   * Gets the upper frequency, in cycles per sample.
+   */
+  get upperFrequency(): number { return this._kupper; }
+
+  /**
+   * Gets a copy of the filter coefficients h[j] for lags j = -nh, ..., nh,
+   * stored in an array of length 2 * nh + 1.
+   */
+  get coefficients(): number[] { return this._h.slice(); }
+
+  /**
+   * Gets the extrapolation type.
+   */
+  get extrapolation(): ExtrapolationType { return this._extrapolation; }
+
+  /**
+   * Sets the extrapolation type used for input values beyond the ends of
+   * arrays.
+   * <p>
+   * The default type is 'ZeroValue'.
+   * @param e the extrapolation type.
+   */
+  set extrapolation(e: ExtrapolationType) { this._extrapolation = e; }
+
+  /**
+   * Applies this filter.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[], y: number[]): void;
+
+  /**
+   * Applies this filter along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1 or 2) along which to filter; default is 1.
+   */
+  apply(x: number[][], y: number[][], dim?: number): void;
+
+  /**
+   * Applies this filter along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1, 2 or 3) along which to filter; default is 1.
+   */
+  apply(x: number[][][], y: number[][][], dim?: number): void;
+
+  apply(x: number[] | number[][] | number[][][],
+        y: number[] | number[][] | number[][][],
+        dim: number = 1): void {
+    const ndim = arrayDimensions(x);
+    Check.argument(ndim === arrayDimensions(y), 'x and y have the same dimensions');
+    Check.argument(1 <= dim && dim <= ndim, 'dim is a valid dimension');
+    if (ndim === 1) {
+      this._apply1(x as number[], y as number[]);
+    } else if (ndim === 2) {
+      this._apply2(x as number[][], y as number[][], dim);
+    } else {
+      const x3 = x as number[][][];
+      const y3 = y as number[][][];
+      const n3 = y3.length;
+      if (dim < 3) {
+        for (let i3 = 0; i3 < n3; ++i3) { this._apply2(x3[i3], y3[i3], dim); }
+      } else {
+        const n2 = y3[0].length;
+        const xr = new Array<number[]>(n3);
+        const yr = new Array<number[]>(n3);
+        for (let i2 = 0; i2 < n2; ++i2) {
+          for (let i3 = 0; i3 < n3; ++i3) {
+            xr[i3] = x3[i3][i2];
+            yr[i3] = y3[i3][i2];
+          }
+          this._apply2(xr, yr, 2);
+        }
+      }
+    }
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private _apply2(x: number[][], y: number[][], dim: number): void {
+    Check.argument(x.length === y.length, 'x.length === y.length');
+    const n2 = y.length;
+    if (dim === 1) {
+      for (let i2 = 0; i2 < n2; ++i2) { this._apply1(x[i2], y[i2]); }
+    } else {
+      const n1 = y[0].length;
+      const xl: number[] = zero(n2);
+      for (let i1 = 0; i1 < n1; ++i1) {
+        for (let i2 = 0; i2 < n2; ++i2) { xl[i2] = x[i2][i1]; }
+        this._apply1(xl, xl);
+        for (let i2 = 0; i2 < n2; ++i2) { y[i2][i1] = xl[i2]; }
+      }
+    }
+  }
+
+  private _apply1(x: number[], y: number[]): void {
+    Check.argument(x.length === y.length, 'x.length === y.length');
+    const n = y.length;
+    const nh = this._nh;
+    const xp = this._pad(x, n + 2 * nh);
+    if (this._h.length > BandPassFilter.FFT_THRESHOLD) {
+      this._convolveFft(n, xp, y);
+    } else {
+      const h = this._h;
+      const lh = h.length;
+      for (let i = 0; i < n; ++i) {
+        let yi = 0.0;
+        for (let j = 0, k = i + 2 * nh; j < lh; ++j, --k) { yi += h[j] * xp[k]; }
+        y[i] = yi;
+      }
+    }
+  }
+
+  /**
+   * Returns a copy of x padded with nh extrapolated values on each end, in
+   * an array of at least length m.
+   */
+  private _pad(x: number[], m: number): number[] {
+    const n = x.length;
+    const nh = this._nh;
+    const xp: number[] = zero(m);
+    const zeroSlope = this._extrapolation === 'ZeroSlope';
+    for (let i = 0; i < nh; ++i) {
+      xp[i] = ( zeroSlope ) ? x[0] : 0.0;
+      xp[nh + n + i] = ( zeroSlope ) ? x[n - 1] : 0.0;
+    }
+    for (let i = 0; i < n; ++i) { xp[nh + i] = x[i]; }
+    return xp;
+  }
+
+  /**
+   * Convolves padded input values with this filter, via FFTs.
+   */
+  private _convolveFft(n: number, xp: number[], y: number[]): void {
+    const nh = this._nh;
+    const nfft = FftReal.SmallNFFT(n + 2 * nh);
+    const fft = new FftReal(nfft);
+    if (nfft !== this._nfft) {
+      this._nfft = nfft;
+      this._hfft = zero(nfft + 2);
+      for (let j = 0; j < this._h.length; ++j) { this._hfft[j] = this._h[j] / nfft; }
+      fft.realToComplex(-1, this._hfft, this._hfft);
+    }
+    const c: number[] = zero(nfft + 2);
+    for (let i = 0; i < xp.length; ++i) { c[i] = xp[i]; }
+    fft.realToComplex(-1, c, c);
+    const hf = this._hfft;
+    for (let k = 0, kr = 0, ki = 1; k <= nfft / 2; ++k, kr += 2, ki += 2) {
+      const cr = c[kr] * hf[kr] - c[ki] * hf[ki];
+      const ci = c[kr] * hf[ki] + c[ki] * hf[kr];
+      c[kr] = cr;
+      c[ki] = ci;
+    }
+    fft.complexToReal(1, c, c);
+    for (let i = 0; i < n; ++i) { y[i] = c[i + 2 * nh]; }
+  }
+}
+
+/** @internal */
+function sinc(x: number): number {
+  if (x === 0.0) { return 1.0; }
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
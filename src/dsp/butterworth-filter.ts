@@ -0,0 +1,179 @@
+import { Check } from '../utils';
+import { FilterType } from '../types';
+import { RecursiveCascadeFilter } from './recursive-cascade-filter';
+
+/**
+ * Butterworth filter.
+ * <p>
+ * Butterworth filters have amplitude responses that are maximally flat in
+ * their pass bands. They are designed here from analog prototypes, by the
+ * bilinear transform, with frequencies pre-warped so that the amplitude
+ * response of the digital filter is 1 / sqrt(2) (about -3 dB) at each
+ * specified cutoff frequency. Low-pass, high-pass and band-pass filters
+ * are supported.
+ * <p>
+ * The number of poles np determines the steepness of the transition from
+ * pass band to stop band. A low-pass or high-pass filter has np poles; a
+ * band-pass filter has 2 * np poles. Zero-phase filtering, by forward and
+ * then reverse application of the filter, squares the amplitude response,
+ * so that amplitude is one half at each cutoff frequency.
+ * <p>
+ * Reference: Oppenheim, A. V., and Schafer, R. W., 1989, Discrete-time
+ * signal processing: Prentice Hall.
+ */
+export class ButterworthFilter extends RecursiveCascadeFilter {
+
+  /**
+   * Constructs a low-pass or high-pass Butterworth filter.
+   * @param fc the cutoff frequency, in cycles per sample; 0 &lt; fc &lt; 0.5.
+   * @param np the number of poles; a positive integer.
+   * @param type the filter type, 'LowPass' or 'HighPass'.
+   */
+  constructor(fc: number, np: number, type: FilterType);
+
+  /**
+   * Constructs a band-pass Butterworth filter.
+   * @param fl the low cutoff frequency, in cycles per sample.
+   * @param fh the high cutoff frequency, in cycles per sample;
+   *           0 &lt; fl &lt; fh &lt; 0.5.
+   * @param np the number of poles for each of the low and high transitions;
+   *           a positive integer.
+   */
+  constructor(fl: number, fh: number, np: number);
+
+  constructor(f: number, n: number, t: FilterType | number) {
+    const design = ( typeof t === 'number' )
+      ? ButterworthFilter._designBandPass(f, n, t)
+      : ButterworthFilter._design(f, n, t);
+    super(design.poles, design.zeros, design.gain);
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private static _design(fc: number, np: number, type: FilterType): Design {
+    Check.argument(0.0 < fc && fc < 0.5, '0.0 < fc < 0.5');
+    ButterworthFilter._checkPoles(np);
+    const wc = warp(fc);
+    const lowPass = type === 'LowPass';
+    const poles: number[][] = [];
+    const zeros: number[][] = [];
+    for (const q of prototype(np)) {
+      const s = ( lowPass ) ? [ wc * q[0], wc * q[1] ] : cdiv([ wc, 0.0 ], q);
+      poles.push(bilinear(s));
+      zeros.push([ ( lowPass ) ? -1.0 : 1.0, 0.0 ]);
+    }
+    const gain = 1.0 / amplitude(poles, zeros, ( lowPass ) ? 0.0 : 0.5);
+    return { poles, zeros, gain };
+  }
+
+  private static _designBandPass(fl: number, fh: number, np: number): Design {
+    Check.argument(0.0 < fl && fl < fh && fh < 0.5, '0.0 < fl < fh < 0.5');
+    ButterworthFilter._checkPoles(np);
+    const wl = warp(fl);
+    const wh = warp(fh);
+    const bw = wh - wl;
+    const w0s = wl * wh;
+    const poles: number[][] = [];
+    const zeros: number[][] = [];
+    for (const q of prototype(np)) {
+
+      // Roots s of s^2 - q * bw * s + w0^2 = 0.
+      const qb = [ q[0] * bw, q[1] * bw ];
+      const d = csqrt([ qb[0] * qb[0] - qb[1] * qb[1] - 4.0 * w0s, 2.0 * qb[0] * qb[1] ]);
+      poles.push(bilinear([ 0.5 * ( qb[0] + d[0] ), 0.5 * ( qb[1] + d[1] ) ]));
+      poles.push(bilinear([ 0.5 * ( qb[0] - d[0] ), 0.5 * ( qb[1] - d[1] ) ]));
+      zeros.push([ 1.0, 0.0 ]);
+      zeros.push([ -1.0, 0.0 ]);
+    }
+    const f0 = Math.atan(0.5 * Math.sqrt(w0s)) / Math.PI;
+    const gain = 1.0 / amplitude(poles, zeros, f0);
+    return { poles, zeros, gain };
+  }
+
+  private static _checkPoles(np: number): void {
+    Check.argument(np > 0 && Math.floor(np) === np, 'np is a positive integer');
+  }
+}
+
+/**
+ * Poles, zeros and gain of a designed filter.
+ * @internal
+ */
+interface Design {
+  poles: number[][];
+  zeros: number[][];
+  gain: number;
+}
+
+/**
+ * Pre-warps a digital frequency f (cycles per sample) to the analog
+ * frequency (radians per sample) that maps to f by the bilinear transform.
+ * @internal
+ */
+function warp(f: number): number {
+  return 2.0 * Math.tan(Math.PI * f);
+}
+
+/**
+ * Poles of the analog Butterworth prototype, with unit cutoff frequency.
+ * @internal
+ */
+function prototype(np: number): number[][] {
+  const q: number[][] = [];
+  for (let k = 0; k < np; ++k) {
+    const theta = Math.PI * ( 2 * k + np + 1 ) / ( 2 * np );
+    q.push([ Math.cos(theta), Math.sin(theta) ]);
+  }
+  return q;
+}
+
+/**
+ * Maps an analog pole s to a digital pole z = (2 + s) / (2 - s).
+ * @internal
+ */
+function bilinear(s: number[]): number[] {
+  return cdiv([ 2.0 + s[0], s[1] ], [ 2.0 - s[0], -s[1] ]);
+}
+
+/**
+ * Amplitude of the response, with unit gain, at frequency f.
+ * @internal
+ */
+function amplitude(poles: number[][], zeros: number[][], f: number): number {
+  const w = 2.0 * Math.PI * f;
+  const zi = [ Math.cos(w), -Math.sin(w) ];
+  let a = 1.0;
+  for (const z of zeros) { a *= cabs(csub([ 1.0, 0.0 ], cmul(z, zi))); }
+  for (const p of poles) { a /= cabs(csub([ 1.0, 0.0 ], cmul(p, zi))); }
+  return a;
+}
+
+/** @internal */
+function cmul(a: number[], b: number[]): number[] {
+  return [ a[0] * b[0] - a[1] * b[1], a[0] * b[1] + a[1] * b[0] ];
+}
+
+/** @internal */
+function cdiv(a: number[], b: number[]): number[] {
+  const s = 1.0 / ( b[0] * b[0] + b[1] * b[1] );
+  return [ ( a[0] * b[0] + a[1] * b[1] ) * s, ( a[1] * b[0] - a[0] * b[1] ) * s ];
+}
+
+/** @internal */
+function csub(a: number[], b: number[]): number[] {
+  return [ a[0] - b[0], a[1] - b[1] ];
+}
+
+/** @internal */
+function cabs(a: number[]): number {
+  return Math.sqrt(a[0] * a[0] + a[1] * a[1]);
+}
+
+/** @internal */
+function csqrt(a: number[]): number[] {
+  const r = cabs(a);
+  const re = Math.sqrt(0.5 * ( r + a[0] ));
+  const im = Math.sqrt(0.5 * ( r - a[0] ));
+  return [ re, ( a[1] < 0.0 ) ? -im : im ];
+}
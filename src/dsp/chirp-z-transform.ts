@@ -0,0 +1,227 @@
+import { Check, czero } from '../utils';
+import { NumberArray } from '../types';
+import { FftComplex } from './fft-complex';
+import { FftRadix } from './fft-radix';
+import { Sampling } from './sampling';
+
+/**
+ * A chirp-z transform, for evaluating z-transforms on spirals.
+ * <p>
+ * The chirp-z transform of a sequence x[j], j = 0, 1, ..., n - 1, is the
+ * z-transform X(z) = sum x[j] * z^(-j), evaluated at m points z[k] = a *
+ * w^(-k), k = 0, 1, ..., m - 1, which lie on a spiral in the complex plane.
+ * Here, a is the complex starting point, and w is the complex ratio
+ * between points. When |a| = |w| = 1, the points lie on the unit circle,
+ * and the transform is a discrete Fourier transform for an arbitrary
+ * range of frequencies, sampled as finely as desired. Such a zoom FFT is
+ * useful for high-resolution analysis of a narrow band of frequencies.
+ * <p>
+ * As for {@link FftBluestein}, the transform is computed as a convolution
+ * with chirps, using {@link FftComplex} in exact-length mode with a
+ * power-of-two length not less than n + m - 1. The cost is therefore
+ * O((n + m) log(n + m)), whereas the cost of evaluating the z-transform
+ * directly is O(n * m).
+ * <p>
+ * Complex numbers are packed into arrays as [real_0, imag_0, real_1,
+ * imag_1, ...].
+ * <p>
+ * Reference: Rabiner, L.R., Schafer, R.W., and Rader, C.M., 1969, The
+ * chirp z-transform algorithm: IEEE Transactions on Audio and
+ * Electroacoustics, v. 17, p. 86-92.
+ */
+export class ChirpZTransform {
+
+  private readonly _n: number;
+  private readonly _m: number;
+  private readonly _nfft: number;
+  private readonly _fft: FftComplex;
+  private readonly _u: Float64Array;
+  private readonly _c: Float64Array;
+  private readonly _v: Float64Array;
+  private readonly _z: number[];
+
+  /**
+   * Returns a zoom FFT for frequencies sampled with a specified start,
+   * step and count. Frequencies are in cycles per sample, so that the
+   * output X[k] = sum x[j] * exp(-2 * PI * i * f[k] * j), where f[k] =
+   * fstart + k * fstep.
+   * @param n the number of input samples.
+   * @param fstart the first frequency, in cycles per sample.
+   * @param fstep the frequency sampling interval, in cycles per sample.
+   * @param count the number of frequencies.
+   * @returns the zoom FFT.
+   */
+  static Zoom(n: number, fstart: number, fstep: number, count: number): ChirpZTransform;
+
+  /**
+   * Returns a zoom FFT for signals with specified sampling, and for a
+   * specified frequency sampling. Frequencies are in cycles per unit of
+   * signal sampling, so that the output X[k] = sum x[j] * exp(-2 * PI * i
+   * * f[k] * t[j]), where f[k] and t[j] are sampled frequencies and times.
+   * @param sx the signal sampling; must be uniform.
+   * @param sf the frequency sampling; must be uniform.
+   * @returns the zoom FFT.
+   */
+  static Zoom(sx: Sampling, sf: Sampling): ChirpZTransform;
+
+  static Zoom(sx: Sampling | number, sf: Sampling | number, fstep?: number, count?: number): ChirpZTransform {
+    if (typeof sx === 'number') {
+      sx = new Sampling(sx);
+      sf = new Sampling(count, fstep, sf as number);
+    }
+    sf = sf as Sampling;
+    Check.argument(sx.isUniform(), 'sx is uniform');
+    Check.argument(sf.isUniform(), 'sf is uniform');
+    const dx = sx.delta;
+    const a0 = 2.0 * Math.PI * sf.first * dx;
+    const w0 = -2.0 * Math.PI * sf.delta * dx;
+    const czt = new ChirpZTransform(sx.count, sf.count,
+      [ Math.cos(w0), Math.sin(w0) ], [ Math.cos(a0), Math.sin(a0) ]);
+
+    // Phase shifts for the time of the first sample.
+    const fx = sx.first;
+    if (fx !== 0.0) {
+      const c = czt._c;
+      for (let k = 0, kr = 0, ki = 1; k < sf.count; ++k, kr += 2, ki += 2) {
+        const p = -2.0 * Math.PI * sf.valueAt(k) * fx;
+        const cp = Math.cos(p), sp = Math.sin(p);
+        const cr = c[kr], ci = c[ki];
+        c[kr] = cr * cp - ci * sp;
+        c[ki] = cr * sp + ci * cp;
+      }
+    }
+    return czt;
+  }
+
+  /**
+   * Constructs a chirp-z transform for points z[k] = a * w^(-k) on a spiral.
+   * @param n the number of input samples.
+   * @param m the number of output samples (points on the spiral).
+   * @param w the complex ratio [real, imag] between points.
+   * @param a the complex starting point [real, imag].
+   */
+  constructor(n: number, m: number, w: number[], a: number[]) {
+    Check.argument(n > 0 && Math.floor(n) === n, 'n is a positive integer');
+    Check.argument(m > 0 && Math.floor(m) === m, 'm is a positive integer');
+    Check.argument(w[0] !== 0.0 || w[1] !== 0.0, 'w is not zero');
+    Check.argument(a[0] !== 0.0 || a[1] !== 0.0, 'a is not zero');
+    this._n = n;
+    this._m = m;
+    this._nfft = FftRadix.SmallNFFT(n + m - 1);
+    this._fft = new FftComplex(this._nfft, true);
+
+    // Powers of a and w, with moduli and angles.
+    const ra = Math.sqrt(a[0] * a[0] + a[1] * a[1]);
+    const ta = Math.atan2(a[1], a[0]);
+    const rw = Math.sqrt(w[0] * w[0] + w[1] * w[1]);
+    const tw = Math.atan2(w[1], w[0]);
+    const power = (r: number, t: number, p: number, z: Float64Array | number[], k: number): void => {
+      const s = Math.pow(r, p);
+      z[2 * k] = s * Math.cos(t * p);
+      z[2 * k + 1] = s * Math.sin(t * p);
+    };
+
+    // Input weights u[j] = a^(-j) * w^(j * j / 2).
+    const nfft = this._nfft;
+    this._u = new Float64Array(2 * n);
+    for (let j = 0; j < n; ++j) {
+      const h = 0.5 * j * j;
+      const s = Math.pow(ra, -j) * Math.pow(rw, h);
+      const t = -ta * j + tw * h;
+      this._u[2 * j] = s * Math.cos(t);
+      this._u[2 * j + 1] = s * Math.sin(t);
+    }
+
+    // Output chirp c[k] = w^(k * k / 2), and points z[k] = a * w^(-k).
+    this._c = new Float64Array(2 * m);
+    this._z = czero(m);
+    for (let k = 0; k < m; ++k) {
+      power(rw, tw, 0.5 * k * k, this._c, k);
+      const s = ra * Math.pow(rw, -k);
+      this._z[2 * k] = s * Math.cos(ta - tw * k);
+      this._z[2 * k + 1] = s * Math.sin(ta - tw * k);
+    }
+
+    // FFT of the kernel w^(-l * l / 2), for lags l = -(n - 1), ..., m - 1,
+    // wrapped for circular convolution and scaled for the inverse FFT.
+    this._v = new Float64Array(2 * nfft);
+    for (let l = -( n - 1 ); l < m; ++l) {
+      power(rw, tw, -0.5 * l * l, this._v, ( l < 0 ) ? nfft + l : l);
+    }
+    this._fft.complexToComplex(-1, this._v, this._v);
+    this._fft.scale(this._v, nfft);
+  }
+
+  /**
+   * Gets the number of input samples.
+   */
+  get inputLength(): number { return this._n; }
+
+  /**
+   * Gets the number of output samples.
+   */
+  get outputLength(): number { return this._m; }
+
+  /**
+   * Gets a copy of the points z[k] at which the z-transform is evaluated,
+   * as packed complex numbers.
+   */
+  get points(): number[] { return this._z.slice(); }
+
+  /**
+   * Applies this transform to a complex sequence.
+   * @param cx input array[2*n] of n packed complex numbers.
+   * @returns array[2*m] of m packed complex numbers.
+   */
+  apply(cx: NumberArray): number[] {
+    Check.argument(cx.length >= 2 * this._n, 'cx.length >= 2 * n');
+    const u = this._u;
+    const g = new Float64Array(2 * this._nfft);
+    for (let jr = 0, ji = 1; jr < 2 * this._n; jr += 2, ji += 2) {
+      g[jr] = cx[jr] * u[jr] - cx[ji] * u[ji];
+      g[ji] = cx[jr] * u[ji] + cx[ji] * u[jr];
+    }
+    return this._convolve(g);
+  }
+
+  /**
+   * Applies this transform to a real sequence.
+   * @param rx input array[n] of n real numbers.
+   * @returns array[2*m] of m packed complex numbers.
+   */
+  applyReal(rx: NumberArray): number[] {
+    Check.argument(rx.length >= this._n, 'rx.length >= n');
+    const u = this._u;
+    const g = new Float64Array(2 * this._nfft);
+    for (let j = 0, jr = 0, ji = 1; j < this._n; ++j, jr += 2, ji += 2) {
+      g[jr] = rx[j] * u[jr];
+      g[ji] = rx[j] * u[ji];
+    }
+    return this._convolve(g);
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Convolves weighted input g with the kernel, and multiplies the result
+   * by the output chirp.
+   */
+  private _convolve(g: Float64Array): number[] {
+    const v = this._v;
+    const c = this._c;
+    this._fft.complexToComplex(-1, g, g);
+    for (let kr = 0, ki = 1; kr < 2 * this._nfft; kr += 2, ki += 2) {
+      const gr = g[kr], gi = g[ki];
+      g[kr] = gr * v[kr] - gi * v[ki];
+      g[ki] = gr * v[ki] + gi * v[kr];
+    }
+    this._fft.complexToComplex(1, g, g);
+    const cy: number[] = czero(this._m);
+    for (let kr = 0, ki = 1; kr < 2 * this._m; kr += 2, ki += 2) {
+      cy[kr] = g[kr] * c[kr] - g[ki] * c[ki];
+      cy[ki] = g[kr] * c[ki] + g[ki] * c[kr];
+    }
+    return cy;
+  }
+}
@@ -0,0 +1,538 @@
+import { Check, almostEqual, zero } from '../utils';
+import { FftComplex } from './fft-complex';
+import { FftReal } from './fft-real';
+import { Sampling } from './sampling';
+
+/**
+ * Arguments of 1D convolutions of uniformly sampled sequences.
+ * @internal
+ */
+type SampledArgs = [ Sampling, number[], Sampling, number[], Sampling, number[] ];
+
+/**
+ * Arguments of 1D convolutions: lengths, first indices and values of x, y
+ * and z.
+ * @internal
+ */
+type Args1 = [ number, number, number[], number, number, number[], number, number, number[] ];
+
+/**
+ * Arguments of 2D convolutions.
+ * @internal
+ */
+type Args2 = [ number, number, number, number, number[][],
+               number, number, number, number, number[][],
+               number, number, number, number, number[][] ];
+
+/**
+ * Arguments of 3D convolutions.
+ * @internal
+ */
+type Args3 = [ number, number, number, number, number, number, number[][][],
+               number, number, number, number, number, number, number[][][],
+               number, number, number, number, number, number, number[][][] ];
+
+/**
+ * Convolution and cross-correlation of sequences of numbers.
+ * <p>
+ * Each sequence is specified by its length, the index of its first
+ * sample, and an array of its values. For example, a sequence x with
+ * length lx and first-sample index kx has values x[0], ..., x[lx - 1]
+ * corresponding to indices kx, ..., kx + lx - 1. Sample indices are the
+ * integer analogues of the coordinates in a {@link Sampling}; when all
+ * samplings have the same sampling interval d, the first-sample index of
+ * a sampling s is s.first / d.
+ * <p>
+ * Convolution of sequences x and y computes a sequence z with values
+ * <pre>
+ *   z[k] = sum over i of x[i] * y[k - i]
+ * </pre>
+ * and cross-correlation computes
+ * <pre>
+ *   z[k] = sum over i of x[i] * y[k + i]
+ * </pre>
+ * where x[i] and y[i] are zero for indices i outside their specified
+ * ranges. Only values of z with indices in the range kz, ..., kz + lz - 1
+ * are computed. Convolutions and correlations of 2D and 3D sequences are
+ * defined similarly, with lengths and first-sample indices specified for
+ * each dimension.
+ * <p>
+ * For short sequences, sums are computed directly. When both input
+ * sequences have more than a threshold number of samples, sums are
+ * instead computed by multiplication of fast Fourier transforms, via
+ * {@link FftReal} (and {@link FftComplex}, for 2D and 3D sequences).
+ * Results computed in both ways are equal to within rounding errors.
+ */
+export class Conv {
+
+  /**
+   * Both input sequences must have more than this number of samples
+   * before convolutions are computed with fast Fourier transforms.
+   */
+  private static readonly FFT_THRESHOLD = 64;
+
+  /**
+   * Relative tolerance used when comparing sampling intervals and first
+   * sample values of samplings.
+   */
+  private static readonly SAMPLING_TOLERANCE = 1.0e-6;
+
+  /**
+   * Computes the 1D convolution of specified sequences x and y.
+   * @param lx the length of x.
+   * @param kx the sample index of x[0].
+   * @param x array[lx] of x values.
+   * @param ly the length of y.
+   * @param ky the sample index of y[0].
+   * @param y array[ly] of y values.
+   * @param lz the length of z.
+   * @param kz the sample index of z[0].
+   * @param z array[lz] of z values.
+   */
+  static Conv(lx: number, kx: number, x: number[],
+              ly: number, ky: number, y: number[],
+              lz: number, kz: number, z: number[]): void;
+
+  /**
+   * Computes the 1D convolution of specified uniformly sampled sequences.
+   * <p>
+   * The samplings must have equal sampling intervals, and their first
+   * sample values must be integer multiples of that interval.
+   * @param sx the sampling of x.
+   * @param x array of x values.
+   * @param sy the sampling of y.
+   * @param y array of y values.
+   * @param sz the sampling of z.
+   * @param z array of z values.
+   */
+  static Conv(sx: Sampling, x: number[],
+              sy: Sampling, y: number[],
+              sz: Sampling, z: number[]): void;
+
+  /**
+   * Computes the 2D convolution of specified sequences x and y.
+   * @param lx1 the length of x in the 1st dimension.
+   * @param lx2 the length of x in the 2nd dimension.
+   * @param kx1 the sample index of x[0][0] in the 1st dimension.
+   * @param kx2 the sample index of x[0][0] in the 2nd dimension.
+   * @param x array[lx2][lx1] of x values.
+   * @param ly1 the length of y in the 1st dimension.
+   * @param ly2 the length of y in the 2nd dimension.
+   * @param ky1 the sample index of y[0][0] in the 1st dimension.
+   * @param ky2 the sample index of y[0][0] in the 2nd dimension.
+   * @param y array[ly2][ly1] of y values.
+   * @param lz1 the length of z in the 1st dimension.
+   * @param lz2 the length of z in the 2nd dimension.
+   * @param kz1 the sample index of z[0][0] in the 1st dimension.
+   * @param kz2 the sample index of z[0][0] in the 2nd dimension.
+   * @param z array[lz2][lz1] of z values.
+   */
+  static Conv(lx1: number, lx2: number, kx1: number, kx2: number, x: number[][],
+              ly1: number, ly2: number, ky1: number, ky2: number, y: number[][],
+              lz1: number, lz2: number, kz1: number, kz2: number, z: number[][]): void;
+
+  /**
+   * Computes the 3D convolution of specified sequences x and y.
+   * @param lx1 the length of x in the 1st dimension.
+   * @param lx2 the length of x in the 2nd dimension.
+   * @param lx3 the length of x in the 3rd dimension.
+   * @param kx1 the sample index of x[0][0][0] in the 1st dimension.
+   * @param kx2 the sample index of x[0][0][0] in the 2nd dimension.
+   * @param kx3 the sample index of x[0][0][0] in the 3rd dimension.
+   * @param x array[lx3][lx2][lx1] of x values.
+   * @param ly1 the length of y in the 1st dimension.
+   * @param ly2 the length of y in the 2nd dimension.
+   * @param ly3 the length of y in the 3rd dimension.
+   * @param ky1 the sample index of y[0][0][0] in the 1st dimension.
+   * @param ky2 the sample index of y[0][0][0] in the 2nd dimension.
+   * @param ky3 the sample index of y[0][0][0] in the 3rd dimension.
+   * @param y array[ly3][ly2][ly1] of y values.
+   * @param lz1 the length of z in the 1st dimension.
+   * @param lz2 the length of z in the 2nd dimension.
+   * @param lz3 the length of z in the 3rd dimension.
+   * @param kz1 the sample index of z[0][0][0] in the 1st dimension.
+   * @param kz2 the sample index of z[0][0][0] in the 2nd dimension.
+   * @param kz3 the sample index of z[0][0][0] in the 3rd dimension.
+   * @param z array[lz3][lz2][lz1] of z values.
+   */
+  static Conv(lx1: number, lx2: number, lx3: number, kx1: number, kx2: number, kx3: number, x: number[][][],
+              ly1: number, ly2: number, ly3: number, ky1: number, ky2: number, ky3: number, y: number[][][],
+              lz1: number, lz2: number, lz3: number, kz1: number, kz2: number, kz3: number, z: number[][][]): void;
+
+  static Conv(...args: SampledArgs | Args1 | Args2 | Args3): void {
+    switch (args.length) {
+      case 6:
+        Conv._convSampled(false, ...args);
+        break;
+      case 9:
+        Conv._conv1(...args);
+        break;
+      case 15:
+        Conv._conv2(...args);
+        break;
+      default:
+        Check.argument(args.length === 21, 'number of arguments is valid');
+        Conv._conv3(...args);
+    }
+  }
+
+  /**
+   * Computes the 1D cross-correlation of specified sequences x and y.
+   * @param lx the length of x.
+   * @param kx the sample index of x[0].
+   * @param x array[lx] of x values.
+   * @param ly the length of y.
+   * @param ky the sample index of y[0].
+   * @param y array[ly] of y values.
+   * @param lz the length of z.
+   * @param kz the sample index of z[0].
+   * @param z array[lz] of z values.
+   */
+  static Xcor(lx: number, kx: number, x: number[],
+              ly: number, ky: number, y: number[],
+              lz: number, kz: number, z: number[]): void;
+
+  /**
+   * Computes the 1D cross-correlation of specified uniformly sampled
+   * sequences.
+   * <p>
+   * The samplings must have equal sampling intervals, and their first
+   * sample values must be integer multiples of that interval.
+   * @param sx the sampling of x.
+   * @param x array of x values.
+   * @param sy the sampling of y.
+   * @param y array of y values.
+   * @param sz the sampling of z (lags).
+   * @param z array of z values.
+   */
+  static Xcor(sx: Sampling, x: number[],
+              sy: Sampling, y: number[],
+              sz: Sampling, z: number[]): void;
+
+  /**
+   * Computes the 2D cross-correlation of specified sequences x and y.
+   * @param lx1 the length of x in the 1st dimension.
+   * @param lx2 the length of x in the 2nd dimension.
+   * @param kx1 the sample index of x[0][0] in the 1st dimension.
+   * @param kx2 the sample index of x[0][0] in the 2nd dimension.
+   * @param x array[lx2][lx1] of x values.
+   * @param ly1 the length of y in the 1st dimension.
+   * @param ly2 the length of y in the 2nd dimension.
+   * @param ky1 the sample index of y[0][0] in the 1st dimension.
+   * @param ky2 the sample index of y[0][0] in the 2nd dimension.
+   * @param y array[ly2][ly1] of y values.
+   * @param lz1 the length of z in the 1st dimension.
+   * @param lz2 the length of z in the 2nd dimension.
+   * @param kz1 the sample index of z[0][0] in the 1st dimension.
+   * @param kz2 the sample index of z[0][0] in the 2nd dimension.
+   * @param z array[lz2][lz1] of z values.
+   */
+  static Xcor(lx1: number, lx2: number, kx1: number, kx2: number, x: number[][],
+              ly1: number, ly2: number, ky1: number, ky2: number, y: number[][],
+              lz1: number, lz2: number, kz1: number, kz2: number, z: number[][]): void;
+
+  /**
+   * Computes the 3D cross-correlation of specified sequences x and y.
+   * @param lx1 the length of x in the 1st dimension.
+   * @param lx2 the length of x in the 2nd dimension.
+   * @param lx3 the length of x in the 3rd dimension.
+   * @param kx1 the sample index of x[0][0][0] in the 1st dimension.
+   * @param kx2 the sample index of x[0][0][0] in the 2nd dimension.
+   * @param kx3 the sample index of x[0][0][0] in the 3rd dimension.
+   * @param x array[lx3][lx2][lx1] of x values.
+   * @param ly1 the length of y in the 1st dimension.
+   * @param ly2 the length of y in the 2nd dimension.
+   * @param ly3 the length of y in the 3rd dimension.
+   * @param ky1 the sample index of y[0][0][0] in the 1st dimension.
+   * @param ky2 the sample index of y[0][0][0] in the 2nd dimension.
+   * @param ky3 the sample index of y[0][0][0] in the 3rd dimension.
+   * @param y array[ly3][ly2][ly1] of y values.
+   * @param lz1 the length of z in the 1st dimension.
+   * @param lz2 the length of z in the 2nd dimension.
+   * @param lz3 the length of z in the 3rd dimension.
+   * @param kz1 the sample index of z[0][0][0] in the 1st dimension.
+   * @param kz2 the sample index of z[0][0][0] in the 2nd dimension.
+   * @param kz3 the sample index of z[0][0][0] in the 3rd dimension.
+   * @param z array[lz3][lz2][lz1] of z values.
+   */
+  static Xcor(lx1: number, lx2: number, lx3: number, kx1: number, kx2: number, kx3: number, x: number[][][],
+              ly1: number, ly2: number, ly3: number, ky1: number, ky2: number, ky3: number, y: number[][][],
+              lz1: number, lz2: number, lz3: number, kz1: number, kz2: number, kz3: number, z: number[][][]): void;
+
+  static Xcor(...args: SampledArgs | Args1 | Args2 | Args3): void {
+    switch (args.length) {
+      case 6:
+        Conv._convSampled(true, ...args);
+        break;
+      case 9: {
+        const [ lx, kx, x, ...yz ] = args;
+        Conv._conv1(lx, 1 - kx - lx, Conv._reverse1(lx, x), ...yz);
+        break;
+      }
+      case 15: {
+        const [ lx1, lx2, kx1, kx2, x, ...yz ] = args;
+        Conv._conv2(lx1, lx2, 1 - kx1 - lx1, 1 - kx2 - lx2, Conv._reverse2(lx1, lx2, x), ...yz);
+        break;
+      }
+      default: {
+        Check.argument(args.length === 21, 'number of arguments is valid');
+        const [ lx1, lx2, lx3, kx1, kx2, kx3, x, ...yz ] = args;
+        Conv._conv3(
+          lx1, lx2, lx3, 1 - kx1 - lx1, 1 - kx2 - lx2, 1 - kx3 - lx3, Conv._reverse3(lx1, lx2, lx3, x), ...yz);
+      }
+    }
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private static _convSampled(xcor: boolean,
+                              sx: Sampling, x: number[],
+                              sy: Sampling, y: number[],
+                              sz: Sampling, z: number[]): void {
+    Check.argument(sx.isUniform() && sy.isUniform() && sz.isUniform(), 'samplings are uniform');
+    const d = sx.delta;
+    const tiny = Conv.SAMPLING_TOLERANCE * d;
+    Check.argument(almostEqual(sy.delta, d, tiny), 'sy.delta equals sx.delta');
+    Check.argument(almostEqual(sz.delta, d, tiny), 'sz.delta equals sx.delta');
+    const kx = Conv._firstIndex(sx, d);
+    const ky = Conv._firstIndex(sy, d);
+    const kz = Conv._firstIndex(sz, d);
+    if (xcor) {
+      Conv.Xcor(sx.count, kx, x, sy.count, ky, y, sz.count, kz, z);
+    } else {
+      Conv.Conv(sx.count, kx, x, sy.count, ky, y, sz.count, kz, z);
+    }
+  }
+
+  private static _firstIndex(s: Sampling, d: number): number {
+    const k = Math.round(s.first / d);
+    Check.argument(almostEqual(s.first, k * d, Conv.SAMPLING_TOLERANCE * d), 'first is a multiple of delta');
+    return k;
+  }
+
+  private static _reverse1(lx: number, x: number[]): number[] {
+    const r = new Array<number>(lx);
+    for (let i = 0, j = lx - 1; i < lx; ++i, --j) { r[i] = x[j]; }
+    return r;
+  }
+
+  private static _reverse2(lx1: number, lx2: number, x: number[][]): number[][] {
+    const r = new Array<number[]>(lx2);
+    for (let i = 0, j = lx2 - 1; i < lx2; ++i, --j) { r[i] = Conv._reverse1(lx1, x[j]); }
+    return r;
+  }
+
+  private static _reverse3(lx1: number, lx2: number, lx3: number, x: number[][][]): number[][][] {
+    const r = new Array<number[][]>(lx3);
+    for (let i = 0, j = lx3 - 1; i < lx3; ++i, --j) { r[i] = Conv._reverse2(lx1, lx2, x[j]); }
+    return r;
+  }
+
+  private static _useFft(lx: number, ly: number): boolean {
+    return lx > Conv.FFT_THRESHOLD && ly > Conv.FFT_THRESHOLD;
+  }
+
+  private static _conv1(lx: number, kx: number, x: number[],
+                        ly: number, ky: number, y: number[],
+                        lz: number, kz: number, z: number[]): void {
+    if (Conv._useFft(lx, ly)) {
+      Conv._convFft1(lx, kx, x, ly, ky, y, lz, kz, z);
+    } else {
+      for (let iz = 0; iz < lz; ++iz) { z[iz] = 0.0; }
+      Conv._convAdd1(lx, kx, x, ly, ky, y, lz, kz, z);
+    }
+  }
+
+  private static _conv2(lx1: number, lx2: number, kx1: number, kx2: number, x: number[][],
+                        ly1: number, ly2: number, ky1: number, ky2: number, y: number[][],
+                        lz1: number, lz2: number, kz1: number, kz2: number, z: number[][]): void {
+    if (Conv._useFft(lx1 * lx2, ly1 * ly2)) {
+      Conv._convFft2(lx1, lx2, kx1, kx2, x, ly1, ly2, ky1, ky2, y, lz1, lz2, kz1, kz2, z);
+    } else {
+      for (let iz2 = 0; iz2 < lz2; ++iz2) {
+        for (let iz1 = 0; iz1 < lz1; ++iz1) { z[iz2][iz1] = 0.0; }
+      }
+      Conv._convAdd2(lx1, lx2, kx1, kx2, x, ly1, ly2, ky1, ky2, y, lz1, lz2, kz1, kz2, z);
+    }
+  }
+
+  private static _conv3(lx1: number, lx2: number, lx3: number, kx1: number, kx2: number, kx3: number, x: number[][][],
+                        ly1: number, ly2: number, ly3: number, ky1: number, ky2: number, ky3: number, y: number[][][],
+                        lz1: number, lz2: number, lz3: number, kz1: number, kz2: number, kz3: number, z: number[][][]): void {
+    if (Conv._useFft(lx1 * lx2 * lx3, ly1 * ly2 * ly3)) {
+      Conv._convFft3(
+        lx1, lx2, lx3, kx1, kx2, kx3, x,
+        ly1, ly2, ly3, ky1, ky2, ky3, y,
+        lz1, lz2, lz3, kz1, kz2, kz3, z);
+    } else {
+      for (let iz3 = 0; iz3 < lz3; ++iz3) {
+        for (let iz2 = 0; iz2 < lz2; ++iz2) {
+          for (let iz1 = 0; iz1 < lz1; ++iz1) { z[iz3][iz2][iz1] = 0.0; }
+        }
+      }
+      for (let iz3 = 0; iz3 < lz3; ++iz3) {
+
+        // z[k3] += x[j3] * y[k3 - j3], for all valid j3
+        const k3 = kz3 + iz3;
+        const jlo = Math.max(0, k3 - kx3 - ky3 - ly3 + 1);
+        const jhi = Math.min(lx3 - 1, k3 - kx3 - ky3);
+        for (let jx3 = jlo; jx3 <= jhi; ++jx3) {
+          const jy3 = k3 - kx3 - ky3 - jx3;
+          Conv._convAdd2(
+            lx1, lx2, kx1, kx2, x[jx3],
+            ly1, ly2, ky1, ky2, y[jy3],
+            lz1, lz2, kz1, kz2, z[iz3]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Adds the 1D convolution of x and y to z.
+   */
+  private static _convAdd1(lx: number, kx: number, x: number[],
+                           ly: number, ky: number, y: number[],
+                           lz: number, kz: number, z: number[]): void {
+    for (let iz = 0; iz < lz; ++iz) {
+      const k = kz + iz - kx - ky;
+      const jlo = Math.max(0, k - ly + 1);
+      const jhi = Math.min(lx - 1, k);
+      let sum = 0.0;
+      for (let jx = jlo, jy = k - jlo; jx <= jhi; ++jx, --jy) {
+        sum += x[jx] * y[jy];
+      }
+      z[iz] += sum;
+    }
+  }
+
+  /**
+   * Adds the 2D convolution of x and y to z.
+   */
+  private static _convAdd2(lx1: number, lx2: number, kx1: number, kx2: number, x: number[][],
+                           ly1: number, ly2: number, ky1: number, ky2: number, y: number[][],
+                           lz1: number, lz2: number, kz1: number, kz2: number, z: number[][]): void {
+    for (let iz2 = 0; iz2 < lz2; ++iz2) {
+      const k2 = kz2 + iz2 - kx2 - ky2;
+      const jlo = Math.max(0, k2 - ly2 + 1);
+      const jhi = Math.min(lx2 - 1, k2);
+      for (let jx2 = jlo, jy2 = k2 - jlo; jx2 <= jhi; ++jx2, --jy2) {
+        Conv._convAdd1(lx1, kx1, x[jx2], ly1, ky1, y[jy2], lz1, kz1, z[iz2]);
+      }
+    }
+  }
+
+  private static _convFft1(lx: number, kx: number, x: number[],
+                           ly: number, ky: number, y: number[],
+                           lz: number, kz: number, z: number[]): void {
+    const nfft = FftReal.SmallNFFT(lx + ly - 1);
+    const fft = new FftReal(nfft);
+    const cx: number[] = zero(nfft + 2);
+    const cy: number[] = zero(nfft + 2);
+    for (let i = 0; i < lx; ++i) { cx[i] = x[i]; }
+    for (let i = 0; i < ly; ++i) { cy[i] = y[i]; }
+    fft.realToComplex(-1, cx, cx);
+    fft.realToComplex(-1, cy, cy);
+    Conv._cmul(nfft / 2 + 1, cx, cy);
+    fft.complexToReal(1, cx, cx);
+    const s = 1.0 / nfft;
+    const kw = kx + ky;
+    for (let iz = 0, iw = kz - kw; iz < lz; ++iz, ++iw) {
+      z[iz] = ( 0 <= iw && iw < lx + ly - 1 ) ? s * cx[iw] : 0.0;
+    }
+  }
+
+  private static _convFft2(lx1: number, lx2: number, kx1: number, kx2: number, x: number[][],
+                           ly1: number, ly2: number, ky1: number, ky2: number, y: number[][],
+                           lz1: number, lz2: number, kz1: number, kz2: number, z: number[][]): void {
+    const lw1 = lx1 + ly1 - 1;
+    const lw2 = lx2 + ly2 - 1;
+    const nfft1 = FftReal.SmallNFFT(lw1);
+    const nfft2 = FftComplex.SmallNFFT(lw2);
+    const nk1 = nfft1 / 2 + 1;
+    const fft1 = new FftReal(nfft1);
+    const fft2 = new FftComplex(nfft2);
+    const cx: number[][] = zero(nfft1 + 2, nfft2);
+    const cy: number[][] = zero(nfft1 + 2, nfft2);
+    for (let i2 = 0; i2 < lx2; ++i2) {
+      for (let i1 = 0; i1 < lx1; ++i1) { cx[i2][i1] = x[i2][i1]; }
+    }
+    for (let i2 = 0; i2 < ly2; ++i2) {
+      for (let i1 = 0; i1 < ly1; ++i1) { cy[i2][i1] = y[i2][i1]; }
+    }
+    for (const c of [ cx, cy ]) {
+      fft1.realToComplex1(-1, c, c, nfft2);
+      fft2.complexToComplex2(-1, c, c, nk1);
+    }
+    for (let i2 = 0; i2 < nfft2; ++i2) { Conv._cmul(nk1, cx[i2], cy[i2]); }
+    fft2.complexToComplex2(1, cx, cx, nk1);
+    fft1.complexToReal1(1, cx, cx, nfft2);
+    const s = 1.0 / ( nfft1 * nfft2 );
+    for (let iz2 = 0, iw2 = kz2 - kx2 - ky2; iz2 < lz2; ++iz2, ++iw2) {
+      const in2 = 0 <= iw2 && iw2 < lw2;
+      for (let iz1 = 0, iw1 = kz1 - kx1 - ky1; iz1 < lz1; ++iz1, ++iw1) {
+        z[iz2][iz1] = ( in2 && 0 <= iw1 && iw1 < lw1 ) ? s * cx[iw2][iw1] : 0.0;
+      }
+    }
+  }
+
+  private static _convFft3(lx1: number, lx2: number, lx3: number, kx1: number, kx2: number, kx3: number, x: number[][][],
+                           ly1: number, ly2: number, ly3: number, ky1: number, ky2: number, ky3: number, y: number[][][],
+                           lz1: number, lz2: number, lz3: number, kz1: number, kz2: number, kz3: number, z: number[][][]): void {
+    const lw1 = lx1 + ly1 - 1;
+    const lw2 = lx2 + ly2 - 1;
+    const lw3 = lx3 + ly3 - 1;
+    const nfft1 = FftReal.SmallNFFT(lw1);
+    const nfft2 = FftComplex.SmallNFFT(lw2);
+    const nfft3 = FftComplex.SmallNFFT(lw3);
+    const nk1 = nfft1 / 2 + 1;
+    const fft1 = new FftReal(nfft1);
+    const fft2 = new FftComplex(nfft2);
+    const fft3 = new FftComplex(nfft3);
+    const cx: number[][][] = zero(nfft1 + 2, nfft2, nfft3);
+    const cy: number[][][] = zero(nfft1 + 2, nfft2, nfft3);
+    for (let i3 = 0; i3 < lx3; ++i3) {
+      for (let i2 = 0; i2 < lx2; ++i2) {
+        for (let i1 = 0; i1 < lx1; ++i1) { cx[i3][i2][i1] = x[i3][i2][i1]; }
+      }
+    }
+    for (let i3 = 0; i3 < ly3; ++i3) {
+      for (let i2 = 0; i2 < ly2; ++i2) {
+        for (let i1 = 0; i1 < ly1; ++i1) { cy[i3][i2][i1] = y[i3][i2][i1]; }
+      }
+    }
+    for (const c of [ cx, cy ]) {
+      fft1.realToComplex1(-1, c, c, nfft2, nfft3);
+      fft2.complexToComplex2(-1, c, c, nk1, nfft3);
+      fft3.complexToComplex3(-1, c, c, nk1, nfft2);
+    }
+    for (let i3 = 0; i3 < nfft3; ++i3) {
+      for (let i2 = 0; i2 < nfft2; ++i2) { Conv._cmul(nk1, cx[i3][i2], cy[i3][i2]); }
+    }
+    fft3.complexToComplex3(1, cx, cx, nk1, nfft2);
+    fft2.complexToComplex2(1, cx, cx, nk1, nfft3);
+    fft1.complexToReal1(1, cx, cx, nfft2, nfft3);
+    const s = 1.0 / ( nfft1 * nfft2 * nfft3 );
+    for (let iz3 = 0, iw3 = kz3 - kx3 - ky3; iz3 < lz3; ++iz3, ++iw3) {
+      const in3 = 0 <= iw3 && iw3 < lw3;
+      for (let iz2 = 0, iw2 = kz2 - kx2 - ky2; iz2 < lz2; ++iz2, ++iw2) {
+        const in2 = in3 && 0 <= iw2 && iw2 < lw2;
+        for (let iz1 = 0, iw1 = kz1 - kx1 - ky1; iz1 < lz1; ++iz1, ++iw1) {
+          z[iz3][iz2][iz1] = ( in2 && 0 <= iw1 && iw1 < lw1 ) ? s * cx[iw3][iw2][iw1] : 0.0;
+        }
+      }
+    }
+  }
+
+  /**
+   * Multiplies n complex numbers in cx by those in cy, in place in cx.
+   */
+  private static _cmul(n: number, cx: number[], cy: number[]): void {
+    for (let i = 0, ir = 0, ii = 1; i < n; ++i, ir += 2, ii += 2) {
+      const xr = cx[ir], xi = cx[ii];
+      const yr = cy[ir], yi = cy[ii];
+      cx[ir] = xr * yr - xi * yi;
+      cx[ii] = xr * yi + xi * yr;
+    }
+  }
+}
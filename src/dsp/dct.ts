@@ -0,0 +1,299 @@
+import { Check, arrayDimensions, zero } from '../utils';
+import { TrigTransformType } from '../types';
+import { FftReal } from './fft-real';
+
+/**
+ * A discrete cosine transform (DCT) of type I, II, III or IV.
+ * <p>
+ * For a sequence x[n] of length N, the transforms computed here are
+ * <pre>
+ *   I:   y[k] = x[0] + (-1)^k x[N-1] + 2 sum x[n] cos(PI k n / (N-1))
+ *   II:  y[k] = 2 sum x[n] cos(PI k (2n+1) / (2N))
+ *   III: y[k] = x[0] + 2 sum x[n] cos(PI n (2k+1) / (2N))
+ *   IV:  y[k] = 2 sum x[n] cos(PI (2n+1) (2k+1) / (4N))
+ * </pre>
+ * where sums are over interior samples for type I, over samples n &gt; 0
+ * for type III, and over all samples for types II and IV. (These are the
+ * definitions used, for example, by FFTW and SciPy.) The type-I transform
+ * requires N &gt; 1.
+ * <p>
+ * With orthonormal scaling, transforms are scaled (and, for types I, II
+ * and III, the first and last samples are weighted) so that the transform
+ * is an orthogonal matrix. Then the inverse of a transform is its
+ * transpose: types I and IV are their own inverses, and types II and III
+ * are inverses of each other. Without orthonormal scaling, inverses are
+ * scaled by 1 / (2 * (N - 1)) for type I and by 1 / (2 * N) otherwise.
+ * <p>
+ * Transforms are computed with {@link FftReal} in exact-length mode, in
+ * O(N log N) time, for any length N.
+ * <p>
+ * Multi-dimensional arrays are transformed in all dimensions. For all
+ * methods, input and output arrays may be the same array.
+ */
+export class Dct {
+
+  private readonly _type: TrigTransformType;
+  private readonly _orthonormal: boolean;
+  private readonly _ffts = new Map<number, FftReal>();
+
+  /**
+   * Constructs a discrete cosine transform.
+   * @param type the transform type; default is 2.
+   * @param orthonormal true, for orthonormal scaling; default is false.
+   */
+  constructor(type: TrigTransformType = 2, orthonormal = false) {
+    Check.argument(type === 1 || type === 2 || type === 3 || type === 4, 'type is 1, 2, 3 or 4');
+    this._type = type;
+    this._orthonormal = orthonormal;
+  }
+
+  /**
+   * Gets the transform type.
+   */
+  get type(): TrigTransformType { return this._type; }
+
+  /**
+   * Determines whether this transform has orthonormal scaling.
+   */
+  get orthonormal(): boolean { return this._orthonormal; }
+
+  /**
+   * Applies this transform to a 1D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[], y: number[]): void;
+
+  /**
+   * Applies this transform to both dimensions of a 2D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[][], y: number[][]): void;
+
+  /**
+   * Applies this transform to all three dimensions of a 3D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[][][], y: number[][][]): void;
+
+  apply(x: number[] | number[][] | number[][][],
+        y: number[] | number[][] | number[][][]): void {
+    applyAll(x, y, x1 => this._transform(this._type, x1));
+  }
+
+  /**
+   * Applies the inverse of this transform to a 1D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyInverse(x: number[], y: number[]): void;
+
+  /**
+   * Applies the inverse of this transform to both dimensions of a 2D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyInverse(x: number[][], y: number[][]): void;
+
+  /**
+   * Applies the inverse of this transform to all three dimensions of a 3D
+   * array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyInverse(x: number[][][], y: number[][][]): void;
+
+  applyInverse(x: number[] | number[][] | number[][][],
+               y: number[] | number[][] | number[][][]): void {
+    const type = inverseType(this._type);
+    applyAll(x, y, x1 => {
+      const y1 = this._transform(type, x1);
+      if (!this._orthonormal) {
+        scale(y1, 1.0 / ( ( type === 1 ) ? 2 * ( x1.length - 1 ) : 2 * x1.length ));
+      }
+      return y1;
+    });
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Returns the transform of one sequence, with scaling.
+   */
+  private _transform(type: TrigTransformType, x: number[]): number[] {
+    const fft = (nfft: number) => cachedFft(this._ffts, nfft);
+    if (!this._orthonormal) {
+      return dct(type, x, fft);
+    }
+    const n = x.length;
+    let y: number[];
+    switch (type) {
+      case 1:
+        Check.argument(n > 1, 'length of type-I transform exceeds 1');
+        x = x.slice();
+        x[0] *= Math.SQRT2;
+        x[n - 1] *= Math.SQRT2;
+        y = dct(1, x, fft);
+        scale(y, Math.sqrt(0.5 / ( n - 1 )));
+        y[0] *= Math.SQRT1_2;
+        y[n - 1] *= Math.SQRT1_2;
+        break;
+      case 2:
+        y = dct(2, x, fft);
+        scale(y, Math.sqrt(0.5 / n));
+        y[0] *= Math.SQRT1_2;
+        break;
+      case 3:
+        x = x.slice();
+        x[0] *= Math.SQRT2;
+        y = dct(3, x, fft);
+        scale(y, Math.sqrt(0.5 / n));
+        break;
+      default:
+        y = dct(4, x, fft);
+        scale(y, Math.sqrt(0.5 / n));
+    }
+    return y;
+  }
+}
+
+/**
+ * Returns the type of the inverse of a transform of specified type.
+ * @internal
+ */
+export function inverseType(type: TrigTransformType): TrigTransformType {
+  return ( type === 2 ) ? 3 : ( type === 3 ) ? 2 : type;
+}
+
+/**
+ * Returns an exact-length real FFT from a cache, constructing it if needed.
+ * @internal
+ */
+export function cachedFft(ffts: Map<number, FftReal>, nfft: number): FftReal {
+  let fft = ffts.get(nfft);
+  if (fft === undefined) {
+    fft = new FftReal(nfft, true);
+    ffts.set(nfft, fft);
+  }
+  return fft;
+}
+
+/**
+ * Multiplies all values of an array by a scale factor.
+ * @internal
+ */
+export function scale(x: number[], s: number): void {
+  for (let i = 0; i < x.length; ++i) { x[i] *= s; }
+}
+
+/**
+ * Applies a 1D transform to all dimensions of a 1D, 2D or 3D array.
+ * @internal
+ */
+export function applyAll(x: number[] | number[][] | number[][][],
+                         y: number[] | number[][] | number[][][],
+                         f: (x1: number[]) => number[]): void {
+  const ndim = arrayDimensions(x);
+  Check.argument(ndim === arrayDimensions(y), 'x and y have the same dimensions');
+  Check.argument(x.length === y.length, 'x.length === y.length');
+  const n = x.length;
+  if (ndim === 1) {
+    const y1 = f(x as number[]);
+    for (let i = 0; i < n; ++i) { y[i] = y1[i]; }
+    return;
+  }
+
+  // Transform all dimensions but the last, then the last dimension.
+  for (let i = 0; i < n; ++i) { applyAll(x[i] as number[] | number[][], y[i] as number[] | number[][], f); }
+  const transformLast = (z: number[][]) => {
+    const m = z[0].length;
+    for (let j = 0; j < m; ++j) {
+      const y1 = f(z.map(zi => zi[j]));
+      for (let i = 0; i < n; ++i) { z[i][j] = y1[i]; }
+    }
+  };
+  if (ndim === 2) {
+    transformLast(y as number[][]);
+  } else {
+    const y3 = y as number[][][];
+    for (let i2 = 0; i2 < y3[0].length; ++i2) {
+      transformLast(y3.map(y2 => y2[i2]));
+    }
+  }
+}
+
+/**
+ * Returns the unscaled discrete cosine transform of one sequence.
+ * @internal
+ */
+export function dct(type: TrigTransformType, x: number[], fft: (nfft: number) => FftReal): number[] {
+  const n = x.length;
+  const y: number[] = zero(n);
+  let v: number[];
+  switch (type) {
+    case 1: {
+
+      // Real FFT of the even extension, of length 2 * (n - 1).
+      Check.argument(n > 1, 'length of type-I transform exceeds 1');
+      const m = 2 * ( n - 1 );
+      v = zero(m + 2);
+      for (let i = 0; i < n; ++i) { v[i] = x[i]; }
+      for (let i = 1; i < n - 1; ++i) { v[m - i] = x[i]; }
+      fft(m).realToComplex(-1, v, v);
+      for (let k = 0; k < n; ++k) { y[k] = v[2 * k]; }
+      break;
+    }
+    case 2: {
+
+      // Real FFT of the half-sample even extension, of length 2 * n,
+      // followed by a half-sample phase shift.
+      v = zero(2 * n + 2);
+      for (let i = 0; i < n; ++i) { v[i] = v[2 * n - 1 - i] = x[i]; }
+      fft(2 * n).realToComplex(-1, v, v);
+      for (let k = 0; k < n; ++k) {
+        const a = Math.PI * k / ( 2 * n );
+        y[k] = v[2 * k] * Math.cos(a) + v[2 * k + 1] * Math.sin(a);
+      }
+      break;
+    }
+    case 3: {
+
+      // Half-sample phase shift, followed by a complex-to-real FFT of
+      // length 2 * n.
+      v = zero(2 * n + 2);
+      for (let i = 0; i < n; ++i) {
+        const a = Math.PI * i / ( 2 * n );
+        v[2 * i] = x[i] * Math.cos(a);
+        v[2 * i + 1] = x[i] * Math.sin(a);
+      }
+      fft(2 * n).complexToReal(1, v, v);
+      for (let k = 0; k < n; ++k) { y[k] = v[k]; }
+      break;
+    }
+    default: {
+
+      // Real FFTs of length 2 * n of x[i] * cos(PI * i / (2 * n)) and
+      // x[i] * sin(PI * i / (2 * n)), combined with a half-sample phase
+      // shift.
+      v = zero(2 * n + 2);
+      const w: number[] = zero(2 * n + 2);
+      for (let i = 0; i < n; ++i) {
+        const a = Math.PI * i / ( 2 * n );
+        v[i] = x[i] * Math.cos(a);
+        w[i] = x[i] * Math.sin(a);
+      }
+      fft(2 * n).realToComplex(-1, v, v);
+      fft(2 * n).realToComplex(-1, w, w);
+      for (let k = 0; k < n; ++k) {
+        const a = Math.PI * ( 2 * k + 1 ) / ( 4 * n );
+        const p = v[2 * k] + w[2 * k + 1];
+        const q = v[2 * k + 1] - w[2 * k];
+        y[k] = 2.0 * ( p * Math.cos(a) + q * Math.sin(a) );
+      }
+    }
+  }
+  return y;
+}
@@ -0,0 +1,178 @@
+import { Check, zero } from '../utils';
+import { TrigTransformType } from '../types';
+import { FftReal } from './fft-real';
+import { applyAll, cachedFft, dct, inverseType, scale } from './dct';
+
+/**
+ * A discrete sine transform (DST) of type I, II, III or IV.
+ * <p>
+ * For a sequence x[n] of length N, the transforms computed here are
+ * <pre>
+ *   I:   y[k] = 2 sum x[n] sin(PI (k+1) (n+1) / (N+1))
+ *   II:  y[k] = 2 sum x[n] sin(PI (k+1) (2n+1) / (2N))
+ *   III: y[k] = (-1)^k x[N-1] + 2 sum x[n] sin(PI (n+1) (2k+1) / (2N))
+ *   IV:  y[k] = 2 sum x[n] sin(PI (2n+1) (2k+1) / (4N))
+ * </pre>
+ * where sums are over samples n &lt; N - 1 for type III, and over all
+ * samples otherwise. (These are the definitions used, for example, by
+ * FFTW and SciPy.)
+ * <p>
+ * With orthonormal scaling, transforms are scaled (and, for types II and
+ * III, the last samples are weighted) so that the transform is an
+ * orthogonal matrix. Then the inverse of a transform is its transpose:
+ * types I and IV are their own inverses, and types II and III are inverses
+ * of each other. Without orthonormal scaling, inverses are scaled by
+ * 1 / (2 * (N + 1)) for type I and by 1 / (2 * N) otherwise.
+ * <p>
+ * Types II, III and IV are computed from the corresponding discrete cosine
+ * transforms {@link Dct}, and type I with {@link FftReal} in exact-length
+ * mode, in O(N log N) time, for any length N.
+ * <p>
+ * Multi-dimensional arrays are transformed in all dimensions. For all
+ * methods, input and output arrays may be the same array.
+ */
+export class Dst {
+
+  private readonly _type: TrigTransformType;
+  private readonly _orthonormal: boolean;
+  private readonly _ffts = new Map<number, FftReal>();
+
+  /**
+   * Constructs a discrete sine transform.
+   * @param type the transform type; default is 2.
+   * @param orthonormal true, for orthonormal scaling; default is false.
+   */
+  constructor(type: TrigTransformType = 2, orthonormal = false) {
+    Check.argument(type === 1 || type === 2 || type === 3 || type === 4, 'type is 1, 2, 3 or 4');
+    this._type = type;
+    this._orthonormal = orthonormal;
+  }
+
+  /**
+   * Gets the transform type.
+   */
+  get type(): TrigTransformType { return this._type; }
+
+  /**
+   * Determines whether this transform has orthonormal scaling.
+   */
+  get orthonormal(): boolean { return this._orthonormal; }
+
+  /**
+   * Applies this transform to a 1D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[], y: number[]): void;
+
+  /**
+   * Applies this transform to both dimensions of a 2D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[][], y: number[][]): void;
+
+  /**
+   * Applies this transform to all three dimensions of a 3D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[][][], y: number[][][]): void;
+
+  apply(x: number[] | number[][] | number[][][],
+        y: number[] | number[][] | number[][][]): void {
+    applyAll(x, y, x1 => this._transform(this._type, x1));
+  }
+
+  /**
+   * Applies the inverse of this transform to a 1D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyInverse(x: number[], y: number[]): void;
+
+  /**
+   * Applies the inverse of this transform to both dimensions of a 2D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyInverse(x: number[][], y: number[][]): void;
+
+  /**
+   * Applies the inverse of this transform to all three dimensions of a 3D
+   * array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyInverse(x: number[][][], y: number[][][]): void;
+
+  applyInverse(x: number[] | number[][] | number[][][],
+               y: number[] | number[][] | number[][][]): void {
+    const type = inverseType(this._type);
+    applyAll(x, y, x1 => {
+      const y1 = this._transform(type, x1);
+      if (!this._orthonormal) {
+        scale(y1, 1.0 / ( ( type === 1 ) ? 2 * ( x1.length + 1 ) : 2 * x1.length ));
+      }
+      return y1;
+    });
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Returns the transform of one sequence, with scaling.
+   */
+  private _transform(type: TrigTransformType, x: number[]): number[] {
+    const n = x.length;
+    const fft = (nfft: number) => cachedFft(this._ffts, nfft);
+    const alternate = (z: number[]) => { for (let i = 1; i < n; i += 2) { z[i] = -z[i]; } };
+    let y: number[];
+    switch (type) {
+      case 1: {
+
+        // Real FFT of the odd extension, of length 2 * (n + 1).
+        const m = 2 * ( n + 1 );
+        const v: number[] = zero(m + 2);
+        for (let i = 0; i < n; ++i) {
+          v[i + 1] = x[i];
+          v[m - 1 - i] = -x[i];
+        }
+        fft(m).realToComplex(-1, v, v);
+        y = zero(n);
+        for (let k = 0; k < n; ++k) { y[k] = -v[2 * k + 3]; }
+        if (this._orthonormal) { scale(y, Math.sqrt(0.5 / ( n + 1 ))); }
+        break;
+      }
+      case 2:
+
+        // DST-II[k] of x[i] is DCT-II[n-1-k] of (-1)^i x[i].
+        y = x.slice();
+        alternate(y);
+        y = dct(2, y, fft).reverse();
+        if (this._orthonormal) {
+          scale(y, Math.sqrt(0.5 / n));
+          y[n - 1] *= Math.SQRT1_2;
+        }
+        break;
+      case 3:
+
+        // DST-III[k] of x[i] is (-1)^k DCT-III[k] of x[n-1-i].
+        y = x.slice().reverse();
+        if (this._orthonormal) { y[0] *= Math.SQRT2; }
+        y = dct(3, y, fft);
+        alternate(y);
+        if (this._orthonormal) { scale(y, Math.sqrt(0.5 / n)); }
+        break;
+      default:
+
+        // DST-IV[k] of x[i] is DCT-IV[n-1-k] of (-1)^i x[i].
+        y = x.slice();
+        alternate(y);
+        y = dct(4, y, fft).reverse();
+        if (this._orthonormal) { scale(y, Math.sqrt(0.5 / n)); }
+    }
+    return y;
+  }
+}
@@ -76,7 +76,7 @@ export class EigenSolver {
       }
 
       // Else if a02 is the largest off-diagonal element, ...
-      else if (aa02 >= aa01 && a02 >= aa12) {
+      else if (aa02 >= aa01 && aa02 >= aa12) {
         u = a22 - a00;
         if (Math.abs(a02) < tiny * Math.abs(u)) {
           t = a02 / u;
@@ -224,6 +224,7 @@ export class EigenSolver {
     // algorithm. This case should be rare.
     if (v0s <= error) {
       EigenSolver._SolveSymmetric3x3QL(a, v, d);
+      return;
     } else {
       v0s = Math.sqrt(1.0 / v0s);
       v00 *= v0s;
@@ -251,7 +252,7 @@ export class EigenSolver {
     // Compute 3rd eigenvector via v2 = v0 x v1;.
     const v20 = v01 * v12 - v02 * v11;
     const v21 = v02 * v10 - v00 * v12;
-    const v22 = v01 * v11 - v01 * v10;
+    const v22 = v00 * v11 - v01 * v10;
 
     // Return eigenvectors.
     v[0][0] = v00;
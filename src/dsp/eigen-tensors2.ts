@@ -0,0 +1,414 @@
+import { Tensors2 } from './tensors2';
+import { EigenSolver } from './eigen-solver';
+import { zero } from '../utils';
+
+/**
+ * An array of eigen-decompositions of tensors for 2D image processing.
+ * Each tensor is a symmetric positive semi-definite 2x2 matrix.
+ * <pre>
+ *   A = | a11 a12 |
+ *       | a12 a22 |
+ * </pre>
+ * Such tensors can be used to parametrize anisotropic image processing.
+ * <p>
+ * The eigen-decomposition of the matrix A is
+ * <pre>
+ *   A = au * u * u' + av * v * v'
+ *     = (au - av) * u * u' + av * I
+ * </pre>
+ * where u and v are orthogonal unit eigenvectors of A. (The notation
+ * u' denotes the transpose of u.) The outer products of eigenvectors are
+ * scaled by the non-negative eigenvalues au and av. The second equation
+ * exploits the identity u * u' + v * v' = I, and makes apparent the
+ * redundancy of the vector v.
+ * <p>
+ * Only the eigenvector u is stored. The eigenvector v is computed from u
+ * such that v = { -u2, u1 }.
+ * <p>
+ * Storage may be reduced by compression, whereby eigenvalues and
+ * eigenvectors are quantized. For compressed tensors, the sum au + av
+ * is stored exactly, but the ratio au / (au + av) and the angle of the
+ * eigenvector u are each quantized to 16 bits.
+ */
+export class EigenTensors2 implements Tensors2 {
+
+  private static readonly AS_SET = 32767.0;
+  private static readonly AS_GET = 1.0 / EigenTensors2.AS_SET;
+  private static readonly AU_SET = 32767.0 / Math.PI;
+  private static readonly AU_GET = 1.0 / EigenTensors2.AU_SET;
+
+  private readonly _n1: number;
+  private readonly _n2: number;
+  private readonly _compressed: boolean;
+
+  private _as: number[][];      // Sum au + av
+  private _au: number[][];      // au
+  private _u1: number[][];      // u1
+  private _u2: number[][];      // u2
+  private _bu: Int16Array[];    // au / (au + av), if compressed
+  private _iu: Int16Array[];    // angle of u, if compressed
+
+  /**
+   * Constructs tensors for specified array dimensions.
+   * <p>
+   * All eigenvalues and eigenvectors u are not set and are initially zero.
+   * @param n1 number of tensors in 1st dimension.
+   * @param n2 number of tensors in 2nd dimension.
+   * @param compressed true, for compressed storage; false, otherwise.
+   */
+  constructor(n1: number, n2: number, compressed: boolean = false) {
+    this._n1 = n1;
+    this._n2 = n2;
+    this._compressed = compressed;
+    this._as = zero(n1, n2);
+    if (compressed) {
+      this._bu = EigenTensors2.short2(n1, n2);
+      this._iu = EigenTensors2.short2(n1, n2);
+    } else {
+      this._au = zero(n1, n2);
+      this._u1 = zero(n1, n2);
+      this._u2 = zero(n1, n2);
+    }
+  }
+
+  /**
+   * Gets the number of tensors in the 1st dimension.
+   * @returns the number of tensors in the 1st dimension.
+   */
+  get n1(): number { return this._n1; }
+
+  /**
+   * Gets the number of tensors in the 2nd dimension.
+   * @returns the number of tensors in the 2nd dimension.
+   */
+  get n2(): number { return this._n2; }
+
+  /**
+   * Determines whether storage of these tensors is compressed.
+   * @returns true, if compressed; false, otherwise.
+   */
+  get compressed(): boolean { return this._compressed; }
+
+  /**
+   * Gets tensor elements for specified indices.
+   * <p>
+   * Note: If passing in an array, its values are edited in-place and
+   * nothing is returned.
+   * @param i1 index for 1st dimension.
+   * @param i2 index for 2nd dimension.
+   * @param a the array { a11, a12, a22 } of tensor elements.
+   * @returns the array { a11, a12, a22 } of tensor elements.
+   */
+  getTensor(i1: number, i2: number, a?: number[]): void | number[] {
+    const e = this.getEigenvalues(i1, i2) as number[];
+    const u = this.getEigenvectorU(i1, i2) as number[];
+    const av = e[1];
+    const au = e[0] - av;
+    const u1 = u[0];
+    const u2 = u[1];
+
+    const a11 = au * u1 * u1 + av;
+    const a12 = au * u1 * u2;
+    const a22 = au * u2 * u2 + av;
+
+    if (a) {
+      a[0] = a11;
+      a[1] = a12;
+      a[2] = a22;
+    } else {
+      return [ a11, a12, a22 ];
+    }
+  }
+
+  /**
+   * Sets tensor elements for specified indices.
+   * <p>
+   * This method first computes an eigen-decomposition of the specified
+   * tensor, and then stores the computed eigenvectors and eigenvalues.
+   * The eigenvalues are ordered such that au &gt;= av &gt;= 0.
+   * @param i1 index for 1st dimension.
+   * @param i2 index for 2nd dimension.
+   * @param a array { a11, a12, a22 } of tensor elements.
+   */
+  setTensor(i1: number, i2: number, a: number[]): void;
+
+  /**
+   * Sets tensor elements for specified indices.
+   * <p>
+   * This method first computes an eigen-decomposition of the specified
+   * tensor, and then stores the computed eigenvectors and eigenvalues.
+   * The eigenvalues are ordered such that au &gt;= av &gt;= 0.
+   * @param i1 index for 1st dimension.
+   * @param i2 index for 2nd dimension.
+   * @param a11 tensor element a11.
+   * @param a12 tensor element a12.
+   * @param a22 tensor element a22.
+   */
+  setTensor(i1: number, i2: number, a11: number, a12: number, a22: number): void;
+
+  setTensor(i1: number, i2: number, a11: number | number[], a12?: number, a22?: number): void {
+    if (a11 instanceof Array) {
+      a12 = a11[1];
+      a22 = a11[2];
+      a11 = a11[0];
+    }
+
+    const aa: number[][] = [
+      [ a11, a12 ],
+      [ a12, a22 ]
+    ];
+    const vv: number[][] = [ [ 0, 0 ], [ 0, 0 ] ];
+    const ev: number[] = [ 0, 0 ];
+
+    EigenSolver.SolveSymmetric2x2(aa, vv, ev);
+
+    const u: number[] = vv[0];
+    const au = ( ev[0] < 0.0 ) ? 0.0 : ev[0];
+    const av = ( ev[1] < 0.0 ) ? 0.0 : ev[1];
+
+    this.setEigenvectorU(i1, i2, u[0], u[1]);
+    this.setEigenvalues(i1, i2, au, av);
+  }
+
+  /**
+   * Sets the eigenvalues for the tensor with specified indices.
+   * @param i1 index for the 1st dimension.
+   * @param i2 index for the 2nd dimension.
+   * @param a array { au, av } of eigenvalues.
+   */
+  setEigenvalues(i1: number, i2: number, a: number[]): void;
+
+  /**
+   * Sets the eigenvalues for the tensor with specified indices.
+   * @param i1 index for the 1st dimension.
+   * @param i2 index for the 2nd dimension.
+   * @param au eigenvalue au.
+   * @param av eigenvalue av.
+   */
+  setEigenvalues(i1: number, i2: number, au: number, av: number): void;
+
+  setEigenvalues(i1: number, i2: number, au: number | number[], av?: number): void {
+    if (au instanceof Array) {
+      av = au[1];
+      au = au[0];
+    }
+    const as = au + av;
+    this._as[i2][i1] = as;
+    if (this._compressed) {
+      const ascale = ( as > 0.0 ) ? EigenTensors2.AS_SET / as : 0.0;
+      this._bu[i2][i1] = Math.round(au * ascale);
+    } else {
+      this._au[i2][i1] = au;
+    }
+  }
+
+  /**
+   * Gets eigenvalues for the tensor with specified indices.
+   * <p>
+   * Note: If passing in an array, its values are edited in-place and
+   * nothing is returned.
+   * @param i1 index for 1st dimension.
+   * @param i2 index for 2nd dimension.
+   * @param a the array { au, av } of eigenvalues.
+   * @returns the array { au, av } of eigenvalues.
+   */
+  getEigenvalues(i1: number, i2: number, a?: number[]): void | number[] {
+    const as = this._as[i2][i1];
+    const au = ( this._compressed )
+      ? this._bu[i2][i1] * EigenTensors2.AS_GET * as
+      : this._au[i2][i1];
+    const av = as - au;
+
+    if (a) {
+      a[0] = au;
+      a[1] = av;
+    } else {
+      return [ au, av ];
+    }
+  }
+
+  /**
+   * Gets eigenvalues for all tensors.
+   * @param au array of eigenvalues au.
+   * @param av array of eigenvalues av.
+   */
+  getAllEigenvalues(au: number[][], av: number[][]): void {
+    const auv = new Array<number>(2);
+    for (let i2 = 0; i2 < this._n2; ++i2) {
+      for (let i1 = 0; i1 < this._n1; ++i1) {
+        this.getEigenvalues(i1, i2, auv);
+        au[i2][i1] = auv[0];
+        av[i2][i1] = auv[1];
+      }
+    }
+  }
+
+  /**
+   * Sets eigenvalues for all tensors.
+   * @param au array of eigenvalues au.
+   * @param av array of eigenvalues av.
+   */
+  setAllEigenvalues(au: number[][], av: number[][]): void {
+    for (let i2 = 0; i2 < this._n2; ++i2) {
+      for (let i1 = 0; i1 < this._n1; ++i1) {
+        this.setEigenvalues(i1, i2, au[i2][i1], av[i2][i1]);
+      }
+    }
+  }
+
+  /**
+   * Sets the eigenvector u for the tensor with specified indices.
+   * <p>
+   * The specified vector is assumed to have length one.
+   * @param i1 index for 1st dimension.
+   * @param i2 index for 2nd dimension.
+   * @param u1 1st component of u.
+   * @param u2 2nd component of u.
+   */
+  setEigenvectorU(i1: number, i2: number, u1: number, u2: number): void {
+    if (this._compressed) {
+      this._iu[i2][i1] = Math.round(Math.atan2(u2, u1) * EigenTensors2.AU_SET);
+    } else {
+      this._u1[i2][i1] = u1;
+      this._u2[i2][i1] = u2;
+    }
+  }
+
+  /**
+   * Gets the eigenvector u for the tensor with specified indices.
+   * <p>
+   * Note: If passing in an array, its values are edited in-place and
+   * nothing is returned.
+   * @param i1 index for 1st dimension.
+   * @param i2 index for 2nd dimension.
+   * @param u array { u1, u2 } of eigenvector components.
+   * @returns array { u1, u2 } of eigenvector components.
+   */
+  getEigenvectorU(i1: number, i2: number, u?: number[]): void | number[] {
+    let u1, u2;
+    if (this._compressed) {
+      const au = this._iu[i2][i1] * EigenTensors2.AU_GET;
+      u1 = Math.cos(au);
+      u2 = Math.sin(au);
+    } else {
+      u1 = this._u1[i2][i1];
+      u2 = this._u2[i2][i1];
+    }
+
+    if (!u) { return [ u1, u2 ]; }
+
+    u[0] = u1;
+    u[1] = u2;
+  }
+
+  /**
+   * Gets the eigenvector v for the tensor with specified indices.
+   * <p>
+   * Note: If passing in an array, its values are edited in-place and
+   * nothing is returned.
+   * @param i1 index for 1st dimension.
+   * @param i2 index for 2nd dimension.
+   * @param v array { v1, v2 } of eigenvector components.
+   * @returns array { v1, v2 } of eigenvector components.
+   */
+  getEigenvectorV(i1: number, i2: number, v?: number[]): void | number[] {
+    const u = this.getEigenvectorU(i1, i2) as number[];
+
+    if (!v) { return [ -u[1], u[0] ]; }
+
+    v[0] = -u[1];
+    v[1] = u[0];
+  }
+
+  /**
+   * Scales eigenvalues of these tensors by specified factors.
+   * @param s array of scale factors.
+   */
+  scale(s: number[][]): void {
+    const a = new Array<number>(2);
+    for (let i2 = 0; i2 < this._n2; ++i2) {
+      for (let i1 = 0; i1 < this._n1; ++i1) {
+        const si = s[i2][i1];
+        this.getEigenvalues(i1, i2, a);
+        this.setEigenvalues(i1, i2, a[0] * si, a[1] * si);
+      }
+    }
+  }
+
+  /**
+   * Inverts these tensors by inverting their eigenvalues.
+   * <p>
+   * Eigenvalues must be positive; otherwise, inverted eigenvalues are
+   * infinite.
+   */
+  invert(): void {
+    const a = new Array<number>(2);
+    for (let i2 = 0; i2 < this._n2; ++i2) {
+      for (let i1 = 0; i1 < this._n1; ++i1) {
+        this.getEigenvalues(i1, i2, a);
+        this.setEigenvalues(i1, i2, 1.0 / a[0], 1.0 / a[1]);
+      }
+    }
+  }
+
+  /**
+   * Inverts these tensors, assumed to be structure tensors.
+   * After inversion, all eigenvalues are in the range (0,1].
+   * Specifically, after inversion, 0 &lt; au &lt;= av &lt;= 1.
+   * <p>
+   * Before inversion, tensors are assumed to be structure tensors, for
+   * which eigenvalues au are not less than their corresponding eigenvalues
+   * av. (Any eigenvalues au for which this condition is not satisfied are
+   * set equal to the corresponding eigenvalue av.) Such structure tensors
+   * can, for example, be computed using {@link LocalOrientFilter}.
+   * Then, if any eigenvalues are equal to zero, this method adds a small
+   * fraction of the largest eigenvalue au to all eigenvalues. If am is the
+   * minimum of the eigenvalues av after this perturbation, then the
+   * parameter p0 is used to compute a0 = pow(am/av,p0) and the parameter
+   * p1 is used to compute a1 = pow(av/au,p1). Inverted eigenvalues are
+   * then au = a0 * a1 and av = a0.
+   * <p>
+   * The parameter p0 is most often zero, so that a0 = 1 for all tensors.
+   * In that case, inversion yields tensors where au = pow(av/au,p1) and
+   * av = 1.
+   * @param p0 power for 1st inverted eigenvalue av.
+   * @param p1 power for ratio of eigenvalues av/au.
+   */
+  invertStructure(p0: number, p1: number): void {
+    const n1 = this._n1;
+    const n2 = this._n2;
+    const au: number[][] = zero(n1, n2);
+    const av: number[][] = zero(n1, n2);
+    this.getAllEigenvalues(au, av);
+    let amax = 0.0;
+    let amin = Number.MAX_VALUE;
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        if (au[i2][i1] < av[i2][i1]) { au[i2][i1] = av[i2][i1]; }
+        amax = Math.max(amax, au[i2][i1]);
+        amin = Math.min(amin, av[i2][i1]);
+      }
+    }
+    const aeps = ( amin > 0.0 ) ? 0.0 : Math.max(amax, Number.MIN_VALUE) * 1.0e-6;
+    const am = amin + aeps;
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        const aui = au[i2][i1] + aeps;
+        const avi = av[i2][i1] + aeps;
+        const a0 = Math.pow(am / avi, p0);
+        const a1 = Math.pow(avi / aui, p1);
+        this.setEigenvalues(i1, i2, a0 * a1, a0);
+      }
+    }
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /** @internal */
+  private static short2(n1: number, n2: number): Int16Array[] {
+    const s = new Array<Int16Array>(n2);
+    for (let i2 = 0; i2 < n2; ++i2) { s[i2] = new Int16Array(n1); }
+    return s;
+  }
+}
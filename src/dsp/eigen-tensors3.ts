@@ -1,5 +1,5 @@
 import { Tensors3 } from './tensors3';
-import { UnitSphereSampling } from '../utils';
+import { UnitSphereSampling, zero } from '../utils';
 import { EigenSolver } from './eigen-solver';
 
 /**
@@ -34,7 +34,7 @@ import { EigenSolver } from './eigen-solver';
  */
 export class EigenTensors3 implements Tensors3 {
 
-  private static readonly AS_SET = Number.MAX_SAFE_INTEGER;
+  private static readonly AS_SET = 32767.0;
   private static readonly AS_GET = 1.0 / EigenTensors3.AS_SET;
 
   private _uss: UnitSphereSampling;
@@ -42,20 +42,35 @@ export class EigenTensors3 implements Tensors3 {
   private readonly _n1: number;
   private readonly _n2: number;
   private readonly _n3: number;
-
-  private _as: number[][][];  // Sum a1 + a2 + a3
-  private _au: number[][][];  // au
-  private _aw: number[][][];  // aw
-  private _u1: number[][][];  // u1
-  private _u2: number[][][];  // u2
-  private _w1: number[][][];  // w1
-  private _w2: number[][][];  // w2
+  private readonly _compressed: boolean;
+
+  private _as: number[][][];    // Sum a1 + a2 + a3
+  private _au: number[][][];    // au
+  private _aw: number[][][];    // aw
+  private _u1: number[][][];    // u1
+  private _u2: number[][][];    // u2
+  private _w1: number[][][];    // w1
+  private _w2: number[][][];    // w2
+  private _bu: Int16Array[][];  // au / (au + av + aw), if compressed
+  private _bw: Int16Array[][];  // aw / (au + av + aw), if compressed
+  private _iu: Int16Array[][];  // sample index of u, if compressed
+  private _iw: Int16Array[][];  // sample index of w, if compressed
 
   private static c3(c1: number, c2: number): number {
     const c3s = 1.0 - c1 * c1 - c2 * c2;
     return ( c3s > 0 ) ? Math.sqrt(c3s) : 0.0;
   }
 
+  /** @internal */
+  private static short3(n1: number, n2: number, n3: number): Int16Array[][] {
+    const s = new Array<Int16Array[]>(n3);
+    for (let i3 = 0; i3 < n3; ++i3) {
+      s[i3] = new Array<Int16Array>(n2);
+      for (let i2 = 0; i2 < n2; ++i2) { s[i3][i2] = new Int16Array(n1); }
+    }
+    return s;
+  }
+
   /**
    * Constructs tensors for specified array dimensions.
    * <p>
@@ -64,13 +79,54 @@ export class EigenTensors3 implements Tensors3 {
    * @param n1 number of tensors in 1st dimension.
    * @param n2 number of tensors in 2nd dimension.
    * @param n3 number of tensors in 3rd dimension.
+   * @param compressed true, for compressed storage; false, otherwise.
    */
-  constructor(n1: number, n2: number, n3: number) {
+  constructor(n1: number, n2: number, n3: number, compressed: boolean = false) {
     this._n1 = n1;
     this._n2 = n2;
     this._n3 = n3;
+    this._compressed = compressed;
+    this._as = zero(n1, n2, n3);
+    if (compressed) {
+      this._uss = new UnitSphereSampling(16);
+      this._bu = EigenTensors3.short3(n1, n2, n3);
+      this._bw = EigenTensors3.short3(n1, n2, n3);
+      this._iu = EigenTensors3.short3(n1, n2, n3);
+      this._iw = EigenTensors3.short3(n1, n2, n3);
+    } else {
+      this._au = zero(n1, n2, n3);
+      this._aw = zero(n1, n2, n3);
+      this._u1 = zero(n1, n2, n3);
+      this._u2 = zero(n1, n2, n3);
+      this._w1 = zero(n1, n2, n3);
+      this._w2 = zero(n1, n2, n3);
+    }
   }
 
+  /**
+   * Gets the number of tensors in the 1st dimension.
+   * @returns the number of tensors in the 1st dimension.
+   */
+  get n1(): number { return this._n1; }
+
+  /**
+   * Gets the number of tensors in the 2nd dimension.
+   * @returns the number of tensors in the 2nd dimension.
+   */
+  get n2(): number { return this._n2; }
+
+  /**
+   * Gets the number of tensors in the 3rd dimension.
+   * @returns the number of tensors in the 3rd dimension.
+   */
+  get n3(): number { return this._n3; }
+
+  /**
+   * Determines whether storage of these tensors is compressed.
+   * @returns true, if compressed; false, otherwise.
+   */
+  get compressed(): boolean { return this._compressed; }
+
   /**
    * Gets tensor elements for specified indices.
    * <p>
@@ -83,26 +139,17 @@ export class EigenTensors3 implements Tensors3 {
    * @returns the array { a11, a12, a13, a22, a23, a33 } of tensor elements.
    */
   getTensor(i1: number, i2: number, i3: number, a?: number[]): void | number[] {
-    const asum: number = this._as[i3][i2][i1];
-    let au, av, aw, u1, u2, u3, w1, w2, w3;
-
-    au = this._au[i3][i2][i1];
-    aw = this._aw[i3][i2][i1];
-
-    u1 = this._u1[i3][i2][i1];
-    u2 = this._u2[i3][i2][i1];
-    u3 = EigenTensors3.c3(u1, u2);
-
-    w1 = this._w1[i3][i2][i1];
-    w2 = this._w2[i3][i2][i1];
-    w3 = EigenTensors3.c3(w1, w2);
-
-    av = asum - au - aw;
-    au -= av;
-    aw -= av;
+    const e = this.getEigenvalues(i1, i2, i3) as number[];
+    const u = this.getEigenvectorU(i1, i2, i3) as number[];
+    const w = this.getEigenvectorW(i1, i2, i3) as number[];
+    const av = e[1];
+    const au = e[0] - av;
+    const aw = e[2] - av;
+    const u1 = u[0], u2 = u[1], u3 = u[2];
+    const w1 = w[0], w2 = w[1], w3 = w[2];
 
     const a11 = au * u1 * u1 + aw * w1 * w1 + av;
-    const a12 = au * u1 * u2 + aw * w1 * w1;
+    const a12 = au * u1 * u2 + aw * w1 * w2;
     const a13 = au * u1 * u3 + aw * w1 * w3;
     const a22 = au * u2 * u2 + aw * w2 * w2 + av;
     const a23 = au * u2 * u3 + aw * w2 * w3;
@@ -120,6 +167,15 @@ export class EigenTensors3 implements Tensors3 {
     }
   }
 
+  /**
+   * Sets the eigenvalues for the tensor with specified indices.
+   * @param i1 index for the 1st dimension.
+   * @param i2 index for the 2nd dimension.
+   * @param i3 index for the 3rd dimension.
+   * @param a array { au, av, aw } of eigenvalues.
+   */
+  setEigenvalues(i1: number, i2: number, i3: number, a: number[]): void;
+
   /**
    * Sets the eigenvalues for the tensor with specified indices.
    * @param i1 index for the 1st dimension.
@@ -129,10 +185,24 @@ export class EigenTensors3 implements Tensors3 {
    * @param av eigenvalue av.
    * @param aw eigenvalue aw.
    */
-  setEigenvalues(i1: number, i2: number, i3: number, au: number, av: number, aw: number): void {
-    this._au[i3][i2][i1] = au;
-    this._aw[i3][i2][i1] = aw;
-    this._as[i3][i2][i1] = au + av + aw;
+  setEigenvalues(i1: number, i2: number, i3: number, au: number, av: number, aw: number): void;
+
+  setEigenvalues(i1: number, i2: number, i3: number, au: number | number[], av?: number, aw?: number): void {
+    if (au instanceof Array) {
+      av = au[1];
+      aw = au[2];
+      au = au[0];
+    }
+    const as = au + av + aw;
+    this._as[i3][i2][i1] = as;
+    if (this._compressed) {
+      const ascale = ( as > 0.0 ) ? EigenTensors3.AS_SET / as : 0.0;
+      this._bu[i3][i2][i1] = Math.round(au * ascale);
+      this._bw[i3][i2][i1] = Math.round(aw * ascale);
+    } else {
+      this._au[i3][i2][i1] = au;
+      this._aw[i3][i2][i1] = aw;
+    }
   }
 
   /**
@@ -149,8 +219,13 @@ export class EigenTensors3 implements Tensors3 {
   getEigenvalues(i1: number, i2: number, i3: number, a?: number[]): void | number[] {
     const asum = this._as[i3][i2][i1];
     let au, aw;
-    au = this._au[i3][i2][i1];
-    aw = this._aw[i3][i2][i1];
+    if (this._compressed) {
+      au = this._bu[i3][i2][i1] * EigenTensors3.AS_GET * asum;
+      aw = this._bw[i3][i2][i1] * EigenTensors3.AS_GET * asum;
+    } else {
+      au = this._au[i3][i2][i1];
+      aw = this._aw[i3][i2][i1];
+    }
 
     if (a) {
       a[0] = au;
@@ -186,6 +261,22 @@ export class EigenTensors3 implements Tensors3 {
     }
   }
 
+  /**
+   * Sets eigenvalues for all tensors.
+   * @param au array of eigenvalues au.
+   * @param av array of eigenvalues av.
+   * @param aw array of eigenvalues aw.
+   */
+  setAllEigenvalues(au: number[][][], av: number[][][], aw: number[][][]): void {
+    for (let i3 = 0; i3 < this._n3; ++i3) {
+      for (let i2 = 0; i2 < this._n2; ++i2) {
+        for (let i1 = 0; i1 < this._n1; ++i1) {
+          this.setEigenvalues(i1, i2, i3, au[i3][i2][i1], av[i3][i2][i1], aw[i3][i2][i1]);
+        }
+      }
+    }
+  }
+
   /**
    * Sets the eigenvector u for the tensor with specified indices.
    * <p>
@@ -206,8 +297,12 @@ export class EigenTensors3 implements Tensors3 {
       u3 = -u3;
     }
 
-    this._u1[i3][i2][i1] = u1;
-    this._u2[i3][i2][i1] = u2;
+    if (this._compressed) {
+      this._iu[i3][i2][i1] = this._uss.getIndex(u1, u2, u3);
+    } else {
+      this._u1[i3][i2][i1] = u1;
+      this._u2[i3][i2][i1] = u2;
+    }
   }
 
   /**
@@ -223,9 +318,16 @@ export class EigenTensors3 implements Tensors3 {
   getEigenvectorU(i1: number, i2: number, i3: number, u?: number[]): void | number[] {
     let u0, u1, u2;
 
-    u0 = this._u1[i3][i2][i1];
-    u1 = this._u2[i3][i2][i1];
-    u2 = EigenTensors3.c3(u0, u1);
+    if (this._compressed) {
+      const p = this._uss.getPoint(this._iu[i3][i2][i1]);
+      u0 = p[0];
+      u1 = p[1];
+      u2 = p[2];
+    } else {
+      u0 = this._u1[i3][i2][i1];
+      u1 = this._u2[i3][i2][i1];
+      u2 = EigenTensors3.c3(u0, u1);
+    }
 
     if (!u) { return [ u0, u1, u2 ]; }
 
@@ -254,8 +356,12 @@ export class EigenTensors3 implements Tensors3 {
       w3 = -w3;
     }
 
-    this._w1[i3][i2][i1] = w1;
-    this._w2[i3][i2][i1] = w2;
+    if (this._compressed) {
+      this._iw[i3][i2][i1] = this._uss.getIndex(w1, w2, w3);
+    } else {
+      this._w1[i3][i2][i1] = w1;
+      this._w2[i3][i2][i1] = w2;
+    }
   }
 
   /**
@@ -271,9 +377,16 @@ export class EigenTensors3 implements Tensors3 {
   getEigenvectorW(i1: number, i2: number, i3: number, w?: number[]): void | number[] {
     let w0, w1, w2;
 
-    w0 = this._w1[i3][i2][i1];
-    w1 = this._w2[i3][i2][i1];
-    w2 = EigenTensors3.c3(w0, w1);
+    if (this._compressed) {
+      const p = this._uss.getPoint(this._iw[i3][i2][i1]);
+      w0 = p[0];
+      w1 = p[1];
+      w2 = p[2];
+    } else {
+      w0 = this._w1[i3][i2][i1];
+      w1 = this._w2[i3][i2][i1];
+      w2 = EigenTensors3.c3(w0, w1);
+    }
 
     if (!w) { return [ w0, w1, w2 ]; }
 
@@ -319,7 +432,7 @@ export class EigenTensors3 implements Tensors3 {
    * @param i3 index for 3rd dimension.
    * @param a array { a11, a12, a13, a22, a23, a33 } of tensor elements.
    */
-  setTensor(i1: number, i2: number, i3: number, a: number);
+  setTensor(i1: number, i2: number, i3: number, a: number[]);
 
   /**
    * Sets tensor elements for specified indices.
@@ -387,4 +500,98 @@ export class EigenTensors3 implements Tensors3 {
     this.setEigenvectorW(i1, i2, i3, w1, w2, w3);
     this.setEigenvalues(i1, i2, i3, au, av, aw);
   }
+
+  /**
+   * Scales eigenvalues of these tensors by specified factors.
+   * @param s array of scale factors.
+   */
+  scale(s: number[][][]): void {
+    const a = new Array<number>(3);
+    for (let i3 = 0; i3 < this._n3; ++i3) {
+      for (let i2 = 0; i2 < this._n2; ++i2) {
+        for (let i1 = 0; i1 < this._n1; ++i1) {
+          const si = s[i3][i2][i1];
+          this.getEigenvalues(i1, i2, i3, a);
+          this.setEigenvalues(i1, i2, i3, a[0] * si, a[1] * si, a[2] * si);
+        }
+      }
+    }
+  }
+
+  /**
+   * Inverts these tensors by inverting their eigenvalues.
+   * <p>
+   * Eigenvalues must be positive; otherwise, inverted eigenvalues are
+   * infinite.
+   */
+  invert(): void {
+    const a = new Array<number>(3);
+    for (let i3 = 0; i3 < this._n3; ++i3) {
+      for (let i2 = 0; i2 < this._n2; ++i2) {
+        for (let i1 = 0; i1 < this._n1; ++i1) {
+          this.getEigenvalues(i1, i2, i3, a);
+          this.setEigenvalues(i1, i2, i3, 1.0 / a[0], 1.0 / a[1], 1.0 / a[2]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Inverts these tensors, assumed to be structure tensors.
+   * After inversion, all eigenvalues are in the range (0,1].
+   * Specifically, after inversion, 0 &lt; au &lt;= av &lt;= aw &lt;= 1.
+   * <p>
+   * Before inversion, tensors are assumed to be structure tensors, for
+   * which eigenvalues au &gt;= av &gt;= aw. (Any eigenvalues not satisfying
+   * this condition are increased until it is satisfied.) Such structure
+   * tensors can, for example, be computed using {@link LocalOrientFilter}.
+   * Then, if any eigenvalues are equal to zero, this method adds a small
+   * fraction of the largest eigenvalue au to all eigenvalues. If am is the
+   * minimum of the eigenvalues aw after this perturbation, then the
+   * parameter p0 is used to compute a0 = pow(am/aw,p0), the parameter
+   * p1 is used to compute a1 = pow(aw/av,p1), and the parameter p2 is used
+   * to compute a2 = pow(av/au,p2). Inverted eigenvalues are then
+   * au = a0 * a1 * a2, av = a0 * a1, and aw = a0.
+   * <p>
+   * The parameter p0 is most often zero, so that a0 = 1 for all tensors.
+   * @param p0 power for 1st inverted eigenvalue aw.
+   * @param p1 power for ratio of eigenvalues aw/av.
+   * @param p2 power for ratio of eigenvalues av/au.
+   */
+  invertStructure(p0: number, p1: number, p2: number): void {
+    const n1 = this._n1;
+    const n2 = this._n2;
+    const n3 = this._n3;
+    const au: number[][][] = zero(n1, n2, n3);
+    const av: number[][][] = zero(n1, n2, n3);
+    const aw: number[][][] = zero(n1, n2, n3);
+    this.getAllEigenvalues(au, av, aw);
+    let amax = 0.0;
+    let amin = Number.MAX_VALUE;
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          if (av[i3][i2][i1] < aw[i3][i2][i1]) { av[i3][i2][i1] = aw[i3][i2][i1]; }
+          if (au[i3][i2][i1] < av[i3][i2][i1]) { au[i3][i2][i1] = av[i3][i2][i1]; }
+          amax = Math.max(amax, au[i3][i2][i1]);
+          amin = Math.min(amin, aw[i3][i2][i1]);
+        }
+      }
+    }
+    const aeps = ( amin > 0.0 ) ? 0.0 : Math.max(amax, Number.MIN_VALUE) * 1.0e-6;
+    const am = amin + aeps;
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          const aui = au[i3][i2][i1] + aeps;
+          const avi = av[i3][i2][i1] + aeps;
+          const awi = aw[i3][i2][i1] + aeps;
+          const a0 = Math.pow(am / awi, p0);
+          const a1 = Math.pow(awi / avi, p1);
+          const a2 = Math.pow(avi / aui, p2);
+          this.setEigenvalues(i1, i2, i3, a0 * a1 * a2, a0 * a1, a0);
+        }
+      }
+    }
+  }
 }
@@ -0,0 +1,122 @@
+import { Check } from '../utils';
+import { NumberArray } from '../types';
+import { FftRadix } from './fft-radix';
+
+/**
+ * A Bluestein (chirp-z) complex-to-complex FFT, for any length.
+ * <p>
+ * Bluestein's algorithm rewrites a discrete Fourier transform of length n
+ * as a convolution of the input, multiplied by a chirp exp(-PI * i * k *
+ * k / n), with the conjugate chirp. That convolution is computed with
+ * radix-2/4 FFTs of a power-of-two length m &gt;= 2 * n - 1. The cost is
+ * therefore O(n log n) for any length n, including prime lengths, though
+ * several times that of a prime-factor FFT for lengths valid for that FFT.
+ * <p>
+ * Chirps and the FFT of the conjugate chirp are computed when this FFT is
+ * constructed, so that an FFT for one length may be efficiently applied
+ * many times.
+ * <p>
+ * Complex numbers are packed into arrays as [real_0, imag_0, real_1,
+ * imag_1, ...], and the sign convention is that of {@link FftPfa}.
+ * <p>
+ * Reference: Bluestein, L.I., 1970, A linear filtering approach to the
+ * computation of discrete Fourier transform: IEEE Transactions on Audio
+ * and Electroacoustics, v. 18, p. 451-455.
+ */
+export class FftBluestein {
+
+  private readonly _n: number;
+  private readonly _m: number;
+  private readonly _w: Float64Array;
+  private readonly _b: Float64Array;
+  private readonly _z: Float64Array;
+
+  /**
+   * Constructs a Bluestein FFT with specified length.
+   * @param n the FFT length; any positive integer.
+   */
+  constructor(n: number) {
+    Check.argument(n > 0 && Math.floor(n) === n, 'n is a positive integer');
+    const m = FftRadix.SmallNFFT(2 * n - 1);
+    this._n = n;
+    this._m = m;
+
+    // Chirp w[k] = exp(-PI * i * k * k / n). Exponents k * k are reduced
+    // modulo 2 * n, to reduce rounding errors for large k.
+    this._w = new Float64Array(2 * n);
+    for (let k = 0; k < n; ++k) {
+      const theta = -Math.PI * ( ( k * k ) % ( 2 * n ) ) / n;
+      this._w[2 * k] = Math.cos(theta);
+      this._w[2 * k + 1] = Math.sin(theta);
+    }
+
+    // FFT of the conjugate chirp, wrapped for circular convolution, and
+    // scaled by 1/m for the inverse FFT.
+    this._b = new Float64Array(2 * m);
+    const s = 1.0 / m;
+    for (let k = 0; k < n; ++k) {
+      const br = s * this._w[2 * k], bi = -s * this._w[2 * k + 1];
+      this._b[2 * k] = br;
+      this._b[2 * k + 1] = bi;
+      if (k > 0) {
+        this._b[2 * ( m - k )] = br;
+        this._b[2 * ( m - k ) + 1] = bi;
+      }
+    }
+    FftRadix.Transform(-1, m, this._b);
+    this._z = new Float64Array(2 * m);
+  }
+
+  /**
+   * Gets the FFT length.
+   */
+  get nfft(): number { return this._n; }
+
+  /**
+   * Gets the power-of-two length of FFTs used to compute convolutions.
+   */
+  get nconv(): number { return this._m; }
+
+  /**
+   * Bluestein complex-to-complex FFT for 1D arrays.
+   * @param sign the sign of the exponent in the Fourier transform.
+   * @param z array[2*nfft] of nfft packed complex numbers.
+   */
+  transform(sign: number, z: NumberArray): void {
+    Check.argument(sign === 1 || sign === -1, 'sign equals 1 or -1');
+    Check.argument(z.length >= 2 * this._n, 'z.length >= 2 * nfft');
+    const n = this._n;
+    const m = this._m;
+    const w = this._w;
+    const a = this._z;
+
+    // The transform with sign 1 is the conjugate of the transform (with
+    // sign -1) of the conjugate.
+    const c = -sign;
+
+    // Multiply by the chirp, and pad with zeros.
+    for (let k = 0, kr = 0, ki = 1; k < n; ++k, kr += 2, ki += 2) {
+      const zr = z[kr], zi = c * z[ki];
+      a[kr] = zr * w[kr] - zi * w[ki];
+      a[ki] = zr * w[ki] + zi * w[kr];
+    }
+    a.fill(0.0, 2 * n);
+
+    // Convolve with the conjugate chirp.
+    FftRadix.Transform(-1, m, a);
+    const b = this._b;
+    for (let kr = 0, ki = 1; kr < 2 * m; kr += 2, ki += 2) {
+      const ar = a[kr], ai = a[ki];
+      a[kr] = ar * b[kr] - ai * b[ki];
+      a[ki] = ar * b[ki] + ai * b[kr];
+    }
+    FftRadix.Transform(1, m, a);
+
+    // Multiply by the chirp.
+    for (let k = 0, kr = 0, ki = 1; k < n; ++k, kr += 2, ki += 2) {
+      const ar = a[kr], ai = a[ki];
+      z[kr] = ar * w[kr] - ai * w[ki];
+      z[ki] = c * ( ar * w[ki] + ai * w[kr] );
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { Check } from '../utils';
+import { NumberArray } from '../types';
+import { FftBluestein } from './fft-bluestein';
 import { FftPfa } from './fft-pfa';
-import { ccopy } from '../utils/array-math';
+import { FftRadix } from './fft-radix';
 
 /**
  * A fast Fourier transform of complex-valued arrays.
@@ -24,10 +26,29 @@ import { ccopy } from '../utils/array-math';
  * numbers to an output array cy[nfft][2*n1] of nfft*n1 complex numbers.
  * In either case, the input array cx and the output array cy may be the
  * same array, such that the transform may be performed in-place.
+ * <p>
+ * One-dimensional arrays may be arrays of numbers or typed arrays
+ * (Float32Array or Float64Array). Multi-dimensional arrays may also be
+ * stored in flat contiguous 1D arrays, with the 1st dimension varying
+ * fastest. For example, a 2D array cx[n2][2*n1] may be stored in a flat
+ * array cx[n2*2*n1], with complex element (i1, i2) in cx[2*(i1+n1*i2)] and
+ * cx[2*(i1+n1*i2)+1]. Flat arrays are transformed without copying them to
+ * arrays of arrays.
+ * <p>
+ * By default, the FFT length must be valid for the prime-factor FFT
+ * {@link FftPfa}, and data are typically padded to such a length. An FFT
+ * constructed in exact-length mode instead accepts any length nfft. Valid
+ * prime-factor lengths are still transformed with the prime-factor FFT,
+ * other powers of two with the radix-2/4 FFT {@link FftRadix}, and all other
+ * lengths (including primes) with the Bluestein FFT {@link FftBluestein}.
  */
 export class FftComplex {
 
   private readonly _nfft: number;
+  private readonly _exact: boolean;
+  private readonly _pfa: boolean;
+  private readonly _radix: boolean;
+  private readonly _bluestein: FftBluestein;
 
   /**
    * Returns an FFT length optimized for speed.
@@ -59,10 +80,10 @@ export class FftComplex {
     Check.argument(sign === 1 || sign === -1, 'sign equals 1 or -1');
   }
 
-  private static _checkArray(a: number[], name: string, n: number);
+  private static _checkArray(a: NumberArray, name: string, n: number);
   private static _checkArray(a: number[][], name: string, n1: number, n2: number);
   private static _checkArray(a: number[][][], name: string, n1: number, n2: number, n3: number);
-  private static _checkArray(a: number[] | number[][] | number[][][], name: string, n1: number, n2?: number, n3?: number): void {
+  private static _checkArray(a: NumberArray | number[][] | number[][][], name: string, n1: number, n2?: number, n3?: number): void {
     if (a[0] instanceof Array) {
       if (a[0][0] instanceof Array) {
         let ok = a.length >= n3;
@@ -90,12 +111,22 @@ export class FftComplex {
    * Constructs a new FFT, with specified length.
    * <p>
    * Valid FFT lengths an be obtained by calling the methods
-   * {@link SmallNFFT} and {@link FastNFFT}.
+   * {@link SmallNFFT} and {@link FastNFFT}. In exact-length mode, any
+   * positive FFT length is valid.
    * @param nfft the FFT length, which must be valid.
+   * @param exact true, for exact-length mode; default is false.
    */
-  constructor(nfft: number) {
-    Check.argument(FftPfa.IsValidNFFT(nfft), `nfft = ${ nfft } is valid FFT length`);
+  constructor(nfft: number, exact = false) {
+    if (exact) {
+      Check.argument(nfft > 0 && Math.floor(nfft) === nfft, `nfft = ${ nfft } is a positive integer`);
+    } else {
+      Check.argument(FftPfa.IsValidNFFT(nfft), `nfft = ${ nfft } is valid FFT length`);
+    }
     this._nfft = nfft;
+    this._exact = exact;
+    this._pfa = FftPfa.IsValidNFFT(nfft);
+    this._radix = !this._pfa && FftRadix.IsValidNFFT(nfft);
+    this._bluestein = ( this._pfa || this._radix ) ? null : new FftBluestein(nfft);
   }
 
   /**
@@ -103,6 +134,11 @@ export class FftComplex {
    */
   get nfft(): number { return this._nfft; }
 
+  /**
+   * Determines whether this FFT was constructed in exact-length mode.
+   */
+  get exact(): boolean { return this._exact; }
+
   /**
    * Computes a complex-to-complex fast Fourier transform.
    * Transforms a 1-D input array cx[2*nfft] of nfft complex numbers
@@ -111,12 +147,14 @@ export class FftComplex {
    * @param cx the input array.
    * @param cy the output array.
    */
-  complexToComplex(sign: number, cx: number[], cy: number[]): void {
+  complexToComplex(sign: number, cx: NumberArray, cy: NumberArray): void {
     FftComplex._checkSign(sign);
     FftComplex._checkArray(cx, 'cx', 2 * this._nfft);
     FftComplex._checkArray(cy, 'cy', 2 * this._nfft);
-    if (cx !== cy) { cy = ccopy(cx, this._nfft); }
-    FftPfa.Transform(sign, this._nfft, cy);
+    if (cx !== cy) {
+      for (let i = 0; i < 2 * this._nfft; ++i) { cy[i] = cx[i]; }
+    }
+    this._transform(sign, cy);
   }
 
   /**
@@ -144,10 +182,32 @@ export class FftComplex {
    * @param cy the output array.
    */
   complexToComplex1(sign: number, cx: number[][][], cy: number[][][], n2: number, n3: number): void;
-  complexToComplex1(sign: number, cx: number[][] | number[][][], cy: number[][] | number[][][], n2: number, n3?: number): void {
+
+  /**
+   * Computes a complex-to-complex dimension-1 fast Fourier transform of
+   * flat arrays.
+   * <p>
+   * Transforms a flat input array cx[n3*n2*2*nfft] of n3*n2*nfft complex
+   * numbers to a flat output array cy[n3*n2*2*nfft] of n3*n2*nfft complex
+   * numbers.
+   * @param sign the sign (1 or -1) of the exponent used in the FFT.
+   * @param cx the input array.
+   * @param cy the output array.
+   * @param n2 the 2nd dimension of arrays.
+   * @param n3 the 3rd dimension of arrays; default is 1.
+   */
+  complexToComplex1(sign: number, cx: NumberArray, cy: NumberArray, n2: number, n3?: number): void;
+
+  complexToComplex1(sign: number, cx: NumberArray | number[][] | number[][][], cy: NumberArray | number[][] | number[][][], n2: number, n3?: number): void {
     FftComplex._checkSign(sign);
 
-    if (cx[0] instanceof Array) {
+    if (!( cx[0] instanceof Array )) {
+      const nfft = this._nfft;
+      const m = n2 * ( ( n3 === undefined ) ? 1 : n3 );
+      FftComplex._checkArray(cx as NumberArray, 'cx', 2 * nfft * m);
+      FftComplex._checkArray(cy as NumberArray, 'cy', 2 * nfft * m);
+      this._transformStrided(sign, cx as NumberArray, cy as NumberArray, m, 2 * nfft, 0, 2);
+    } else if (cx[0] instanceof Array) {
       if (cx[0][0] instanceof Array) {
         cx = cx as number[][][];
         cy = cy as number[][][];
@@ -163,7 +223,7 @@ export class FftComplex {
         FftComplex._checkArray(cx, 'cx', 2 * this._nfft, n2);
         FftComplex._checkArray(cy, 'cy', 2 * this._nfft, n2);
 
-        for (let i2 = 0; i2 < n3; ++i2) { this.complexToComplex(sign, cx[i2], cy[i2]); }
+        for (let i2 = 0; i2 < n2; ++i2) { this.complexToComplex(sign, cx[i2], cy[i2]); }
       }
     }
   }
@@ -193,10 +253,34 @@ export class FftComplex {
    * @param cy the output array.
    */
   complexToComplex2(sign: number, cx: number[][][], cy: number[][][], n1: number, n3: number): void;
-  complexToComplex2(sign: number, cx: number[][] | number[][][], cy: number[][] | number[][][], n1: number, n3?: number): void {
+
+  /**
+   * Computes a complex-to-complex dimension-2 fast Fourier transform of
+   * flat arrays.
+   * <p>
+   * Transforms a flat input array cx[n3*nfft*2*n1] of n3*nfft*n1 complex
+   * numbers to a flat output array cy[n3*nfft*2*n1] of n3*nfft*n1 complex
+   * numbers.
+   * @param sign the sign (1 or -1) of the exponent used in the FFT.
+   * @param cx the input array.
+   * @param cy the output array.
+   * @param n1 the 1st dimension of arrays.
+   * @param n3 the 3rd dimension of arrays; default is 1.
+   */
+  complexToComplex2(sign: number, cx: NumberArray, cy: NumberArray, n1: number, n3?: number): void;
+
+  complexToComplex2(sign: number, cx: NumberArray | number[][] | number[][][], cy: NumberArray | number[][] | number[][][], n1: number, n3?: number): void {
     FftComplex._checkSign(sign);
 
-    if (cx[0] instanceof Array) {
+    if (!( cx[0] instanceof Array )) {
+      const nfft = this._nfft;
+      const m3 = ( n3 === undefined ) ? 1 : n3;
+      FftComplex._checkArray(cx as NumberArray, 'cx', 2 * n1 * nfft * m3);
+      FftComplex._checkArray(cy as NumberArray, 'cy', 2 * n1 * nfft * m3);
+      for (let i3 = 0; i3 < m3; ++i3) {
+        this._transformStrided(sign, cx as NumberArray, cy as NumberArray, n1, 2, i3 * 2 * n1 * nfft, 2 * n1);
+      }
+    } else if (cx[0] instanceof Array) {
       if (cx[0][0] instanceof Array) {
         cx = cx as number[][][];
         cy = cy as number[][][];
@@ -213,10 +297,16 @@ export class FftComplex {
         FftComplex._checkArray(cy, 'cy', 2 * n1, this._nfft);
 
         if (cx !== cy) {
-          for (let i1 = 0; i1 < 2 * this._nfft; ++i1) { cy[i1] = cx[i1]; }
+          for (let i2 = 0; i2 < this._nfft; ++i2) {
+            for (let i1 = 0; i1 < 2 * n1; ++i1) { cy[i2][i1] = cx[i2][i1]; }
+          }
         }
 
-        FftPfa.Transform2a(sign, n1, this._nfft, cy);
+        if (this._pfa) {
+          FftPfa.Transform2a(sign, n1, this._nfft, cy);
+        } else {
+          this._transformColumns(sign, n1, cy);
+        }
       }
 
     }
@@ -234,8 +324,33 @@ export class FftComplex {
    * @param cx the input array.
    * @param cy the output array.
    */
-  complexToComplex3(sign: number, cx: number[][][], cy: number[][][], n1: number, n2: number): void {
+  complexToComplex3(sign: number, cx: number[][][], cy: number[][][], n1: number, n2: number): void;
+
+  /**
+   * Computes a complex-to-complex dimension-3 fast Fourier transform of
+   * flat arrays.
+   * <p>
+   * Transforms a flat input array cx[nfft*n2*2*n1] of nfft*n2*n1 complex
+   * numbers to a flat output array cy[nfft*n2*2*n1] of nfft*n2*n1 complex
+   * numbers.
+   * @param sign the sign (1 or -1) of the exponent used in the FFT.
+   * @param cx the input array.
+   * @param cy the output array.
+   * @param n1 the 1st dimension of arrays.
+   * @param n2 the 2nd dimension of arrays.
+   */
+  complexToComplex3(sign: number, cx: NumberArray, cy: NumberArray, n1: number, n2: number): void;
+
+  complexToComplex3(sign: number, cx: NumberArray | number[][][], cy: NumberArray | number[][][], n1: number, n2: number): void {
     FftComplex._checkSign(sign);
+    if (!( cx[0] instanceof Array )) {
+      FftComplex._checkArray(cx as NumberArray, 'cx', 2 * n1 * n2 * this._nfft);
+      FftComplex._checkArray(cy as NumberArray, 'cy', 2 * n1 * n2 * this._nfft);
+      this._transformStrided(sign, cx as NumberArray, cy as NumberArray, n1 * n2, 2, 0, 2 * n1 * n2);
+      return;
+    }
+    cx = cx as number[][][];
+    cy = cy as number[][][];
     FftComplex._checkArray(cx, 'cx', 2 * n1, n2, this._nfft);
     FftComplex._checkArray(cy, 'cy', 2 * n1, n2, this._nfft);
 
@@ -257,7 +372,7 @@ export class FftComplex {
    * @param n1 1st (only) dimension of the array cx.
    * @param cx the input/output array[2*n1].
    */
-  scale(cx: number[], n1: number): void;
+  scale(cx: NumberArray, n1: number): void;
 
   /**
    * Scales n1*n2 complex numbers in the specified array by 1/nfft.
@@ -280,7 +395,7 @@ export class FftComplex {
    */
   scale(cx: number[][][], n1: number, n2: number, n3: number): void;
 
-  scale(cx: number[] | number[][] | number[][][], n1: number, n2?: number, n3?: number): void {
+  scale(cx: NumberArray | number[][] | number[][][], n1: number, n2?: number, n3?: number): void {
     if (cx[0] instanceof Array) {
       if (cx[0][0] instanceof Array) {
         cx = cx as number[][][];
@@ -290,11 +405,79 @@ export class FftComplex {
         for (let i2 = 0; i2 < n2; ++i2) { this.scale(cx[i2], n1); }
       }
     } else {
-      cx = cx as number[];
+      cx = cx as NumberArray;
       const s = 1.0 / this._nfft;
       let n = 2 * n1;
       while (--n >= 0) { cx[n] *= s; }
     }
   }
 
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Computes one in-place transform of nfft complex numbers, with the
+   * prime-factor, radix-2/4 or Bluestein FFT.
+   */
+  private _transform(sign: number, z: NumberArray): void {
+    if (this._pfa) {
+      FftPfa.Transform(sign, this._nfft, z);
+    } else if (this._radix) {
+      FftRadix.Transform(sign, this._nfft, z);
+    } else {
+      this._bluestein.transform(sign, z);
+    }
+  }
+
+  /**
+   * Computes in-place transforms of the n1 columns of an array z[nfft][2*n1],
+   * for lengths not valid for the prime-factor FFT.
+   */
+  private _transformColumns(sign: number, n1: number, z: number[][]): void {
+    const nfft = this._nfft;
+    const t = new Float64Array(2 * nfft);
+    for (let i1 = 0, j1 = 0; i1 < n1; ++i1, j1 += 2) {
+      for (let i2 = 0, k = 0; i2 < nfft; ++i2, k += 2) {
+        t[k] = z[i2][j1];
+        t[k + 1] = z[i2][j1 + 1];
+      }
+      this._transform(sign, t);
+      for (let i2 = 0, k = 0; i2 < nfft; ++i2, k += 2) {
+        z[i2][j1] = t[k];
+        z[i2][j1 + 1] = t[k + 1];
+      }
+    }
+  }
+
+  /**
+   * Computes m transforms of complex numbers in flat arrays. Transform j
+   * begins at index j0 + j * dj, and consecutive complex numbers in each
+   * transform are separated by stride numbers. Contiguous transforms of
+   * typed arrays are performed in place; others are gathered into and
+   * scattered from a work array.
+   */
+  private _transformStrided(sign: number, cx: NumberArray, cy: NumberArray,
+                            m: number, dj: number, j0: number, stride: number): void {
+    const nfft = this._nfft;
+    const cv: Float32Array | Float64Array = ( stride === 2 && ArrayBuffer.isView(cy) ) ? cy : null;
+    const z = ( cv ) ? null : new Float64Array(2 * nfft);
+    for (let j = 0, jj = j0; j < m; ++j, jj += dj) {
+      if (cv) {
+        if (cx !== cv) {
+          for (let i = jj; i < jj + 2 * nfft; ++i) { cv[i] = cx[i]; }
+        }
+        this._transform(sign, cv.subarray(jj, jj + 2 * nfft));
+      } else {
+        for (let k = 0, i = jj; k < 2 * nfft; k += 2, i += stride) {
+          z[k] = cx[i];
+          z[k + 1] = cx[i + 1];
+        }
+        this._transform(sign, z);
+        for (let k = 0, i = jj; k < 2 * nfft; k += 2, i += stride) {
+          cy[i] = z[k];
+          cy[i + 1] = z[k + 1];
+        }
+      }
+    }
+  }
 }
@@ -1,4 +1,5 @@
 import { Check, binarySearch } from '../utils';
+import { NumberArray } from '../types';
 
 /**
  * A prime-factor (PFA) complex-to-complex FFT.
@@ -221,7 +222,7 @@ export class FftPfa {
    * @param nfft the FFT length.
    * @param z array[2*nfft] of nfft packed complex numbers.
    */
-  static Transform(sign: number, nfft: number, z: number[]): void {
+  static Transform(sign: number, nfft: number, z: NumberArray): void {
     // What is left of n after dividing by factors.
     let nleft = nfft;
 
@@ -349,13 +350,13 @@ export class FftPfa {
 
       // Skip the current factor, if not a mutually prime factor of n
       const ifac = this._kfac[jfac];
-      const ndiv = nleft / ifac;
+      const ndiv = Math.floor(nleft / ifac);
       if (ndiv * ifac !== nleft)
         continue;
 
       // What is left of n (nleft), and n divided by the current factor (m).
       nleft = ndiv;
-      const m = nfft / ifac;
+      const m = Math.floor(nfft / ifac);
 
       // Rotation factor mu and stride mm.
       let mu = 0;
@@ -468,13 +469,13 @@ export class FftPfa {
 
       // Skip the current factor, if not a mutually prime factor of n
       const ifac = this._kfac[jfac];
-      const ndiv = nleft / ifac;
+      const ndiv = Math.floor(nleft / ifac);
       if (ndiv * ifac !== nleft)
         continue;
 
       // What is left of n (nleft), and n divided by the current factor (m).
       nleft = ndiv;
-      const m = nfft / ifac;
+      const m = Math.floor(nfft / ifac);
 
       // Rotation factor mu and stride mm.
       let mu = 0;
@@ -567,7 +568,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa2(z: number[], m: number, j0: number, j1: number): void {
+  private static _pfa2(z: NumberArray, m: number, j0: number, j1: number): void {
     for (let i = 0; i < m; i++) {
       const t1r = z[j0    ] - z[j1    ];
       const t1i = z[j0 + 1] - z[j1 + 1];
@@ -583,7 +584,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa3(z: number[], mu: number, m: number,
+  private static _pfa3(z: NumberArray, mu: number, m: number,
                        j0: number, j1: number, j2: number): void {
     let c1: number;
     if (mu === 1) { c1 = this._P866; } else { c1 = -this._P866; }
@@ -609,7 +610,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa4(z: number[], mu: number, m: number,
+  private static _pfa4(z: NumberArray, mu: number, m: number,
                        j0: number, j1: number, j2: number, j3: number): void {
     let c1: number;
     if (mu === 1) { c1 = this._PONE; } else { c1 = -this._PONE; }
@@ -640,7 +641,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa5(z: number[], mu: number, m: number,
+  private static _pfa5(z: NumberArray, mu: number, m: number,
                        j0: number, j1: number, j2: number, j3: number,
                        j4: number): void {
     let c1, c2, c3;
@@ -705,7 +706,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa7(z: number[], mu: number, m: number,
+  private static _pfa7(z: NumberArray, mu: number, m: number,
                        j0: number, j1: number, j2: number, j3: number,
                        j4: number, j5: number, j6: number): void {
     let c1, c2, c3, c4, c5, c6;
@@ -810,7 +811,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa8(z: number[], mu: number, m: number,
+  private static _pfa8(z: NumberArray, mu: number, m: number,
                        j0: number, j1: number, j2: number, j3: number,
                        j4: number, j5: number, j6: number, j7: number): void {
     let c1, c2, c3;
@@ -895,7 +896,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa9(z: number[], mu: number, m: number,
+  private static _pfa9(z: NumberArray, mu: number, m: number,
                        j0: number, j1: number, j2: number, j3: number,
                        j4: number, j5: number, j6: number, j7: number,
                        j8: number): void {
@@ -1037,7 +1038,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa11(z: number[], mu: number, m: number,
+  private static _pfa11(z: NumberArray, mu: number, m: number,
                         j0: number, j1: number, j2: number, j3: number,
                         j4: number, j5: number, j6: number, j7: number,
                         j8: number, j9: number, j10: number): void {
@@ -1243,7 +1244,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa13(z: number[], mu: number, m: number,
+  private static _pfa13(z: NumberArray, mu: number, m: number,
                         j0: number, j1: number, j2: number, j3: number,
                         j4: number, j5: number, j6: number, j7: number,
                         j8: number, j9: number, j10: number, j11: number,
@@ -1512,7 +1513,7 @@ export class FftPfa {
     }
   }
 
-  private static _pfa16(z: number[], mu: number, m: number,
+  private static _pfa16(z: NumberArray, mu: number, m: number,
                         j0: number, j1: number, j2: number, j3: number,
                         j4: number, j5: number, j6: number, j7: number,
                         j8: number, j9: number, j10: number, j11: number,
@@ -0,0 +1,116 @@
+import { Check } from '../utils';
+import { NumberArray } from '../types';
+
+/**
+ * A radix-2/4 complex-to-complex FFT.
+ * <p>
+ * The FFT length nfft must be a power of two. The transform is computed
+ * in place with radix-4 decimation-in-frequency stages, followed by one
+ * radix-2 stage if nfft is an odd power of two, and then a bit-reversal
+ * permutation. Unlike the prime-factor FFT, the FFT length is not limited
+ * to a table of lengths, and twiddle factors are computed (not tabulated)
+ * for each stage.
+ * <p>
+ * Complex numbers are packed into arrays as [real_0, imag_0, real_1,
+ * imag_1, ...], and the sign convention is that of {@link FftPfa}.
+ */
+export class FftRadix {
+
+  /**
+   * Determines whether the specified FFT length is valid.
+   * @param nfft the FFT length.
+   * @returns true, if FFT length is a power of two; false, otherwise.
+   */
+  static IsValidNFFT(nfft: number): boolean {
+    if (nfft < 1 || Math.floor(nfft) !== nfft) { return false; }
+    while (nfft % 2 === 0) { nfft /= 2; }
+    return nfft === 1;
+  }
+
+  /**
+   * Returns the smallest valid FFT length (a power of two) that is not less
+   * than the specified length n.
+   * @param n the lower bound on FFT length.
+   * @returns the FFT length.
+   */
+  static SmallNFFT(n: number): number {
+    Check.argument(n <= 1073741824, 'n does not exceed 1073741824');
+    let nfft = 1;
+    while (nfft < n) { nfft *= 2; }
+    return nfft;
+  }
+
+  /**
+   * Radix-2/4 complex-to-complex FFT for 1D arrays.
+   * @param sign the sign of the exponent in the Fourier transform.
+   * @param nfft the FFT length; must be a power of two.
+   * @param z array[2*nfft] of nfft packed complex numbers.
+   */
+  static Transform(sign: number, nfft: number, z: NumberArray): void {
+    Check.argument(FftRadix.IsValidNFFT(nfft), `nfft = ${ nfft } is a power of two`);
+
+    // Radix-4 stages. Outputs of each butterfly are stored in the order
+    // 0, 2, 1, 3, so that the final permutation is a bit reversal.
+    let span = nfft;
+    for (; span >= 4; span /= 4) {
+      const q = span / 4;
+      const theta = sign * 2.0 * Math.PI / span;
+      for (let j = 0; j < q; ++j) {
+        const w1r = Math.cos(theta * j), w1i = Math.sin(theta * j);
+        const w2r = Math.cos(theta * 2 * j), w2i = Math.sin(theta * 2 * j);
+        const w3r = Math.cos(theta * 3 * j), w3i = Math.sin(theta * 3 * j);
+        for (let s = 0; s < nfft; s += span) {
+          const i0 = 2 * ( s + j ), i1 = i0 + 2 * q, i2 = i1 + 2 * q, i3 = i2 + 2 * q;
+          const a0r = z[i0], a0i = z[i0 + 1];
+          const a1r = z[i1], a1i = z[i1 + 1];
+          const a2r = z[i2], a2i = z[i2 + 1];
+          const a3r = z[i3], a3i = z[i3 + 1];
+          const t0r = a0r + a2r, t0i = a0i + a2i;
+          const t1r = a0r - a2r, t1i = a0i - a2i;
+          const t2r = a1r + a3r, t2i = a1i + a3i;
+
+          // t3 = sign * i * (a1 - a3)
+          const t3r = -sign * ( a1i - a3i ), t3i = sign * ( a1r - a3r );
+          const b1r = t1r + t3r, b1i = t1i + t3i;
+          const b2r = t0r - t2r, b2i = t0i - t2i;
+          const b3r = t1r - t3r, b3i = t1i - t3i;
+          z[i0] = t0r + t2r;
+          z[i0 + 1] = t0i + t2i;
+          z[i1] = w2r * b2r - w2i * b2i;
+          z[i1 + 1] = w2r * b2i + w2i * b2r;
+          z[i2] = w1r * b1r - w1i * b1i;
+          z[i2 + 1] = w1r * b1i + w1i * b1r;
+          z[i3] = w3r * b3r - w3i * b3i;
+          z[i3 + 1] = w3r * b3i + w3i * b3r;
+        }
+      }
+    }
+
+    // One radix-2 stage, if nfft is an odd power of two.
+    if (span === 2) {
+      for (let i0 = 0; i0 < 2 * nfft; i0 += 4) {
+        const i1 = i0 + 2;
+        const ar = z[i0], ai = z[i0 + 1];
+        z[i0] = ar + z[i1];
+        z[i0 + 1] = ai + z[i1 + 1];
+        z[i1] = ar - z[i1];
+        z[i1 + 1] = ai - z[i1 + 1];
+      }
+    }
+
+    // Bit-reversal permutation.
+    for (let i = 0, j = 0; i < nfft; ++i) {
+      if (i < j) {
+        let t = z[2 * i];
+        z[2 * i] = z[2 * j];
+        z[2 * j] = t;
+        t = z[2 * i + 1];
+        z[2 * i + 1] = z[2 * j + 1];
+        z[2 * j + 1] = t;
+      }
+      let bit = nfft >> 1;
+      for (; bit > 0 && ( j & bit ) !== 0; bit >>= 1) { j ^= bit; }
+      j |= bit;
+    }
+  }
+}
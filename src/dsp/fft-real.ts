@@ -1,4 +1,6 @@
 import { arrayDimensions, Check } from '../utils';
+import { NumberArray } from '../types';
+import { FftComplex } from './fft-complex';
 import { FftPfa } from './fft-pfa';
 
 /**
@@ -37,11 +39,27 @@ import { FftPfa } from './fft-pfa';
  * of complex number in multi-dimensional array of numbers. (See above.)
  * Therefore, dimension-1 transforms are best when performing real-to-complex
  * of complex-to-real transforms of multi-dimensional arrays.
- *
+ * <p>
+ * One-dimensional arrays may be arrays of numbers or typed arrays
+ * (Float32Array or Float64Array). Multi-dimensional arrays may also be
+ * stored in flat contiguous 1D arrays, with the 1st dimension varying
+ * fastest. For example, a 2D array rx[n2][nfft] may be stored in a flat
+ * array rx[n2*nfft], and the corresponding array cy[n2][nfft+2] in a flat
+ * array cy[n2*(nfft+2)]. Flat arrays are transformed without copying them
+ * to arrays of arrays.
+ * <p>
+ * By default, half the FFT length must be valid for the prime-factor FFT
+ * {@link FftPfa}. An FFT constructed in exact-length mode instead accepts
+ * any even length nfft, and computes complex transforms of length nfft/2
+ * with an exact-length {@link FftComplex}. (For odd lengths, use an
+ * exact-length complex FFT with zero imaginary parts.)
  */
 export class FftReal {
 
   private readonly _nfft: number;
+  private readonly _exact: boolean;
+  private readonly _pfa: boolean;
+  private readonly _half: FftComplex;
 
   /**
    * Returns an FFT length optimized for memory.
@@ -73,14 +91,14 @@ export class FftReal {
     Check.argument(sign === 1 || sign === -1, 'sign equals 1 or -1');
   }
 
-  private static _checkArray(a: number[], name: string, n: number);
+  private static _checkArray(a: NumberArray, name: string, n: number);
   private static _checkArray(a: number[][], name: string, n1: number, n2: number);
   private static _checkArray(a: number[][][], name: string, n1: number, n2: number, n3: number);
-  private static _checkArray(a: number[] | number[][] | number[][][], name: string, n1: number, n2?: number, n3?: number): void {
+  private static _checkArray(a: NumberArray | number[][] | number[][][], name: string, n1: number, n2?: number, n3?: number): void {
     let ok;
     switch (arrayDimensions(a)) {
       case 1:
-        a = a as number[];
+        a = a as NumberArray;
 
         Check.argument(a.length >= n1, `dimensions of ${ name } are valid`);
         break;
@@ -112,14 +130,23 @@ export class FftReal {
    * Constructs a new FFT with the specified length.
    * <p>
    * Valid FFT lengths an be obtained by calling the methods
-   * {@link SmallNFFT} and {@link FastNFFT}.
+   * {@link SmallNFFT} and {@link FastNFFT}. In exact-length mode, any
+   * positive even FFT length is valid.
    * @param nfft the FFT length, which must be valid.
+   * @param exact true, for exact-length mode; default is false.
    */
-  constructor(nfft: number) {
-    Check.argument(
-      nfft % 2 === 0 && FftPfa.IsValidNFFT(Math.floor(nfft / 2)),
-      'nfft = ' + nfft + ' is valid FFT length');
+  constructor(nfft: number, exact = false) {
+    if (exact) {
+      Check.argument(nfft > 0 && nfft % 2 === 0, 'nfft = ' + nfft + ' is a positive even integer');
+    } else {
+      Check.argument(
+        nfft % 2 === 0 && FftPfa.IsValidNFFT(Math.floor(nfft / 2)),
+        'nfft = ' + nfft + ' is valid FFT length');
+    }
     this._nfft = nfft;
+    this._exact = exact;
+    this._pfa = FftPfa.IsValidNFFT(Math.floor(nfft / 2));
+    this._half = new FftComplex(Math.floor(nfft / 2), exact);
   }
 
   /**
@@ -127,6 +154,11 @@ export class FftReal {
    */
   get nfft(): number { return this._nfft; }
 
+  /**
+   * Determines whether this FFT was constructed in exact-length mode.
+   */
+  get exact(): boolean { return this._exact; }
+
   /**
    * Computes a real-to-complex fast Fourier transform.
    * <p>
@@ -136,7 +168,7 @@ export class FftReal {
    * @param rx the input array.
    * @param cy the output array.
    */
-  realToComplex(sign: number, rx: number[], cy: number[]): void {
+  realToComplex(sign: number, rx: NumberArray, cy: NumberArray): void {
     FftReal._checkSign(sign);
     FftReal._checkArray(rx, 'rx', this._nfft);
     FftReal._checkArray(cy, 'cy', this._nfft + 2);
@@ -145,7 +177,7 @@ export class FftReal {
     let n = nfft;
     while (--n >= 0) { cy[n] = 0.5 * rx[n]; }
 
-    FftPfa.Transform(sign, Math.floor(nfft / 2), cy);
+    this._half.complexToComplex(sign, cy, cy);
 
     cy[nfft] = 2.0 * ( cy[0] - cy[1] );
     cy[0] = 2.0 * ( cy[0] + cy[1] );
@@ -188,7 +220,7 @@ export class FftReal {
    * @param cx the input array.
    * @param ry the output array.
    */
-  complexToReal(sign: number, cx: number[], ry: number[]): void {
+  complexToReal(sign: number, cx: NumberArray, ry: NumberArray): void {
     FftReal._checkSign(sign);
     FftReal._checkArray(cx, 'cx', this._nfft + 2);
     FftReal._checkArray(ry, 'ry', this._nfft);
@@ -226,7 +258,7 @@ export class FftReal {
       wr += wr * wpr - wi * wpi;
       wi += wi * wpr + wt * wpi;
     }
-    FftPfa.Transform(sign, Math.floor(nfft / 2), ry);
+    this._half.complexToComplex(sign, ry, ry);
   }
 
   /**
@@ -254,10 +286,41 @@ export class FftReal {
    */
   realToComplex1(sign: number, rx: number[][][], cy: number[][][], n2: number, n3?: number): void;
 
-  realToComplex1(sign: number, rx: number[][] | number[][][], cy: number[][] | number[][][], n2: number, n3?: number): void {
+  /**
+   * Computes a real-to-complex dimension-1 fast Fourier transform of flat
+   * arrays.
+   * <p>
+   * Transforms a flat input array rx[n3*n2*nfft] of n3*n2*nfft real numbers
+   * to a flat output array cy[n3*n2*(nfft+2)] of n3*n2*(nfft/2+1) complex
+   * numbers.
+   * @param sign the sign (1 or -1) of the exponent used in the FFT.
+   * @param rx the input array.
+   * @param cy the output array.
+   * @param n2 the 2nd dimension of arrays.
+   * @param n3 the 3rd dimension of arrays; default is 1.
+   */
+  realToComplex1(sign: number, rx: NumberArray, cy: NumberArray, n2: number, n3?: number): void;
+
+  realToComplex1(sign: number, rx: NumberArray | number[][] | number[][][], cy: NumberArray | number[][] | number[][][], n2: number, n3?: number): void {
     FftReal._checkSign(sign);
 
-    if (rx[0] instanceof Array) {
+    if (!( rx[0] instanceof Array )) {
+      rx = rx as NumberArray;
+      cy = cy as NumberArray;
+      const nfft = this._nfft;
+      const m = n2 * ( ( n3 === undefined ) ? 1 : n3 );
+
+      FftReal._checkArray(rx, 'rx', nfft * m);
+      FftReal._checkArray(cy, 'cy', ( nfft + 2 ) * m);
+
+      // Rows in reverse order, so that input and output may be the same.
+      const z = new Float64Array(nfft + 2);
+      for (let j = m - 1; j >= 0; --j) {
+        for (let i = 0, ix = j * nfft; i < nfft; ++i, ++ix) { z[i] = rx[ix]; }
+        this.realToComplex(sign, z, z);
+        for (let i = 0, iy = j * ( nfft + 2 ); i < nfft + 2; ++i, ++iy) { cy[iy] = z[i]; }
+      }
+    } else if (rx[0] instanceof Array) {
       if (rx[0][0] instanceof Array) {
         rx = rx as number[][][];
         cy = cy as number[][][];
@@ -302,10 +365,41 @@ export class FftReal {
    */
   complexToReal1(sign: number, cx: number[][][], ry: number[][][], n2: number, n3: number): void;
 
-  complexToReal1(sign: number, cx: number[][] | number[][][], ry: number[][] | number[][][], n2: number, n3?: number): void {
+  /**
+   * Computes a complex-to-real dimension-1 fast Fourier transform of flat
+   * arrays.
+   * <p>
+   * Transforms a flat input array cx[n3*n2*(nfft+2)] of n3*n2*(nfft/2+1)
+   * complex numbers to a flat output array ry[n3*n2*nfft] of n3*n2*nfft
+   * real numbers.
+   * @param sign the sign (1 or -1) of the exponent used in the FFT.
+   * @param cx the input array.
+   * @param ry the output array.
+   * @param n2 the 2nd dimension of arrays.
+   * @param n3 the 3rd dimension of arrays; default is 1.
+   */
+  complexToReal1(sign: number, cx: NumberArray, ry: NumberArray, n2: number, n3?: number): void;
+
+  complexToReal1(sign: number, cx: NumberArray | number[][] | number[][][], ry: NumberArray | number[][] | number[][][], n2: number, n3?: number): void {
     FftReal._checkSign(sign);
 
-    if (cx[0][0] instanceof Array) {
+    if (!( cx[0] instanceof Array )) {
+      cx = cx as NumberArray;
+      ry = ry as NumberArray;
+      const nfft = this._nfft;
+      const m = n2 * ( ( n3 === undefined ) ? 1 : n3 );
+
+      FftReal._checkArray(cx, 'cx', ( nfft + 2 ) * m);
+      FftReal._checkArray(ry, 'ry', nfft * m);
+
+      // Rows in order, so that input and output may be the same.
+      const z = new Float64Array(nfft + 2);
+      for (let j = 0; j < m; ++j) {
+        for (let i = 0, ix = j * ( nfft + 2 ); i < nfft + 2; ++i, ++ix) { z[i] = cx[ix]; }
+        this.complexToReal(sign, z, z);
+        for (let i = 0, iy = j * nfft; i < nfft; ++i, ++iy) { ry[iy] = z[i]; }
+      }
+    } else if (cx[0][0] instanceof Array) {
       cx = cx as number[][][];
       ry = ry as number[][][];
 
@@ -335,9 +429,30 @@ export class FftReal {
    * @param rx the input array.
    * @param cy the output array.
    */
-  realToComplex2(sign: number, n1: number, rx: number[][], cy: number[][]): void {
+  realToComplex2(sign: number, n1: number, rx: number[][], cy: number[][]): void;
+
+  /**
+   * Computes a real-to-complex dimension-2 fast Fourier transform of flat
+   * arrays.
+   * <p>
+   * Transforms a flat input array rx[nfft*n1] of nfft*n1 real numbers to a
+   * flat output array cy[(nfft/2+1)*2*n1] of (nfft/2+1)*n1 complex numbers.
+   * @param sign the sign (1 or -1) of the exponent used in the FFT.
+   * @param n1 the 1st dimension of arrays.
+   * @param rx the input array.
+   * @param cy the output array.
+   */
+  realToComplex2(sign: number, n1: number, rx: NumberArray, cy: NumberArray): void;
+
+  realToComplex2(sign: number, n1: number, rx: NumberArray | number[][], cy: NumberArray | number[][]): void {
     FftReal._checkSign(sign);
-    FftReal._checkArray(rx, 'rx', this._nfft, n1);
+    if (!( rx[0] instanceof Array )) {
+      this._realToComplex2Flat(sign, n1, rx as NumberArray, cy as NumberArray);
+      return;
+    }
+    rx = rx as number[][];
+    cy = cy as number[][];
+    FftReal._checkArray(rx, 'rx', n1, this._nfft);
     FftReal._checkArray(cy, 'cy', 2 * n1, this._nfft / 2 + 1);
 
     // Pack real input rx into complex output cy. This is complicated
@@ -350,7 +465,7 @@ export class FftReal {
     }
 
     // Dimension-2 complex-to-complex transform.
-    FftPfa.Transform2a(sign, n1, this._nfft / 2, cy);
+    this._half.complexToComplex2(sign, cy, cy, n1);
 
     // Finish transform.
     const cy0: number[] = cy[0];
@@ -402,8 +517,30 @@ export class FftReal {
    * @param cx the input array.
    * @param ry the output array.
    */
-  complexToReal2(sign: number, n1: number, cx: number[][], ry: number[][]): void {
+  complexToReal2(sign: number, n1: number, cx: number[][], ry: number[][]): void;
+
+  /**
+   * Computes a complex-to-real dimension-2 fast Fourier transform of flat
+   * arrays.
+   * <p>
+   * Transforms a flat input array cx[(nfft/2+1)*2*n1] of (nfft/2+1)*n1
+   * complex numbers to a flat output array ry[nfft*n1] of nfft*n1 real
+   * numbers.
+   * @param sign the sign (1 or -1) of the exponent used in the FFT.
+   * @param n1 the 1st dimension of arrays.
+   * @param cx the input array.
+   * @param ry the output array.
+   */
+  complexToReal2(sign: number, n1: number, cx: NumberArray, ry: NumberArray): void;
+
+  complexToReal2(sign: number, n1: number, cx: NumberArray | number[][], ry: NumberArray | number[][]): void {
     FftReal._checkSign(sign);
+    if (!( cx[0] instanceof Array )) {
+      this._complexToReal2Flat(sign, n1, cx as NumberArray, ry as NumberArray);
+      return;
+    }
+    cx = cx as number[][];
+    ry = ry as number[][];
     FftReal._checkArray(cx, 'cx', 2 * n1, this._nfft / 2 + 1);
     FftReal._checkArray(ry, 'ry', n1, this._nfft);
 
@@ -450,7 +587,11 @@ export class FftReal {
     }
 
     // Dimension-2 complex-to-complex transform.
-    FftPfa.Transform2b(sign, n1, this._nfft / 2, ry);
+    if (this._pfa) {
+      FftPfa.Transform2b(sign, n1, this._nfft / 2, ry);
+    } else {
+      this._transform2b(sign, n1, ry);
+    }
   }
 
   /**
@@ -460,7 +601,7 @@ export class FftReal {
    * @param n1 1st (only) dimension of the array rx.
    * @param rx the input/output array[n1].
    */
-  scale(rx: number[], n1: number): void;
+  scale(rx: NumberArray, n1: number): void;
 
   /**
    * Scales n1*n2 real numbers in the specified array by 1/nfft.
@@ -483,11 +624,11 @@ export class FftReal {
    */
   scale(rx: number[][][], n1: number, n2: number, n3: number): void;
 
-  scale(rx: number[] | number[][] | number[][][], n1: number, n2?: number, n3?: number): void {
+  scale(rx: NumberArray | number[][] | number[][][], n1: number, n2?: number, n3?: number): void {
     const dim = arrayDimensions(rx);
     switch (dim) {
       case 1:
-        rx = rx as number[];
+        rx = rx as NumberArray;
         const s = 1.0 / this._nfft;
         while (--n1 >= 0) { rx[n1] *= s; }
         break;
@@ -500,5 +641,65 @@ export class FftReal {
         for (let i3 = 0; i3 < n3; ++i3) { this.scale(rx[i3], n1, n2); }
     }
   }
-}
 
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Computes in-place dimension-2 transforms of length nfft/2, for lengths
+   * not valid for the prime-factor FFT. As for {@link FftPfa.Transform2b},
+   * rows z[0,2,4,...] contain real parts and rows z[1,3,5,...] contain
+   * imaginary parts.
+   */
+  private _transform2b(sign: number, n1: number, z: number[][]): void {
+    const n2 = this._nfft / 2;
+    const t = new Float64Array(2 * n2);
+    for (let i1 = 0; i1 < n1; ++i1) {
+      for (let k = 0; k < 2 * n2; ++k) { t[k] = z[k][i1]; }
+      this._half.complexToComplex(sign, t, t);
+      for (let k = 0; k < 2 * n2; ++k) { z[k][i1] = t[k]; }
+    }
+  }
+
+  /**
+   * Real-to-complex dimension-2 transform of flat arrays. Input values are
+   * first copied, so that input and output may be the same array.
+   */
+  private _realToComplex2Flat(sign: number, n1: number, rx: NumberArray, cy: NumberArray): void {
+    const nfft = this._nfft;
+    FftReal._checkArray(rx, 'rx', nfft * n1);
+    FftReal._checkArray(cy, 'cy', ( nfft + 2 ) * n1);
+    const x = new Float64Array(nfft * n1);
+    for (let i = 0; i < nfft * n1; ++i) { x[i] = rx[i]; }
+    const z = new Float64Array(nfft + 2);
+    for (let i1 = 0; i1 < n1; ++i1) {
+      for (let i2 = 0, ix = i1; i2 < nfft; ++i2, ix += n1) { z[i2] = x[ix]; }
+      this.realToComplex(sign, z, z);
+      for (let k2 = 0, iy = 2 * i1; k2 < nfft + 2; k2 += 2, iy += 2 * n1) {
+        cy[iy] = z[k2];
+        cy[iy + 1] = z[k2 + 1];
+      }
+    }
+  }
+
+  /**
+   * Complex-to-real dimension-2 transform of flat arrays. Input values are
+   * first copied, so that input and output may be the same array.
+   */
+  private _complexToReal2Flat(sign: number, n1: number, cx: NumberArray, ry: NumberArray): void {
+    const nfft = this._nfft;
+    FftReal._checkArray(cx, 'cx', ( nfft + 2 ) * n1);
+    FftReal._checkArray(ry, 'ry', nfft * n1);
+    const x = new Float64Array(( nfft + 2 ) * n1);
+    for (let i = 0; i < ( nfft + 2 ) * n1; ++i) { x[i] = cx[i]; }
+    const z = new Float64Array(nfft + 2);
+    for (let i1 = 0; i1 < n1; ++i1) {
+      for (let k2 = 0, ix = 2 * i1; k2 < nfft + 2; k2 += 2, ix += 2 * n1) {
+        z[k2] = x[ix];
+        z[k2 + 1] = x[ix + 1];
+      }
+      this.complexToReal(sign, z, z);
+      for (let i2 = 0, iy = i1; i2 < nfft; ++i2, iy += n1) { ry[iy] = z[i2]; }
+    }
+  }
+}
@@ -1,7 +1,8 @@
 import { FftReal } from './fft-real';
 import { FftComplex } from './fft-complex';
 import { Sampling } from './sampling';
-import { arrayDimensions, ccopy, Check, copy } from '../utils';
+import { arrayDimensions, ccopy, Check, copy, czero } from '../utils';
+import { NumberArray } from '../types';
 
 /**
  * An easy-to-use fast Fourier transform.
@@ -70,6 +71,11 @@ import { arrayDimensions, ccopy, Check, copy } from '../utils';
  * transforms may be specified. The opposite signs are used for inverse
  * transforms. The default signs are -1 for forward transforms and 1 for
  * inverse transforms.
+ * <p>
+ * Static helpers unpack transformed arrays into arrays of real parts,
+ * imaginary parts, amplitudes or phases, and shift zero frequency to (or
+ * from) the middle of arrays. Sampled frequencies corresponding to values
+ * in transformed arrays are provided for each dimension.
  */
 export class Fft {
 
@@ -121,6 +127,181 @@ export class Fft {
     }
   }
 
+  /**
+   * Returns the real parts of a packed complex array, such as an array
+   * returned by a forward transform.
+   * @param g the packed complex array [real_0, imag_0, real_1, imag_1, ...].
+   * @returns the array of real parts.
+   */
+  static Real(g: number[]): number[];
+
+  /**
+   * Returns the real parts of a 2D packed complex array.
+   * @param g the packed complex array.
+   * @returns the array of real parts.
+   */
+  static Real(g: number[][]): number[][];
+
+  /**
+   * Returns the real parts of a 3D packed complex array.
+   * @param g the packed complex array.
+   * @returns the array of real parts.
+   */
+  static Real(g: number[][][]): number[][][];
+
+  static Real(g: number[] | number[][] | number[][][]): number[] | number[][] | number[][][] {
+    return unpack(g, (gr, gi) => gr);
+  }
+
+  /**
+   * Returns the imaginary parts of a packed complex array, such as an array
+   * returned by a forward transform.
+   * @param g the packed complex array [real_0, imag_0, real_1, imag_1, ...].
+   * @returns the array of imaginary parts.
+   */
+  static Imag(g: number[]): number[];
+
+  /**
+   * Returns the imaginary parts of a 2D packed complex array.
+   * @param g the packed complex array.
+   * @returns the array of imaginary parts.
+   */
+  static Imag(g: number[][]): number[][];
+
+  /**
+   * Returns the imaginary parts of a 3D packed complex array.
+   * @param g the packed complex array.
+   * @returns the array of imaginary parts.
+   */
+  static Imag(g: number[][][]): number[][][];
+
+  static Imag(g: number[] | number[][] | number[][][]): number[] | number[][] | number[][][] {
+    return unpack(g, (gr, gi) => gi);
+  }
+
+  /**
+   * Returns the amplitudes (magnitudes) of a packed complex array, such as
+   * an array returned by a forward transform.
+   * @param g the packed complex array [real_0, imag_0, real_1, imag_1, ...].
+   * @returns the array of amplitudes.
+   */
+  static Amplitude(g: number[]): number[];
+
+  /**
+   * Returns the amplitudes of a 2D packed complex array.
+   * @param g the packed complex array.
+   * @returns the array of amplitudes.
+   */
+  static Amplitude(g: number[][]): number[][];
+
+  /**
+   * Returns the amplitudes of a 3D packed complex array.
+   * @param g the packed complex array.
+   * @returns the array of amplitudes.
+   */
+  static Amplitude(g: number[][][]): number[][][];
+
+  static Amplitude(g: number[] | number[][] | number[][][]): number[] | number[][] | number[][][] {
+    return unpack(g, (gr, gi) => Math.sqrt(gr * gr + gi * gi));
+  }
+
+  /**
+   * Returns the phases of a packed complex array, such as an array returned
+   * by a forward transform.
+   * @param g the packed complex array [real_0, imag_0, real_1, imag_1, ...].
+   * @returns the array of phases, in radians, in [-PI, PI].
+   */
+  static Phase(g: number[]): number[];
+
+  /**
+   * Returns the phases of a 2D packed complex array.
+   * @param g the packed complex array.
+   * @returns the array of phases, in radians.
+   */
+  static Phase(g: number[][]): number[][];
+
+  /**
+   * Returns the phases of a 3D packed complex array.
+   * @param g the packed complex array.
+   * @returns the array of phases, in radians.
+   */
+  static Phase(g: number[][][]): number[][][];
+
+  static Phase(g: number[] | number[][] | number[][][]): number[] | number[][] | number[][][] {
+    return unpack(g, (gr, gi) => Math.atan2(gi, gr));
+  }
+
+  /**
+   * Returns a copy of an array with zero frequency shifted to the middle.
+   * <p>
+   * In each dimension with n samples, the sample with index i is moved to
+   * index (i + n / 2) % n, with n / 2 rounded down. The inverse of this
+   * shift is {@link Fft.IfftShift}. Transforms with centered frequency
+   * samplings need no shift.
+   * @param f the array to be shifted.
+   * @param complex true, if f contains packed complex values; default is
+   *                false.
+   * @returns the shifted array.
+   */
+  static FftShift(f: number[], complex?: boolean): number[];
+
+  /**
+   * Returns a copy of a 2D array with zero frequency shifted to the middle.
+   * @param f the array to be shifted.
+   * @param complex true, if f contains packed complex values; default is
+   *                false.
+   * @returns the shifted array.
+   */
+  static FftShift(f: number[][], complex?: boolean): number[][];
+
+  /**
+   * Returns a copy of a 3D array with zero frequency shifted to the middle.
+   * @param f the array to be shifted.
+   * @param complex true, if f contains packed complex values; default is
+   *                false.
+   * @returns the shifted array.
+   */
+  static FftShift(f: number[][][], complex?: boolean): number[][][];
+
+  static FftShift(f: number[] | number[][] | number[][][], complex: boolean = false): number[] | number[][] | number[][][] {
+    return rollAll(f, complex, n => Math.floor(n / 2));
+  }
+
+  /**
+   * Returns a copy of an array with zero frequency shifted from the middle
+   * back to the first sample. This shift is the inverse of
+   * {@link Fft.FftShift}.
+   * @param f the array to be shifted.
+   * @param complex true, if f contains packed complex values; default is
+   *                false.
+   * @returns the shifted array.
+   */
+  static IfftShift(f: number[], complex?: boolean): number[];
+
+  /**
+   * Returns a copy of a 2D array with zero frequency shifted from the middle
+   * back to the first sample.
+   * @param f the array to be shifted.
+   * @param complex true, if f contains packed complex values; default is
+   *                false.
+   * @returns the shifted array.
+   */
+  static IfftShift(f: number[][], complex?: boolean): number[][];
+
+  /**
+   * Returns a copy of a 3D array with zero frequency shifted from the middle
+   * back to the first sample.
+   * @param f the array to be shifted.
+   * @param complex true, if f contains packed complex values; default is
+   *                false.
+   * @returns the shifted array.
+   */
+  static IfftShift(f: number[][][], complex?: boolean): number[][][];
+
+  static IfftShift(f: number[] | number[][] | number[][][], complex: boolean = false): number[] | number[][] | number[][][] {
+    return rollAll(f, complex, n => Math.ceil(n / 2));
+  }
+
   /**
    * Constructs an FFT for the specified 1D array of real values.
    * <p>
@@ -215,6 +396,9 @@ export class Fft {
       this._init(n1, n2);
     } else if (n1 instanceof Sampling) {
       this._init(n1);
+    } else {
+      if (typeof n2 === 'boolean') { complex = n2; }
+      if (typeof n3 === 'boolean') { complex = n3; }
       if (typeof n1 === 'number' && typeof n2 === 'number' && typeof n3 === 'number') {
         this._init(
           new Sampling(n1),
@@ -231,27 +415,27 @@ export class Fft {
           new Sampling(n1)
         );
       } else if (n1[0] instanceof Array) {
-
+        const m1 = ( complex ) ? 2 : 1;
         if (n1[0][0] instanceof Array) {
           n1 = n1 as unknown as number[][][];
           this._init(
-            new Sampling(n1[0][0].length / 2),
+            new Sampling(n1[0][0].length / m1),
             new Sampling(n1[0].length),
             new Sampling(n1.length)
           );
         } else {
           n1 = n1 as unknown as number[][];
           this._init(
-            new Sampling(n1[0].length / 2),
+            new Sampling(n1[0].length / m1),
             new Sampling(n1.length)
           );
         }
       } else if (n1 instanceof Array) {
-        this._init(new Sampling(n1.length / 2));
+        this._init(new Sampling(n1.length / ( ( complex ) ? 2 : 1 )));
       }
     }
 
-    if (complex) { this.complex = complex };
+    if (complex) { this.complex = complex; }
   }
 
   /**
@@ -420,6 +604,27 @@ export class Fft {
    */
   get frequencySampling3(): Sampling { return this._sk3; }
 
+  /**
+   * Gets the sampled frequencies for the 1st dimension, in the order of
+   * values in transformed arrays.
+   * @returns array of frequencies.
+   */
+  get frequencies1(): number[] { return this._sk1.values(); }
+
+  /**
+   * Gets the sampled frequencies for the 2nd dimension, in the order of
+   * values in transformed arrays.
+   * @returns array of frequencies.
+   */
+  get frequencies2(): number[] { return this._sk2.values(); }
+
+  /**
+   * Gets the sampled frequencies for the 3rd dimension, in the order of
+   * values in transformed arrays.
+   * @returns array of frequencies.
+   */
+  get frequencies3(): number[] { return this._sk3.values(); }
+
   /**
    * Sets the sign used for forward transforms in all dimensions.
    * <p>
@@ -487,16 +692,30 @@ export class Fft {
    */
   applyForward(f: number[][][]): number[][][];
 
-  applyForward(f: number[] | number[][] | number[][][]): number[] | number[][] | number[][][] {
-    const dim = arrayDimensions(f);
-    switch (dim) {
-      case 1:
-        return this._applyForward1(f as number[]);
-      case 2:
-        return this._applyForward2(f as number[][]);
-      default:
-        return this._applyForward3(f as number[][][]);
+  /**
+   * Applies a forward space-to-frequency transform of a flat typed array.
+   * <p>
+   * For a multi-dimensional transform, the array f[nx3*nx2*nx1] contains
+   * values of the corresponding multi-dimensional array, with the 1st
+   * dimension varying fastest. Likewise, the transformed array contains
+   * values of the multi-dimensional transformed array.
+   * @param f the array to be transformed, a sampled function of space.
+   * @returns the transformed array, with the same type as f.
+   */
+  applyForward(f: Float32Array): Float32Array;
+
+  /**
+   * Applies a forward space-to-frequency transform of a flat typed array.
+   * @param f the array to be transformed, a sampled function of space.
+   * @returns the transformed array, with the same type as f.
+   */
+  applyForward(f: Float64Array): Float64Array;
+
+  applyForward(f: NumberArray | number[][] | number[][][]): NumberArray | number[][] | number[][][] {
+    if (f instanceof Array) {
+      return this._applyForwardArrays(f);
     }
+    return this._applyForwardFlat(f);
   }
 
   /**
@@ -520,9 +739,50 @@ export class Fft {
    */
   applyInverse(g: number[][][]): number[][][];
 
-  applyInverse(g: number[] | number[][] | number[][][]): number[] | number[][] | number[][][] {
-    const dim = arrayDimensions(g);
-    switch (dim) {
+  /**
+   * Applies an inverse frequency-to-space transform of a flat typed array.
+   * <p>
+   * For a multi-dimensional transform, the array g contains values of the
+   * corresponding multi-dimensional array of complex numbers, with the 1st
+   * dimension varying fastest.
+   * @param g the array to be transformed, a sampled function of frequency.
+   * @returns the transformed array, with the same type as g.
+   */
+  applyInverse(g: Float32Array): Float32Array;
+
+  /**
+   * Applies an inverse frequency-to-space transform of a flat typed array.
+   * @param g the array to be transformed, a sampled function of frequency.
+   * @returns the transformed array, with the same type as g.
+   */
+  applyInverse(g: Float64Array): Float64Array;
+
+  applyInverse(g: NumberArray | number[][] | number[][][]): NumberArray | number[][] | number[][][] {
+    if (g instanceof Array) {
+      return this._applyInverseArrays(g);
+    }
+    return this._applyInverseFlat(g);
+  }
+
+  /**
+   * Applies a forward transform of an array of numbers or array of arrays.
+   */
+  private _applyForwardArrays(f: number[] | number[][] | number[][][]): number[] | number[][] | number[][][] {
+    switch (arrayDimensions(f)) {
+      case 1:
+        return this._applyForward1(f as number[]);
+      case 2:
+        return this._applyForward2(f as number[][]);
+      default:
+        return this._applyForward3(f as number[][][]);
+    }
+  }
+
+  /**
+   * Applies an inverse transform of an array of numbers or array of arrays.
+   */
+  private _applyInverseArrays(g: number[] | number[][] | number[][][]): number[] | number[][] | number[][][] {
+    switch (arrayDimensions(g)) {
       case 1:
         return this._applyInverse1(g as number[]);
       case 2:
@@ -532,6 +792,97 @@ export class Fft {
     }
   }
 
+  /**
+   * Applies a forward transform of a flat typed array. The array is copied
+   * into one zero-padded work array, of the same type and with the layout
+   * of the transformed array, which is transformed in place and returned.
+   */
+  private _applyForwardFlat(f: Float32Array | Float64Array): Float32Array | Float64Array {
+    const dims = ( this._sx3 ) ? 3 : ( this._sx2 ) ? 2 : 1;
+    const m1 = ( this._complex ) ? 2 : 1;
+    const nx1 = m1 * this._sx1.count;
+    const nx2 = ( dims > 1 ) ? this._sx2.count : 1;
+    const nx3 = ( dims > 2 ) ? this._sx3.count : 1;
+    Check.argument(f.length === nx1 * nx2 * nx3, `f.length equals ${ nx1 * nx2 * nx3 }`);
+    const n1 = 2 * this._sk1.count;
+    const n2 = ( dims > 1 ) ? this._sk2.count : 1;
+    const n3 = ( dims > 2 ) ? this._sk3.count : 1;
+    const g = ( f instanceof Float32Array ) ? new Float32Array(n1 * n2 * n3) : new Float64Array(n1 * n2 * n3);
+    const r = rows(g, n1, n2, n3);
+    for (let i3 = 0, j = 0; i3 < nx3; ++i3) {
+      for (let i2 = 0; i2 < nx2; ++i2, j += nx1) {
+        const r32 = r[i3][i2];
+        r32.set(f.subarray(j, j + nx1));
+        if (this._complex) {
+          this._fft1c.complexToComplex(this._sign1, r32, r32);
+        } else {
+          this._fft1r.realToComplex(this._sign1, r32, r32);
+        }
+      }
+    }
+    if (dims > 1) {
+      for (let i3 = 0, j = 0; i3 < nx3; ++i3, j += n1 * n2) {
+        const g3 = g.subarray(j, j + n1 * this._nfft2);
+        this._fft2.complexToComplex2(this._sign2, g3, g3, n1 / 2);
+      }
+    }
+    if (dims > 2) {
+      const g0 = g.subarray(0, n1 * n2 * this._nfft3);
+      this._fft3.complexToComplex3(this._sign3, g0, g0, n1 / 2, n2);
+    }
+    this._phase(nested(r, dims), dims);
+    this._centerFlat(g, r, dims);
+    return g;
+  }
+
+  /**
+   * Applies an inverse transform of a flat typed array. The array (or a copy
+   * of it, if not overwriting) is transformed in place, and rows of the
+   * result are gathered into a flat array of the same type.
+   */
+  private _applyInverseFlat(g: Float32Array | Float64Array): Float32Array | Float64Array {
+    const dims = ( this._sx3 ) ? 3 : ( this._sx2 ) ? 2 : 1;
+    const n1 = 2 * this._sk1.count;
+    const n2 = ( dims > 1 ) ? this._sk2.count : 1;
+    const n3 = ( dims > 2 ) ? this._sk3.count : 1;
+    Check.argument(g.length === n1 * n2 * n3, `g.length equals ${ n1 * n2 * n3 }`);
+    const m1 = ( this._complex ) ? 2 : 1;
+    const nx1 = this._sx1.count;
+    const nx2 = ( dims > 1 ) ? this._sx2.count : 1;
+    const nx3 = ( dims > 2 ) ? this._sx3.count : 1;
+    const gpad = ( this._overwrite ) ? g : g.slice();
+    const r = rows(gpad, n1, n2, n3);
+    this._uncenterFlat(gpad, r, dims);
+    this._unphase(nested(r, dims), dims);
+    if (dims > 2) {
+      const g0 = gpad.subarray(0, n1 * n2 * this._nfft3);
+      this._fft3.complexToComplex3(-this._sign3, g0, g0, n1 / 2, n2);
+      this._fft3.scale(g0, n1 * n2 * nx3 / 2);
+    }
+    if (dims > 1) {
+      for (let i3 = 0, j = 0; i3 < nx3; ++i3, j += n1 * n2) {
+        const g3 = gpad.subarray(j, j + n1 * this._nfft2);
+        this._fft2.complexToComplex2(-this._sign2, g3, g3, n1 / 2);
+        this._fft2.scale(g3, n1 * nx2 / 2);
+      }
+    }
+    const f = ( g instanceof Float32Array ) ? new Float32Array(m1 * nx1 * nx2 * nx3) : new Float64Array(m1 * nx1 * nx2 * nx3);
+    for (let i3 = 0, j = 0; i3 < nx3; ++i3) {
+      for (let i2 = 0; i2 < nx2; ++i2, j += m1 * nx1) {
+        const r32 = r[i3][i2];
+        if (this._complex) {
+          this._fft1c.complexToComplex(-this._sign1, r32, r32);
+          this._fft1c.scale(r32, nx1);
+        } else {
+          this._fft1r.complexToReal(-this._sign1, r32, r32);
+          this._fft1r.scale(r32, nx1);
+        }
+        f.set(r32.subarray(0, m1 * nx1), j);
+      }
+    }
+    return f;
+  }
+
   /** @internal */
   private _applyInverse1(g: number[]): number[] {
     this._ensureSamplingK1(g);
@@ -653,10 +1004,10 @@ export class Fft {
   }
 
   /** @internal */
-  private _cswap(f: number[] | number[][] | number[][][], n: number, i: number, j: number, dim: number): void {
+  private _cswap(f: NumberArray | number[][] | number[][][], n: number, i: number, j: number, dim: number): void {
     switch (dim) {
       case 1:
-        this._doCswap1(f as number[], n, i, j);
+        this._doCswap1(f as NumberArray, n, i, j);
         break;
       case 2:
         this._doCswap2(f as number[][], n, i, j);
@@ -667,10 +1018,10 @@ export class Fft {
   }
 
   /** @internal */
-  private _doCswap1(f: number[], n: number, i: number, j: number): void {
+  private _doCswap1(f: NumberArray, n: number, i: number, j: number): void {
     let ir = 2 * i, ii = ir + 1;
     let jr = 2 * j, ji = jr + 1;
-    for (const k = 0; k < n; ++i, ir += 2, ii += 2, jr += 2, ji += 2) {
+    for (let k = 0; k < n; ++k, ir += 2, ii += 2, jr += 2, ji += 2) {
       const fir = f[ir];
       f[ir] = f[jr];
       f[jr] = fir;
@@ -701,7 +1052,7 @@ export class Fft {
 
 
   /** @internal */
-  private _cshift(f: number[], n: number, i: number, j: number): void {
+  private _cshift(f: NumberArray, n: number, i: number, j: number): void {
     if (i < j) {
       let ir = 2 * ( i + n - 1 ), ii = ir + 1;
       let jr = 2 * ( j + n - 1 ), ji = jr + 1;
@@ -720,10 +1071,10 @@ export class Fft {
   }
 
   /** @internal */
-  private _crotateLeft(f: number[] | number[][] | number[][][], n: number, j: number, dim: number): void {
+  private _crotateLeft(f: NumberArray | number[][] | number[][][], n: number, j: number, dim: number): void {
     switch (dim) {
       case 1:
-        this._doCrotateLeft1(f as number[], n, j);
+        this._doCrotateLeft1(f as NumberArray, n, j);
         break;
       case 2:
         this._doCrotateLeft2(f as number[][], n, j);
@@ -735,7 +1086,7 @@ export class Fft {
   }
 
   /** @internal */
-  private _doCrotateLeft1(f: number[], n: number, j: number): void {
+  private _doCrotateLeft1(f: NumberArray, n: number, j: number): void {
     const fjr = f[j * 2];
     const fji = f[j * 2 + 1];
     const i = j + 1;
@@ -778,10 +1129,10 @@ export class Fft {
   }
 
   /** @internal */
-  private _crotateRight(f: number[] | number[][] | number[][][], n: number, j: number, dim: number): void {
+  private _crotateRight(f: NumberArray | number[][] | number[][][], n: number, j: number, dim: number): void {
     switch (dim) {
       case 1:
-        this._doCrotateRight1(f as number[], n, j);
+        this._doCrotateRight1(f as NumberArray, n, j);
         break;
       case 2:
         this._doCrotateRight2(f as number[][], n, j);
@@ -792,7 +1143,7 @@ export class Fft {
   }
 
   /** @internal */
-  private _doCrotateRight1(f: number[], n: number, j: number): void {
+  private _doCrotateRight1(f: NumberArray, n: number, j: number): void {
     const m = j + n - 1;
     const fmr = f[m * 2];
     const fmi = f[m * 2 + 1];
@@ -828,22 +1179,22 @@ export class Fft {
   }
 
   /** @internal */
-  private _creflect(f: number[] | number[][] | number[][][], n: number, i: number, dim: number): void {
+  private _creflect(f: NumberArray | NumberArray[] | NumberArray[][], n: number, i: number, dim: number): void {
 
     switch (dim) {
       case 1:
-        this._doCreflect1(f as number[], n, i);
+        this._doCreflect1(f as NumberArray, n, i);
         break;
       case 2:
-        this._doCreflect2(f as number[][], n, i);
+        this._doCreflect2(f as NumberArray[], n, i);
         break;
       default:
-        this._doCreflect3(f as number[][][], n, i);
+        this._doCreflect3(f as NumberArray[][], n, i);
     }
   }
 
   /** @internal */
-  private _doCreflect1(f: number[], n: number, i: number): void {
+  private _doCreflect1(f: NumberArray, n: number, i: number): void {
     let ir = 2 * ( i + 1 ), ii = ir + 1;
     let jr = 2 * ( i - 1 ), ji = jr + 1;
     for (let k = 0; k < n; ++k, ir += 2, ii += 2, jr -= 2, ji -= 2) {
@@ -854,7 +1205,7 @@ export class Fft {
 
 
   /** @internal */
-  private _doCreflect2(f: number[][], n: number, i: number): void {
+  private _doCreflect2(f: NumberArray[], n: number, i: number): void {
     const n2 = f.length;
     for (let i2 = 0, j2 = n2 - 1; i2 < n2; ++i2, --j2) {
       let ir = 2 * ( i + 1 ), ii = ir + 1;
@@ -869,7 +1220,7 @@ export class Fft {
   }
 
   /** @internal */
-  private _doCreflect3(f: number[][][], n: number, i: number): void {
+  private _doCreflect3(f: NumberArray[][], n: number, i: number): void {
     const n2 = f[0].length;
     const n3 = f.length;
     for (let i3 = 0, j3 = n3 - 1; i3 < n3; ++i3, --j3) {
@@ -962,7 +1313,7 @@ export class Fft {
       this._fft2 = new FftComplex(nfft);
       this._nfft2 = nfft;
     }
-    this._sx2 = new Sampling(nk, dk, fk);
+    this._sk2 = new Sampling(nk, dk, fk);
   }
 
   private _updateSampling3(): void {
@@ -988,24 +1339,28 @@ export class Fft {
     this._sk3 = new Sampling(nk, dk, fk);
   }
 
-  private _pad1(f: number[]): number[] {
-    const nk1 = this._sk1.count;
-    return ( this._complex )
-      ? copy(f, f.length).concat(Array(nk1).fill(0.0))
-      : ccopy(f, f.length / 2).concat(Array(nk1).fill(0.0));
+  private _pad1(f?: number[]): number[] {
+    const g: number[] = czero(this._sk1.count);
+    if (f) {
+      const n1 = f.length;
+      for (let i1 = 0; i1 < n1; ++i1) { g[i1] = f[i1]; }
+    }
+    return g;
   }
 
-  private _pad2(f: number[][]): number[][] {
+  private _pad2(f?: number[][]): number[][] {
     const nk2 = this._sk2.count;
-    const g = copy(f);
-    for (let i2 = 0; i2 < nk2; ++i2) { g[i2] = this._pad1(g[i2]); }
+    const nx2 = ( f ) ? f.length : 0;
+    const g = new Array<number[]>(nk2);
+    for (let i2 = 0; i2 < nk2; ++i2) { g[i2] = this._pad1(( i2 < nx2 ) ? f[i2] : null); }
     return g;
   }
 
   private _pad3(f: number[][][]): number[][][] {
     const nk3 = this._sk3.count;
-    const g = copy(f);
-    for (let i3 = 0; i3 < nk3; ++i3) { g[i3] = this._pad2(g[i3]); }
+    const nx3 = f.length;
+    const g = new Array<number[][]>(nk3);
+    for (let i3 = 0; i3 < nk3; ++i3) { g[i3] = this._pad2(( i3 < nx3 ) ? f[i3] : null); }
     return g;
   }
 
@@ -1037,7 +1392,6 @@ export class Fft {
     Check.state(this._sk1 !== null, 'sampling sk1 exists for 1st dimension');
     const l1 = f.length;
     const n1 = this._sk1.count;
-    console.log(l1, n1);
     Check.argument(2 * n1 === l1, 'array length consistent with sampling sk1');
   }
 
@@ -1083,69 +1437,76 @@ export class Fft {
 
   /** @ignore */
   private _doCenter2(f: number[][]): void {
-    if (this._center1) {
-      for (let i2 = 0; i2 < this._nfft2; ++i2) {
-        this._center1d(f[i2]);
-      }
-      this._center2d(f);
-      if (this._center1 && !this._complex) {
-        this._creflect(f, this._nfft1 / 2, this._nfft1 / 2, 2);
-      }
+    for (const f2 of f) { this._center1d(f2); }
+    this._center2d(f);
+    if (this._center1 && !this._complex) {
+      this._creflect(f, this._nfft1 / 2, this._nfft1 / 2, 2);
     }
   }
 
   /** @ignore */
   private _doCenter3(f: number[][][]): void {
-    if (this._center3) { return; }
-    const nk3 = this._sk3.count;
-    const nfft3 = this._nfft3;
-    const even3 = nfft3 % 2 === 0;
-    if (even3) {
-      // nfft even
-      // 0 1 2 3 4 5 6 7 | 8
-      // 4 5 6 7 0 1 2 3 | 4
-      this._cswap(f, nfft3 / 2, 0, nfft3 / 2, 3);
-      f[nk3 - 1] = ccopy(f[0]);
-    } else {
-      // nfft odd
-      // 0 1 2 3 4 5 6
-      // 4 5 6 3 0 1 2
-      // 4 5 6 0 1 2 3
-      this._cswap(f, ( nfft3 - 1 ) / 2, 0, ( nfft3 + 1 ) / 2, 3);
-      this._crotateLeft(f, ( nfft3 + 1 ) / 2, ( nfft3 - 1 ) / 2, 3);
+    for (const f3 of f) {
+      for (const f32 of f3) { this._center1d(f32); }
+      this._center2d(f3);
+    }
+    this._center3d(f);
+    if (this._center1 && !this._complex) {
+      this._creflect(f, this._nfft1 / 2, this._nfft1 / 2, 3);
+    }
+  }
+
+  /**
+   * Centers a flat array with rows r, as _center does for arrays of arrays.
+   * Rows and planes are moved within the flat array g.
+   */
+  private _centerFlat(g: Float32Array | Float64Array, r: NumberArray[][], dims: number): void {
+    for (const r3 of r) {
+      for (const r32 of r3) { this._center1d(r32); }
+    }
+    const n1 = r[0][0].length;
+    const n2 = r[0].length;
+    if (dims > 1 && this._center2) {
+      for (let j = 0; j < g.length; j += n1 * n2) { centerBlocks(g, j, n1, this._nfft2); }
+    }
+    if (dims > 2 && this._center3) {
+      centerBlocks(g, 0, n1 * n2, this._nfft3);
+    }
+    if (this._center1 && !this._complex) {
+      this._creflect(nested(r, dims), this._nfft1 / 2, this._nfft1 / 2, dims);
     }
   }
 
   /** @internal */
-  private _phase(f: number[] | number[][] | number[][][], dim: number): void {
+  private _phase(f: NumberArray | NumberArray[] | NumberArray[][], dim: number): void {
     switch (dim) {
       case 1:
-        this._doPhase1(f as number[], this._sign1);
+        this._doPhase1(f as NumberArray, this._sign1);
         break;
       case 2:
-        this._doPhase2(f as number[][], this._sign1, this._sign2);
+        this._doPhase2(f as NumberArray[], this._sign1, this._sign2);
         break;
       default:
-        this._doPhase3(f as number[][][], this._sign1, this._sign2, this._sign3);
+        this._doPhase3(f as NumberArray[][], this._sign1, this._sign2, this._sign3);
     }
   }
 
   /** @internal */
-  private _unphase(f: number[] | number[][] | number[][][], dim: number): void {
+  private _unphase(f: NumberArray | NumberArray[] | NumberArray[][], dim: number): void {
     switch (dim) {
       case 1:
-        this._doPhase1(f as number[], -this._sign1);
+        this._doPhase1(f as NumberArray, -this._sign1);
         break;
       case 2:
-        this._doPhase2(f as number[][], -this._sign1, -this._sign2);
+        this._doPhase2(f as NumberArray[], -this._sign1, -this._sign2);
         break;
       default:
-        this._doPhase3(f as number[][][], -this._sign1, -this._sign2, -this._sign3);
+        this._doPhase3(f as NumberArray[][], -this._sign1, -this._sign2, -this._sign3);
     }
   }
 
   /** @internal */
-  private _doPhase1(f: number[], sign1: number = this._sign1): void {
+  private _doPhase1(f: NumberArray, sign1: number = this._sign1): void {
     const fx = this._sx1.first;
     if (fx === 0.0) { return; }
     const nk = ( this._complex ) ? this._nfft1 : this._nfft1 / 2 + 1;
@@ -1163,7 +1524,7 @@ export class Fft {
   }
 
   /** @internal */
-  private _doPhase2(f: number[][], sign1: number = this._sign1, sign2: number = this._sign2): void {
+  private _doPhase2(f: NumberArray[], sign1: number = this._sign1, sign2: number = this._sign2): void {
     const fx1 = this._sx1.first;
     const fx2 = this._sx2.first;
     let p, cosp, sinp, fr, fi;
@@ -1189,7 +1550,7 @@ export class Fft {
   }
 
   /** @internal */
-  private _doPhase3(f: number[][][], sign1: number = this._sign1, sign2: number = this._sign2, sign3: number = this._sign3): void {
+  private _doPhase3(f: NumberArray[][], sign1: number = this._sign1, sign2: number = this._sign2, sign3: number = this._sign3): void {
     const fx1 = this._sx1.first;
     const fx2 = this._sx2.first;
     const fx3 = this._sx3.first;
@@ -1219,7 +1580,7 @@ export class Fft {
   }
 
   /** @internal */
-  private _center1d(f: number[]): void {
+  private _center1d(f: NumberArray): void {
     if (!this._center1) { return; }
     const nk1 = this._sk1.count;
     const nfft1 = this._nfft1;
@@ -1281,7 +1642,7 @@ export class Fft {
       // 0 1 2 3 4 5 6 7 | 8
       // 4 5 6 7 0 1 2 3 | 4
       this._cswap(f, nfft3 / 2, 0, nfft3 / 2, 3);
-      f[nk3 - 1] = ccopy(f[0]);
+      f[nk3 - 1] = copy(f[0]);
     } else {
       // nfft odd
       // 0 1 2 3 4 5 6
@@ -1297,15 +1658,40 @@ export class Fft {
     switch (dims) {
       case 1:
         this._uncenter1(f as number[]);
+        break;
       case 2:
+        for (const f2 of f as number[][]) { this._uncenter1(f2); }
         this._uncenter2(f as number[][]);
+        break;
       default:
+        for (const f3 of f as number[][][]) {
+          for (const f32 of f3) { this._uncenter1(f32); }
+          this._uncenter2(f3);
+        }
         this._uncenter3(f as number[][][]);
     }
-  };
+  }
+
+  /**
+   * Uncenters a flat array with rows r, as _uncenter does for arrays of
+   * arrays. Rows and planes are moved within the flat array g.
+   */
+  private _uncenterFlat(g: Float32Array | Float64Array, r: NumberArray[][], dims: number): void {
+    for (const r3 of r) {
+      for (const r32 of r3) { this._uncenter1(r32); }
+    }
+    const n1 = r[0][0].length;
+    const n2 = r[0].length;
+    if (dims > 1 && this._center2) {
+      for (let j = 0; j < g.length; j += n1 * n2) { uncenterBlocks(g, j, n1, this._nfft2); }
+    }
+    if (dims > 2 && this._center3) {
+      uncenterBlocks(g, 0, n1 * n2, this._nfft3);
+    }
+  }
 
   /** @internal */
-  private _uncenter1(f: number[]): void {
+  private _uncenter1(f: NumberArray): void {
     if (!this._center1) { return; }
     const nfft1 = this._nfft1;
     const even1 = nfft1 % 2 === 0;
@@ -1371,3 +1757,117 @@ export class Fft {
     }
   }
 }
+
+/**
+ * Applies a function to the real and imaginary parts of each complex value
+ * in a packed complex array.
+ * @internal
+ */
+function unpack(g: number[] | number[][] | number[][][],
+                f: (gr: number, gi: number) => number): number[] | number[][] | number[][][] {
+  if (arrayDimensions(g) > 1) {
+    return (g as number[][]).map(gi => unpack(gi, f)) as number[][] | number[][][];
+  }
+  const g1 = g as number[];
+  const n = Math.floor(g1.length / 2);
+  const u = new Array<number>(n);
+  for (let i = 0, ir = 0, ii = 1; i < n; ++i, ir += 2, ii += 2) { u[i] = f(g1[ir], g1[ii]); }
+  return u;
+}
+
+/**
+ * Returns a copy of an array circularly shifted in all dimensions, by
+ * shift(n) samples in a dimension with n samples.
+ * @internal
+ */
+function rollAll(f: number[] | number[][] | number[][][], complex: boolean,
+                 shift: (n: number) => number): number[] | number[][] | number[][][] {
+  if (arrayDimensions(f) === 1) {
+    const f1 = f as number[];
+    const m = ( complex ) ? 2 : 1;
+    const n = Math.floor(f1.length / m);
+    const r = shift(n);
+    const g = new Array<number>(f1.length);
+    for (let i = 0; i < n; ++i) {
+      const j = ( i + r ) % n;
+      for (let k = 0; k < m; ++k) { g[m * j + k] = f1[m * i + k]; }
+    }
+    return g;
+  }
+  const fn = f as number[][] | number[][][];
+  const n = fn.length;
+  const r = shift(n);
+  const g = new Array<number[] | number[][]>(n);
+  for (let i = 0; i < n; ++i) { g[( i + r ) % n] = rollAll(fn[i], complex, shift) as number[] | number[][]; }
+  return g as number[][] | number[][][];
+}
+
+/**
+ * Returns views of the rows of a flat array g[n3][n2][n1], with the 1st
+ * dimension varying fastest.
+ * @internal
+ */
+function rows(g: Float32Array | Float64Array, n1: number, n2: number, n3: number): (Float32Array | Float64Array)[][] {
+  const r = new Array<(Float32Array | Float64Array)[]>(n3);
+  for (let i3 = 0, j = 0; i3 < n3; ++i3) {
+    r[i3] = new Array<Float32Array | Float64Array>(n2);
+    for (let i2 = 0; i2 < n2; ++i2, j += n1) { r[i3][i2] = g.subarray(j, j + n1); }
+  }
+  return r;
+}
+
+/**
+ * Returns the row, the rows or the planes of rows of a flat array, for
+ * transforms with the specified number of dimensions.
+ * @internal
+ */
+function nested(r: NumberArray[][], dims: number): NumberArray | NumberArray[] | NumberArray[][] {
+  return ( dims === 1 ) ? r[0][0] : ( dims === 2 ) ? r[0] : r;
+}
+
+/**
+ * Centers nfft blocks of n values, beginning at index j of a flat array,
+ * by rotating them left by (nfft+1)/2 blocks. For even nfft, the first
+ * block is also copied to the block that follows the nfft blocks.
+ * @internal
+ */
+function centerBlocks(g: Float32Array | Float64Array, j: number, n: number, nfft: number): void {
+  rotateBlocks(g, j, n, nfft, Math.floor(( nfft + 1 ) / 2));
+  if (nfft % 2 === 0) { g.copyWithin(j + nfft * n, j, j + n); }
+}
+
+/**
+ * Uncenters nfft blocks of n values, beginning at index j of a flat array,
+ * by rotating them left by nfft/2 blocks.
+ * @internal
+ */
+function uncenterBlocks(g: Float32Array | Float64Array, j: number, n: number, nfft: number): void {
+  rotateBlocks(g, j, n, nfft, Math.floor(nfft / 2));
+}
+
+/**
+ * Rotates m blocks of n values, beginning at index j of a flat array, left
+ * by k blocks, by reversing the first k blocks, the other blocks and then
+ * all blocks.
+ * @internal
+ */
+function rotateBlocks(g: Float32Array | Float64Array, j: number, n: number, m: number, k: number): void {
+  reverseBlocks(g, j, n, k);
+  reverseBlocks(g, j + k * n, n, m - k);
+  reverseBlocks(g, j, n, m);
+}
+
+/**
+ * Reverses the order of m blocks of n values, beginning at index j of a
+ * flat array.
+ * @internal
+ */
+function reverseBlocks(g: Float32Array | Float64Array, j: number, n: number, m: number): void {
+  for (let ib = j, jb = j + ( m - 1 ) * n; ib < jb; ib += n, jb -= n) {
+    for (let i = 0; i < n; ++i) {
+      const gi = g[ib + i];
+      g[ib + i] = g[jb + i];
+      g[jb + i] = gi;
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import { Check, arrayDimensions, zero } from '../utils';
+import { FftReal } from './fft-real';
+
+/**
+ * A Hilbert transform filter, with analytic-signal attributes.
+ * <p>
+ * The Hilbert transform y(t) of a real signal x(t) has Fourier transform
+ * Y(f) = -i * sgn(f) * X(f), where sgn(f) is the sign of the frequency f.
+ * The Hilbert transform of cos(2 * PI * f * t) is sin(2 * PI * f * t).
+ * Here, Fourier transforms use the sign convention of {@link FftReal} with
+ * sign -1 for forward transforms, so that X(f) = sum x(t) exp(-2 * PI * i *
+ * f * t).
+ * <p>
+ * The analytic signal z(t) = x(t) + i * y(t) is complex. Its amplitude
+ * |z(t)| is the envelope (instantaneous amplitude) of x(t), its argument
+ * is the instantaneous phase (in radians), and the rate of change of that
+ * phase, divided by 2 * PI, is the instantaneous frequency (in cycles per
+ * sample). Instantaneous frequencies are computed from phase differences
+ * of adjacent analytic samples, so that they do not require unwrapping of
+ * phase.
+ * <p>
+ * The Hilbert transform is computed with fast Fourier transforms. To
+ * reduce wraparound, each trace is padded with zeros to at least twice its
+ * length.
+ * <p>
+ * Multi-dimensional arrays are processed as arrays of traces: each 1D
+ * array x[i2] of a 2D array x[n2][n1] (or x[i3][i2] of a 3D array) is
+ * transformed independently. For all methods that have an output array,
+ * input and output arrays may be the same array.
+ */
+export class HilbertTransformFilter {
+
+  private _nfft = 0;
+  private _fft: FftReal;
+
+  /**
+   * Applies this filter, computing the Hilbert transform of each trace.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[], y: number[]): void;
+
+  /**
+   * Applies this filter to each trace of a 2D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[][], y: number[][]): void;
+
+  /**
+   * Applies this filter to each trace of a 3D array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply(x: number[][][], y: number[][][]): void;
+
+  apply(x: number[] | number[][] | number[][][],
+        y: number[] | number[][] | number[][][]): void {
+    this._traces(x, y, (x1, y1) => this._hilbert(x1, y1));
+  }
+
+  /**
+   * Returns the analytic signal of each trace.
+   * <p>
+   * Each output trace is a packed complex array [real_0, imag_0, real_1,
+   * imag_1, ...], with twice the length of the input trace.
+   * @param x the input array.
+   * @returns the analytic signal.
+   */
+  analyticSignal(x: number[]): number[];
+
+  /**
+   * Returns the analytic signal of each trace of a 2D array.
+   * @param x the input array.
+   * @returns the analytic signal.
+   */
+  analyticSignal(x: number[][]): number[][];
+
+  /**
+   * Returns the analytic signal of each trace of a 3D array.
+   * @param x the input array.
+   * @returns the analytic signal.
+   */
+  analyticSignal(x: number[][][]): number[][][];
+
+  analyticSignal(x: number[] | number[][] | number[][][]): number[] | number[][] | number[][][] {
+    const ndim = arrayDimensions(x);
+    if (ndim === 1) {
+      return this._analytic(x as number[]);
+    } else if (ndim === 2) {
+      return (x as number[][]).map(x1 => this._analytic(x1));
+    } else {
+      return (x as number[][][]).map(x2 => x2.map(x1 => this._analytic(x1)));
+    }
+  }
+
+  /**
+   * Computes the envelope (instantaneous amplitude) of each trace.
+   * @param x the input array.
+   * @param y the output array of amplitudes.
+   */
+  envelope(x: number[], y: number[]): void;
+
+  /**
+   * Computes the envelope of each trace of a 2D array.
+   * @param x the input array.
+   * @param y the output array of amplitudes.
+   */
+  envelope(x: number[][], y: number[][]): void;
+
+  /**
+   * Computes the envelope of each trace of a 3D array.
+   * @param x the input array.
+   * @param y the output array of amplitudes.
+   */
+  envelope(x: number[][][], y: number[][][]): void;
+
+  envelope(x: number[] | number[][] | number[][][],
+           y: number[] | number[][] | number[][][]): void {
+    this._traces(x, y, (x1, y1) => {
+      const z = this._analytic(x1);
+      for (let i = 0, ir = 0, ii = 1; i < y1.length; ++i, ir += 2, ii += 2) {
+        y1[i] = Math.sqrt(z[ir] * z[ir] + z[ii] * z[ii]);
+      }
+    });
+  }
+
+  /**
+   * Computes the instantaneous phase of each trace.
+   * @param x the input array.
+   * @param y the output array of phases, in radians, in [-PI, PI].
+   */
+  phase(x: number[], y: number[]): void;
+
+  /**
+   * Computes the instantaneous phase of each trace of a 2D array.
+   * @param x the input array.
+   * @param y the output array of phases, in radians.
+   */
+  phase(x: number[][], y: number[][]): void;
+
+  /**
+   * Computes the instantaneous phase of each trace of a 3D array.
+   * @param x the input array.
+   * @param y the output array of phases, in radians.
+   */
+  phase(x: number[][][], y: number[][][]): void;
+
+  phase(x: number[] | number[][] | number[][][],
+        y: number[] | number[][] | number[][][]): void {
+    this._traces(x, y, (x1, y1) => {
+      const z = this._analytic(x1);
+      for (let i = 0, ir = 0, ii = 1; i < y1.length; ++i, ir += 2, ii += 2) {
+        y1[i] = Math.atan2(z[ii], z[ir]);
+      }
+    });
+  }
+
+  /**
+   * Computes the instantaneous frequency of each trace.
+   * <p>
+   * In the interior of a trace, frequency is computed from the change in
+   * phase between the previous and next samples; at the ends, from the
+   * change in phase between the first (or last) two samples.
+   * @param x the input array.
+   * @param y the output array of frequencies, in cycles per sample.
+   */
+  frequency(x: number[], y: number[]): void;
+
+  /**
+   * Computes the instantaneous frequency of each trace of a 2D array.
+   * @param x the input array.
+   * @param y the output array of frequencies, in cycles per sample.
+   */
+  frequency(x: number[][], y: number[][]): void;
+
+  /**
+   * Computes the instantaneous frequency of each trace of a 3D array.
+   * @param x the input array.
+   * @param y the output array of frequencies, in cycles per sample.
+   */
+  frequency(x: number[][][], y: number[][][]): void;
+
+  frequency(x: number[] | number[][] | number[][][],
+            y: number[] | number[][] | number[][][]): void {
+    this._traces(x, y, (x1, y1) => {
+      const n = y1.length;
+      const z = this._analytic(x1);
+      const dphase = (j: number, k: number): number => {
+        const zjr = z[2 * j], zji = z[2 * j + 1];
+        const zkr = z[2 * k], zki = z[2 * k + 1];
+        return Math.atan2(zjr * zki - zji * zkr, zjr * zkr + zji * zki);
+      };
+      if (n === 1) {
+        y1[0] = 0.0;
+        return;
+      }
+      const f0 = dphase(0, 1) / ( 2.0 * Math.PI );
+      const fn = dphase(n - 2, n - 1) / ( 2.0 * Math.PI );
+      for (let i = 1; i < n - 1; ++i) {
+        y1[i] = dphase(i - 1, i + 1) / ( 4.0 * Math.PI );
+      }
+      y1[0] = f0;
+      y1[n - 1] = fn;
+    });
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Applies a function to corresponding traces of arrays x and y.
+   */
+  private _traces(x: number[] | number[][] | number[][][],
+                  y: number[] | number[][] | number[][][],
+                  f: (x1: number[], y1: number[]) => void): void {
+    const ndim = arrayDimensions(x);
+    Check.argument(ndim === arrayDimensions(y), 'x and y have the same dimensions');
+    Check.argument(x.length === y.length, 'x.length === y.length');
+    if (ndim === 1) {
+      f(x as number[], y as number[]);
+    } else {
+      for (let i = 0; i < x.length; ++i) { this._traces(x[i] as number[], y[i] as number[], f); }
+    }
+  }
+
+  /**
+   * Returns the analytic signal of one trace, as a packed complex array.
+   */
+  private _analytic(x: number[]): number[] {
+    const n = x.length;
+    const y: number[] = zero(n);
+    this._hilbert(x, y);
+    const z: number[] = zero(2 * n);
+    for (let i = 0, ir = 0, ii = 1; i < n; ++i, ir += 2, ii += 2) {
+      z[ir] = x[i];
+      z[ii] = y[i];
+    }
+    return z;
+  }
+
+  /**
+   * Computes the Hilbert transform of one trace.
+   */
+  private _hilbert(x: number[], y: number[]): void {
+    Check.argument(x.length === y.length, 'x.length === y.length');
+    const n = x.length;
+    const nfft = FftReal.SmallNFFT(2 * n);
+    if (nfft !== this._nfft) {
+      this._nfft = nfft;
+      this._fft = new FftReal(nfft);
+    }
+    const c: number[] = zero(nfft + 2);
+    for (let i = 0; i < n; ++i) { c[i] = x[i]; }
+    this._fft.realToComplex(-1, c, c);
+
+    // Multiply by -i for positive frequencies; zero at 0 and Nyquist.
+    const s = 1.0 / nfft;
+    c[0] = c[1] = 0.0;
+    c[nfft] = c[nfft + 1] = 0.0;
+    for (let kr = 2, ki = 3; kr < nfft; kr += 2, ki += 2) {
+      const cr = c[kr];
+      c[kr] = c[ki] * s;
+      c[ki] = -cr * s;
+    }
+    this._fft.complexToReal(1, c, c);
+    for (let i = 0; i < n; ++i) { y[i] = c[i]; }
+  }
+}
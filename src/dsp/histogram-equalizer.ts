@@ -0,0 +1,316 @@
+import { Check, arrayDimensions } from '../utils';
+import { Histogram } from './histogram';
+
+/**
+ * Histogram equalization and matching for 2D and 3D arrays of values,
+ * such as images.
+ * <p>
+ * Equalization maps each value v to vmin + (vmax - vmin) * c(v), where
+ * vmin and vmax are the minimum and maximum input values and c(v) is the
+ * cumulative distribution of input values, estimated with a
+ * {@link Histogram} and interpolated linearly within bins. Output values
+ * are then approximately uniformly distributed in [vmin, vmax].
+ * <p>
+ * Contrast-limited adaptive histogram equalization (CLAHE) computes a
+ * cumulative distribution for each of a number of rectangular tiles that
+ * partition the array. Each output value is then a bilinear (or trilinear)
+ * interpolation of mappings for the tiles with centers nearest that
+ * sample, so that contrast is enhanced locally without discontinuities at
+ * tile boundaries.
+ * <p>
+ * Enhancement of noise in nearly constant regions may be limited by
+ * clipping histograms. The clip limit is a multiple of the mean count per
+ * bin; counts in bins exceeding this limit are clipped, and the excess is
+ * redistributed uniformly among all bins. Clipping applies to both global
+ * and adaptive equalization; by default, histograms are not clipped.
+ * <p>
+ * Histogram matching maps values so that their distribution approximates
+ * that of values in a reference array. Each value v is mapped to the
+ * quantile of reference values for the cumulative distribution c(v) of
+ * input values.
+ * <p>
+ * For all methods, input and output arrays may be the same array.
+ */
+export class HistogramEqualizer {
+
+  private _nbin: number;
+  private _clip = 0.0;
+
+  /**
+   * Constructs a histogram equalizer.
+   * @param nbin the number of histogram bins; default is 256.
+   */
+  constructor(nbin: number = 256) {
+    this.binCount = nbin;
+  }
+
+  /**
+   * Gets the number of histogram bins.
+   */
+  get binCount(): number { return this._nbin; }
+
+  /**
+   * Sets the number of histogram bins.
+   * @param nbin the number of bins; must be positive.
+   */
+  set binCount(nbin: number) {
+    Check.argument(nbin > 0, 'nbin > 0');
+    this._nbin = nbin;
+  }
+
+  /**
+   * Gets the clip limit, or zero if histograms are not clipped.
+   */
+  get clipLimit(): number { return this._clip; }
+
+  /**
+   * Sets the clip limit, a multiple of the mean count per bin.
+   * @param clip the clip limit; must be zero (for no clipping) or not less
+   *             than one.
+   */
+  set clipLimit(clip: number) {
+    Check.argument(clip === 0.0 || clip >= 1.0, 'clip === 0 or clip >= 1');
+    this._clip = clip;
+  }
+
+  /**
+   * Equalizes the histogram of values in a 2D array.
+   * @param x input array[n2][n1].
+   * @param y output array[n2][n1] of equalized values.
+   */
+  equalize(x: number[][], y: number[][]): void;
+
+  /**
+   * Equalizes the histogram of values in a 3D array.
+   * @param x input array[n3][n2][n1].
+   * @param y output array[n3][n2][n1] of equalized values.
+   */
+  equalize(x: number[][][], y: number[][][]): void;
+
+  equalize(x: number[][] | number[][][], y: number[][] | number[][][]): void {
+    const [ x3, y3 ] = this._arrays(x, y);
+    const [ vmin, vmax ] = range(x3);
+    const c = this._cumulative(flatten(x3), vmin, vmax);
+    map(x3, y3, v => vmin + ( vmax - vmin ) * c(v));
+  }
+
+  /**
+   * Applies contrast-limited adaptive histogram equalization to a 2D array.
+   * @param x input array[n2][n1].
+   * @param y output array[n2][n1] of equalized values.
+   * @param nt1 number of tiles in the 1st dimension.
+   * @param nt2 number of tiles in the 2nd dimension.
+   */
+  equalizeAdaptive(x: number[][], y: number[][], nt1: number, nt2: number): void;
+
+  /**
+   * Applies contrast-limited adaptive histogram equalization to a 3D array.
+   * @param x input array[n3][n2][n1].
+   * @param y output array[n3][n2][n1] of equalized values.
+   * @param nt1 number of tiles in the 1st dimension.
+   * @param nt2 number of tiles in the 2nd dimension.
+   * @param nt3 number of tiles in the 3rd dimension.
+   */
+  equalizeAdaptive(x: number[][][], y: number[][][], nt1: number, nt2: number, nt3: number): void;
+
+  equalizeAdaptive(x: number[][] | number[][][],
+                   y: number[][] | number[][][],
+                   nt1: number, nt2: number, nt3: number = 1): void {
+    const [ x3, y3 ] = this._arrays(x, y);
+    const n3 = x3.length, n2 = x3[0].length, n1 = x3[0][0].length;
+    Check.argument(1 <= nt1 && nt1 <= n1, '1 <= nt1 <= n1');
+    Check.argument(1 <= nt2 && nt2 <= n2, '1 <= nt2 <= n2');
+    Check.argument(1 <= nt3 && nt3 <= n3, '1 <= nt3 <= n3');
+    const [ vmin, vmax ] = range(x3);
+    const t1 = tiles(n1, nt1), t2 = tiles(n2, nt2), t3 = tiles(n3, nt3);
+
+    // Cumulative distributions for all tiles.
+    const c: ((v: number) => number)[][][] = [ ...Array(nt3) ].map((_, it3) =>
+      [ ...Array(nt2) ].map((__, it2) => [ ...Array(nt1) ].map((___, it1) => {
+        const v: number[] = [];
+        for (let i3 = t3.start[it3]; i3 < t3.start[it3 + 1]; ++i3) {
+          for (let i2 = t2.start[it2]; i2 < t2.start[it2 + 1]; ++i2) {
+            for (let i1 = t1.start[it1]; i1 < t1.start[it1 + 1]; ++i1) {
+              v.push(x3[i3][i2][i1]);
+            }
+          }
+        }
+        return this._cumulative(v, vmin, vmax);
+      })));
+
+    // Interpolate mappings of the nearest tiles.
+    for (let i3 = 0; i3 < n3; ++i3) {
+      const j3 = t3.index[i3], w3 = t3.weight[i3];
+      for (let i2 = 0; i2 < n2; ++i2) {
+        const j2 = t2.index[i2], w2 = t2.weight[i2];
+        for (let i1 = 0; i1 < n1; ++i1) {
+          const j1 = t1.index[i1], w1 = t1.weight[i1];
+          const v = x3[i3][i2][i1];
+          let cv = 0.0;
+          for (let k3 = 0; k3 < 2; ++k3) {
+            const u3 = ( k3 === 0 ) ? 1.0 - w3 : w3;
+            for (let k2 = 0; k2 < 2; ++k2) {
+              const u2 = ( k2 === 0 ) ? 1.0 - w2 : w2;
+              for (let k1 = 0; k1 < 2; ++k1) {
+                const u = u3 * u2 * ( ( k1 === 0 ) ? 1.0 - w1 : w1 );
+                if (u > 0.0) {
+                  cv += u * c[j3 + k3][j2 + k2][j1 + k1](v);
+                }
+              }
+            }
+          }
+          y3[i3][i2][i1] = vmin + ( vmax - vmin ) * cv;
+        }
+      }
+    }
+  }
+
+  /**
+   * Matches the histogram of values in a 2D array to that of values in a
+   * reference array.
+   * @param x input array[n2][n1].
+   * @param r reference array of values.
+   * @param y output array[n2][n1] of matched values.
+   */
+  match(x: number[][], r: number[][], y: number[][]): void;
+
+  /**
+   * Matches the histogram of values in a 3D array to that of values in a
+   * reference array.
+   * @param x input array[n3][n2][n1].
+   * @param r reference array of values.
+   * @param y output array[n3][n2][n1] of matched values.
+   */
+  match(x: number[][][], r: number[][][], y: number[][][]): void;
+
+  match(x: number[][] | number[][][], r: number[][] | number[][][], y: number[][] | number[][][]): void {
+    const [ x3, y3 ] = this._arrays(x, y);
+    const r3 = ( arrayDimensions(r) === 2 ) ? [ r as number[][] ] : r as number[][][];
+    const [ vmin, vmax ] = range(x3);
+    const c = this._cumulative(flatten(x3), vmin, vmax);
+    const [ rmin, rmax ] = range(r3);
+    const h = new Histogram(flatten(r3), this._nbin, rmin, rmax);
+    map(x3, y3, v => h.quantile(Math.min(1.0, Math.max(0.0, c(v)))));
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Returns input and output arrays as 3D arrays with the same dimensions.
+   */
+  private _arrays(x: number[][] | number[][][], y: number[][] | number[][][]): number[][][][] {
+    const ndim = arrayDimensions(x);
+    Check.argument(ndim === 2 || ndim === 3, 'x is a 2D or 3D array');
+    Check.argument(arrayDimensions(y) === ndim, 'x and y have the same dimensions');
+    const x3 = ( ndim === 2 ) ? [ x as number[][] ] : x as number[][][];
+    const y3 = ( ndim === 2 ) ? [ y as number[][] ] : y as number[][][];
+    const n2 = x3[0].length, n1 = x3[0][0].length;
+    Check.argument(x3.length === y3.length, 'x and y have the same dimensions');
+    for (let i3 = 0; i3 < x3.length; ++i3) {
+      Check.argument(x3[i3].length === n2 && y3[i3].length === n2, 'x and y have the same dimensions');
+      for (let i2 = 0; i2 < n2; ++i2) {
+        Check.argument(x3[i3][i2].length === n1 && y3[i3][i2].length === n1, 'x and y have the same dimensions');
+      }
+    }
+    return [ x3, y3 ];
+  }
+
+  /**
+   * Returns the cumulative distribution function of values in [vmin, vmax],
+   * after clipping their histogram.
+   */
+  private _cumulative(v: number[], vmin: number, vmax: number): (v: number) => number {
+    const nbin = this._nbin;
+    if (vmin >= vmax) {
+      return () => 0.0;
+    }
+    const d = new Histogram(v, nbin, vmin, vmax).densities;
+    if (this._clip > 0.0) {
+      const dmax = this._clip / nbin;
+      let excess = 0.0;
+      for (let ibin = 0; ibin < nbin; ++ibin) {
+        if (d[ibin] > dmax) {
+          excess += d[ibin] - dmax;
+          d[ibin] = dmax;
+        }
+      }
+      for (let ibin = 0; ibin < nbin; ++ibin) {
+        d[ibin] += excess / nbin;
+      }
+    }
+
+    // Cumulative distribution at bin edges, interpolated within bins.
+    const e: number[] = new Array<number>(nbin + 1);
+    e[0] = 0.0;
+    for (let ibin = 0; ibin < nbin; ++ibin) {
+      e[ibin + 1] = e[ibin] + d[ibin];
+    }
+    const vscl = nbin / ( vmax - vmin );
+    return (vi: number): number => {
+      const t = Math.min(nbin, Math.max(0.0, ( vi - vmin ) * vscl));
+      const ibin = Math.min(nbin - 1, Math.floor(t));
+      return e[ibin] + ( t - ibin ) * d[ibin];
+    };
+  }
+}
+
+/**
+ * Returns the minimum and maximum values in a 3D array.
+ * @internal
+ */
+function range(x: number[][][]): number[] {
+  let vmin = Number.POSITIVE_INFINITY;
+  let vmax = Number.NEGATIVE_INFINITY;
+  x.forEach(x2 => x2.forEach(x1 => x1.forEach(v => {
+    if (v < vmin) { vmin = v; }
+    if (v > vmax) { vmax = v; }
+  })));
+  return [ vmin, vmax ];
+}
+
+/**
+ * Returns the values in a 3D array as a 1D array.
+ * @internal
+ */
+function flatten(x: number[][][]): number[] {
+  const v: number[] = [];
+  x.forEach(x2 => x2.forEach(x1 => x1.forEach(vi => v.push(vi))));
+  return v;
+}
+
+/**
+ * Computes y = f(x) for all values in 3D arrays.
+ * @internal
+ */
+function map(x: number[][][], y: number[][][], f: (v: number) => number): void {
+  x.forEach((x2, i3) => x2.forEach((x1, i2) => x1.forEach((v, i1) => y[i3][i2][i1] = f(v))));
+}
+
+/**
+ * Partitions n samples into nt tiles of nearly equal lengths. For each
+ * sample, returns the index of the nearest tile center not greater than
+ * that sample and a weight for linear interpolation between that tile and
+ * the next tile.
+ * @internal
+ */
+function tiles(n: number, nt: number): { start: number[], index: number[], weight: number[] } {
+  const start = [ ...Array(nt + 1) ].map((_, it) => Math.floor(it * n / nt));
+  const center = [ ...Array(nt) ].map((_, it) => 0.5 * ( start[it] + start[it + 1] - 1 ));
+  const index: number[] = new Array<number>(n);
+  const weight: number[] = new Array<number>(n);
+  for (let i = 0, it = 0; i < n; ++i) {
+    while (it < nt - 2 && center[it + 1] <= i) { ++it; }
+    if (nt === 1 || i <= center[0]) {
+      index[i] = 0;
+      weight[i] = 0.0;
+    } else if (i >= center[nt - 1]) {
+      index[i] = nt - 2;
+      weight[i] = 1.0;
+    } else {
+      index[i] = it;
+      weight[i] = ( i - center[it] ) / ( center[it + 1] - center[it] );
+    }
+  }
+  return { start, index, weight };
+}
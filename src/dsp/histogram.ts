@@ -1,4 +1,5 @@
 import { Check, quickPartialSort, copy } from '../utils';
+import { HistogramBinRule } from '../types';
 import { Sampling } from './sampling';
 
 /**
@@ -23,12 +24,25 @@ import { Sampling } from './sampling';
  * 75th percentiles, respectively. The number of bins is then computed by
  * dividing the range (vmax - vmin) of values by that bin width, rounding
  * down to the nearest integer. In this way, the number of bins grows
- * as the cube root of the number of values n.
+ * as the cube root of the number of values n. This is the
+ * Freedman-Diaconis rule. Alternatively, the number of bins may be
+ * computed with Sturges' rule, as ceil(log2(n)) + 1.
  * <p>
  * Minimum and maximum values (vmin and vmax) may also be specified or
  * computed automatically. If specified, then only the values in the range
  * [vmin, vmax] are binned, and values outside this range are ignored.
  * <p>
+ * Values may have weights. Then each bin contains the sum of the weights
+ * of values binned, and densities are computed by dividing those sums by
+ * the sum of weights of all values binned. Numbers of values in, below
+ * and above the range of values binned do not depend on weights, nor do
+ * automatically computed numbers of bins.
+ * <p>
+ * A cumulative distribution function is estimated by summing densities,
+ * and percentiles are estimated from that distribution, by interpolating
+ * linearly within bins. For example, the 1st and 99th percentiles may be
+ * used to clip or stretch the range of values displayed.
+ * <p>
  * Reference: Izenman, A. J., 1991, Recent developments in nonparametric
  * density estimation: Journal of the American Statistical Association,
  * v. 86, p. 205-224.
@@ -40,6 +54,7 @@ export class Histogram {
   private _computedMinMax: boolean;
   private _sbin: Sampling;
   private _h: number[];
+  private _hin: number;
   private _nin: number;
   private _nlo: number;
   private _nhi: number;
@@ -50,13 +65,38 @@ export class Histogram {
    * The min and max bin values are computed automatically, unless the user
    * provides a min and max value.
    * @param v    an array of numbers.
-   * @param nbin the number of bins.
+   * @param nbin the number of bins, or a rule for computing that number.
+   *             Zero is equivalent to the Freedman-Diaconis rule.
    * @param vmin the minimum value (optional).
    * @param vmax the maximum value (optional).
    */
-  constructor(v: number[], nbin: number, vmin?: number, vmax?: number) {
+  constructor(v: number[], nbin: number | HistogramBinRule, vmin?: number, vmax?: number);
+
+  /**
+   * Constructs a new histogram of weighted values.
+   * <p>
+   * The min and max bin values are computed automatically, unless the user
+   * provides a min and max value.
+   * @param v    an array of numbers.
+   * @param w    an array of weights, one for each number.
+   * @param nbin the number of bins, or a rule for computing that number.
+   *             Zero is equivalent to the Freedman-Diaconis rule.
+   * @param vmin the minimum value (optional).
+   * @param vmax the maximum value (optional).
+   */
+  constructor(v: number[], w: number[], nbin: number | HistogramBinRule, vmin?: number, vmax?: number);
+
+  constructor(v: number[], w: number[] | number | HistogramBinRule, nbin?: number | HistogramBinRule, vmin?: number, vmax?: number) {
+    if (!( w instanceof Array )) {
+      vmax = vmin;
+      vmin = nbin as number;
+      nbin = w;
+      w = null;
+    } else {
+      Check.argument(w.length === v.length, 'w.length === v.length');
+    }
     this.initMinMax(v, vmin, vmax);
-    this.init(v, nbin);
+    this.init(v, nbin, w as number[]);
   }
 
   /**
@@ -115,7 +155,7 @@ export class Histogram {
   get densities(): number[] {
     const nbin = this.binCount;
     const d: number[] = new Array<number>(nbin);
-    const s = 1.0 / this._nin;
+    const s = 1.0 / this._hin;
     for (let ibin = 0; ibin < nbin; ++ibin) {
       d[ibin] = s * this._h[ibin];
     }
@@ -123,16 +163,74 @@ export class Histogram {
   }
 
   /**
-   * Initializes the histogram. If nbin is zero, then this method computes
-   * the number of bins.
+   * Gets the cumulative distribution. Each value is the sum of densities
+   * for bins up to and including that bin, and is an estimate of the
+   * fraction of values binned that are less than the upper edge of that
+   * bin.
+   */
+  get cumulative(): number[] {
+    const c = this.densities;
+    for (let ibin = 1; ibin < c.length; ++ibin) {
+      c[ibin] += c[ibin - 1];
+    }
+    return c;
+  }
+
+  /**
+   * Returns an estimate of the value for a specified percentile.
+   * @param p the percentile, in the range [0, 100].
+   * @returns the value.
    */
-  private init(v: number[], nbin: number): void {
+  percentile(p: number): number {
+    Check.argument(0 <= p && p <= 100, 'p is in the range [0, 100]');
+    return this.quantile(0.01 * p);
+  }
+
+  /**
+   * Returns an estimate of the value for a specified quantile, the value
+   * for which the cumulative distribution equals that quantile. Values are
+   * assumed to be uniformly distributed within each bin.
+   * @param q the quantile, in the range [0, 1].
+   * @returns the value.
+   */
+  quantile(q: number): number {
+    Check.argument(0 <= q && q <= 1, 'q is in the range [0, 1]');
+    Check.state(this._hin > 0, 'histogram is not empty');
+    const nbin = this.binCount;
+    const dbin = this.binDelta;
+    const qh = q * this._hin;
+    let c = 0.0;
+    for (let ibin = 0; ibin < nbin; ++ibin) {
+      const h = this._h[ibin];
+      if (h > 0 && c + h >= qh) {
+        const v0 = this._sbin.valueAt(ibin) - 0.5 * dbin;
+        return Math.min(this._vmax, Math.max(this._vmin, v0 + dbin * ( qh - c ) / h));
+      }
+      c += h;
+    }
+    return this._vmax;
+  }
+
+  /**
+   * Initializes the histogram. If nbin is zero or a rule, then this method
+   * computes the number of bins.
+   */
+  private init(v: number[], rule: number | HistogramBinRule, w: number[]): void {
+    let nbin = ( typeof rule === 'number' ) ? rule : 0;
     let dbin = ( this._vmax - this._vmin ) / Math.max(1, nbin);
     if (dbin === 0.0) {
       dbin = Math.max(1.0, 2.0 * Math.abs(this._vmin) * Number.EPSILON);
     }
 
-    if (nbin === 0) {
+    if (rule === 'Sturges') {
+      const n = this.trim(v).length;
+      nbin = Math.max(1, Math.ceil(Math.log2(Math.max(1, n))) + 1);
+      if (this._vmin < this._vmax) {
+        dbin = ( this._vmax - this._vmin ) / nbin;
+      } else {
+        nbin = 1;
+      }
+    } else if (nbin === 0) {
       // Must have at least one bin...
       nbin = 1;
 
@@ -164,6 +262,7 @@ export class Histogram {
     this._nlo = 0;
     this._nhi = 0;
     this._h = new Array<number>(nbin).fill(0);
+    this._hin = 0;
     this._nin = 0;
 
     for (let i = 0; i < n; ++i) {
@@ -179,14 +278,16 @@ export class Histogram {
         } else if (ibin >= nbin) {
           ibin = nbin - 1;
         }
-        this._h[ibin] += 1;
+        const wi = ( w ) ? w[i] : 1;
+        this._h[ibin] += wi;
+        this._hin += wi;
         this._nin += 1;
       }
     }
   }
 
   private initMinMax(v: number[], vmin?: number, vmax?: number): void {
-    if (vmin && vmax) {
+    if (vmin !== undefined && vmax !== undefined) {
       Check.argument(vmin <= vmax, 'vmin <= vmax');
       this._vmin = vmin;
       this._vmax = vmax;
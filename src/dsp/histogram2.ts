@@ -0,0 +1,110 @@
+import { Check } from '../utils';
+import { Sampling } from './sampling';
+
+/**
+ * A 2D joint histogram.
+ * <p>
+ * A joint histogram summarizes the joint distribution of pairs of values
+ * (v1, v2) in two arrays of the same length. Bins are centered on the
+ * values of two uniform samplings, one for each of v1 and v2, so that bin
+ * (i1, i2) contains the number of pairs that lie closest to the bin center
+ * (s1.valueAt(i1), s2.valueAt(i2)). Pairs with any value more than half a
+ * bin beyond the first or last sampled values are not binned.
+ * <p>
+ * Pairs of values may have weights. Then each bin contains the sum of the
+ * weights of pairs binned, and densities are computed by dividing those
+ * sums by the sum of weights of all pairs binned.
+ * <p>
+ * Marginal histograms of v1 and v2 are sums of joint densities over bins
+ * of the other value.
+ */
+export class Histogram2 {
+
+  private readonly _s1: Sampling;
+  private readonly _s2: Sampling;
+  private readonly _h: number[][];
+  private _hin = 0;
+  private _nin = 0;
+  private _nout = 0;
+
+  /**
+   * Constructs a joint histogram of pairs of values.
+   * @param v1 array of 1st values.
+   * @param v2 array of 2nd values.
+   * @param s1 bin sampling for 1st values; must be uniform.
+   * @param s2 bin sampling for 2nd values; must be uniform.
+   * @param w array of weights, one for each pair (optional).
+   */
+  constructor(v1: number[], v2: number[], s1: Sampling, s2: Sampling, w?: number[]) {
+    Check.argument(v1.length === v2.length, 'v1.length === v2.length');
+    Check.argument(w === undefined || w.length === v1.length, 'w.length === v1.length');
+    Check.argument(s1.isUniform(), 's1 is uniform');
+    Check.argument(s2.isUniform(), 's2 is uniform');
+    this._s1 = s1;
+    this._s2 = s2;
+    const n1 = s1.count, d1 = s1.delta, f1 = s1.first;
+    const n2 = s2.count, d2 = s2.delta, f2 = s2.first;
+    this._h = [ ...Array(n2) ].map(() => new Array<number>(n1).fill(0));
+    for (let i = 0; i < v1.length; ++i) {
+      const i1 = Math.round(( v1[i] - f1 ) / d1);
+      const i2 = Math.round(( v2[i] - f2 ) / d2);
+      if (0 <= i1 && i1 < n1 && 0 <= i2 && i2 < n2) {
+        const wi = ( w === undefined ) ? 1 : w[i];
+        this._h[i2][i1] += wi;
+        this._hin += wi;
+        this._nin += 1;
+      } else {
+        this._nout += 1;
+      }
+    }
+  }
+
+  /**
+   * Gets the bin sampling for 1st values.
+   */
+  get sampling1(): Sampling { return this._s1; }
+
+  /**
+   * Gets the bin sampling for 2nd values.
+   */
+  get sampling2(): Sampling { return this._s2; }
+
+  /**
+   * Gets a copy of the array[n2][n1] of counts (or sums of weights).
+   */
+  get counts(): number[][] { return this._h.map(h1 => h1.slice()); }
+
+  /**
+   * Gets the number of pairs binned.
+   */
+  get inCount(): number { return this._nin; }
+
+  /**
+   * Gets the number of pairs not binned.
+   */
+  get outCount(): number { return this._nout; }
+
+  /**
+   * Gets the array[n2][n1] of joint densities.
+   */
+  get densities(): number[][] {
+    const s = 1.0 / this._hin;
+    return this._h.map(h1 => h1.map(h => s * h));
+  }
+
+  /**
+   * Gets the marginal densities of 1st values.
+   */
+  get marginal1(): number[] {
+    const d = new Array<number>(this._s1.count).fill(0);
+    this.densities.forEach(d1 => d1.forEach((di, i1) => d[i1] += di));
+    return d;
+  }
+
+  /**
+   * Gets the marginal densities of 2nd values.
+   */
+  get marginal2(): number[] {
+    return this.densities.map(d1 => d1.reduce((s, di) => s + di, 0));
+  }
+}
@@ -1,9 +1,33 @@
 export { Sampling } from './sampling';
 export { Histogram } from './histogram';
+export { Tensors2 } from './tensors2';
 export { Tensors3 } from './tensors3';
 export { EigenSolver } from './eigen-solver';
+export { EigenTensors2 } from './eigen-tensors2';
 export { EigenTensors3 } from './eigen-tensors3';
 export { FftPfa } from './fft-pfa';
 export { FftReal } from './fft-real';
 export { FftComplex } from './fft-complex';
 export { Fft } from './fft';
+export { RecursiveGaussianFilter } from './recursive-gaussian-filter';
+export { LocalOrientFilter } from './local-orient-filter';
+export { LocalSmoothingFilter } from './local-smoothing-filter';
+export { Conv } from './conv';
+export { Interpolator } from './interpolator';
+export { SincInterpolator } from './sinc-interpolator';
+export { Recursive2ndOrderFilter } from './recursive-2nd-order-filter';
+export { RecursiveCascadeFilter } from './recursive-cascade-filter';
+export { ButterworthFilter } from './butterworth-filter';
+export { KaiserWindow } from './kaiser-window';
+export { BandPassFilter } from './band-pass-filter';
+export { HilbertTransformFilter } from './hilbert-transform-filter';
+export { Stft } from './stft';
+export { PowerSpectrum } from './power-spectrum';
+export { FftRadix } from './fft-radix';
+export { FftBluestein } from './fft-bluestein';
+export { ChirpZTransform } from './chirp-z-transform';
+export { Dct } from './dct';
+export { Dst } from './dst';
+export { PoissonSolver } from './poisson-solver';
+export { Histogram2 } from './histogram2';
+export { HistogramEqualizer } from './histogram-equalizer';
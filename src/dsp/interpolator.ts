@@ -0,0 +1,385 @@
+import { Check, zero } from '../utils';
+import { ExtrapolationType, InterpolationMethod, MultiArray } from '../types';
+import { Sampling } from './sampling';
+
+/**
+ * Interpolation of uniformly sampled values in 1D, 2D and 3D.
+ * <p>
+ * Values are specified for a sampling of each dimension, and may then be
+ * interpolated at any coordinates. The interpolation method is one of:
+ * <ul><li>
+ * Nearest: the value of the nearest sample.
+ * </li><li>
+ * Linear: piecewise linear (bilinear, trilinear) interpolation.
+ * </li><li>
+ * Monotonic: piecewise cubic Hermite interpolation with slopes computed
+ * by the method of Fritsch and Butland, so that no overshoot occurs between
+ * samples in which values are monotonic.
+ * </li><li>
+ * Spline: piecewise cubic Hermite interpolation with slopes computed such
+ * that second derivatives are continuous; this is a natural cubic spline,
+ * with zero second derivatives at the first and last samples.
+ * </li></ul>
+ * In 2D and 3D, interpolation is the tensor product of the 1D methods.
+ * Slopes required for cubic interpolation are computed once, when the
+ * interpolator is constructed. Subsequent changes to the specified array
+ * of values are therefore not seen by cubic interpolators.
+ * <p>
+ * Coordinates that lie outside the range [first, last] of a sampling are
+ * extrapolated. For the extrapolation type 'ZeroValue' (the default),
+ * interpolated values are zero. For 'ZeroSlope', the coordinate is moved
+ * to the nearest end of the sampling, so that extrapolated values are
+ * constant.
+ * <p>
+ * Reference: Fritsch, F. N., and Butland, J., 1984, A method for
+ * constructing local monotone piecewise cubic interpolants: SIAM Journal
+ * on Scientific and Statistical Computing, v. 5, p. 300-304.
+ */
+export class Interpolator {
+
+  /**
+   * Relative tolerance for coordinates at the ends of samplings.
+   */
+  private static readonly TINY = 1.0e-6;
+
+  private readonly _method: InterpolationMethod;
+  private readonly _s: Sampling[];
+  private readonly _y: number[] | number[][] | number[][][];
+  private _d: MultiArray[];
+  private _extrapolation: ExtrapolationType = 'ZeroValue';
+
+  /**
+   * Constructs an interpolator for specified 1D samples.
+   * @param sx the sampling of x.
+   * @param y array[nx] of values.
+   * @param method the interpolation method; default is 'Linear'.
+   */
+  constructor(sx: Sampling, y: number[], method?: InterpolationMethod);
+
+  /**
+   * Constructs an interpolator for specified 2D samples.
+   * @param sx1 the sampling of x1.
+   * @param sx2 the sampling of x2.
+   * @param y array[nx2][nx1] of values.
+   * @param method the interpolation method; default is 'Linear'.
+   */
+  constructor(sx1: Sampling, sx2: Sampling, y: number[][], method?: InterpolationMethod);
+
+  /**
+   * Constructs an interpolator for specified 3D samples.
+   * @param sx1 the sampling of x1.
+   * @param sx2 the sampling of x2.
+   * @param sx3 the sampling of x3.
+   * @param y array[nx3][nx2][nx1] of values.
+   * @param method the interpolation method; default is 'Linear'.
+   */
+  constructor(sx1: Sampling, sx2: Sampling, sx3: Sampling, y: number[][][], method?: InterpolationMethod);
+
+  constructor(sx1: Sampling,
+              p2: Sampling | number[],
+              p3?: Sampling | number[][] | InterpolationMethod,
+              p4?: number[][][] | InterpolationMethod,
+              p5?: InterpolationMethod) {
+    Check.argument(sx1 instanceof Sampling, 'samplings are specified');
+    let method: InterpolationMethod;
+    if (!( p2 instanceof Sampling )) {
+      this._s = [ sx1 ];
+      this._y = p2;
+      method = p3 as InterpolationMethod;
+    } else if (!( p3 instanceof Sampling )) {
+      this._s = [ sx1, p2 ];
+      this._y = p3 as number[][];
+      method = p4 as InterpolationMethod;
+    } else {
+      this._s = [ sx1, p2, p3 ];
+      this._y = p4 as number[][][];
+      method = p5;
+    }
+    Check.argument(this._s.every(s => s.isUniform()), 'samplings are uniform');
+    this._method = method || 'Linear';
+    Interpolator._checkDimensions(this._s, this._y);
+    if (this._method === 'Monotonic' || this._method === 'Spline') {
+      this._d = Interpolator._computeSlopes(this._method, this._s.length, this._y);
+    }
+  }
+
+  /**
+   * Gets the interpolation method.
+   */
+  get method(): InterpolationMethod { return this._method; }
+
+  /**
+   * Gets the extrapolation type.
+   */
+  get extrapolation(): ExtrapolationType { return this._extrapolation; }
+
+  /**
+   * Sets the extrapolation type.
+   * <p>
+   * The default type is 'ZeroValue'.
+   * @param e the extrapolation type.
+   */
+  set extrapolation(e: ExtrapolationType) { this._extrapolation = e; }
+
+  /**
+   * Interpolates the 1D value at a specified coordinate.
+   * @param x the coordinate x.
+   * @returns the interpolated value.
+   */
+  interpolate(x: number): number;
+
+  /**
+   * Interpolates the 2D value at specified coordinates.
+   * @param x1 the coordinate x1.
+   * @param x2 the coordinate x2.
+   * @returns the interpolated value.
+   */
+  interpolate(x1: number, x2: number): number;
+
+  /**
+   * Interpolates the 3D value at specified coordinates.
+   * @param x1 the coordinate x1.
+   * @param x2 the coordinate x2.
+   * @param x3 the coordinate x3.
+   * @returns the interpolated value.
+   */
+  interpolate(x1: number, x2: number, x3: number): number;
+
+  interpolate(...x: number[]): number {
+    Check.argument(x.length === this._s.length, 'number of coordinates equals number of dimensions');
+    const c: Index[] = [];
+    for (let i = 0; i < x.length; ++i) {
+      const ci = this._index(this._s[i], x[i]);
+      if (ci === null) { return 0.0; }
+      c.push(ci);
+    }
+    switch (c.length) {
+      case 1: return this._interpolate1(c[0], this._y as number[]);
+      case 2: return this._interpolate2(c[0], c[1], this._y as number[][]);
+      default: return this._interpolate3(c[0], c[1], c[2], this._y as number[][][]);
+    }
+  }
+
+  /**
+   * Interpolates 1D values at the coordinates of a specified sampling.
+   * @param sx the sampling of coordinates x.
+   * @returns array[sx.count] of interpolated values.
+   */
+  interpolateSampling(sx: Sampling): number[] {
+    const n = sx.count;
+    const y: number[] = zero(n);
+    for (let i = 0; i < n; ++i) { y[i] = this.interpolate(sx.valueAt(i)); }
+    return y;
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private static _checkDimensions(s: Sampling[], y: MultiArray): void {
+    let a: MultiArray | number = y;
+    for (let k = s.length - 1; k >= 0; --k) {
+      Check.argument(a instanceof Array && a.length === s[k].count, 'array dimensions match samplings');
+      a = ( a as MultiArray )[0];
+    }
+    Check.argument(typeof a === 'number', 'array has one dimension per sampling');
+  }
+
+  /**
+   * Computes arrays of slopes, indexed by bit masks. For example, in 3D
+   * d[5] (binary 101) contains the slopes of the 1st-dimension slopes in
+   * the 3rd dimension. Slopes are in units of values per sample.
+   */
+  private static _computeSlopes(method: InterpolationMethod, ndim: number, y: MultiArray): MultiArray[] {
+    const d: MultiArray[] = [ y ];
+    for (let k = 0; k < ndim; ++k) {
+      const m = 1 << k;
+      for (let mask = 0; mask < m; ++mask) {
+        d[mask | m] = slopesAlong(method, ndim, k + 1, d[mask]);
+      }
+    }
+    return d;
+  }
+
+  private _index(s: Sampling, x: number): Index | null {
+    const n = s.count;
+    let xi = ( x - s.first ) / s.delta;
+    if (xi < -Interpolator.TINY || xi > n - 1 + Interpolator.TINY) {
+      if (this._extrapolation === 'ZeroValue') { return null; }
+    }
+    xi = Math.max(0, Math.min(n - 1, xi));
+    const i0 = Math.min(Math.floor(xi), Math.max(n - 2, 0));
+    const i1 = Math.min(i0 + 1, n - 1);
+    return { i0, i1, t: xi - i0 };
+  }
+
+  private _interpolate1(c: Index, y: number[]): number {
+    switch (this._method) {
+      case 'Nearest':
+        return ( c.t < 0.5 ) ? y[c.i0] : y[c.i1];
+      case 'Linear':
+        return y[c.i0] + c.t * ( y[c.i1] - y[c.i0] );
+      default: {
+        const [ d0, d1 ] = this._d as number[][];
+        return hermite(d0[c.i0], d1[c.i0], d0[c.i1], d1[c.i1], c.t);
+      }
+    }
+  }
+
+  private _interpolate2(c1: Index, c2: Index, y: number[][]): number {
+    switch (this._method) {
+      case 'Nearest':
+        return y[( c2.t < 0.5 ) ? c2.i0 : c2.i1][( c1.t < 0.5 ) ? c1.i0 : c1.i1];
+      case 'Linear': {
+        const y0 = this._interpolate1(c1, y[c2.i0]);
+        const y1 = this._interpolate1(c1, y[c2.i1]);
+        return y0 + c2.t * ( y1 - y0 );
+      }
+      default: {
+        const d = this._d as number[][][];
+        return bicubic(d[0], d[1], d[2], d[3], c1, c2);
+      }
+    }
+  }
+
+  private _interpolate3(c1: Index, c2: Index, c3: Index, y: number[][][]): number {
+    switch (this._method) {
+      case 'Nearest':
+        return this._interpolate2(c1, c2, y[( c3.t < 0.5 ) ? c3.i0 : c3.i1]);
+      case 'Linear': {
+        const y0 = this._interpolate2(c1, c2, y[c3.i0]);
+        const y1 = this._interpolate2(c1, c2, y[c3.i1]);
+        return y0 + c3.t * ( y1 - y0 );
+      }
+      default: {
+        const d = this._d as number[][][][];
+        const v0 = bicubic(d[0][c3.i0], d[1][c3.i0], d[2][c3.i0], d[3][c3.i0], c1, c2);
+        const s0 = bicubic(d[4][c3.i0], d[5][c3.i0], d[6][c3.i0], d[7][c3.i0], c1, c2);
+        const v1 = bicubic(d[0][c3.i1], d[1][c3.i1], d[2][c3.i1], d[3][c3.i1], c1, c2);
+        const s1 = bicubic(d[4][c3.i1], d[5][c3.i1], d[6][c3.i1], d[7][c3.i1], c1, c2);
+        return hermite(v0, s0, v1, s1, c3.t);
+      }
+    }
+  }
+}
+
+/**
+ * Sample indices i0 and i1 = i0 + 1 (or i0, for a single sample) that
+ * bracket a coordinate, and the fraction t of the distance from i0 to i1.
+ * @internal
+ */
+interface Index {
+  i0: number;
+  i1: number;
+  t: number;
+}
+
+/** @internal */
+function hermite(y0: number, d0: number, y1: number, d1: number, t: number): number {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return ( 2.0 * t3 - 3.0 * t2 + 1.0 ) * y0 +
+         ( t3 - 2.0 * t2 + t ) * d0 +
+         ( -2.0 * t3 + 3.0 * t2 ) * y1 +
+         ( t3 - t2 ) * d1;
+}
+
+/**
+ * Bicubic Hermite interpolation from values y, slopes y1 and y2 in the 1st
+ * and 2nd dimensions, and cross-slopes y12.
+ * @internal
+ */
+function bicubic(y: number[][], y1: number[][], y2: number[][], y12: number[][], c1: Index, c2: Index): number {
+  const v0 = hermite(y[c2.i0][c1.i0], y1[c2.i0][c1.i0], y[c2.i0][c1.i1], y1[c2.i0][c1.i1], c1.t);
+  const s0 = hermite(y2[c2.i0][c1.i0], y12[c2.i0][c1.i0], y2[c2.i0][c1.i1], y12[c2.i0][c1.i1], c1.t);
+  const v1 = hermite(y[c2.i1][c1.i0], y1[c2.i1][c1.i0], y[c2.i1][c1.i1], y1[c2.i1][c1.i1], c1.t);
+  const s1 = hermite(y2[c2.i1][c1.i0], y12[c2.i1][c1.i0], y2[c2.i1][c1.i1], y12[c2.i1][c1.i1], c1.t);
+  return hermite(v0, s0, v1, s1, c2.t);
+}
+
+/**
+ * Computes slopes along the specified dimension of an ndim-dimensional array.
+ * @internal
+ */
+function slopesAlong(method: InterpolationMethod, ndim: number, dim: number, y: MultiArray): MultiArray {
+  if (ndim === 1) { return slopes(method, y as number[]); }
+  if (ndim === 2) {
+    const y2 = y as number[][];
+    if (dim < 2) { return y2.map(yi => slopes(method, yi)); }
+    return slopesOuter(method, y2.map(yi => [ yi ])).map(di => di[0]);
+  }
+  const y3 = y as number[][][];
+  if (dim < 3) { return y3.map(yi => slopesAlong(method, 2, dim, yi) as number[][]); }
+  return slopesOuter(method, y3);
+}
+
+/**
+ * Computes slopes along the outermost dimension, one line of samples at a time.
+ * @internal
+ */
+function slopesOuter(method: InterpolationMethod, y: number[][][]): number[][][] {
+  const n = y.length;
+  const d = y.map(yi => zero(yi[0].length, yi.length));
+  const yc: number[] = zero(n);
+  for (let ir = 0; ir < y[0].length; ++ir) {
+    for (let i1 = 0; i1 < y[0][ir].length; ++i1) {
+      for (let i = 0; i < n; ++i) { yc[i] = y[i][ir][i1]; }
+      const dc = slopes(method, yc);
+      for (let i = 0; i < n; ++i) { d[i][ir][i1] = dc[i]; }
+    }
+  }
+  return d;
+}
+
+/**
+ * Computes slopes for monotonic or spline interpolation of 1D values.
+ * @internal
+ */
+function slopes(method: InterpolationMethod, y: number[]): number[] {
+  const n = y.length;
+  const d: number[] = zero(n);
+  if (n < 2) { return d; }
+  if (n === 2) {
+    d[0] = d[1] = y[1] - y[0];
+    return d;
+  }
+  if (method === 'Monotonic') {
+
+    // Harmonic mean of adjacent secant slopes in the interior.
+    for (let i = 1; i < n - 1; ++i) {
+      const s0 = y[i] - y[i - 1];
+      const s1 = y[i + 1] - y[i];
+      d[i] = ( s0 * s1 > 0.0 ) ? 2.0 * s0 * s1 / ( s0 + s1 ) : 0.0;
+    }
+
+    // Shape-preserving three-point slopes at the ends.
+    d[0] = endSlope(y[1] - y[0], y[2] - y[1]);
+    d[n - 1] = endSlope(y[n - 1] - y[n - 2], y[n - 2] - y[n - 3]);
+  } else {
+
+    // Solve the tridiagonal system for slopes of a natural cubic spline:
+    // 2 d[0] + d[1] = 3 (y[1] - y[0]),
+    // d[i - 1] + 4 d[i] + d[i + 1] = 3 (y[i + 1] - y[i - 1]),
+    // d[n - 2] + 2 d[n - 1] = 3 (y[n - 1] - y[n - 2]).
+    const w: number[] = zero(n);
+    let b = 2.0;
+    d[0] = 3.0 * ( y[1] - y[0] ) / b;
+    for (let i = 1; i < n; ++i) {
+      const r = ( i < n - 1 ) ? 3.0 * ( y[i + 1] - y[i - 1] ) : 3.0 * ( y[i] - y[i - 1] );
+      w[i] = 1.0 / b;
+      b = ( ( i < n - 1 ) ? 4.0 : 2.0 ) - w[i];
+      d[i] = ( r - d[i - 1] ) / b;
+    }
+    for (let i = n - 2; i >= 0; --i) {
+      d[i] -= w[i + 1] * d[i + 1];
+    }
+  }
+  return d;
+}
+
+/** @internal */
+function endSlope(s0: number, s1: number): number {
+  const d = 0.5 * ( 3.0 * s0 - s1 );
+  if (d * s0 <= 0.0) { return 0.0; }
+  if (s0 * s1 <= 0.0 && Math.abs(d) > 3.0 * Math.abs(s0)) { return 3.0 * s0; }
+  return d;
+}
@@ -0,0 +1,142 @@
+import { Check } from '../utils';
+
+/**
+ * A Kaiser window for FIR filter design.
+ * <p>
+ * Kaiser windows are often used in the design of FIR filters by the window
+ * method, because they can be designed to approximately satisfy specified
+ * constraints on (1) the maximum absolute error in the filter's amplitude
+ * response, (2) the width of the transition between pass and stop bands,
+ * and (3) the length of the window. Any two of these three parameters
+ * determine the third.
+ * <p>
+ * The maximum error is a fraction of the ideal amplitude response (1 in
+ * pass bands, 0 in stop bands). The transition width is in cycles per
+ * sample, and the window length is in samples. Windows are symmetric about
+ * x = 0, and are non-zero only for |x| &lt;= length / 2.
+ * <p>
+ * Reference: Kaiser, J. F., 1974, Nonrecursive digital filter design using
+ * the I0-sinh window function: Proceedings of the 1974 IEEE International
+ * Symposium on Circuits and Systems, p. 20-23.
+ */
+export class KaiserWindow {
+
+  private readonly _error: number;
+  private readonly _width: number;
+  private readonly _length: number;
+  private readonly _alpha: number;
+  private readonly _scale: number;
+  private readonly _xxmax: number;
+
+  /**
+   * Returns a Kaiser window with specified error and transition width.
+   * @param error the maximum absolute error; 0 &lt; error &lt; 1.
+   * @param width the transition width; must be positive.
+   * @returns the window.
+   */
+  static FromErrorAndWidth(error: number, width: number): KaiserWindow {
+    KaiserWindow._checkError(error);
+    Check.argument(width > 0.0, 'width > 0.0');
+    const length = KaiserWindow._product(error) / width;
+    return new KaiserWindow(error, width, length);
+  }
+
+  /**
+   * Returns a Kaiser window with specified error and window length.
+   * @param error the maximum absolute error; 0 &lt; error &lt; 1.
+   * @param length the window length; must be positive.
+   * @returns the window.
+   */
+  static FromErrorAndLength(error: number, length: number): KaiserWindow {
+    KaiserWindow._checkError(error);
+    Check.argument(length > 0.0, 'length > 0.0');
+    const width = KaiserWindow._product(error) / length;
+    return new KaiserWindow(error, width, length);
+  }
+
+  /**
+   * Returns a Kaiser window with specified transition width and length.
+   * @param width the transition width; must be positive.
+   * @param length the window length; must be positive.
+   * @returns the window.
+   */
+  static FromWidthAndLength(width: number, length: number): KaiserWindow {
+    Check.argument(width > 0.0, 'width > 0.0');
+    Check.argument(length > 0.0, 'length > 0.0');
+    const a = 14.36 * width * length + 7.95;
+    const error = Math.pow(10.0, -a / 20.0);
+    return new KaiserWindow(error, width, length);
+  }
+
+  /**
+   * Gets the maximum absolute error.
+   */
+  get error(): number { return this._error; }
+
+  /**
+   * Gets the transition width, in cycles per sample.
+   */
+  get width(): number { return this._width; }
+
+  /**
+   * Gets the window length, in samples.
+   */
+  get length(): number { return this._length; }
+
+  /**
+   * Evaluates this window at a specified coordinate.
+   * @param x the coordinate, in samples.
+   * @returns the window value; zero, for |x| &gt; length / 2.
+   */
+  evaluate(x: number): number {
+    const xx = x * x;
+    return ( xx <= this._xxmax ) ? this._scale * bessel0(this._alpha * Math.sqrt(1.0 - xx / this._xxmax)) : 0.0;
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private constructor(error: number, width: number, length: number) {
+    this._error = error;
+    this._width = width;
+    this._length = length;
+    const a = -20.0 * Math.log10(error);
+    if (a <= 21.0) {
+      this._alpha = 0.0;
+    } else if (a <= 50.0) {
+      this._alpha = 0.5842 * Math.pow(a - 21.0, 0.4) + 0.07886 * ( a - 21.0 );
+    } else {
+      this._alpha = 0.1102 * ( a - 8.7 );
+    }
+    this._scale = 1.0 / bessel0(this._alpha);
+    this._xxmax = 0.25 * length * length;
+  }
+
+  private static _checkError(error: number): void {
+    Check.argument(0.0 < error && error < 1.0, '0.0 < error < 1.0');
+  }
+
+  /**
+   * Returns the product of window width and length required for the
+   * specified error.
+   */
+  private static _product(error: number): number {
+    const a = -20.0 * Math.log10(error);
+    return ( a > 21.0 ) ? ( a - 7.95 ) / 14.36 : 0.922;
+  }
+}
+
+/**
+ * Modified Bessel function of the first kind, of order zero.
+ * @internal
+ */
+function bessel0(x: number): number {
+  const x2 = 0.25 * x * x;
+  let t = 1.0;
+  let s = 1.0;
+  for (let k = 1; t > 1.0e-16 * s; ++k) {
+    t *= x2 / ( k * k );
+    s += t;
+  }
+  return s;
+}
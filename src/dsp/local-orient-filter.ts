@@ -0,0 +1,640 @@
+import { arrayDimensions, zero } from '../utils';
+import { EigenSolver } from './eigen-solver';
+import { EigenTensors2 } from './eigen-tensors2';
+import { EigenTensors3 } from './eigen-tensors3';
+import { RecursiveGaussianFilter } from './recursive-gaussian-filter';
+
+/**
+ * Local estimates of orientations of features in images.
+ * <p>
+ * Methods of this class can compute for each image sample numerous
+ * parameters related to orientation. All orientation information is
+ * derived from eigenvectors and eigenvalues of the structure tensor
+ * (also called the "gradient-square tensor"). This tensor is equivalent
+ * to a matrix of 2nd partial derivatives of an autocorrelation evaluated
+ * at zero lag. In other words, orientation is here determined by the
+ * (2-D) ellipse or (3-D) ellipsoid that best fits the peak of the
+ * autocorrelation of image samples in a local window.
+ * <p>
+ * The coordinate system for a 2-D image has two orthogonal axes 1 and 2,
+ * which correspond to the 1st and 2nd indices of the array containing
+ * image samples. For 2-D images, the eigenvectors are the unit vectors
+ * u = (u1,u2) and v = (v1,v2). The 1st eigenvector u is perpendicular to
+ * the best fitting line, and the 1st component u1 of u is always
+ * non-negative. The 2nd eigenvector v is perpendicular to u such that the
+ * cross product u1 * v2 - u2 * v1 = 1; that is, v1 = -u2 and v2 = u1.
+ * The angle theta = asin(u2) is the angle measured counter-clockwise
+ * between the 1st eigenvector u and axis 1; -pi/2 &lt;= theta &lt;= pi/2.
+ * <p>
+ * The coordinate system for a 3-D image has three orthogonal axes 1, 2
+ * and 3, which correspond to the 1st, 2nd and 3rd indices of the array
+ * containing image samples. For 3-D images, the eigenvectors are unit
+ * vectors u = (u1,u2,u3), v = (v1,v2,v3), and w = (w1,w2,w3). The 1st
+ * eigenvector u is orthogonal to the best fitting plane, and the 1st
+ * component u1 of u is always non-negative. The 2nd eigenvector v is
+ * orthogonal to the best fitting line within the best fitting plane.
+ * The 3rd eigenvector w is orthogonal to both u and v and is aligned
+ * with the direction in which the images changes least. The 3rd
+ * component w3 of w is always non-negative.
+ * <p>
+ * The angle theta = acos(u1) is the angle between the 1st eigenvector u
+ * and axis 1; 0 &lt;= theta &lt;= pi/2. The angle phi = atan2(u3,u2) is
+ * the angle between the projection of u in the 2-3 plane and axis 2;
+ * -pi &lt;= phi &lt;= pi.
+ * <p>
+ * Eigenvalues of the structure tensor are the non-negative numbers
+ * eu &gt;= ev (2-D) or eu &gt;= ev &gt;= ew (3-D). In 2-D, the linearity
+ * el = (eu - ev) / eu is a measure of how well image features are
+ * aligned along straight lines. In 3-D, the planarity ep = (eu - ev) / eu
+ * and the linearity el = (ev - ew) / eu are measures of how well image
+ * features are aligned along planes and lines, respectively. All of
+ * these measures are in the range [0,1].
+ * <p>
+ * Slopes of linear (2-D) or planar (3-D) features are p2 = -u2/u1 and
+ * p3 = -u3/u1. These are the derivatives of the 1st coordinate with
+ * respect to the 2nd and 3rd coordinates, so that the 1st dimension is
+ * typically time or depth. Slopes are clipped to lie in the range
+ * [-maxSlope,maxSlope].
+ * <p>
+ * Gradients of image samples are computed with derivative-of-Gaussian
+ * filters with a small half-width, 1 sample by default. Outer products
+ * of gradients are then smoothed with Gaussian filters with specified
+ * half-widths, which may differ for each dimension.
+ */
+export class LocalOrientFilter {
+
+  private _rgfGradient: RecursiveGaussianFilter;
+  private readonly _rgfSmoother1: RecursiveGaussianFilter;
+  private readonly _rgfSmoother2: RecursiveGaussianFilter;
+  private readonly _rgfSmoother3: RecursiveGaussianFilter;
+  private _pmax: number;
+
+  /**
+   * Constructs a filter with an isotropic Gaussian window.
+   * @param sigma half-width of Gaussian; must not be less than 1.
+   */
+  constructor(sigma: number);
+
+  /**
+   * Constructs a filter with a possibly anisotropic Gaussian window.
+   * @param sigma1 half-width of Gaussian in 1st dimension.
+   * @param sigma2 half-width of Gaussian in 2nd and 3rd dimensions.
+   */
+  constructor(sigma1: number, sigma2: number);
+
+  /**
+   * Constructs a filter with a possibly anisotropic Gaussian window.
+   * @param sigma1 half-width of Gaussian in 1st dimension.
+   * @param sigma2 half-width of Gaussian in 2nd dimension.
+   * @param sigma3 half-width of Gaussian in 3rd dimension.
+   */
+  constructor(sigma1: number, sigma2: number, sigma3: number);
+
+  constructor(sigma1: number, sigma2?: number, sigma3?: number) {
+    if (sigma2 === undefined) { sigma2 = sigma1; }
+    if (sigma3 === undefined) { sigma3 = sigma2; }
+    this._rgfGradient = new RecursiveGaussianFilter(1.0);
+    if (sigma1 >= 1.0) { this._rgfSmoother1 = new RecursiveGaussianFilter(sigma1); }
+    if (sigma2 >= 1.0) { this._rgfSmoother2 = new RecursiveGaussianFilter(sigma2); }
+    if (sigma3 >= 1.0) { this._rgfSmoother3 = new RecursiveGaussianFilter(sigma3); }
+    this._pmax = 100.0;
+  }
+
+  /**
+   * Sets half-width of Gaussian derivative filter used to compute gradients.
+   * <p>
+   * Typically, this half-width should not exceed one-third of the
+   * minimum half-width of the Gaussian filters used to smooth products
+   * of gradient components. The default half-width is 1.
+   * @param sigma half-width of derivative filter; must not be less than 1.
+   */
+  set gradientSmoothing(sigma: number) {
+    this._rgfGradient = new RecursiveGaussianFilter(sigma);
+  }
+
+  /**
+   * Sets the maximum absolute slope returned by {@link applyForSlopes}.
+   * The default maximum slope is 100.
+   * @param pmax the maximum absolute slope.
+   */
+  set maxSlope(pmax: number) {
+    this._pmax = pmax;
+  }
+
+  /**
+   * Applies this filter to estimate orientation angles of a 2D image.
+   * @param x input array for 2D image.
+   * @param theta orientation angle; -pi/2 &lt;= theta &lt;= pi/2.
+   */
+  applyForTheta(x: number[][], theta: number[][]): void {
+    this._apply2(x, theta, null, null, null, null, null, null, null);
+  }
+
+  /**
+   * Applies this filter to estimate orientation angles of a 3D image.
+   * @param x input array for 3D image.
+   * @param theta orientation dip angle; 0 &lt;= theta &lt;= pi/2.
+   * @param phi orientation azimuthal angle; -pi &lt;= phi &lt;= pi.
+   */
+  applyForThetaPhi(x: number[][][], theta: number[][][], phi: number[][][]): void {
+    this._apply3(x, theta, phi,
+      null, null, null,
+      null, null, null,
+      null, null, null,
+      null, null, null,
+      null, null);
+  }
+
+  /**
+   * Applies this filter to estimate normal vectors of a 2D image.
+   * @param x input array for 2D image.
+   * @param u1 1st component of normal vector.
+   * @param u2 2nd component of normal vector.
+   */
+  applyForNormal(x: number[][], u1: number[][], u2: number[][]): void;
+
+  /**
+   * Applies this filter to estimate normal vectors of a 3D image.
+   * @param x input array for 3D image.
+   * @param u1 1st component of normal vector.
+   * @param u2 2nd component of normal vector.
+   * @param u3 3rd component of normal vector.
+   */
+  applyForNormal(x: number[][][], u1: number[][][], u2: number[][][], u3: number[][][]): void;
+
+  applyForNormal(x: number[][] | number[][][],
+                 u1: number[][] | number[][][],
+                 u2: number[][] | number[][][],
+                 u3?: number[][][]): void {
+    if (arrayDimensions(x) === 2) {
+      this._apply2(x as number[][], null, u1 as number[][], u2 as number[][],
+        null, null, null, null, null);
+    } else {
+      this._apply3(x as number[][][], null, null,
+        u1 as number[][][], u2 as number[][][], u3,
+        null, null, null,
+        null, null, null,
+        null, null, null,
+        null, null);
+    }
+  }
+
+  /**
+   * Applies this filter to estimate normal vectors and linearities of
+   * a 2D image.
+   * @param x input array for 2D image.
+   * @param u1 1st component of normal vector.
+   * @param u2 2nd component of normal vector.
+   * @param el linearity in range [0,1].
+   */
+  applyForNormalLinear(x: number[][], u1: number[][], u2: number[][], el: number[][]): void {
+    this._apply2(x, null, u1, u2, null, null, null, null, el);
+  }
+
+  /**
+   * Applies this filter to estimate normal vectors and planarities of
+   * a 3D image.
+   * @param x input array for 3D image.
+   * @param u1 1st component of normal vector.
+   * @param u2 2nd component of normal vector.
+   * @param u3 3rd component of normal vector.
+   * @param ep planarity in range [0,1].
+   */
+  applyForNormalPlanar(x: number[][][],
+                       u1: number[][][], u2: number[][][], u3: number[][][],
+                       ep: number[][][]): void {
+    this._apply3(x, null, null,
+      u1, u2, u3,
+      null, null, null,
+      null, null, null,
+      null, null, null,
+      ep, null);
+  }
+
+  /**
+   * Applies this filter to estimate inline vectors of a 3D image.
+   * @param x input array for 3D image.
+   * @param w1 1st component of inline vector.
+   * @param w2 2nd component of inline vector.
+   * @param w3 3rd component of inline vector.
+   */
+  applyForInline(x: number[][][], w1: number[][][], w2: number[][][], w3: number[][][]): void {
+    this._apply3(x, null, null,
+      null, null, null,
+      null, null, null,
+      w1, w2, w3,
+      null, null, null,
+      null, null);
+  }
+
+  /**
+   * Applies this filter to estimate inline vectors and linearities of
+   * a 3D image.
+   * @param x input array for 3D image.
+   * @param w1 1st component of inline vector.
+   * @param w2 2nd component of inline vector.
+   * @param w3 3rd component of inline vector.
+   * @param el linearity in range [0,1].
+   */
+  applyForInlineLinear(x: number[][][],
+                       w1: number[][][], w2: number[][][], w3: number[][][],
+                       el: number[][][]): void {
+    this._apply3(x, null, null,
+      null, null, null,
+      null, null, null,
+      w1, w2, w3,
+      null, null, null,
+      null, el);
+  }
+
+  /**
+   * Applies this filter to estimate slopes of linear features in a 2D image.
+   * @param x input array for 2D image.
+   * @param p2 slopes dx1/dx2 of linear features.
+   * @param el linearity in range [0,1] (optional).
+   */
+  applyForSlopes(x: number[][], p2: number[][], el?: number[][]): void;
+
+  /**
+   * Applies this filter to estimate slopes of planar features in a 3D image.
+   * @param x input array for 3D image.
+   * @param p2 slopes dx1/dx2 of planar features.
+   * @param p3 slopes dx1/dx3 of planar features.
+   * @param ep planarity in range [0,1] (optional).
+   */
+  applyForSlopes(x: number[][][], p2: number[][][], p3: number[][][], ep?: number[][][]): void;
+
+  applyForSlopes(x: number[][] | number[][][],
+                 p2: number[][] | number[][][],
+                 p3?: number[][] | number[][][],
+                 ep?: number[][][]): void {
+    if (arrayDimensions(x) === 2) {
+      const x2 = x as number[][];
+      const n2 = x2.length;
+      const n1 = x2[0].length;
+      const u1: number[][] = zero(n1, n2);
+      const u2: number[][] = zero(n1, n2);
+      this._apply2(x2, null, u1, u2, null, null, null, null, p3 as number[][]);
+      const p = p2 as number[][];
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          p[i2][i1] = this._slope(u1[i2][i1], u2[i2][i1]);
+        }
+      }
+    } else {
+      const x3 = x as number[][][];
+      const n3 = x3.length;
+      const n2 = x3[0].length;
+      const n1 = x3[0][0].length;
+      const u1: number[][][] = zero(n1, n2, n3);
+      const u2: number[][][] = zero(n1, n2, n3);
+      const u3: number[][][] = zero(n1, n2, n3);
+      this._apply3(x3, null, null,
+        u1, u2, u3,
+        null, null, null,
+        null, null, null,
+        null, null, null,
+        ep, null);
+      const q2 = p2 as number[][][];
+      const q3 = p3 as number[][][];
+      for (let i3 = 0; i3 < n3; ++i3) {
+        for (let i2 = 0; i2 < n2; ++i2) {
+          for (let i1 = 0; i1 < n1; ++i1) {
+            q2[i3][i2][i1] = this._slope(u1[i3][i2][i1], u2[i3][i2][i1]);
+            q3[i3][i2][i1] = this._slope(u1[i3][i2][i1], u3[i3][i2][i1]);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Applies this filter for the specified image and outputs for a 2D image.
+   * All outputs are optional; those that are null or undefined are not
+   * computed.
+   * @param x input array for 2D image.
+   * @param theta orientation angle; -pi/2 &lt;= theta &lt;= pi/2.
+   * @param u1 1st component of 1st eigenvector.
+   * @param u2 2nd component of 1st eigenvector.
+   * @param v1 1st component of 2nd eigenvector.
+   * @param v2 2nd component of 2nd eigenvector.
+   * @param eu largest eigenvalue corresponding to the eigenvector u.
+   * @param ev smallest eigenvalue corresponding to the eigenvector v.
+   * @param el (eu - ev) / eu, a measure of linearity.
+   */
+  apply(x: number[][],
+        theta?: number[][],
+        u1?: number[][], u2?: number[][],
+        v1?: number[][], v2?: number[][],
+        eu?: number[][], ev?: number[][],
+        el?: number[][]): void;
+
+  /**
+   * Applies this filter for the specified image and outputs for a 3D image.
+   * All outputs are optional; those that are null or undefined are not
+   * computed.
+   * @param x input array for 3D image.
+   * @param theta orientation dip angle; 0 &lt;= theta &lt;= pi/2.
+   * @param phi orientation azimuthal angle; -pi &lt;= phi &lt;= pi.
+   * @param u1 1st component of 1st eigenvector.
+   * @param u2 2nd component of 1st eigenvector.
+   * @param u3 3rd component of 1st eigenvector.
+   * @param v1 1st component of 2nd eigenvector.
+   * @param v2 2nd component of 2nd eigenvector.
+   * @param v3 3rd component of 2nd eigenvector.
+   * @param w1 1st component of 3rd eigenvector.
+   * @param w2 2nd component of 3rd eigenvector.
+   * @param w3 3rd component of 3rd eigenvector.
+   * @param eu largest eigenvalue corresponding to the eigenvector u.
+   * @param ev middle eigenvalue corresponding to the eigenvector v.
+   * @param ew smallest eigenvalue corresponding to the eigenvector w.
+   * @param ep (eu - ev) / eu, a measure of planarity.
+   * @param el (ev - ew) / eu, a measure of linearity.
+   */
+  apply(x: number[][][],
+        theta?: number[][][], phi?: number[][][],
+        u1?: number[][][], u2?: number[][][], u3?: number[][][],
+        v1?: number[][][], v2?: number[][][], v3?: number[][][],
+        w1?: number[][][], w2?: number[][][], w3?: number[][][],
+        eu?: number[][][], ev?: number[][][], ew?: number[][][],
+        ep?: number[][][], el?: number[][][]): void;
+
+  apply(x: number[][] | number[][][], ...a: (number[][] | number[][][])[]): void {
+    if (arrayDimensions(x) === 2) {
+      const b = a as number[][][];
+      this._apply2(x as number[][], b[0], b[1], b[2], b[3], b[4], b[5], b[6], b[7]);
+    } else {
+      const b = a as number[][][][];
+      this._apply3(x as number[][][], b[0], b[1],
+        b[2], b[3], b[4],
+        b[5], b[6], b[7],
+        b[8], b[9], b[10],
+        b[11], b[12], b[13],
+        b[14], b[15]);
+    }
+  }
+
+  /**
+   * Applies this filter to compute structure tensors for a 2D image.
+   * @param x input array for 2D image.
+   * @param compressed true, for compressed tensors; false, otherwise.
+   * @returns the structure tensors.
+   */
+  applyForTensors(x: number[][], compressed?: boolean): EigenTensors2;
+
+  /**
+   * Applies this filter to compute structure tensors for a 3D image.
+   * @param x input array for 3D image.
+   * @param compressed true, for compressed tensors; false, otherwise.
+   * @returns the structure tensors.
+   */
+  applyForTensors(x: number[][][], compressed?: boolean): EigenTensors3;
+
+  applyForTensors(x: number[][] | number[][][], compressed: boolean = false): EigenTensors2 | EigenTensors3 {
+    return ( arrayDimensions(x) === 2 )
+      ? this._applyForTensors2(x as number[][], compressed)
+      : this._applyForTensors3(x as number[][][], compressed);
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private _applyForTensors2(x: number[][], compressed: boolean): EigenTensors2 {
+    const n2 = x.length;
+    const n1 = x[0].length;
+    const u1: number[][] = zero(n1, n2);
+    const u2: number[][] = zero(n1, n2);
+    const eu: number[][] = zero(n1, n2);
+    const ev: number[][] = zero(n1, n2);
+    this._apply2(x, null, u1, u2, null, null, eu, ev, null);
+    const et = new EigenTensors2(n1, n2, compressed);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        et.setEigenvectorU(i1, i2, u1[i2][i1], u2[i2][i1]);
+        et.setEigenvalues(i1, i2, eu[i2][i1], ev[i2][i1]);
+      }
+    }
+    return et;
+  }
+
+  private _applyForTensors3(x: number[][][], compressed: boolean): EigenTensors3 {
+    const n3 = x.length;
+    const n2 = x[0].length;
+    const n1 = x[0][0].length;
+    const u1: number[][][] = zero(n1, n2, n3);
+    const u2: number[][][] = zero(n1, n2, n3);
+    const u3: number[][][] = zero(n1, n2, n3);
+    const w1: number[][][] = zero(n1, n2, n3);
+    const w2: number[][][] = zero(n1, n2, n3);
+    const w3: number[][][] = zero(n1, n2, n3);
+    const eu: number[][][] = zero(n1, n2, n3);
+    const ev: number[][][] = zero(n1, n2, n3);
+    const ew: number[][][] = zero(n1, n2, n3);
+    this._apply3(x, null, null,
+      u1, u2, u3,
+      null, null, null,
+      w1, w2, w3,
+      eu, ev, ew,
+      null, null);
+    const et = new EigenTensors3(n1, n2, n3, compressed);
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          et.setEigenvectorU(i1, i2, i3, u1[i3][i2][i1], u2[i3][i2][i1], u3[i3][i2][i1]);
+          et.setEigenvectorW(i1, i2, i3, w1[i3][i2][i1], w2[i3][i2][i1], w3[i3][i2][i1]);
+          et.setEigenvalues(i1, i2, i3, eu[i3][i2][i1], ev[i3][i2][i1], ew[i3][i2][i1]);
+        }
+      }
+    }
+    return et;
+  }
+
+  private _slope(u1: number, u2: number): number {
+    const pmax = this._pmax;
+    if (-u2 >= pmax * u1) { return pmax; }
+    if ( u2 >= pmax * u1) { return -pmax; }
+    return -u2 / u1;
+  }
+
+  private _apply2(x: number[][],
+                  theta: number[][],
+                  u1: number[][], u2: number[][],
+                  v1: number[][], v2: number[][],
+                  eu: number[][], ev: number[][],
+                  el: number[][]): void {
+    const n2 = x.length;
+    const n1 = x[0].length;
+
+    // Gradient products.
+    const g11: number[][] = zero(n1, n2);
+    const g12: number[][] = zero(n1, n2);
+    const g22: number[][] = zero(n1, n2);
+    const g1: number[][] = zero(n1, n2);
+    const g2: number[][] = zero(n1, n2);
+    this._rgfGradient.apply10(x, g1);
+    this._rgfGradient.apply01(x, g2);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        const g1i = g1[i2][i1];
+        const g2i = g2[i2][i1];
+        g11[i2][i1] = g1i * g1i;
+        g22[i2][i1] = g2i * g2i;
+        g12[i2][i1] = g1i * g2i;
+      }
+    }
+
+    // Smoothed gradient products comprise the structure tensor.
+    for (const g of [ g11, g12, g22 ]) {
+      if (this._rgfSmoother1) { this._rgfSmoother1.apply0X(g, g); }
+      if (this._rgfSmoother2) { this._rgfSmoother2.applyX0(g, g); }
+    }
+
+    // For all samples, compute eigenvectors and eigenvalues.
+    const a: number[][] = [ [ 0, 0 ], [ 0, 0 ] ];
+    const z: number[][] = [ [ 0, 0 ], [ 0, 0 ] ];
+    const e: number[] = [ 0, 0 ];
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        a[0][0] = g11[i2][i1];
+        a[0][1] = g12[i2][i1];
+        a[1][0] = g12[i2][i1];
+        a[1][1] = g22[i2][i1];
+        EigenSolver.SolveSymmetric2x2(a, z, e);
+        let u1i = z[0][0];
+        let u2i = z[0][1];
+        if (u1i < 0.0) {
+          u1i = -u1i;
+          u2i = -u2i;
+        }
+        const v1i = -u2i;
+        const v2i = u1i;
+        let eui = e[0];
+        let evi = e[1];
+        if (evi < 0.0) { evi = 0.0; }
+        if (eui < evi) { eui = evi; }
+        if (theta) { theta[i2][i1] = Math.asin(u2i); }
+        if (u1) { u1[i2][i1] = u1i; }
+        if (u2) { u2[i2][i1] = u2i; }
+        if (v1) { v1[i2][i1] = v1i; }
+        if (v2) { v2[i2][i1] = v2i; }
+        if (eu) { eu[i2][i1] = eui; }
+        if (ev) { ev[i2][i1] = evi; }
+        if (el) { el[i2][i1] = ( eui > 0.0 ) ? ( eui - evi ) / eui : 0.0; }
+      }
+    }
+  }
+
+  private _apply3(x: number[][][],
+                  theta: number[][][], phi: number[][][],
+                  u1: number[][][], u2: number[][][], u3: number[][][],
+                  v1: number[][][], v2: number[][][], v3: number[][][],
+                  w1: number[][][], w2: number[][][], w3: number[][][],
+                  eu: number[][][], ev: number[][][], ew: number[][][],
+                  ep: number[][][], el: number[][][]): void {
+    const n3 = x.length;
+    const n2 = x[0].length;
+    const n1 = x[0][0].length;
+
+    // Gradient products.
+    const g1: number[][][] = zero(n1, n2, n3);
+    const g2: number[][][] = zero(n1, n2, n3);
+    const g3: number[][][] = zero(n1, n2, n3);
+    this._rgfGradient.apply100(x, g1);
+    this._rgfGradient.apply010(x, g2);
+    this._rgfGradient.apply001(x, g3);
+    const g11: number[][][] = zero(n1, n2, n3);
+    const g12: number[][][] = zero(n1, n2, n3);
+    const g13: number[][][] = zero(n1, n2, n3);
+    const g22: number[][][] = zero(n1, n2, n3);
+    const g23: number[][][] = zero(n1, n2, n3);
+    const g33: number[][][] = zero(n1, n2, n3);
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          const g1i = g1[i3][i2][i1];
+          const g2i = g2[i3][i2][i1];
+          const g3i = g3[i3][i2][i1];
+          g11[i3][i2][i1] = g1i * g1i;
+          g12[i3][i2][i1] = g1i * g2i;
+          g13[i3][i2][i1] = g1i * g3i;
+          g22[i3][i2][i1] = g2i * g2i;
+          g23[i3][i2][i1] = g2i * g3i;
+          g33[i3][i2][i1] = g3i * g3i;
+        }
+      }
+    }
+
+    // Smoothed gradient products comprise the structure tensor.
+    for (const g of [ g11, g12, g13, g22, g23, g33 ]) {
+      if (this._rgfSmoother1) { this._rgfSmoother1.apply0XX(g, g); }
+      if (this._rgfSmoother2) { this._rgfSmoother2.applyX0X(g, g); }
+      if (this._rgfSmoother3) { this._rgfSmoother3.applyXX0(g, g); }
+    }
+
+    // For all samples, compute eigenvectors and eigenvalues.
+    const a: number[][] = [ [ 0, 0, 0 ], [ 0, 0, 0 ], [ 0, 0, 0 ] ];
+    const z: number[][] = [ [ 0, 0, 0 ], [ 0, 0, 0 ], [ 0, 0, 0 ] ];
+    const e: number[] = [ 0, 0, 0 ];
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          a[0][0] = g11[i3][i2][i1];
+          a[0][1] = g12[i3][i2][i1];
+          a[0][2] = g13[i3][i2][i1];
+          a[1][0] = g12[i3][i2][i1];
+          a[1][1] = g22[i3][i2][i1];
+          a[1][2] = g23[i3][i2][i1];
+          a[2][0] = g13[i3][i2][i1];
+          a[2][1] = g23[i3][i2][i1];
+          a[2][2] = g33[i3][i2][i1];
+          EigenSolver.SolveSymmetric3x3(a, z, e);
+          let u1i = z[0][0];
+          let u2i = z[0][1];
+          let u3i = z[0][2];
+          if (u1i < 0.0) {
+            u1i = -u1i;
+            u2i = -u2i;
+            u3i = -u3i;
+          }
+          let w1i = z[2][0];
+          let w2i = z[2][1];
+          let w3i = z[2][2];
+          if (w3i < 0.0) {
+            w1i = -w1i;
+            w2i = -w2i;
+            w3i = -w3i;
+          }
+          let eui = e[0];
+          let evi = e[1];
+          let ewi = e[2];
+          if (ewi < 0.0) { ewi = 0.0; }
+          if (evi < ewi) { evi = ewi; }
+          if (eui < evi) { eui = evi; }
+          if (theta) { theta[i3][i2][i1] = Math.acos(Math.min(u1i, 1.0)); }
+          if (phi) { phi[i3][i2][i1] = Math.atan2(u3i, u2i); }
+          if (u1) { u1[i3][i2][i1] = u1i; }
+          if (u2) { u2[i3][i2][i1] = u2i; }
+          if (u3) { u3[i3][i2][i1] = u3i; }
+          if (v1 || v2 || v3) {
+
+            // v = w cross u
+            if (v1) { v1[i3][i2][i1] = w2i * u3i - w3i * u2i; }
+            if (v2) { v2[i3][i2][i1] = w3i * u1i - w1i * u3i; }
+            if (v3) { v3[i3][i2][i1] = w1i * u2i - w2i * u1i; }
+          }
+          if (w1) { w1[i3][i2][i1] = w1i; }
+          if (w2) { w2[i3][i2][i1] = w2i; }
+          if (w3) { w3[i3][i2][i1] = w3i; }
+          if (eu) { eu[i3][i2][i1] = eui; }
+          if (ev) { ev[i3][i2][i1] = evi; }
+          if (ew) { ew[i3][i2][i1] = ewi; }
+          if (ep || el) {
+            const esi = ( eui > 0.0 ) ? 1.0 / eui : 0.0;
+            if (ep) { ep[i3][i2][i1] = ( eui - evi ) * esi; }
+            if (el) { el[i3][i2][i1] = ( evi - ewi ) * esi; }
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,430 @@
+import { arrayDimensions, Check, copy, zero } from '../utils';
+import { Tensors2 } from './tensors2';
+import { Tensors3 } from './tensors3';
+
+/**
+ * Local smoothing of images with tensor filter coefficients.
+ * <p>
+ * Smoothing is performed by solving a sparse symmetric positive-definite
+ * (SPD) system of equations: (I + G'DG)y = x, where G is a gradient
+ * operator, D is an SPD tensor field, x is an input image, and y is an
+ * output image.
+ * <p>
+ * The sparse system of filter equations (I + G'DG)y = x is solved
+ * iteratively, beginning with y = 0. Iterations continue until either
+ * the error in the solution y is below a specified threshold or the
+ * number of iterations exceeds a specified limit. Each iteration applies
+ * the conjugate-gradient method, preconditioned by the inverse of the
+ * diagonal of the matrix I + G'DG.
+ * <p>
+ * For low-pass filters with constant coefficients, this local smoothing
+ * filter is equivalent to an isotropic filter with an amplitude response
+ * of approximately 1 / (1 + c * (k1 * k1 + k2 * k2)), where k1 and k2 are
+ * wavenumbers in radians per sample. For tensor fields D computed with
+ * {@link LocalOrientFilter} and then inverted with invertStructure, the
+ * filter smooths most along linear or planar image features, and least
+ * across them.
+ * <p>
+ * The gradient operator G is approximated with 2x2 (2D) or 2x2x2 (3D)
+ * finite-difference stencils centered between image samples, so that
+ * tensors D are applied at those centers.
+ */
+export class LocalSmoothingFilter {
+
+  private readonly _small: number;
+  private readonly _niter: number;
+  private _pc: boolean;
+
+  /**
+   * Constructs a local smoothing filter.
+   * @param small stop iterations when error energy is reduced by this
+   *        factor; the default is 0.01.
+   * @param niter maximum number of iterations; the default is 100.
+   */
+  constructor(small: number = 0.01, niter: number = 100) {
+    Check.argument(small > 0.0, 'small > 0.0');
+    Check.argument(niter > 0, 'niter > 0');
+    this._small = small;
+    this._niter = niter;
+    this._pc = true;
+  }
+
+  /**
+   * Sets the use of a diagonal preconditioner in this filter.
+   * The default is to use the preconditioner.
+   * @param pc true, to use the preconditioner; false, otherwise.
+   */
+  set preconditioner(pc: boolean) {
+    this._pc = pc;
+  }
+
+  /**
+   * Applies this filter for specified tensor coefficients to a 2D image.
+   * <p>
+   * If the tensors are null or undefined, identity tensors are used, so
+   * that smoothing is isotropic.
+   * @param d tensor coefficients.
+   * @param c constant multiplier of tensor coefficients.
+   * @param x input array.
+   * @param y output array.
+   */
+  apply(d: Tensors2, c: number, x: number[][], y: number[][]): void;
+
+  /**
+   * Applies this filter for specified tensor coefficients and scale
+   * factors to a 2D image.
+   * @param d tensor coefficients.
+   * @param c constant multiplier of tensor coefficients.
+   * @param s array of scale factors for tensor coefficients.
+   * @param x input array.
+   * @param y output array.
+   */
+  apply(d: Tensors2, c: number, s: number[][], x: number[][], y: number[][]): void;
+
+  /**
+   * Applies this filter for specified tensor coefficients to a 3D image.
+   * <p>
+   * If the tensors are null or undefined, identity tensors are used, so
+   * that smoothing is isotropic.
+   * @param d tensor coefficients.
+   * @param c constant multiplier of tensor coefficients.
+   * @param x input array.
+   * @param y output array.
+   */
+  apply(d: Tensors3, c: number, x: number[][][], y: number[][][]): void;
+
+  /**
+   * Applies this filter for specified tensor coefficients and scale
+   * factors to a 3D image.
+   * @param d tensor coefficients.
+   * @param c constant multiplier of tensor coefficients.
+   * @param s array of scale factors for tensor coefficients.
+   * @param x input array.
+   * @param y output array.
+   */
+  apply(d: Tensors3, c: number, s: number[][][], x: number[][][], y: number[][][]): void;
+
+  apply(d: Tensors2 | Tensors3, c: number,
+        s: number[][] | number[][][],
+        x: number[][] | number[][][],
+        y?: number[][] | number[][][]): void {
+    if (y === undefined) {
+      y = x;
+      x = s;
+      s = null;
+    }
+    if (arrayDimensions(x) === 2) {
+      const a = new SmoothOperator2(d as Tensors2, c, s as number[][]);
+      this._solve(a, x as number[][], y as number[][]);
+    } else {
+      const a = new SmoothOperator3(d as Tensors3, c, s as number[][][]);
+      this._solve(a, x as number[][][], y as number[][][]);
+    }
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Solves Ay = x via preconditioned conjugate gradient iterations,
+   * beginning with y = 0.
+   */
+  private _solve<T extends number[][] | number[][][]>(a: Operator<T>, x: T, y: T): void {
+    const pc = this._pc;
+    const m = ( pc ) ? a.diagonal(x) : null;
+    const r = copyOf(x);
+    const z = ( pc ) ? copyOf(x) : r;
+    const p = copyOf(x);
+    const q = copyOf(x);
+    zeroOf(y);
+    if (pc) { divide(r, m, z); }
+    copyTo(z, p);
+    const delta0 = dot(r, r);
+    const deltaSmall = delta0 * this._small * this._small;
+    let rz = dot(r, z);
+    let delta = delta0;
+    for (let iter = 0; iter < this._niter && delta > deltaSmall; ++iter) {
+      a.apply(p, q);
+      const alpha = rz / dot(p, q);
+      saxpy(alpha, p, y);
+      saxpy(-alpha, q, r);
+      if (pc) { divide(r, m, z); }
+      const rzOld = rz;
+      rz = dot(r, z);
+      delta = dot(r, r);
+      sxpay(rz / rzOld, z, p);
+    }
+  }
+}
+
+///////////////////////////////////////////////////////////////////////////////
+// Operators
+
+/**
+ * A symmetric positive-definite operator A, with its diagonal.
+ * @internal
+ */
+interface Operator<T> {
+  apply(x: T, y: T): void;
+  diagonal(x: T): T;
+}
+
+/**
+ * The operator I + G'DG for 2D images.
+ * @internal
+ */
+class SmoothOperator2 implements Operator<number[][]> {
+
+  constructor(private readonly _d: Tensors2,
+              private readonly _c: number,
+              private readonly _s: number[][]) {}
+
+  apply(x: number[][], y: number[][]): void {
+    const n2 = x.length;
+    const n1 = x[0].length;
+    const di = [ 1.0, 0.0, 1.0 ];
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        y[i2][i1] = x[i2][i1];
+      }
+    }
+    for (let i2 = 1; i2 < n2; ++i2) {
+      for (let i1 = 1; i1 < n1; ++i1) {
+        const csi = this._scale(i1, i2, di);
+        const d11 = di[0] * csi;
+        const d12 = di[1] * csi;
+        const d22 = di[2] * csi;
+        const xa = x[i2][i1] - x[i2 - 1][i1 - 1];
+        const xb = x[i2][i1 - 1] - x[i2 - 1][i1];
+        const x1 = 0.5 * ( xa - xb );
+        const x2 = 0.5 * ( xa + xb );
+        const y1 = d11 * x1 + d12 * x2;
+        const y2 = d12 * x1 + d22 * x2;
+        const ya = 0.5 * ( y1 + y2 );
+        const yb = 0.5 * ( y1 - y2 );
+        y[i2][i1] += ya;
+        y[i2][i1 - 1] -= yb;
+        y[i2 - 1][i1] += yb;
+        y[i2 - 1][i1 - 1] -= ya;
+      }
+    }
+  }
+
+  diagonal(x: number[][]): number[][] {
+    const n2 = x.length;
+    const n1 = x[0].length;
+    const m: number[][] = zero(n1, n2);
+    const di = [ 1.0, 0.0, 1.0 ];
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        m[i2][i1] = 1.0;
+      }
+    }
+    for (let i2 = 1; i2 < n2; ++i2) {
+      for (let i1 = 1; i1 < n1; ++i1) {
+        const csi = this._scale(i1, i2, di);
+        const dsum = 0.25 * ( di[0] + di[2] ) * csi;
+        const dmix = 0.5 * di[1] * csi;
+        m[i2][i1] += dsum + dmix;
+        m[i2][i1 - 1] += dsum - dmix;
+        m[i2 - 1][i1] += dsum - dmix;
+        m[i2 - 1][i1 - 1] += dsum + dmix;
+      }
+    }
+    return m;
+  }
+
+  /**
+   * Gets tensor elements and returns the scale factor for the specified
+   * indices.
+   */
+  private _scale(i1: number, i2: number, d: number[]): number {
+    if (this._d) { this._d.getTensor(i1, i2, d); }
+    return ( this._s ) ? this._c * this._s[i2][i1] : this._c;
+  }
+}
+
+/**
+ * The operator I + G'DG for 3D images.
+ * @internal
+ */
+class SmoothOperator3 implements Operator<number[][][]> {
+
+  constructor(private readonly _d: Tensors3,
+              private readonly _c: number,
+              private readonly _s: number[][][]) {}
+
+  apply(x: number[][][], y: number[][][]): void {
+    const n3 = x.length;
+    const n2 = x[0].length;
+    const n1 = x[0][0].length;
+    const di = [ 1.0, 0.0, 0.0, 1.0, 0.0, 1.0 ];
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          y[i3][i2][i1] = x[i3][i2][i1];
+        }
+      }
+    }
+    for (let i3 = 1; i3 < n3; ++i3) {
+      for (let i2 = 1; i2 < n2; ++i2) {
+        const x00 = x[i3][i2], x01 = x[i3][i2 - 1], x10 = x[i3 - 1][i2], x11 = x[i3 - 1][i2 - 1];
+        const y00 = y[i3][i2], y01 = y[i3][i2 - 1], y10 = y[i3 - 1][i2], y11 = y[i3 - 1][i2 - 1];
+        for (let i1 = 1, m1 = 0; i1 < n1; ++i1, ++m1) {
+          const csi = this._scale(i1, i2, i3, di);
+          const d11 = di[0] * csi;
+          const d12 = di[1] * csi;
+          const d13 = di[2] * csi;
+          const d22 = di[3] * csi;
+          const d23 = di[4] * csi;
+          const d33 = di[5] * csi;
+          const xa = x00[i1] - x11[m1];
+          const xb = x00[m1] - x11[i1];
+          const xc = x01[i1] - x10[m1];
+          const xd = x10[i1] - x01[m1];
+          const x1 = 0.25 * ( xa - xb + xc + xd );
+          const x2 = 0.25 * ( xa + xb - xc + xd );
+          const x3 = 0.25 * ( xa + xb + xc - xd );
+          const y1 = d11 * x1 + d12 * x2 + d13 * x3;
+          const y2 = d12 * x1 + d22 * x2 + d23 * x3;
+          const y3 = d13 * x1 + d23 * x2 + d33 * x3;
+          const ya = 0.25 * ( y1 + y2 + y3 );
+          const yb = 0.25 * ( y2 + y3 - y1 );
+          const yc = 0.25 * ( y1 - y2 + y3 );
+          const yd = 0.25 * ( y1 + y2 - y3 );
+          y00[i1] += ya;
+          y11[m1] -= ya;
+          y00[m1] += yb;
+          y11[i1] -= yb;
+          y01[i1] += yc;
+          y10[m1] -= yc;
+          y10[i1] += yd;
+          y01[m1] -= yd;
+        }
+      }
+    }
+  }
+
+  diagonal(x: number[][][]): number[][][] {
+    const n3 = x.length;
+    const n2 = x[0].length;
+    const n1 = x[0][0].length;
+    const m: number[][][] = zero(n1, n2, n3);
+    const di = [ 1.0, 0.0, 0.0, 1.0, 0.0, 1.0 ];
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          m[i3][i2][i1] = 1.0;
+        }
+      }
+    }
+    for (let i3 = 1; i3 < n3; ++i3) {
+      for (let i2 = 1; i2 < n2; ++i2) {
+        for (let i1 = 1, m1 = 0; i1 < n1; ++i1, ++m1) {
+          const csi = this._scale(i1, i2, i3, di) / 16.0;
+          const dsum = di[0] + di[3] + di[5];
+          const d12 = 2.0 * di[1], d13 = 2.0 * di[2], d23 = 2.0 * di[4];
+
+          // Each corner has gradient weights (+-1,+-1,+-1) / 4, with signs
+          // positive for the corners with the larger index in each dimension.
+          m[i3][i2][i1] += csi * ( dsum + d12 + d13 + d23 );
+          m[i3 - 1][i2 - 1][m1] += csi * ( dsum + d12 + d13 + d23 );
+          m[i3][i2][m1] += csi * ( dsum - d12 - d13 + d23 );
+          m[i3 - 1][i2 - 1][i1] += csi * ( dsum - d12 - d13 + d23 );
+          m[i3][i2 - 1][i1] += csi * ( dsum - d12 + d13 - d23 );
+          m[i3 - 1][i2][m1] += csi * ( dsum - d12 + d13 - d23 );
+          m[i3 - 1][i2][i1] += csi * ( dsum + d12 - d13 - d23 );
+          m[i3][i2 - 1][m1] += csi * ( dsum + d12 - d13 - d23 );
+        }
+      }
+    }
+    return m;
+  }
+
+  /**
+   * Gets tensor elements and returns the scale factor for the specified
+   * indices.
+   */
+  private _scale(i1: number, i2: number, i3: number, d: number[]): number {
+    if (this._d) { this._d.getTensor(i1, i2, i3, d); }
+    return ( this._s ) ? this._c * this._s[i3][i2][i1] : this._c;
+  }
+}
+
+///////////////////////////////////////////////////////////////////////////////
+// Array helpers for 2D and 3D arrays.
+
+/** @internal */
+function copyOf<T extends number[][] | number[][][]>(x: T): T {
+  return ( ( arrayDimensions(x) === 2 )
+    ? copy(x as number[][])
+    : copy(x as number[][][]) ) as T;
+}
+
+/** @internal */
+function rows(x: number[][] | number[][][]): number[][] {
+  return ( arrayDimensions(x) === 2 )
+    ? x as number[][]
+    : [].concat(...( x as number[][][] ));
+}
+
+/** @internal */
+function zeroOf(x: number[][] | number[][][]): void {
+  for (const xi of rows(x)) { xi.fill(0.0); }
+}
+
+/** @internal */
+function copyTo(x: number[][] | number[][][], y: number[][] | number[][][]): void {
+  const xr = rows(x), yr = rows(y);
+  for (let i = 0; i < xr.length; ++i) {
+    const xi = xr[i], yi = yr[i];
+    for (let j = 0; j < xi.length; ++j) { yi[j] = xi[j]; }
+  }
+}
+
+/** @internal */
+function dot(x: number[][] | number[][][], y: number[][] | number[][][]): number {
+  const xr = rows(x), yr = rows(y);
+  let sum = 0.0;
+  for (let i = 0; i < xr.length; ++i) {
+    const xi = xr[i], yi = yr[i];
+    for (let j = 0; j < xi.length; ++j) { sum += xi[j] * yi[j]; }
+  }
+  return sum;
+}
+
+/**
+ * Computes y = y + a * x.
+ * @internal
+ */
+function saxpy(a: number, x: number[][] | number[][][], y: number[][] | number[][][]): void {
+  const xr = rows(x), yr = rows(y);
+  for (let i = 0; i < xr.length; ++i) {
+    const xi = xr[i], yi = yr[i];
+    for (let j = 0; j < xi.length; ++j) { yi[j] += a * xi[j]; }
+  }
+}
+
+/**
+ * Computes y = x + a * y.
+ * @internal
+ */
+function sxpay(a: number, x: number[][] | number[][][], y: number[][] | number[][][]): void {
+  const xr = rows(x), yr = rows(y);
+  for (let i = 0; i < xr.length; ++i) {
+    const xi = xr[i], yi = yr[i];
+    for (let j = 0; j < xi.length; ++j) { yi[j] = xi[j] + a * yi[j]; }
+  }
+}
+
+/**
+ * Computes z = x / m.
+ * @internal
+ */
+function divide(x: number[][] | number[][][], m: number[][] | number[][][], z: number[][] | number[][][]): void {
+  const xr = rows(x), mr = rows(m), zr = rows(z);
+  for (let i = 0; i < xr.length; ++i) {
+    const xi = xr[i], mi = mr[i], zi = zr[i];
+    for (let j = 0; j < xi.length; ++j) { zi[j] = xi[j] / mi[j]; }
+  }
+}
@@ -0,0 +1,214 @@
+import { Check, czero, zero } from '../utils';
+import { BoundaryCondition } from '../types';
+import { Dct } from './dct';
+import { Dst } from './dst';
+import { FftComplex } from './fft-complex';
+import { Sampling } from './sampling';
+
+/**
+ * A fast solver of Poisson and Helmholtz equations on regular 2D and 3D
+ * grids.
+ * <p>
+ * This solver computes a solution u of the discrete equation L u + a * u =
+ * f, where L is the finite-difference Laplacian (with 5-point and 7-point
+ * stencils, in 2D and 3D) and a is a constant Helmholtz coefficient. For
+ * a = 0 (the default), the equation is Poisson's equation. Grid spacing in
+ * each dimension is the sampling interval of a specified uniform sampling.
+ * <p>
+ * Boundary conditions are the same for all dimensions:
+ * <ul><li>
+ *   Dirichlet: values u are zero just beyond the ends of the grid. The
+ *   equation is diagonalized by a discrete sine transform of type I.
+ * </li><li>
+ *   Neumann: slopes are zero midway between the end samples and samples
+ *   just beyond the ends. The equation is diagonalized by a discrete cosine
+ *   transform of type II.
+ * </li><li>
+ *   Periodic: values repeat with period equal to the number of samples.
+ *   The equation is diagonalized by a discrete Fourier transform.
+ * </li></ul>
+ * The cost of a solution is that of the transforms, which is O(n log n)
+ * for n samples. For Neumann and periodic boundary conditions and a = 0,
+ * the solution is unique only to within an additive constant; the solution
+ * computed has zero mean, and the mean value of f is ignored. More
+ * generally, components of f in the null space of L + a are ignored.
+ */
+export class PoissonSolver {
+
+  private readonly _s: Sampling[];
+  private readonly _boundary: BoundaryCondition;
+  private _a = 0.0;
+
+  /**
+   * Constructs a solver for 2D grids with specified samplings.
+   * @param s1 sampling of the 1st dimension; must be uniform.
+   * @param s2 sampling of the 2nd dimension; must be uniform.
+   * @param boundary the boundary condition; default is 'Dirichlet'.
+   */
+  constructor(s1: Sampling, s2: Sampling, boundary?: BoundaryCondition);
+
+  /**
+   * Constructs a solver for 3D grids with specified samplings.
+   * @param s1 sampling of the 1st dimension; must be uniform.
+   * @param s2 sampling of the 2nd dimension; must be uniform.
+   * @param s3 sampling of the 3rd dimension; must be uniform.
+   * @param boundary the boundary condition; default is 'Dirichlet'.
+   */
+  constructor(s1: Sampling, s2: Sampling, s3: Sampling, boundary?: BoundaryCondition);
+
+  constructor(s1: Sampling, s2: Sampling, s3?: Sampling | BoundaryCondition, boundary?: BoundaryCondition) {
+    if (typeof s3 === 'string') {
+      boundary = s3;
+      s3 = undefined;
+    }
+    this._s = ( s3 === undefined ) ? [ s1, s2 ] : [ s1, s2, s3 as Sampling ];
+    this._s.forEach(s => Check.argument(s.isUniform(), 'sampling is uniform'));
+    this._boundary = ( boundary === undefined ) ? 'Dirichlet' : boundary;
+  }
+
+  /**
+   * Gets the boundary condition.
+   */
+  get boundary(): BoundaryCondition { return this._boundary; }
+
+  /**
+   * Gets the Helmholtz coefficient a.
+   */
+  get helmholtz(): number { return this._a; }
+
+  /**
+   * Sets the Helmholtz coefficient a. The default is zero, for Poisson's
+   * equation.
+   * @param a the Helmholtz coefficient.
+   */
+  set helmholtz(a: number) { this._a = a; }
+
+  /**
+   * Solves the equation for a 2D grid.
+   * @param f input array[n2][n1] of right-hand-side values.
+   * @param u output array[n2][n1] of solution values; may be the same as f.
+   */
+  solve(f: number[][], u: number[][]): void;
+
+  /**
+   * Solves the equation for a 3D grid.
+   * @param f input array[n3][n2][n1] of right-hand-side values.
+   * @param u output array[n3][n2][n1] of solution values; may be the same
+   *          as f.
+   */
+  solve(f: number[][][], u: number[][][]): void;
+
+  solve(f: number[][] | number[][][], u: number[][] | number[][][]): void {
+    const ndim = this._s.length;
+    const n = this._s.map(s => s.count);
+    Check.argument(f.length === n[ndim - 1] && u.length === n[ndim - 1], 'array dimensions match samplings');
+    if (ndim === 2) {
+      Check.argument(( f as number[][] ).every(f1 => f1.length === n[0]), 'array dimensions match samplings');
+    } else {
+      Check.argument(( f as number[][][] ).every(f2 => f2.length === n[1] && f2.every(f1 => f1.length === n[0])),
+        'array dimensions match samplings');
+    }
+
+    // Eigenvalues of the Laplacian in each dimension, such that the
+    // eigenvalues of L + a are sums of these plus a.
+    const e = this._s.map(s => eigenvalues(this._boundary, s));
+    const divide = (z: number, ...k: number[]): number => {
+      let d = this._a;
+      for (let i = 0; i < ndim; ++i) { d += e[i][k[i]]; }
+      return ( d === 0.0 ) ? 0.0 : z / d;
+    };
+
+    if (this._boundary === 'Periodic') {
+      this._solvePeriodic(f, u, divide);
+    } else {
+      const t = ( this._boundary === 'Dirichlet' ) ? new Dst(1, true) : new Dct(2, true);
+      if (ndim === 2) {
+        const u2 = u as number[][];
+        t.apply(f as number[][], u2);
+        u2.forEach((u1, i2) => u1.forEach((ui, i1) => u1[i1] = divide(ui, i1, i2)));
+        t.applyInverse(u2, u2);
+      } else {
+        const u3 = u as number[][][];
+        t.apply(f as number[][][], u3);
+        u3.forEach((u2, i3) => u2.forEach((u1, i2) => u1.forEach((ui, i1) => u1[i1] = divide(ui, i1, i2, i3))));
+        t.applyInverse(u3, u3);
+      }
+    }
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Solves the equation with periodic boundary conditions, using complex
+   * FFTs of exact lengths.
+   */
+  private _solvePeriodic(f: number[][] | number[][][], u: number[][] | number[][][],
+                         divide: (z: number, ...k: number[]) => number): void {
+    const [ n1, n2, n3 ] = this._s.map(s => s.count);
+    const fft1 = new FftComplex(n1, true);
+    const fft2 = new FftComplex(n2, true);
+    const scale = 1.0 / ( n1 * n2 * ( ( n3 === undefined ) ? 1 : n3 ) );
+
+    // Real values in complex arrays, and back.
+    const complex = (f2: number[][]): number[][] => f2.map(f1 => {
+      const c1: number[] = czero(n1);
+      for (let i1 = 0; i1 < n1; ++i1) { c1[2 * i1] = f1[i1]; }
+      return c1;
+    });
+    const real = (c2: number[][], u2: number[][]): void => {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) { u2[i2][i1] = scale * c2[i2][2 * i1]; }
+      }
+    };
+    const divide2 = (c2: number[][], i3?: number): void => {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          c2[i2][2 * i1] = divide(c2[i2][2 * i1], i1, i2, i3);
+          c2[i2][2 * i1 + 1] = divide(c2[i2][2 * i1 + 1], i1, i2, i3);
+        }
+      }
+    };
+
+    if (n3 === undefined) {
+      const c = complex(f as number[][]);
+      fft1.complexToComplex1(-1, c, c, n2);
+      fft2.complexToComplex2(-1, c, c, n1);
+      divide2(c);
+      fft2.complexToComplex2(1, c, c, n1);
+      fft1.complexToComplex1(1, c, c, n2);
+      real(c, u as number[][]);
+    } else {
+      const fft3 = new FftComplex(n3, true);
+      const c = ( f as number[][][] ).map(complex);
+      fft1.complexToComplex1(-1, c, c, n2, n3);
+      fft2.complexToComplex2(-1, c, c, n1, n3);
+      fft3.complexToComplex3(-1, c, c, n1, n2);
+      c.forEach(divide2);
+      fft3.complexToComplex3(1, c, c, n1, n2);
+      fft2.complexToComplex2(1, c, c, n1, n3);
+      fft1.complexToComplex1(1, c, c, n2, n3);
+      c.forEach((c2, i3) => real(c2, ( u as number[][][] )[i3]));
+    }
+  }
+}
+
+/**
+ * Returns eigenvalues of the 1D second-difference operator with specified
+ * boundary condition, ordered as the coefficients of the corresponding
+ * transform.
+ * @internal
+ */
+function eigenvalues(boundary: BoundaryCondition, s: Sampling): number[] {
+  const n = s.count;
+  const d = s.delta;
+  const e: number[] = zero(n);
+  for (let k = 0; k < n; ++k) {
+    const theta = ( boundary === 'Dirichlet' ) ? Math.PI * ( k + 1 ) / ( n + 1 ) :
+                  ( boundary === 'Neumann' ) ? Math.PI * k / n :
+                  2.0 * Math.PI * k / n;
+    const h = Math.sin(0.5 * theta);
+    e[k] = -4.0 * h * h / ( d * d );
+  }
+  return e;
+}
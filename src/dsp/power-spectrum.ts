@@ -0,0 +1,306 @@
+import { Check, zero } from '../utils';
+import { SpectrumSide, WindowType } from '../types';
+import { FftReal } from './fft-real';
+import { Sampling } from './sampling';
+import { windowValues } from './stft';
+
+/**
+ * An estimate of the power spectral density (PSD) of a real-valued signal.
+ * <p>
+ * Estimates are computed with one of three methods. A periodogram is the
+ * squared amplitude of the Fourier transform of the entire signal,
+ * multiplied by an optional window (taper). Welch's method averages the
+ * periodograms of overlapping windowed segments of the signal, to reduce
+ * the variance of the estimate. The multitaper method averages the
+ * periodograms of the entire signal multiplied by orthogonal discrete
+ * prolate spheroidal sequences (DPSS, or Slepian tapers), to reduce both
+ * variance and leakage.
+ * <p>
+ * Power spectral densities have units of squared signal amplitude per
+ * unit frequency, with frequencies in cycles per unit of signal sampling.
+ * They are normalized so that the sum of densities times the frequency
+ * sampling interval approximates the mean-square value of the signal.
+ * One-sided estimates are sampled at non-negative frequencies, with the
+ * power of negative frequencies folded into the corresponding positive
+ * frequencies. Two-sided estimates are sampled at negative and
+ * non-negative frequencies, with zero frequency in the middle.
+ * <p>
+ * Signals are padded with zeros to a valid FFT length for {@link FftReal},
+ * which may sample frequency more finely than the signal length alone.
+ * <p>
+ * Reference: Percival, D. B., and Walden, A. T., 1993, Spectral analysis
+ * for physical applications: Cambridge University Press.
+ */
+export class PowerSpectrum {
+
+  private readonly _sf: Sampling;
+  private readonly _p: number[];
+
+  /**
+   * Returns a periodogram estimate of power spectral density.
+   * @param sx the signal sampling; must be uniform.
+   * @param x the array of signal values.
+   * @param window the window type; default is 'Rectangular'.
+   * @param side the side of the spectrum; default is 'OneSided'.
+   * @returns the power spectrum.
+   */
+  static Periodogram(sx: Sampling, x: number[],
+                     window: WindowType = 'Rectangular',
+                     side: SpectrumSide = 'OneSided'): PowerSpectrum {
+    PowerSpectrum._checkSignal(sx, x);
+    const n = x.length;
+    const fft = new FftReal(FftReal.SmallNFFT(n));
+    const p = PowerSpectrum._periodogram(fft, x, 0, windowValues(window, n));
+    return new PowerSpectrum(sx.delta, fft.nfft, p, side);
+  }
+
+  /**
+   * Returns a Welch estimate of power spectral density, an average of
+   * periodograms of overlapping segments. Only complete segments, those
+   * that lie entirely within the signal, are used.
+   * @param sx the signal sampling; must be uniform.
+   * @param x the array of signal values.
+   * @param nwin the number of samples in each segment; 0 &lt; nwin &lt;= n.
+   * @param hop the number of samples between the beginnings of segments.
+   * @param window the window type; default is 'Hann'.
+   * @param side the side of the spectrum; default is 'OneSided'.
+   * @returns the power spectrum.
+   */
+  static Welch(sx: Sampling, x: number[], nwin: number, hop: number,
+               window: WindowType = 'Hann',
+               side: SpectrumSide = 'OneSided'): PowerSpectrum {
+    PowerSpectrum._checkSignal(sx, x);
+    const n = x.length;
+    Check.argument(nwin > 0 && nwin <= n && Math.floor(nwin) === nwin, 'nwin is an integer in [1, x.length]');
+    Check.argument(hop > 0 && Math.floor(hop) === hop, 'hop is a positive integer');
+    const nfft = FftReal.SmallNFFT(nwin);
+    const fft = new FftReal(nfft);
+    const w = windowValues(window, nwin);
+    const p: number[] = zero(nfft / 2 + 1);
+    let nseg = 0;
+    for (let i0 = 0; i0 + nwin <= n; i0 += hop, ++nseg) {
+      const ps = PowerSpectrum._periodogram(fft, x, i0, w);
+      for (let k = 0; k < p.length; ++k) { p[k] += ps[k]; }
+    }
+    for (let k = 0; k < p.length; ++k) { p[k] /= nseg; }
+    return new PowerSpectrum(sx.delta, nfft, p, side);
+  }
+
+  /**
+   * Returns a multitaper estimate of power spectral density, an average of
+   * periodograms computed with orthogonal DPSS tapers.
+   * @param sx the signal sampling; must be uniform.
+   * @param x the array of signal values.
+   * @param nw the time-half-bandwidth product; default is 4.
+   * @param ntaper the number of tapers; default is 2 * nw - 1, rounded down.
+   * @param side the side of the spectrum; default is 'OneSided'.
+   * @returns the power spectrum.
+   */
+  static Multitaper(sx: Sampling, x: number[],
+                    nw: number = 4.0,
+                    ntaper: number = Math.max(1, Math.floor(2.0 * nw) - 1),
+                    side: SpectrumSide = 'OneSided'): PowerSpectrum {
+    PowerSpectrum._checkSignal(sx, x);
+    const n = x.length;
+    const nfft = FftReal.SmallNFFT(n);
+    const fft = new FftReal(nfft);
+    const v = PowerSpectrum.Dpss(n, nw, ntaper);
+    const p: number[] = zero(nfft / 2 + 1);
+    for (const vk of v) {
+      const pk = PowerSpectrum._periodogram(fft, x, 0, vk);
+      for (let k = 0; k < p.length; ++k) { p[k] += pk[k]; }
+    }
+    for (let k = 0; k < p.length; ++k) { p[k] /= ntaper; }
+    return new PowerSpectrum(sx.delta, nfft, p, side);
+  }
+
+  /**
+   * Returns discrete prolate spheroidal sequences (Slepian tapers).
+   * <p>
+   * The sequences are those with the greatest concentration of energy in
+   * the frequency band [-nw / n, nw / n], in order of decreasing
+   * concentration. Each sequence has unit sum of squares. Even-numbered
+   * sequences are symmetric, with positive sums; odd-numbered sequences are
+   * antisymmetric, with positive values first.
+   * @param n the length of each sequence.
+   * @param nw the time-half-bandwidth product; 0 &lt; nw &lt; n / 2.
+   * @param ntaper the number of sequences; 0 &lt; ntaper &lt;= n.
+   * @returns array v[ntaper][n] of sequences.
+   */
+  static Dpss(n: number, nw: number, ntaper: number): number[][] {
+    Check.argument(n > 0 && Math.floor(n) === n, 'n is a positive integer');
+    Check.argument(0.0 < nw && nw < 0.5 * n, '0 < nw < n / 2');
+    Check.argument(ntaper > 0 && ntaper <= n && Math.floor(ntaper) === ntaper, 'ntaper is an integer in [1, n]');
+
+    // Symmetric tridiagonal matrix that commutes with the concentration
+    // matrix; its eigenvectors are the sequences.
+    const cw = Math.cos(2.0 * Math.PI * nw / n);
+    const d: number[] = zero(n);
+    const e: number[] = zero(n);
+    for (let i = 0; i < n; ++i) {
+      const t = 0.5 * ( n - 1 - 2 * i );
+      d[i] = t * t * cw;
+      if (i < n - 1) { e[i] = 0.5 * ( i + 1 ) * ( n - 1 - i ); }
+    }
+    const v = new Array<number[]>(ntaper);
+    for (let k = 0; k < ntaper; ++k) {
+      const lambda = eigenvalue(d, e, n - 1 - k);
+      const vk = eigenvector(d, e, lambda);
+      let s = 0.0;
+      for (let i = 0; i < n; ++i) {
+        s += ( k % 2 === 0 ) ? vk[i] : ( n - 1 - 2 * i ) * vk[i];
+      }
+      if (s < 0.0) {
+        for (let i = 0; i < n; ++i) { vk[i] = -vk[i]; }
+      }
+      v[k] = vk;
+    }
+    return v;
+  }
+
+  /**
+   * Gets the frequency sampling of this spectrum.
+   */
+  get frequencySampling(): Sampling { return this._sf; }
+
+  /**
+   * Gets a copy of the power spectral densities.
+   */
+  get power(): number[] { return this._p.slice(); }
+
+  /**
+   * Gets the amplitude spectrum, the square roots of power spectral
+   * densities.
+   */
+  get amplitude(): number[] { return this._p.map(pk => Math.sqrt(pk)); }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Constructs a spectrum from one-sided periodogram values p[nfft / 2 + 1]
+   * that have not yet been folded.
+   */
+  private constructor(dx: number, nfft: number, p: number[], side: SpectrumSide) {
+    const df = 1.0 / ( nfft * dx );
+    const nh = nfft / 2;
+    if (side === 'OneSided') {
+      this._sf = new Sampling(nh + 1, df, 0.0);
+      this._p = p.map((pk, k) => ( k === 0 || k === nh ) ? dx * pk : 2.0 * dx * pk);
+    } else {
+      this._sf = new Sampling(nfft, df, -nh * df);
+      this._p = zero(nfft);
+      for (let j = 0; j < nfft; ++j) { this._p[j] = dx * p[Math.abs(j - nh)]; }
+    }
+  }
+
+  private static _checkSignal(sx: Sampling, x: number[]): void {
+    Check.argument(sx.isUniform(), 'sampling is uniform');
+    Check.argument(x.length === sx.count, 'x.length equals the number of samples');
+  }
+
+  /**
+   * Returns the two-sided periodogram, for non-negative frequencies, of
+   * the segment of x that begins at index i0 and is multiplied by the
+   * window w, computed with the specified FFT. Values are normalized by
+   * the sum of squared window values. The sampling interval is applied
+   * later.
+   */
+  private static _periodogram(fft: FftReal, x: number[], i0: number, w: number[]): number[] {
+    const nfft = fft.nfft;
+    const nw = w.length;
+    const c: number[] = zero(nfft + 2);
+    let wss = 0.0;
+    for (let k = 0; k < nw; ++k) {
+      c[k] = w[k] * x[i0 + k];
+      wss += w[k] * w[k];
+    }
+    fft.realToComplex(-1, c, c);
+    const p: number[] = zero(nfft / 2 + 1);
+    for (let k = 0, kr = 0, ki = 1; k < p.length; ++k, kr += 2, ki += 2) {
+      p[k] = ( c[kr] * c[kr] + c[ki] * c[ki] ) / wss;
+    }
+    return p;
+  }
+}
+
+/**
+ * Returns the eigenvalue with index m, in increasing order, of a symmetric
+ * tridiagonal matrix with diagonal d and off-diagonal e, by bisection.
+ * @internal
+ */
+function eigenvalue(d: number[], e: number[], m: number): number {
+  const n = d.length;
+
+  // Gershgorin bounds on eigenvalues.
+  let lo = Number.MAX_VALUE;
+  let hi = -Number.MAX_VALUE;
+  for (let i = 0; i < n; ++i) {
+    const r = ( ( i > 0 ) ? Math.abs(e[i - 1]) : 0.0 ) + ( ( i < n - 1 ) ? Math.abs(e[i]) : 0.0 );
+    lo = Math.min(lo, d[i] - r);
+    hi = Math.max(hi, d[i] + r);
+  }
+
+  // Number of eigenvalues less than x, from the Sturm sequence.
+  const tiny = 1.0e-300;
+  const count = (x: number): number => {
+    let c = 0;
+    let q = d[0] - x;
+    for (let i = 0; ; ) {
+      if (q === 0.0) { q = -tiny; }
+      if (q < 0.0) { ++c; }
+      if (++i === n) { break; }
+      q = d[i] - x - e[i - 1] * e[i - 1] / q;
+    }
+    return c;
+  };
+
+  const eps = 1.0e-15 * Math.max(Math.abs(lo), Math.abs(hi));
+  while (hi - lo > eps) {
+    const mid = 0.5 * ( lo + hi );
+    if (mid <= lo || mid >= hi) { break; }
+    if (count(mid) > m) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return 0.5 * ( lo + hi );
+}
+
+/**
+ * Returns the normalized eigenvector of a symmetric tridiagonal matrix with
+ * diagonal d and off-diagonal e, for the eigenvalue lambda, by inverse
+ * iteration.
+ * @internal
+ */
+function eigenvector(d: number[], e: number[], lambda: number): number[] {
+  const n = d.length;
+  const scale = Math.max(Math.abs(lambda), 1.0);
+  const tiny = 1.0e-14 * scale;
+  const shift = lambda + 1.0e-12 * scale;
+
+  // LU factorization of the shifted matrix, guarding against tiny pivots.
+  const u: number[] = zero(n);
+  const l: number[] = zero(n);
+  u[0] = d[0] - shift;
+  for (let i = 1; i < n; ++i) {
+    if (Math.abs(u[i - 1]) < tiny) { u[i - 1] = tiny; }
+    l[i] = e[i - 1] / u[i - 1];
+    u[i] = d[i] - shift - l[i] * e[i - 1];
+  }
+  if (Math.abs(u[n - 1]) < tiny) { u[n - 1] = tiny; }
+
+  const v: number[] = zero(n);
+  for (let i = 0; i < n; ++i) { v[i] = 1.0 + i / n; }
+  for (let iter = 0; iter < 3; ++iter) {
+    for (let i = 1; i < n; ++i) { v[i] -= l[i] * v[i - 1]; }
+    v[n - 1] /= u[n - 1];
+    for (let i = n - 2; i >= 0; --i) { v[i] = ( v[i] - e[i] * v[i + 1] ) / u[i]; }
+    let s = 0.0;
+    for (let i = 0; i < n; ++i) { s += v[i] * v[i]; }
+    s = 1.0 / Math.sqrt(s);
+    for (let i = 0; i < n; ++i) { v[i] *= s; }
+  }
+  return v;
+}
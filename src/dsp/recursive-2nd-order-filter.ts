@@ -0,0 +1,262 @@
+import { Check, arrayDimensions } from '../utils';
+
+/**
+ * Recursive 2nd-order filter.
+ * <p>
+ * This filter solves a linear, 2nd-order, constant-coefficient difference
+ * equation in either forward or reverse directions along any dimension of
+ * a 1D, 2D or 3D array. For the forward direction,
+ * <pre>
+ *   y[i] = b0 * x[i] + b1 * x[i - 1] + b2 * x[i - 2]
+ *                    - a1 * y[i - 1] - a2 * y[i - 2],
+ * </pre>
+ * with x[i] and y[i] equal to zero for i &lt; 0. The corresponding transfer
+ * function is
+ * <pre>
+ *          b0 + b1 * z^-1 + b2 * z^-2
+ *   H(z) = --------------------------.
+ *           1 + a1 * z^-1 + a2 * z^-2
+ * </pre>
+ * For the reverse direction, indices i - 1 and i - 2 are replaced by i + 1
+ * and i + 2, and x[i] and y[i] are zero for i &gt;= n.
+ * <p>
+ * A forward-reverse application of the filter has zero phase, and an
+ * amplitude response that is the square of that for either direction.
+ * <p>
+ * For all methods, input and output arrays may be the same array.
+ */
+export class Recursive2ndOrderFilter {
+
+  private readonly _b0: number;
+  private readonly _b1: number;
+  private readonly _b2: number;
+  private readonly _a1: number;
+  private readonly _a2: number;
+
+  /**
+   * Constructs a recursive 2nd-order filter with specified coefficients.
+   * <p>
+   * A 1st-order filter may be constructed with b2 = a2 = 0.
+   * @param b0 a numerator coefficient.
+   * @param b1 a numerator coefficient.
+   * @param b2 a numerator coefficient.
+   * @param a1 a denominator coefficient.
+   * @param a2 a denominator coefficient.
+   */
+  constructor(b0: number, b1: number, b2: number, a1: number, a2: number) {
+    this._b0 = b0;
+    this._b1 = b1;
+    this._b2 = b2;
+    this._a1 = a1;
+    this._a2 = a2;
+  }
+
+  /**
+   * Gets the complex frequency response of this filter, for the forward
+   * direction. The response for the reverse direction is the complex
+   * conjugate of this response.
+   * @param f the frequency, in cycles per sample.
+   * @returns the response, as an array {real, imaginary}.
+   */
+  frequencyResponse(f: number): number[] {
+    const w = 2.0 * Math.PI * f;
+    const c1 = Math.cos(w), s1 = -Math.sin(w);
+    const c2 = Math.cos(2.0 * w), s2 = -Math.sin(2.0 * w);
+    const nr = this._b0 + this._b1 * c1 + this._b2 * c2;
+    const ni = this._b1 * s1 + this._b2 * s2;
+    const dr = 1.0 + this._a1 * c1 + this._a2 * c2;
+    const di = this._a1 * s1 + this._a2 * s2;
+    const s = 1.0 / ( dr * dr + di * di );
+    return [ ( nr * dr + ni * di ) * s, ( ni * dr - nr * di ) * s ];
+  }
+
+  /**
+   * Applies this filter in the forward direction.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyForward(x: number[], y: number[]): void;
+
+  /**
+   * Applies this filter in the forward direction along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1 or 2) along which to filter; default is 1.
+   */
+  applyForward(x: number[][], y: number[][], dim?: number): void;
+
+  /**
+   * Applies this filter in the forward direction along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1, 2 or 3) along which to filter; default is 1.
+   */
+  applyForward(x: number[][][], y: number[][][], dim?: number): void;
+
+  applyForward(x: number[] | number[][] | number[][][],
+               y: number[] | number[][] | number[][][],
+               dim: number = 1): void {
+    this._apply(false, x, y, dim);
+  }
+
+  /**
+   * Applies this filter in the reverse direction.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyReverse(x: number[], y: number[]): void;
+
+  /**
+   * Applies this filter in the reverse direction along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1 or 2) along which to filter; default is 1.
+   */
+  applyReverse(x: number[][], y: number[][], dim?: number): void;
+
+  /**
+   * Applies this filter in the reverse direction along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1, 2 or 3) along which to filter; default is 1.
+   */
+  applyReverse(x: number[][][], y: number[][][], dim?: number): void;
+
+  applyReverse(x: number[] | number[][] | number[][][],
+               y: number[] | number[][] | number[][][],
+               dim: number = 1): void {
+    this._apply(true, x, y, dim);
+  }
+
+  /**
+   * Applies this filter in the forward and then reverse directions, for
+   * zero phase.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyForwardReverse(x: number[], y: number[]): void;
+
+  /**
+   * Applies this filter in the forward and then reverse directions along
+   * one dimension, for zero phase.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1 or 2) along which to filter; default is 1.
+   */
+  applyForwardReverse(x: number[][], y: number[][], dim?: number): void;
+
+  /**
+   * Applies this filter in the forward and then reverse directions along
+   * one dimension, for zero phase.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1, 2 or 3) along which to filter; default is 1.
+   */
+  applyForwardReverse(x: number[][][], y: number[][][], dim?: number): void;
+
+  applyForwardReverse(x: number[] | number[][] | number[][][],
+                      y: number[] | number[][] | number[][][],
+                      dim: number = 1): void {
+    this._apply(false, x, y, dim);
+    this._apply(true, y, y, dim);
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private _apply(reverse: boolean,
+                 x: number[] | number[][] | number[][][],
+                 y: number[] | number[][] | number[][][],
+                 dim: number): void {
+    const ndim = arrayDimensions(x);
+    Check.argument(ndim === arrayDimensions(y), 'x and y have the same dimensions');
+    Check.argument(1 <= dim && dim <= ndim, 'dim is a valid dimension');
+    checkArrays(x, y);
+    if (ndim === 1) {
+      this._apply1(reverse, x as number[], y as number[]);
+    } else if (ndim === 2) {
+      const x2 = x as number[][];
+      const y2 = y as number[][];
+      if (dim === 1) {
+        for (let i2 = 0; i2 < y2.length; ++i2) { this._apply1(reverse, x2[i2], y2[i2]); }
+      } else {
+        this._applyRows(reverse, x2, y2);
+      }
+    } else {
+      const x3 = x as number[][][];
+      const y3 = y as number[][][];
+      const n3 = y3.length;
+      if (dim < 3) {
+        for (let i3 = 0; i3 < n3; ++i3) { this._apply(reverse, x3[i3], y3[i3], dim); }
+      } else {
+        const n2 = y3[0].length;
+        const xr = new Array<number[]>(n3);
+        const yr = new Array<number[]>(n3);
+        for (let i2 = 0; i2 < n2; ++i2) {
+          for (let i3 = 0; i3 < n3; ++i3) {
+            xr[i3] = x3[i3][i2];
+            yr[i3] = y3[i3][i2];
+          }
+          this._applyRows(reverse, xr, yr);
+        }
+      }
+    }
+  }
+
+  private _apply1(reverse: boolean, x: number[], y: number[]): void {
+    const b0 = this._b0, b1 = this._b1, b2 = this._b2;
+    const a1 = this._a1, a2 = this._a2;
+    const n = y.length;
+    let xi: number, xim1 = 0.0, xim2 = 0.0;
+    let yi: number, yim1 = 0.0, yim2 = 0.0;
+    for (let j = 0; j < n; ++j) {
+      const i = ( reverse ) ? n - 1 - j : j;
+      xi = x[i];
+      yi = b0 * xi + b1 * xim1 + b2 * xim2 - a1 * yim1 - a2 * yim2;
+      y[i] = yi;
+      xim2 = xim1;
+      xim1 = xi;
+      yim2 = yim1;
+      yim1 = yi;
+    }
+  }
+
+  /**
+   * Applies this filter along the index of rows, for all elements in the
+   * rows simultaneously.
+   */
+  private _applyRows(reverse: boolean, x: number[][], y: number[][]): void {
+    const b0 = this._b0, b1 = this._b1, b2 = this._b2;
+    const a1 = this._a1, a2 = this._a2;
+    const n = y.length;
+    const n1 = y[0].length;
+    let xim1 = new Array<number>(n1).fill(0.0);
+    let xim2 = new Array<number>(n1).fill(0.0);
+    let yim1 = new Array<number>(n1).fill(0.0);
+    let yim2 = new Array<number>(n1).fill(0.0);
+    for (let j = 0; j < n; ++j) {
+      const i = ( reverse ) ? n - 1 - j : j;
+      const xi = x[i];
+      const yi = y[i];
+      for (let i1 = 0; i1 < n1; ++i1) {
+        const xi1 = xi[i1];
+        yi[i1] = b0 * xi1 + b1 * xim1[i1] + b2 * xim2[i1] - a1 * yim1[i1] - a2 * yim2[i1];
+        xim2[i1] = xi1;
+      }
+      let t = xim2; xim2 = xim1; xim1 = t;
+      t = yim2; yim2 = yim1; yim1 = t;
+      for (let i1 = 0; i1 < n1; ++i1) { yim1[i1] = yi[i1]; }
+    }
+  }
+}
+
+/** @internal */
+function checkArrays(x: number[] | number[][] | number[][][], y: number[] | number[][] | number[][][]): void {
+  Check.argument(x.length === y.length, 'x.length === y.length');
+  if (x[0] instanceof Array) {
+    const n = x.length;
+    for (let i = 0; i < n; ++i) {
+      checkArrays(x[i] as number[] | number[][], y[i] as number[] | number[][]);
+    }
+  }
+}
@@ -0,0 +1,257 @@
+import { Check, arrayDimensions } from '../utils';
+import { Recursive2ndOrderFilter } from './recursive-2nd-order-filter';
+
+/**
+ * Recursive filter implemented as a cascade of 2nd-order sections.
+ * <p>
+ * The filter is specified by its poles, zeros and gain, so that its
+ * transfer function is
+ * <pre>
+ *                (1 - z0 * z^-1) * (1 - z1 * z^-1) * ...
+ *   H(z) = gain * ---------------------------------------,
+ *                (1 - p0 * z^-1) * (1 - p1 * z^-1) * ...
+ * </pre>
+ * where z0, z1, ... are the zeros, and p0, p1, ... are the poles. Poles
+ * and zeros are specified as arrays {real, imaginary}. Because input and
+ * output values are real, poles and zeros that are not real must be
+ * specified in complex-conjugate pairs. Poles must lie inside the unit
+ * circle, for a stable filter.
+ * <p>
+ * Conjugate pairs of poles (or zeros), and pairs of real poles (or zeros),
+ * are grouped into 2nd-order sections. The filter is applied to arrays as
+ * a cascade of those sections.
+ * <p>
+ * For all methods, input and output arrays may be the same array.
+ */
+export class RecursiveCascadeFilter {
+
+  private readonly _f: Recursive2ndOrderFilter[];
+
+  /**
+   * Constructs a recursive filter with specified poles, zeros and gain.
+   * @param poles array of poles, each an array {real, imaginary}.
+   * @param zeros array of zeros, each an array {real, imaginary}.
+   * @param gain the filter gain.
+   */
+  constructor(poles: number[][], zeros: number[][], gain: number) {
+    const ap = RecursiveCascadeFilter._quadratics(poles);
+    const bz = RecursiveCascadeFilter._quadratics(zeros);
+    const ns = Math.max(1, ap.length, bz.length);
+    this._f = new Array<Recursive2ndOrderFilter>(ns);
+    for (let is = 0; is < ns; ++is) {
+      const a = ( is < ap.length ) ? ap[is] : [ 0.0, 0.0 ];
+      const b = ( is < bz.length ) ? bz[is] : [ 0.0, 0.0 ];
+      const g = ( is === 0 ) ? gain : 1.0;
+      this._f[is] = new Recursive2ndOrderFilter(g, g * b[0], g * b[1], a[0], a[1]);
+    }
+  }
+
+  /**
+   * Gets the complex frequency response of this filter, for the forward
+   * direction. The response for the reverse direction is the complex
+   * conjugate of this response.
+   * @param f the frequency, in cycles per sample.
+   * @returns the response, as an array {real, imaginary}.
+   */
+  frequencyResponse(f: number): number[] {
+    let hr = 1.0;
+    let hi = 0.0;
+    for (const fi of this._f) {
+      const [ sr, si ] = fi.frequencyResponse(f);
+      const tr = hr * sr - hi * si;
+      hi = hr * si + hi * sr;
+      hr = tr;
+    }
+    return [ hr, hi ];
+  }
+
+  /**
+   * Gets the amplitude response of this filter, for either direction.
+   * The amplitude response of the zero-phase forward-reverse filter is
+   * the square of this response.
+   * @param f the frequency, in cycles per sample.
+   * @returns the amplitude response.
+   */
+  amplitudeResponse(f: number): number {
+    const [ hr, hi ] = this.frequencyResponse(f);
+    return Math.sqrt(hr * hr + hi * hi);
+  }
+
+  /**
+   * Applies this filter in the forward direction.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyForward(x: number[], y: number[]): void;
+
+  /**
+   * Applies this filter in the forward direction along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1 or 2) along which to filter; default is 1.
+   */
+  applyForward(x: number[][], y: number[][], dim?: number): void;
+
+  /**
+   * Applies this filter in the forward direction along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1, 2 or 3) along which to filter; default is 1.
+   */
+  applyForward(x: number[][][], y: number[][][], dim?: number): void;
+
+  applyForward(x: number[] | number[][] | number[][][],
+               y: number[] | number[][] | number[][][],
+               dim: number = 1): void {
+    this._apply(false, x, y, dim);
+  }
+
+  /**
+   * Applies this filter in the reverse direction.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyReverse(x: number[], y: number[]): void;
+
+  /**
+   * Applies this filter in the reverse direction along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1 or 2) along which to filter; default is 1.
+   */
+  applyReverse(x: number[][], y: number[][], dim?: number): void;
+
+  /**
+   * Applies this filter in the reverse direction along one dimension.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1, 2 or 3) along which to filter; default is 1.
+   */
+  applyReverse(x: number[][][], y: number[][][], dim?: number): void;
+
+  applyReverse(x: number[] | number[][] | number[][][],
+               y: number[] | number[][] | number[][][],
+               dim: number = 1): void {
+    this._apply(true, x, y, dim);
+  }
+
+  /**
+   * Applies this filter in the forward and then reverse directions, for
+   * zero phase.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyForwardReverse(x: number[], y: number[]): void;
+
+  /**
+   * Applies this filter in the forward and then reverse directions along
+   * one dimension, for zero phase.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1 or 2) along which to filter; default is 1.
+   */
+  applyForwardReverse(x: number[][], y: number[][], dim?: number): void;
+
+  /**
+   * Applies this filter in the forward and then reverse directions along
+   * one dimension, for zero phase.
+   * @param x the input array.
+   * @param y the output array.
+   * @param dim the dimension (1, 2 or 3) along which to filter; default is 1.
+   */
+  applyForwardReverse(x: number[][][], y: number[][][], dim?: number): void;
+
+  applyForwardReverse(x: number[] | number[][] | number[][][],
+                      y: number[] | number[][] | number[][][],
+                      dim: number = 1): void {
+    this._apply(false, x, y, dim);
+    this._apply(true, y, y, dim);
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private _apply(reverse: boolean,
+                 x: number[] | number[][] | number[][][],
+                 y: number[] | number[][] | number[][][],
+                 dim: number): void {
+    for (let is = 0; is < this._f.length; ++is) {
+      applySection(this._f[is], reverse, ( is === 0 ) ? x : y, y, dim);
+    }
+  }
+
+  /**
+   * Groups roots r into quadratics 1 + c1 * z^-1 + c2 * z^-2, returned as
+   * arrays {c1, c2}. Conjugate pairs are grouped first, then pairs of real
+   * roots. A single remaining real root yields a linear factor (c2 = 0).
+   */
+  private static _quadratics(r: number[][]): number[][] {
+    const tiny = 1.0e-10;
+    const real: number[] = [];
+    const upper: number[][] = [];
+    let nlower = 0;
+    for (const ri of r) {
+      Check.argument(ri.length === 2, 'roots are arrays {real, imaginary}');
+      const scale = Math.max(1.0, Math.abs(ri[0]));
+      if (Math.abs(ri[1]) <= tiny * scale) {
+        real.push(ri[0]);
+      } else if (ri[1] > 0.0) {
+        upper.push(ri);
+      } else {
+        ++nlower;
+      }
+    }
+    Check.argument(upper.length === nlower, 'complex roots are in conjugate pairs');
+    for (const u of upper) {
+      const j = r.findIndex(ri => Math.abs(ri[0] - u[0]) <= tiny && Math.abs(ri[1] + u[1]) <= tiny);
+      Check.argument(j >= 0, 'complex roots are in conjugate pairs');
+    }
+    const q: number[][] = [];
+    for (const u of upper) {
+      q.push([ -2.0 * u[0], u[0] * u[0] + u[1] * u[1] ]);
+    }
+    for (let i = 0; i < real.length; i += 2) {
+      if (i + 1 < real.length) {
+        q.push([ -( real[i] + real[i + 1] ), real[i] * real[i + 1] ]);
+      } else {
+        q.push([ -real[i], 0.0 ]);
+      }
+    }
+    return q;
+  }
+}
+
+/**
+ * Applies one 2nd-order section, in the forward or reverse direction, to
+ * an array with one, two or three dimensions.
+ * @internal
+ */
+function applySection(f: Recursive2ndOrderFilter,
+                      reverse: boolean,
+                      x: number[] | number[][] | number[][][],
+                      y: number[] | number[][] | number[][][],
+                      dim: number): void {
+  switch (arrayDimensions(x)) {
+    case 1:
+      Check.argument(dim === 1, 'dim is a valid dimension');
+      if (reverse) {
+        f.applyReverse(x as number[], y as number[]);
+      } else {
+        f.applyForward(x as number[], y as number[]);
+      }
+      break;
+    case 2:
+      if (reverse) {
+        f.applyReverse(x as number[][], y as number[][], dim);
+      } else {
+        f.applyForward(x as number[][], y as number[][], dim);
+      }
+      break;
+    default:
+      if (reverse) {
+        f.applyReverse(x as number[][][], y as number[][][], dim);
+      } else {
+        f.applyForward(x as number[][][], y as number[][][], dim);
+      }
+  }
+}
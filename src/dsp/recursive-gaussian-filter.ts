@@ -0,0 +1,867 @@
+import { Check, copy } from '../utils';
+import { RecursiveGaussianMethod } from '../types';
+
+/**
+ * Recursive implementation of a Gaussian filter and derivatives.
+ * <p>
+ * Filters include the 0th, 1st, and 2nd derivatives. The impulse response
+ * of the 0th-derivative smoothing filter is infinitely long, and is
+ * approximately h[n] = 1.0 / (sqrt(2 * pi) * sigma) * exp(-0.5 * (n * n) /
+ * (sigma * sigma)). Here, n is an integer sample index, and sigma is the
+ * half-width of the filter.
+ * <p>
+ * The impulse response of the 1st-derivative filter is the derivative of
+ * the 0th-derivative filter, and the impulse response of the 2nd-derivative
+ * filter is the 2nd derivative of the 0th-derivative filter. Note that the
+ * 1st derivative is an odd function, so that the filter is anti-symmetric.
+ * The 0th and 2nd derivatives are even functions.
+ * <p>
+ * Two methods are implemented. The first, Deriche's method, is a parallel
+ * sum of 4th-order causal and anti-causal filters. The second, van Vliet's
+ * method, is a parallel sum of 2nd-order causal and anti-causal sections
+ * that approximate a cascade of two 4th-order recursive filters with
+ * complex poles; derivatives are computed with centered finite-difference
+ * operators.
+ * <p>
+ * Deriche's method is more accurate for small sigma, but its filter
+ * coefficients are optimized for the range 1 &lt;= sigma &lt;= 32. For
+ * larger sigma, van Vliet's method does not degrade. By default, Deriche's
+ * method is used for sigma &lt; 32, and van Vliet's method otherwise.
+ * Both methods are equivalent to convolutions of input arrays that are
+ * padded with zeros.
+ * <p>
+ * References:
+ * <ul><li>
+ * Deriche, R., 1992, Recursively implementing the Gaussian and its
+ * derivatives: Proceedings of the 2nd International Conference on Image
+ * Processing, Singapore, p. 263-267.
+ * </li><li>
+ * van Vliet, L.J., Young, I.T., and Verbeek, P.W., 1998, Recursive
+ * Gaussian derivative filters: Proceedings of the 14th International
+ * Conference on Pattern Recognition, IEEE Computer Society Press.
+ * </li></ul>
+ */
+export class RecursiveGaussianFilter {
+
+  private readonly _filter: Filter;
+
+  /**
+   * Constructs a Gaussian filter with specified width and method.
+   * <p>
+   * If no method is specified, Deriche's method is used for
+   * sigma &lt; 32, and van Vliet's method is used otherwise.
+   * @param sigma the width; must not be less than 1.
+   * @param method the method (optional).
+   */
+  constructor(sigma: number, method?: RecursiveGaussianMethod) {
+    Check.argument(sigma >= 1.0, 'sigma >= 1.0');
+    if (!method) { method = ( sigma < 32.0 ) ? 'Deriche' : 'VanVliet'; }
+    this._filter = ( method === 'Deriche' )
+      ? new DericheFilter(sigma)
+      : new VanVlietFilter(sigma);
+  }
+
+  /**
+   * Applies the 0th-derivative filter.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply0(x: number[], y: number[]): void {
+    this._filter.applyN(0, x, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply1(x: number[], y: number[]): void {
+    this._filter.applyN(1, x, y);
+  }
+
+  /**
+   * Applies the 2nd-derivative filter.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply2(x: number[], y: number[]): void {
+    this._filter.applyN(2, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply0X(x: number[][], y: number[][]): void {
+    this._filter.applyNX(0, x, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 1st dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply1X(x: number[][], y: number[][]): void {
+    this._filter.applyNX(1, x, y);
+  }
+
+  /**
+   * Applies the 2nd-derivative filter along the 1st dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply2X(x: number[][], y: number[][]): void {
+    this._filter.applyNX(2, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyX0(x: number[][], y: number[][]): void {
+    this._filter.applyXN(0, x, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyX1(x: number[][], y: number[][]): void {
+    this._filter.applyXN(1, x, y);
+  }
+
+  /**
+   * Applies the 2nd-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyX2(x: number[][], y: number[][]): void {
+    this._filter.applyXN(2, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension
+   * and the 0th-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply00(x: number[][], y: number[][]): void {
+    this._filter.applyNX(0, x, y);
+    this._filter.applyXN(0, y, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 1st dimension
+   * and the 0th-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply10(x: number[][], y: number[][]): void {
+    this._filter.applyNX(1, x, y);
+    this._filter.applyXN(0, y, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension
+   * and the 1st-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply01(x: number[][], y: number[][]): void {
+    this._filter.applyNX(0, x, y);
+    this._filter.applyXN(1, y, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 1st dimension
+   * and the 1st-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply11(x: number[][], y: number[][]): void {
+    this._filter.applyNX(1, x, y);
+    this._filter.applyXN(1, y, y);
+  }
+
+  /**
+   * Applies the 2nd-derivative filter along the 1st dimension
+   * and the 0th-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply20(x: number[][], y: number[][]): void {
+    this._filter.applyNX(2, x, y);
+    this._filter.applyXN(0, y, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension
+   * and the 2nd-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply02(x: number[][], y: number[][]): void {
+    this._filter.applyNX(0, x, y);
+    this._filter.applyXN(2, y, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply0XX(x: number[][][], y: number[][][]): void {
+    this._filter.applyNXX(0, x, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 1st dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply1XX(x: number[][][], y: number[][][]): void {
+    this._filter.applyNXX(1, x, y);
+  }
+
+  /**
+   * Applies the 2nd-derivative filter along the 1st dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply2XX(x: number[][][], y: number[][][]): void {
+    this._filter.applyNXX(2, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyX0X(x: number[][][], y: number[][][]): void {
+    this._filter.applyXNX(0, x, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyX1X(x: number[][][], y: number[][][]): void {
+    this._filter.applyXNX(1, x, y);
+  }
+
+  /**
+   * Applies the 2nd-derivative filter along the 2nd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyX2X(x: number[][][], y: number[][][]): void {
+    this._filter.applyXNX(2, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyXX0(x: number[][][], y: number[][][]): void {
+    this._filter.applyXXN(0, x, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyXX1(x: number[][][], y: number[][][]): void {
+    this._filter.applyXXN(1, x, y);
+  }
+
+  /**
+   * Applies the 2nd-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  applyXX2(x: number[][][], y: number[][][]): void {
+    this._filter.applyXXN(2, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension,
+   * the 0th-derivative filter along the 2nd dimension, and
+   * the 0th-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply000(x: number[][][], y: number[][][]): void {
+    this._apply3(0, 0, 0, x, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 1st dimension,
+   * the 0th-derivative filter along the 2nd dimension, and
+   * the 0th-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply100(x: number[][][], y: number[][][]): void {
+    this._apply3(1, 0, 0, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension,
+   * the 1st-derivative filter along the 2nd dimension, and
+   * the 0th-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply010(x: number[][][], y: number[][][]): void {
+    this._apply3(0, 1, 0, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension,
+   * the 0th-derivative filter along the 2nd dimension, and
+   * the 1st-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply001(x: number[][][], y: number[][][]): void {
+    this._apply3(0, 0, 1, x, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 1st dimension,
+   * the 1st-derivative filter along the 2nd dimension, and
+   * the 0th-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply110(x: number[][][], y: number[][][]): void {
+    this._apply3(1, 1, 0, x, y);
+  }
+
+  /**
+   * Applies the 1st-derivative filter along the 1st dimension,
+   * the 0th-derivative filter along the 2nd dimension, and
+   * the 1st-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply101(x: number[][][], y: number[][][]): void {
+    this._apply3(1, 0, 1, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension,
+   * the 1st-derivative filter along the 2nd dimension, and
+   * the 1st-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply011(x: number[][][], y: number[][][]): void {
+    this._apply3(0, 1, 1, x, y);
+  }
+
+  /**
+   * Applies the 2nd-derivative filter along the 1st dimension,
+   * the 0th-derivative filter along the 2nd dimension, and
+   * the 0th-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply200(x: number[][][], y: number[][][]): void {
+    this._apply3(2, 0, 0, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension,
+   * the 2nd-derivative filter along the 2nd dimension, and
+   * the 0th-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply020(x: number[][][], y: number[][][]): void {
+    this._apply3(0, 2, 0, x, y);
+  }
+
+  /**
+   * Applies the 0th-derivative filter along the 1st dimension,
+   * the 0th-derivative filter along the 2nd dimension, and
+   * the 2nd-derivative filter along the 3rd dimension.
+   * <p>
+   * Input and output arrays may be the same array.
+   * @param x the input array.
+   * @param y the output array.
+   */
+  apply002(x: number[][][], y: number[][][]): void {
+    this._apply3(0, 0, 2, x, y);
+  }
+
+  /** @internal */
+  private _apply3(nd1: number, nd2: number, nd3: number, x: number[][][], y: number[][][]): void {
+    this._filter.applyNXX(nd1, x, y);
+    this._filter.applyXNX(nd2, y, y);
+    this._filter.applyXXN(nd3, y, y);
+  }
+}
+
+///////////////////////////////////////////////////////////////////////////
+// filters
+///////////////////////////////////////////////////////////////////////////
+
+/** @internal */
+abstract class Filter {
+
+  /**
+   * Applies the filter for the specified derivative along the only
+   * dimension of a 1D array.
+   */
+  abstract applyN(nd: number, x: number[], y: number[]): void;
+
+  /**
+   * Applies the filter for the specified derivative along the 1st
+   * dimension of a 2D array.
+   */
+  applyNX(nd: number, x: number[][], y: number[][]): void {
+    Filter.checkArrays(x, y);
+    const n2 = y.length;
+    for (let i2 = 0; i2 < n2; ++i2) {
+      this.applyN(nd, x[i2], y[i2]);
+    }
+  }
+
+  /**
+   * Applies the filter for the specified derivative along the 2nd
+   * dimension of a 2D array.
+   */
+  applyXN(nd: number, x: number[][], y: number[][]): void {
+    Filter.checkArrays(x, y);
+    const n2 = y.length;
+    const n1 = y[0].length;
+    const xi = new Array<number>(n2);
+    const yi = new Array<number>(n2);
+    for (let i1 = 0; i1 < n1; ++i1) {
+      for (let i2 = 0; i2 < n2; ++i2) { xi[i2] = x[i2][i1]; }
+      this.applyN(nd, xi, yi);
+      for (let i2 = 0; i2 < n2; ++i2) { y[i2][i1] = yi[i2]; }
+    }
+  }
+
+  /**
+   * Applies the filter for the specified derivative along the 1st
+   * dimension of a 3D array.
+   */
+  applyNXX(nd: number, x: number[][][], y: number[][][]): void {
+    Filter.checkArrays(x, y);
+    const n3 = y.length;
+    for (let i3 = 0; i3 < n3; ++i3) {
+      this.applyNX(nd, x[i3], y[i3]);
+    }
+  }
+
+  /**
+   * Applies the filter for the specified derivative along the 2nd
+   * dimension of a 3D array.
+   */
+  applyXNX(nd: number, x: number[][][], y: number[][][]): void {
+    Filter.checkArrays(x, y);
+    const n3 = y.length;
+    for (let i3 = 0; i3 < n3; ++i3) {
+      this.applyXN(nd, x[i3], y[i3]);
+    }
+  }
+
+  /**
+   * Applies the filter for the specified derivative along the 3rd
+   * dimension of a 3D array.
+   */
+  applyXXN(nd: number, x: number[][][], y: number[][][]): void {
+    Filter.checkArrays(x, y);
+    const n3 = y.length;
+    const n2 = y[0].length;
+    const x2 = new Array<number[]>(n3);
+    const y2 = new Array<number[]>(n3);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i3 = 0; i3 < n3; ++i3) {
+        x2[i3] = x[i3][i2];
+        y2[i3] = y[i3][i2];
+      }
+      this.applyXN(nd, x2, y2);
+    }
+  }
+
+  static checkArrays(x: number[] | number[][] | number[][][], y: number[] | number[][] | number[][][]): void {
+    Check.argument(x.length === y.length, 'x.length === y.length');
+    if (x[0] instanceof Array) {
+      const n = x.length;
+      for (let i = 0; i < n; ++i) {
+        Filter.checkArrays(x[i] as number[] | number[][], y[i] as number[] | number[][]);
+      }
+    }
+  }
+}
+
+/** @internal */
+class DericheFilter extends Filter {
+
+  // Coefficients for Deriche's method, indexed by derivative. These were
+  // computed by non-linear least-squares fits of Deriche's sum of two
+  // exponentially-damped sinusoids to the Gaussian (and its derivatives)
+  // with unit sigma, for 0 <= x <= 10. For the 1st derivative, c0 = -a0,
+  // so that the anti-symmetric impulse response is zero at x = 0.
+  private static readonly A0 = [ 1.6868606140, -0.5049074933, -1.4143678280 ];
+  private static readonly A1 = [ 3.7323703507, -3.2398188100, 4.9114570125 ];
+  private static readonly B0 = [ 1.7807237278, 1.5053333413, 1.3243335204 ];
+  private static readonly B1 = [ 1.7202651618, 1.4944583182, 1.3329609954 ];
+  private static readonly C0 = [ -0.6825997755, 0.5049074933, 0.3092009669 ];
+  private static readonly C1 = [ -0.2560828243, 0.6727515313, -2.1667572648 ];
+  private static readonly W0 = [ 0.6316348724, 0.6704240838, 0.6842228139 ];
+  private static readonly W1 = [ 1.9963772930, 2.0660826971, 2.1150481219 ];
+
+  // Numerator and denominator coefficients, indexed by derivative.
+  private readonly _n0 = new Array<number>(3);
+  private readonly _n1 = new Array<number>(3);
+  private readonly _n2 = new Array<number>(3);
+  private readonly _n3 = new Array<number>(3);
+  private readonly _d1 = new Array<number>(3);
+  private readonly _d2 = new Array<number>(3);
+  private readonly _d3 = new Array<number>(3);
+  private readonly _d4 = new Array<number>(3);
+
+  constructor(sigma: number) {
+    super();
+    this._makeND(sigma);
+  }
+
+  applyN(nd: number, x: number[], y: number[]): void {
+    Filter.checkArrays(x, y);
+    if (x === y) { x = copy(x); }
+    const m = y.length;
+    const n0 = this._n0[nd];
+    let n1 = this._n1[nd], n2 = this._n2[nd], n3 = this._n3[nd];
+    const d1 = this._d1[nd], d2 = this._d2[nd], d3 = this._d3[nd], d4 = this._d4[nd];
+
+    // Causal filter.
+    let yim4 = 0.0, yim3 = 0.0, yim2 = 0.0, yim1 = 0.0;
+    let xim3 = 0.0, xim2 = 0.0, xim1 = 0.0;
+    for (let i = 0; i < m; ++i) {
+      const xi = x[i];
+      const yi = n0 * xi + n1 * xim1 + n2 * xim2 + n3 * xim3
+                         - d1 * yim1 - d2 * yim2 - d3 * yim3 - d4 * yim4;
+      y[i] = yi;
+      yim4 = yim3; yim3 = yim2; yim2 = yim1; yim1 = yi;
+      xim3 = xim2; xim2 = xim1; xim1 = xi;
+    }
+
+    // Anti-causal filter. Its impulse response for positive lags is the
+    // causal impulse response for negative lags, negated for odd derivatives.
+    n1 = n1 - d1 * n0;
+    n2 = n2 - d2 * n0;
+    n3 = n3 - d3 * n0;
+    let n4 = -d4 * n0;
+    if (nd % 2 !== 0) {
+      n1 = -n1;
+      n2 = -n2;
+      n3 = -n3;
+      n4 = -n4;
+    }
+    let yip4 = 0.0, yip3 = 0.0, yip2 = 0.0, yip1 = 0.0;
+    let xip4 = 0.0, xip3 = 0.0, xip2 = 0.0, xip1 = 0.0;
+    for (let i = m - 1; i >= 0; --i) {
+      const xi = x[i];
+      const yi = n1 * xip1 + n2 * xip2 + n3 * xip3 + n4 * xip4
+               - d1 * yip1 - d2 * yip2 - d3 * yip3 - d4 * yip4;
+      y[i] += yi;
+      yip4 = yip3; yip3 = yip2; yip2 = yip1; yip1 = yi;
+      xip4 = xip3; xip3 = xip2; xip2 = xip1; xip1 = xi;
+    }
+  }
+
+  /** Computes numerator and denominator coefficients for all derivatives. */
+  private _makeND(sigma: number): void {
+    const a0 = DericheFilter.A0, a1 = DericheFilter.A1;
+    const b0 = DericheFilter.B0, b1 = DericheFilter.B1;
+    const c0 = DericheFilter.C0, c1 = DericheFilter.C1;
+    const w0 = DericheFilter.W0, w1 = DericheFilter.W1;
+    for (let i = 0; i < 3; ++i) {
+      const cw0 = Math.cos(w0[i] / sigma), sw0 = Math.sin(w0[i] / sigma);
+      const cw1 = Math.cos(w1[i] / sigma), sw1 = Math.sin(w1[i] / sigma);
+      const eb0 = Math.exp(-b0[i] / sigma), eb1 = Math.exp(-b1[i] / sigma);
+      const n0 = a0[i] + c0[i];
+      const n1 = eb1 * ( c1[i] * sw1 - ( c0[i] + 2.0 * a0[i] ) * cw1 ) +
+                 eb0 * ( a1[i] * sw0 - ( 2.0 * c0[i] + a0[i] ) * cw0 );
+      const n2 = 2.0 * eb0 * eb1 * ( ( a0[i] + c0[i] ) * cw1 * cw0 - a1[i] * cw1 * sw0 - c1[i] * cw0 * sw1 ) +
+                 c0[i] * eb0 * eb0 +
+                 a0[i] * eb1 * eb1;
+      const n3 = eb1 * eb0 * eb0 * ( c1[i] * sw1 - c0[i] * cw1 ) +
+                 eb0 * eb1 * eb1 * ( a1[i] * sw0 - a0[i] * cw0 );
+      const d1 = -2.0 * eb0 * cw0 - 2.0 * eb1 * cw1;
+      const d2 = 4.0 * eb0 * eb1 * cw0 * cw1 + eb0 * eb0 + eb1 * eb1;
+      const d3 = -2.0 * eb0 * eb1 * eb1 * cw0 - 2.0 * eb1 * eb0 * eb0 * cw1;
+      const d4 = eb0 * eb0 * eb1 * eb1;
+      this._n0[i] = n0;
+      this._n1[i] = n1;
+      this._n2[i] = n2;
+      this._n3[i] = n3;
+      this._d1[i] = d1;
+      this._d2[i] = d2;
+      this._d3[i] = d3;
+      this._d4[i] = d4;
+    }
+    this._scaleN(sigma);
+  }
+
+  /**
+   * Scales numerator coefficients so that the 0th-derivative filter
+   * preserves constants, the 1st-derivative filter differentiates
+   * linear ramps exactly, and the 2nd-derivative filter differentiates
+   * parabolas exactly.
+   */
+  private _scaleN(sigma: number): void {
+    const n = 1 + 2 * Math.floor(10.0 * sigma);
+    const m = ( n - 1 ) / 2;
+    const x = new Array<number>(n).fill(0.0);
+    const y0 = new Array<number>(n);
+    const y1 = new Array<number>(n);
+    const y2 = new Array<number>(n);
+    x[m] = 1.0;
+    this.applyN(0, x, y0);
+    this.applyN(1, x, y1);
+    this.applyN(2, x, y2);
+    const s = [ 0.0, 0.0, 0.0 ];
+    for (let i = 0; i < n; ++i) {
+      const t = i - m;
+      s[0] += y0[i];
+      s[1] -= t * y1[i];
+      s[2] += 0.5 * t * t * y2[i];
+    }
+    for (let i = 0; i < 3; ++i) {
+      this._n0[i] /= s[i];
+      this._n1[i] /= s[i];
+      this._n2[i] /= s[i];
+      this._n3[i] /= s[i];
+    }
+  }
+}
+
+/** @internal */
+class VanVlietFilter extends Filter {
+
+  // Poles (inverses) of the 4th-order causal filter for sigma = 2,
+  // published by van Vliet, et al.
+  private static readonly POLES: number[][] = [
+    [ 1.12075, 1.27788 ],
+    [ 1.76952, 0.46611 ]
+  ];
+
+  // Causal and anti-causal 2nd-order sections, one of each per
+  // complex-conjugate pair of poles. Each section is represented
+  // by coefficients { b0, b1, b2, a1, a2 } of the transfer function
+  // (b0 + b1 * z + b2 * z^2) / (1 + a1 * z + a2 * z^2), where z is
+  // the unit delay (causal) or unit advance (anti-causal).
+  private readonly _gc: number[][];
+  private readonly _ga: number[][];
+
+  constructor(sigma: number) {
+    super();
+    const poles = VanVlietFilter._adjustPoles(sigma);
+    this._gc = new Array<number[]>(2);
+    this._ga = new Array<number[]>(2);
+
+    // With poles p_k = 1 / d_k, the impulse response of the symmetric
+    // filter G(z) G(1/z) is h[n] = sum_k r_k p_k^|n|, where the residue
+    // r_k = c_k prod_j 1 / (1 - p_j p_k) and c_k = prod_{j != k} 1 / (1 - p_j / p_k).
+    const p = poles.map(d => cdiv([ 1.0, 0.0 ], d));
+    const pc = p.map(pk => [ pk[0], -pk[1] ]);
+    const all = [ p[0], pc[0], p[1], pc[1] ];
+    let gain = [ 1.0, 0.0 ];
+    for (const pk of all) { gain = cmul(gain, [ 1.0 - pk[0], -pk[1] ]); }
+    const g2 = gain[0] * gain[0];
+    for (let k = 0; k < 2; ++k) {
+      const pk = p[k];
+      let r = [ g2, 0.0 ];
+      for (const pj of all) {
+        if (pj !== pk) { r = cdiv(r, csub([ 1.0, 0.0 ], cdiv(pj, pk))); }
+        r = cdiv(r, csub([ 1.0, 0.0 ], cmul(pj, pk)));
+      }
+
+      // The section 2 Re(r / (1 - p z)) for the causal part.
+      const a1 = -2.0 * pk[0];
+      const a2 = pk[0] * pk[0] + pk[1] * pk[1];
+      const b0 = 2.0 * r[0];
+      const b1 = -2.0 * ( r[0] * pk[0] + r[1] * pk[1] );
+      this._gc[k] = [ b0, b1, 0.0, a1, a2 ];
+
+      // The same section, less its zero-lag term, for the anti-causal part.
+      this._ga[k] = [ 0.0, b1 - b0 * a1, -b0 * a2, a1, a2 ];
+    }
+  }
+
+  applyN(nd: number, x: number[], y: number[]): void {
+    Filter.checkArrays(x, y);
+    const m = y.length;
+    if (nd === 0) {
+      if (x === y) { x = copy(x); }
+      this._applySections(x, y);
+    } else {
+      // Differences of the zero-padded input, followed by smoothing.
+      const xd = new Array<number>(m + 2);
+      xd[0] = xd[m + 1] = 0.0;
+      for (let i = 0; i < m; ++i) { xd[i + 1] = x[i]; }
+      const dx = new Array<number>(m + 2);
+      for (let i = 0; i < m + 2; ++i) {
+        const xm = ( i > 0 ) ? xd[i - 1] : 0.0;
+        const xp = ( i < m + 1 ) ? xd[i + 1] : 0.0;
+        dx[i] = ( nd === 1 ) ? 0.5 * ( xp - xm ) : xp - 2.0 * xd[i] + xm;
+      }
+      const yd = new Array<number>(m + 2);
+      this._applySections(dx, yd);
+      for (let i = 0; i < m; ++i) { y[i] = yd[i + 1]; }
+    }
+  }
+
+  /** Sums the outputs of all causal and anti-causal sections. */
+  private _applySections(x: number[], y: number[]): void {
+    const m = y.length;
+    y.fill(0.0, 0, m);
+    for (let k = 0; k < 2; ++k) {
+      const [ b0, b1, , a1, a2 ] = this._gc[k];
+      let yim1 = 0.0, yim2 = 0.0, xim1 = 0.0;
+      for (let i = 0; i < m; ++i) {
+        const xi = x[i];
+        const yi = b0 * xi + b1 * xim1 - a1 * yim1 - a2 * yim2;
+        y[i] += yi;
+        yim2 = yim1; yim1 = yi; xim1 = xi;
+      }
+    }
+    for (let k = 0; k < 2; ++k) {
+      const [ , b1, b2, a1, a2 ] = this._ga[k];
+      let yip1 = 0.0, yip2 = 0.0, xip1 = 0.0, xip2 = 0.0;
+      for (let i = m - 1; i >= 0; --i) {
+        const xi = x[i];
+        const yi = b1 * xip1 + b2 * xip2 - a1 * yip1 - a2 * yip2;
+        y[i] += yi;
+        yip2 = yip1; yip1 = yi; xip2 = xip1; xip1 = xi;
+      }
+    }
+  }
+
+  /**
+   * Scales the tabulated poles for the specified sigma. Each pole d
+   * is replaced by d^(1/q), where q is chosen such that the variance
+   * of the symmetric impulse response equals sigma^2.
+   */
+  private static _adjustPoles(sigma: number): number[][] {
+    const scale = (q: number): number[][] => VanVlietFilter.POLES.map(d => {
+      const r = Math.pow(Math.hypot(d[0], d[1]), 1.0 / q);
+      const a = Math.atan2(d[1], d[0]) / q;
+      return [ r * Math.cos(a), r * Math.sin(a) ];
+    });
+    const variance = (poles: number[][]): number => {
+      // For poles d, the variance is sum_k 2 d_k / (d_k - 1)^2,
+      // summed over both poles of each conjugate pair.
+      let v = 0.0;
+      for (const d of poles) {
+        const dm1 = [ d[0] - 1.0, d[1] ];
+        v += 2.0 * 2.0 * cdiv(d, cmul(dm1, dm1))[0];
+      }
+      return v;
+    };
+
+    // Variance increases monotonically with q; bisect for the target.
+    const target = sigma * sigma;
+    let qa = 0.01, qb = 1.0;
+    while (variance(scale(qb)) < target) { qb *= 2.0; }
+    for (let iter = 0; iter < 100; ++iter) {
+      const q = 0.5 * ( qa + qb );
+      if (variance(scale(q)) < target) { qa = q; } else { qb = q; }
+    }
+    return scale(0.5 * ( qa + qb ));
+  }
+}
+
+/** @internal */
+function cmul(a: number[], b: number[]): number[] {
+  return [ a[0] * b[0] - a[1] * b[1], a[0] * b[1] + a[1] * b[0] ];
+}
+
+/** @internal */
+function cdiv(a: number[], b: number[]): number[] {
+  const s = 1.0 / ( b[0] * b[0] + b[1] * b[1] );
+  return [ ( a[0] * b[0] + a[1] * b[1] ) * s, ( a[1] * b[0] - a[0] * b[1] ) * s ];
+}
+
+/** @internal */
+function csub(a: number[], b: number[]): number[] {
+  return [ a[0] - b[0], a[1] - b[1] ];
+}
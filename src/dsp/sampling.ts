@@ -1,5 +1,26 @@
-import { Check, almostEqual } from '../utils';
+import { Check, almostEqual, binarySearch } from '../utils';
 
+/**
+ * Sampling of one variable.
+ * <p>
+ * Samplings are often used to represent independent variables for sampled
+ * functions. They describe the values at which a function is sampled. For
+ * efficiency, and to guarantee a unique mapping from sample value to
+ * function value, we restrict samples to be increasing. In other words,
+ * no two samples have equal value, and sample values increase with
+ * increasing sample index.
+ * <p>
+ * Samplings are either uniform or non-uniform. Uniform samplings are
+ * represented by a sample count n, a sampling interval d, and a first
+ * sample value f. Non-uniform samplings are represented by an array of
+ * sample values.
+ * <p>
+ * Sampling intervals and sample values are compared with a tolerance,
+ * specified as a fraction of the (average) sampling interval. Sample
+ * values that differ by less than this tolerance are considered
+ * equivalent. A non-uniform sampling constructed from values that are
+ * uniform to within this tolerance is uniform.
+ */
 export class Sampling {
 
   private static readonly DEFAULT_TOLERANCE = 1.0e-6;
@@ -7,18 +28,61 @@ export class Sampling {
   private readonly _n: number;
   private readonly _d: number;
   private readonly _f: number;
+  private readonly _v?: number[];
   private readonly _t: number;
   private readonly _td: number;
 
-  constructor(n: number, d: number = 1.0, f: number = 0.0, t: number = Sampling.DEFAULT_TOLERANCE) {
-    Check.argument(n > 0, 'n > 0');
-    Check.argument(d > 0.0, 'd > 0.0');
+  /**
+   * Constructs a uniform sampling.
+   * @param n the number (count) of samples; must be positive.
+   * @param d the sampling interval (delta); must be positive.
+   * @param f the first sample value.
+   * @param t the sampling tolerance, expressed as fraction of delta.
+   */
+  constructor(n: number, d?: number, f?: number, t?: number);
+
+  /**
+   * Constructs a sampling from the specified array of values.
+   * <p>
+   * The values must be strictly increasing. If the values are uniformly
+   * spaced (to within the sampling tolerance), then the sampling is
+   * uniform.
+   * @param v the array of sampling values.
+   * @param t the sampling tolerance, expressed as fraction of the average
+   *          sampling interval.
+   */
+  constructor(v: number[], t?: number);
+
+  constructor(nv: number | number[], d?: number, f?: number, t?: number) {
+    if (nv instanceof Array) {
+      const v = nv;
+      t = ( d === undefined ) ? Sampling.DEFAULT_TOLERANCE : d;
+      Check.argument(v.length > 0, 'v.length > 0');
+      Check.argument(isStrictlyIncreasing(v), 'v is increasing');
+      this._n = v.length;
+      this._d = ( this._n < 2 ) ? 1.0 : ( v[this._n - 1] - v[0] ) / ( this._n - 1 );
+      this._f = v[0];
+      this._t = t;
+      this._td = t * this._d;
+      let uniform = true;
+      for (let i = 0; i < this._n && uniform; ++i) {
+        uniform = almostEqual(v[i], this._f + i * this._d, this._td);
+      }
+      if (!uniform) { this._v = v.slice(); }
+    } else {
+      const n = nv;
+      d = ( d === undefined ) ? 1.0 : d;
+      f = ( f === undefined ) ? 0.0 : f;
+      t = ( t === undefined ) ? Sampling.DEFAULT_TOLERANCE : t;
+      Check.argument(n > 0, 'n > 0');
+      Check.argument(d > 0.0, 'd > 0.0');
 
-    this._n = n;
-    this._d = d;
-    this._f = f;
-    this._t = t;
-    this._td = t * d;
+      this._n = n;
+      this._d = d;
+      this._f = f;
+      this._t = t;
+      this._td = t * d;
+    }
   }
 
   /**
@@ -28,6 +92,8 @@ export class Sampling {
 
   /**
    * This sampling's delta.
+   * <p>
+   * If this sampling is not uniform, this is the average sampling interval.
    */
   get delta(): number { return this._d; }
 
@@ -39,7 +105,27 @@ export class Sampling {
   /**
    * The last value of this sampling.
    */
-  get last(): number { return this._f + ( this._n - 1 ) * this._d; }
+  get last(): number {
+    return ( this._v ) ? this._v[this._n - 1] : this._f + ( this._n - 1 ) * this._d;
+  }
+
+  /**
+   * This sampling's tolerance, expressed as a fraction of delta.
+   */
+  get tolerance(): number { return this._t; }
+
+  /**
+   * Determines whether this sampling is uniform.
+   * <p>
+   * A sampling is uniform if its values can be computed, to within the
+   * sampling tolerance, by the expression v = f + i * d, for sampling
+   * indices i = 0, 1, ..., n - 1. Samplings with only one sample are
+   * considered to be uniform.
+   * @returns true, if uniform; false, otherwise.
+   */
+  isUniform(): boolean {
+    return this._v === undefined;
+  }
 
   /**
    * Gets the value v[i] of this sampling at a given index.
@@ -48,7 +134,7 @@ export class Sampling {
    */
   valueAt(i: number): number {
     Check.index(this._n, i);
-    return this._f + i * this._d;
+    return ( this._v ) ? this._v[i] : this._f + i * this._d;
   }
 
   /**
@@ -56,6 +142,7 @@ export class Sampling {
    * @returns this sampling as an array.
    */
   values(): number[] {
+    if (this._v) { return this._v.slice(); }
     const v = [];
     for (let i = 0; i < this._n; ++i) {
       v.push(this._f + i * this._d);
@@ -73,9 +160,16 @@ export class Sampling {
    */
   indexOf(x: number): number {
     let i = -1;
-    const j = Math.floor(Math.round(( x - this._f ) / this._d));
-    if (0 <= j && j < this.count && almostEqual(x, this._f + j * this._d, this._td)) {
-      i = j;
+    if (this._v) {
+      const j = this.indexOfNearest(x);
+      if (almostEqual(x, this._v[j], this._td)) {
+        i = j;
+      }
+    } else {
+      const j = Math.floor(Math.round(( x - this._f ) / this._d));
+      if (0 <= j && j < this.count && almostEqual(x, this._f + j * this._d, this._td)) {
+        i = j;
+      }
     }
     return i;
   }
@@ -86,9 +180,22 @@ export class Sampling {
    * @returns the index of the nearest sample.
    */
   indexOfNearest(x: number): number {
-    let i = Math.round(( x - this._f ) / this._d);
-    if (i < 0) { i = 0; }
-    if (i >= this._n) { i = this._n - 1; }
+    let i: number;
+    if (this._v) {
+      i = binarySearch(this._v, x);
+      if (i < 0) {
+        i = -( i + 1 );
+        if (i === this._n) {
+          i = this._n - 1;
+        } else if (i > 0 && Math.abs(x - this._v[i - 1]) < Math.abs(x - this._v[i])) {
+          i -= 1;
+        }
+      }
+    } else {
+      i = Math.round(( x - this._f ) / this._d);
+      if (i < 0) { i = 0; }
+      if (i >= this._n) { i = this._n - 1; }
+    }
     return i;
   }
 
@@ -123,6 +230,77 @@ export class Sampling {
     return this.first <= x && x <= this.last;
   }
 
+  /**
+   * Determines whether this sampling is compatible with the specified sampling.
+   * <p>
+   * Two samplings are incompatible if their ranges of sample values overlap,
+   * but not all values in the overlapping parts are equivalent, to within
+   * the smaller of the two sampling tolerances. Otherwise, they are
+   * compatible.
+   * @param s the sampling to compare with this sampling.
+   * @returns true, if compatible; false, otherwise.
+   */
+  isCompatible(s: Sampling): boolean {
+    if (!this.overlaps(s)) { return true; }
+    const [ it, is, m ] = this._overlapping(s);
+    if (m <= 0) { return false; }
+    const tiny = this._tinyWith(s);
+    for (let j = 0; j < m; ++j) {
+      if (!almostEqual(this.valueAt(it + j), s.valueAt(is + j), tiny)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Determines whether the range of values of this sampling overlaps
+   * the range of values of the specified sampling.
+   * <p>
+   * Ranges that have only one value in common, such as the last value of
+   * one sampling and the first value of the other, overlap.
+   * @param s the sampling to compare with this sampling.
+   * @returns true, if the ranges overlap; false, otherwise.
+   */
+  overlaps(s: Sampling): boolean {
+    const tiny = this._tinyWith(s);
+    return s.first <= this.last + tiny && this.first <= s.last + tiny;
+  }
+
+  /**
+   * Merges this sampling with the specified sampling.
+   * <p>
+   * The samplings must be compatible. The values of the merged sampling
+   * are the union of the values of the two samplings, where values that
+   * are equivalent are counted only once. The merged sampling is uniform
+   * if its values are uniformly spaced; otherwise, it is non-uniform.
+   * <p>
+   * This method returns a new sampling; it does not modify this sampling.
+   * @param s the sampling to merge with this sampling.
+   * @returns the merged sampling.
+   */
+  mergeWith(s: Sampling): Sampling {
+    Check.argument(this.isCompatible(s), 'samplings are compatible');
+    const tiny = this._tinyWith(s);
+    const t = Math.min(this._t, s._t);
+    const a = this.values();
+    const b = s.values();
+    const v: number[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (j === b.length || ( i < a.length && a[i] < b[j] - tiny )) {
+        v.push(a[i++]);
+      } else if (i === a.length || b[j] < a[i] - tiny) {
+        v.push(b[j++]);
+      } else {
+        v.push(a[i++]);
+        ++j;
+      }
+    }
+    return new Sampling(v, t);
+  }
+
   /**
    * Shifts this sampling.
    * This method returns a new sampling; it does not modify this sampling.
@@ -130,17 +308,23 @@ export class Sampling {
    * @returns the new sampling.
    */
   shift(s: number): Sampling {
+    if (this._v) {
+      return new Sampling(this._v.map(v => v + s), this._t);
+    }
     return new Sampling(this._n, this._d, this._f + s, this._t);
   }
 
   /**
    * Prepends samples to this sampling.
    * <p>
+   * This sampling must be uniform.
+   * <p>
    * This method returns a new sampling; it does not modify this sampling.
    * @param m the number of new samples
    * @returns the new sampling.
    */
   prepend(m: number): Sampling {
+    Check.state(this.isUniform(), 'sampling is uniform');
     const n = this._n + m;
     const f = this._f - m * this._d;
     return new Sampling(n, this._d, f, this._t);
@@ -149,11 +333,14 @@ export class Sampling {
   /**
    * Appends samples to this sampling.
    * <p>
+   * This sampling must be uniform.
+   * <p>
    * This method returns a new sampling; it does not modify this sampling.
    * @param m the number of new samples
    * @returns the new sampling.
    */
   append(m: number): Sampling {
+    Check.state(this.isUniform(), 'sampling is uniform');
     const n = this._n + m;
     return new Sampling(n, this._d, this._f, this._t);
   }
@@ -162,7 +349,7 @@ export class Sampling {
    * Decimates this sampling.
    * Beginning with the first sample, keeps only every m'th sample, while
    * discarding the others in this sampling. If this sampling has n-values,
-   * the new sampling with have 1 + (n - 1) / m values.
+   * the new sampling with have 1 + (n - 1) / m values, rounded down.
    * <p>
    * This method returns a new sampling; it does not modify this sampling.
    * @param m the factor by which to decimate; must be a positive integer.
@@ -171,7 +358,12 @@ export class Sampling {
   decimate(m: number): Sampling {
     Check.argument(Math.floor(m) === m, 'm is an integer');
     Check.argument(m > 0, 'm > 0');
-    const n = 1 + ( this._n - 1 ) / m;
+    const n = 1 + Math.floor(( this._n - 1 ) / m);
+    if (this._v) {
+      const v: number[] = [];
+      for (let i = 0; i < n; ++i) { v.push(this._v[i * m]); }
+      return new Sampling(v, this._t);
+    }
     return new Sampling(n, m * this._d, this._f, this._t);
   }
 
@@ -189,6 +381,50 @@ export class Sampling {
     Check.argument(Math.floor(m) === m, 'm is an integer');
     Check.argument(m > 0, 'm > 0');
     const n = this._n + ( this._n - 1 ) * ( m - 1 );
+    if (this._v) {
+      const v: number[] = [];
+      for (let i = 0; i < this._n - 1; ++i) {
+        const d = ( this._v[i + 1] - this._v[i] ) / m;
+        for (let j = 0; j < m; ++j) { v.push(this._v[i] + j * d); }
+      }
+      v.push(this._v[this._n - 1]);
+      return new Sampling(v, this._t);
+    }
     return new Sampling(n, this._d / m, this._f, this._t);
   }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Returns the tolerance for comparing values of this sampling with
+   * values of the specified sampling.
+   */
+  private _tinyWith(s: Sampling): number {
+    return Math.min(this._td, s._td);
+  }
+
+  /**
+   * Returns the indices it and is of the first overlapping samples in this
+   * sampling and the specified sampling, and the number m of overlapping
+   * samples. If the overlapping values are not equivalent, m is zero.
+   */
+  private _overlapping(s: Sampling): number[] {
+    const it = ( this.first < s.first ) ? this.indexOf(s.first) : 0;
+    const is = ( this.first < s.first ) ? 0 : s.indexOf(this.first);
+    const jt = ( this.last > s.last ) ? this.indexOf(s.last) : this._n - 1;
+    const js = ( this.last > s.last ) ? s._n - 1 : s.indexOf(this.last);
+    if (it < 0 || is < 0 || jt < 0 || js < 0 || jt - it !== js - is) {
+      return [ 0, 0, 0 ];
+    }
+    return [ it, is, 1 + jt - it ];
+  }
+}
+
+/** @internal */
+function isStrictlyIncreasing(v: number[]): boolean {
+  for (let i = 1; i < v.length; ++i) {
+    if (!( v[i - 1] < v[i] )) { return false; }
+  }
+  return true;
 }
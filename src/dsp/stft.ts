@@ -0,0 +1,243 @@
+import { Check, zero } from '../utils';
+import { WindowType } from '../types';
+import { FftReal } from './fft-real';
+import { Sampling } from './sampling';
+
+/**
+ * A short-time Fourier transform (STFT) of real-valued 1D signals.
+ * <p>
+ * The STFT applies a fast Fourier transform to each of a sequence of
+ * windowed segments (frames) of a signal. Frames contain nwin samples, and
+ * begin every hop samples, so that adjacent frames overlap when hop &lt;
+ * nwin. Frame j is centered on signal sample j * hop, and the number of
+ * frames is the smallest number for which the last frame is centered on or
+ * beyond the last signal sample. Signal values beyond the ends of the
+ * signal are zero.
+ * <p>
+ * The complex output of a forward transform is a 2D array c[nt][2 * nf],
+ * where nt is the number of frames and nf is the number of non-negative
+ * frequencies sampled. As for {@link FftReal}, complex numbers in each
+ * frame are packed as [real_0, imag_0, real_1, imag_1, ...]. Frames are
+ * padded with zeros to an FFT length not less than the window length, and
+ * the FFT uses sign -1 for forward transforms. Time and frequency samplings
+ * for the output array are provided, in units consistent with the signal
+ * sampling.
+ * <p>
+ * The inverse transform uses a weighted overlap-add method. Each inverse
+ * transformed frame is multiplied by the window and accumulated; the sum
+ * is then divided by the sum of squared window values. This inverse
+ * reconstructs a signal exactly (to within rounding errors) from its
+ * forward transform, provided that the windows overlap to cover every
+ * sample with non-zero weight.
+ */
+export class Stft {
+
+  private readonly _sx: Sampling;
+  private readonly _nwin: number;
+  private readonly _hop: number;
+  private readonly _w: number[];
+  private readonly _nt: number;
+  private readonly _nfft: number;
+  private readonly _fft: FftReal;
+  private readonly _st: Sampling;
+  private readonly _sf: Sampling;
+  private readonly _wss: number[];
+
+  /**
+   * Constructs a short-time Fourier transform for signals with specified
+   * sampling.
+   * @param sx the signal sampling; must be uniform.
+   * @param nwin the window length, in samples.
+   * @param hop the number of samples between the beginnings of frames;
+   *            0 &lt; hop &lt;= nwin.
+   * @param window the window type, or an array of nwin window values;
+   *               default is 'Hann'.
+   */
+  constructor(sx: Sampling, nwin: number, hop: number, window?: WindowType | number[]);
+
+  /**
+   * Constructs a short-time Fourier transform for signals with specified
+   * length. Signals have unit sampling interval and zero first time.
+   * @param nx the signal length, in samples.
+   * @param nwin the window length, in samples.
+   * @param hop the number of samples between the beginnings of frames;
+   *            0 &lt; hop &lt;= nwin.
+   * @param window the window type, or an array of nwin window values;
+   *               default is 'Hann'.
+   */
+  constructor(nx: number, nwin: number, hop: number, window?: WindowType | number[]);
+
+  constructor(sx: Sampling | number, nwin: number, hop: number, window: WindowType | number[] = 'Hann') {
+    if (typeof sx === 'number') { sx = new Sampling(sx); }
+    Check.argument(sx.isUniform(), 'sampling is uniform');
+    Check.argument(nwin > 0 && Math.floor(nwin) === nwin, 'nwin is a positive integer');
+    Check.argument(hop > 0 && hop <= nwin && Math.floor(hop) === hop, 'hop is an integer in [1, nwin]');
+    this._sx = sx;
+    this._nwin = nwin;
+    this._hop = hop;
+    if (typeof window === 'string') {
+      this._w = windowValues(window, nwin);
+    } else {
+      Check.argument(window.length === nwin, 'window.length === nwin');
+      this._w = window.slice();
+    }
+    const nx = sx.count;
+    const dx = sx.delta;
+    this._nt = Math.ceil(( nx - 1 ) / hop) + 1;
+    this._nfft = FftReal.SmallNFFT(nwin);
+    this._fft = new FftReal(this._nfft);
+    this._st = new Sampling(this._nt, hop * dx, sx.first);
+    this._sf = new Sampling(this._nfft / 2 + 1, 1.0 / ( this._nfft * dx ), 0.0);
+
+    // Sums of squared window values, for the inverse transform.
+    this._wss = zero(nx);
+    for (let it = 0; it < this._nt; ++it) {
+      const i0 = this._start(it);
+      for (let k = Math.max(0, -i0); k < nwin && i0 + k < nx; ++k) {
+        this._wss[i0 + k] += this._w[k] * this._w[k];
+      }
+    }
+    for (let ix = 0; ix < nx; ++ix) {
+      Check.argument(this._wss[ix] > 0.0, 'windows cover all samples with non-zero weight');
+    }
+  }
+
+  /**
+   * Gets the window length, in samples.
+   */
+  get windowLength(): number { return this._nwin; }
+
+  /**
+   * Gets the number of samples between the beginnings of frames.
+   */
+  get hop(): number { return this._hop; }
+
+  /**
+   * Gets a copy of the window values.
+   */
+  get window(): number[] { return this._w.slice(); }
+
+  /**
+   * Gets the FFT length used to transform each frame.
+   */
+  get nfft(): number { return this._nfft; }
+
+  /**
+   * Gets the signal sampling.
+   */
+  get signalSampling(): Sampling { return this._sx; }
+
+  /**
+   * Gets the time sampling of frames. Times are those of frame centers.
+   */
+  get timeSampling(): Sampling { return this._st; }
+
+  /**
+   * Gets the sampling of non-negative frequencies, in cycles per unit of
+   * signal sampling.
+   */
+  get frequencySampling(): Sampling { return this._sf; }
+
+  /**
+   * Applies a forward short-time Fourier transform.
+   * @param x the input array of signal values.
+   * @returns array c[nt][2 * nf] of complex transformed frames.
+   */
+  applyForward(x: number[]): number[][] {
+    Check.argument(x.length === this._sx.count, 'x.length equals the signal length');
+    const nx = x.length;
+    const nwin = this._nwin;
+    const nfft = this._nfft;
+    const c = new Array<number[]>(this._nt);
+    for (let it = 0; it < this._nt; ++it) {
+      const i0 = this._start(it);
+      const ct: number[] = zero(nfft + 2);
+      for (let k = Math.max(0, -i0); k < nwin && i0 + k < nx; ++k) {
+        ct[k] = this._w[k] * x[i0 + k];
+      }
+      this._fft.realToComplex(-1, ct, ct);
+      c[it] = ct;
+    }
+    return c;
+  }
+
+  /**
+   * Applies an inverse short-time Fourier transform.
+   * @param c array c[nt][2 * nf] of complex transformed frames.
+   * @returns the array of signal values.
+   */
+  applyInverse(c: number[][]): number[] {
+    Check.argument(c.length === this._nt, 'c.length equals the number of frames');
+    const nx = this._sx.count;
+    const nwin = this._nwin;
+    const nfft = this._nfft;
+    const s = 1.0 / nfft;
+    const x: number[] = zero(nx);
+    const rt: number[] = zero(nfft + 2);
+    for (let it = 0; it < this._nt; ++it) {
+      Check.argument(c[it].length === nfft + 2, 'c[it].length === 2 * nf');
+      for (let k = 0; k < nfft + 2; ++k) { rt[k] = c[it][k]; }
+      this._fft.complexToReal(1, rt, rt);
+      const i0 = this._start(it);
+      for (let k = Math.max(0, -i0); k < nwin && i0 + k < nx; ++k) {
+        x[i0 + k] += s * this._w[k] * rt[k];
+      }
+    }
+    for (let ix = 0; ix < nx; ++ix) { x[ix] /= this._wss[ix]; }
+    return x;
+  }
+
+  /**
+   * Returns the spectrogram of a signal, the squared amplitudes of its
+   * short-time Fourier transform.
+   * @param x the input array of signal values.
+   * @returns array p[nt][nf] of squared amplitudes.
+   */
+  spectrogram(x: number[]): number[][] {
+    const c = this.applyForward(x);
+    const nf = this._sf.count;
+    return c.map(ct => {
+      const pt: number[] = zero(nf);
+      for (let kf = 0, kr = 0, ki = 1; kf < nf; ++kf, kr += 2, ki += 2) {
+        pt[kf] = ct[kr] * ct[kr] + ct[ki] * ct[ki];
+      }
+      return pt;
+    });
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  /**
+   * Returns the index of the signal sample at the beginning of a frame.
+   */
+  private _start(it: number): number {
+    return it * this._hop - Math.floor(this._nwin / 2);
+  }
+}
+
+/**
+ * Returns periodic window values w[k], k = 0, ..., n - 1, symmetric about
+ * k = n / 2, for which overlapping windows sum nicely.
+ * @internal
+ */
+export function windowValues(type: WindowType, n: number): number[] {
+  const w: number[] = zero(n);
+  const a = 2.0 * Math.PI / n;
+  for (let k = 0; k < n; ++k) {
+    switch (type) {
+      case 'Hann':
+        w[k] = 0.5 - 0.5 * Math.cos(a * k);
+        break;
+      case 'Hamming':
+        w[k] = 0.54 - 0.46 * Math.cos(a * k);
+        break;
+      case 'Blackman':
+        w[k] = 0.42 - 0.5 * Math.cos(a * k) + 0.08 * Math.cos(2.0 * a * k);
+        break;
+      default:
+        w[k] = 1.0;
+    }
+  }
+  return w;
+}
@@ -0,0 +1,17 @@
+/**
+ * An interface for 2D tensors used in anisotropic 2D image processing.
+ * Each tensor is a symmetric positive semi-definite 2x2 matrix:
+ * <pre><code>
+ *   A = | a11 a12 |
+ *       | a12 a22 |
+ * </code></pre>
+ */
+export interface Tensors2 {
+  /**
+   * Gets tensor elements for specified indices.
+   * @param i1 index for 1st dimension.
+   * @param i2 index for 2nd dimension.
+   * @param a  array { a11, a12, a22 } of tensor elements.
+   */
+  getTensor(i1: number, i2: number, a: number[]): void;
+}
@@ -11,8 +11,8 @@ export interface Tensors3 {
   /**
    * Gets tensors elements for specified indices.
    * @param i1 index for 1st dimension.
-   * @param i2 index for 1st dimension.
-   * @param i3 index for 1st dimension.
+   * @param i2 index for 2nd dimension.
+   * @param i3 index for 3rd dimension.
    * @param a  array { a11, a12, a13, a22, a23, a33 } of tensor elements.
    */
   getTensor(i1: number, i2: number, i3: number, a: number[]): void;
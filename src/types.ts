@@ -1,3 +1,52 @@
 export type ExtrapolationType =
   | 'ZeroValue'  // Extrapolate with zero values.
   | 'ZeroSlope'; // Extrapolate values at the ends with zero slope.
+
+export type RecursiveGaussianMethod =
+  | 'Deriche'   // Deriche's 4th-order parallel recursive filters.
+  | 'VanVliet'; // van Vliet's cascaded 4th-order recursive filters.
+
+export type InterpolationMethod =
+  | 'Nearest'    // Value of the nearest sample.
+  | 'Linear'     // Piecewise linear.
+  | 'Monotonic'  // Piecewise cubic that preserves monotonicity of samples.
+  | 'Spline';    // Natural cubic spline.
+
+export type FilterType =
+  | 'LowPass'   // Passes frequencies below a cutoff frequency.
+  | 'HighPass'; // Passes frequencies above a cutoff frequency.
+
+export type WindowType =
+  | 'Rectangular' // Constant weights.
+  | 'Hann'        // Raised cosine, zero at the ends.
+  | 'Hamming'     // Raised cosine, non-zero at the ends.
+  | 'Blackman';   // Sum of cosines, with low sidelobes.
+
+export type SpectrumSide =
+  | 'OneSided'  // Non-negative frequencies, with power of negative frequencies folded in.
+  | 'TwoSided'; // Negative and non-negative frequencies, centered on zero.
+
+export type NumberArray =
+  | number[]      // Array of numbers.
+  | Float32Array  // Typed array of 32-bit floats.
+  | Float64Array; // Typed array of 64-bit floats.
+
+export type TrigTransformType =
+  | 1  // Type I, for extensions symmetric about end samples.
+  | 2  // Type II, for extensions symmetric about half-sample points; the most common.
+  | 3  // Type III, the inverse of type II, to within scaling.
+  | 4; // Type IV, with half-sample shifts in both time and frequency.
+
+export type BoundaryCondition =
+  | 'Dirichlet' // Zero values just beyond the ends.
+  | 'Neumann'   // Zero slopes at points midway between end samples and samples just beyond.
+  | 'Periodic'; // Values repeat with period equal to the number of samples.
+
+export type HistogramBinRule =
+  | 'Sturges'           // log2(n) + 1 bins, for n values; best for near-normal distributions.
+  | 'FreedmanDiaconis'; // Bin width 2 * (v75 - v25) / cbrt(n), robust to outliers.
+
+export type MultiArray =
+  | number[]      // 1D array.
+  | number[][]    // 2D array of 1D arrays.
+  | number[][][]; // 3D array of 2D arrays.
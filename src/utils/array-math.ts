@@ -3,6 +3,10 @@
  * @packageDocumentation
  */
 
+import { MultiArray } from '../types';
+import { Check } from './check';
+import { Random } from './random';
+
 ///////////////////////////////////////////////////////////////////////////
 // math methods
 
@@ -13,12 +17,20 @@ const N_SMALL_SORT: number = 7;
 const N_LARGE_SORT: number = 40;
 
 /**
- * Returns the number of dimensions for the provided array.
+ * A number, or an array of numbers or arrays nested to any depth.
+ * @internal
+ */
+type Nested = number | Nested[];
+
+/**
+ * Returns the number of dimensions for the provided array. Typed arrays,
+ * such as Float32Array and Float64Array, have one dimension.
  * @param array the array.
  * @param dim the starting dimension.
  * @returns the number of dimensions.
  */
 export function arrayDimensions(array: any, dim: number = 0): number {
+  if (ArrayBuffer.isView(array)) { return dim + 1; }
   return ( array instanceof Array ) ? arrayDimensions(array[0], dim + 1) : dim;
 }
 
@@ -818,163 +830,1491 @@ function _ramp3d(rx: number[][][], ra: number, rb1: number, rb2: number, rb3: nu
 }
 
 
+/**
+ * Returns an array initialized to a specified linear ramp of integers.
+ * @param ra value of the first element; must be an integer.
+ * @param rb1 gradient in the 1st dimension; must be an integer.
+ * @param n1 1st array dimension.
+ */
+export function rampint(ra: number, rb1: number, n1: number): number[];
+
+/**
+ * Returns an array initialized to a specified linear ramp of integers.
+ * @param ra value of the first element; must be an integer.
+ * @param rb1 gradient in the 1st dimension; must be an integer.
+ * @param rb2 gradient in the 2nd dimension; must be an integer.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ */
+export function rampint(ra: number, rb1: number, rb2: number, n1: number, n2: number): number[][];
+
+/**
+ * Returns an array initialized to a specified linear ramp of integers.
+ * @param ra value of the first element; must be an integer.
+ * @param rb1 gradient in the 1st dimension; must be an integer.
+ * @param rb2 gradient in the 2nd dimension; must be an integer.
+ * @param rb3 gradient in the 3rd dimension; must be an integer.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @param n3 3rd array dimension.
+ */
+export function rampint(ra: number, rb1: number, rb2: number, rb3: number,
+                        n1: number, n2: number, n3: number): number[][][];
+
+export function rampint(ra: number, p1: number, p2: number,
+                        p3?: number, p4?: number, p5?: number, p6?: number): number[] | number[][] | number[][][] {
+  if (p6 !== undefined) {
+    Check.argument([ ra, p1, p2, p3 ].every(Number.isInteger), 'ra, rb1, rb2 and rb3 are integers');
+    return ramp(ra, p1, p2, p3, p4, p5, p6);
+  } else if (p4 !== undefined) {
+    Check.argument([ ra, p1, p2 ].every(Number.isInteger), 'ra, rb1 and rb2 are integers');
+    return ramp(ra, p1, p2, p3, p4);
+  } else {
+    Check.argument([ ra, p1 ].every(Number.isInteger), 'ra and rb1 are integers');
+    return ramp(ra, p1, p2);
+  }
+}
+
 ///////////////////////////////////////////////////////////////////////////
-// real-to-complex
+// random
 ///////////////////////////////////////////////////////////////////////////
 
-/** @internal */
-abstract class RealToComplex {
+/**
+ * Returns an array of random values uniformly distributed in [0, 1).
+ * @param n1 1st array dimension.
+ * @returns the array.
+ */
+export function randfloat(n1: number): number[];
 
-  apply(rx: number[], ry: number[]): number[];
-  apply(rx: number[][], ry: number[][]): number[][];
-  apply(rx: number[][][], ry: number[][][]): number[][][];
-  apply(rx: number[], ry: number[], cz: number[]): void;
-  apply(rx: number[][], ry: number[][][], cz: number[][]): void;
-  apply(rx: number[][][], ry: number[][][], cz: number[][][]): void;
+/**
+ * Returns an array of random values uniformly distributed in [0, 1).
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @returns the array.
+ */
+export function randfloat(n1: number, n2: number): number[][];
 
-  apply(rx: number[] | number[][] | number[][][],
-        ry: number[] | number[][] | number[][][],
-        cz?: number[] | number[][] | number[][][]): void | number[] | number[][] | number[][][] {
-    const cdim = arrayDimensions(cz);
-    const rdim = arrayDimensions(rx);
+/**
+ * Returns an array of random values uniformly distributed in [0, 1).
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @param n3 3rd array dimension.
+ * @returns the array.
+ */
+export function randfloat(n1: number, n2: number, n3: number): number[][][];
 
-    switch (arrayDimensions(rx)) {
-      case 1:
-      case 2:
-      default:
+/**
+ * Returns an array of random values uniformly distributed in [0, 1)
+ * drawn from a specified generator.
+ * @param random the generator.
+ * @param n1 1st array dimension.
+ * @returns the array.
+ */
+export function randfloat(random: Random, n1: number): number[];
 
-    }
-  }
+/**
+ * Returns an array of random values uniformly distributed in [0, 1)
+ * drawn from a specified generator.
+ * @param random the generator.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @returns the array.
+ */
+export function randfloat(random: Random, n1: number, n2: number): number[][];
+
+/**
+ * Returns an array of random values uniformly distributed in [0, 1)
+ * drawn from a specified generator.
+ * @param random the generator.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @param n3 3rd array dimension.
+ * @returns the array.
+ */
+export function randfloat(random: Random, n1: number, n2: number, n3: number): number[][][];
+
+export function randfloat(p1: Random | number, ...n: number[]): number[] | number[][] | number[][][] {
+  const r = ( p1 instanceof Random ) ? p1 : new Random();
+  return _random(( p1 instanceof Random ) ? n : [ p1, ...n ], () => r.uniform());
 }
 
-///////////////////////////////////////////////////////////////////////////
-// misc algorithms
-///////////////////////////////////////////////////////////////////////////
+/**
+ * Returns an array of random values uniformly distributed in [0, 1).
+ * @param n1 1st array dimension.
+ * @returns the array.
+ */
+export function rand(n1: number): number[];
 
 /**
- * Performs a quick partial sort.
- * @param k
- * @param arr
+ * Returns an array of random values uniformly distributed in [0, 1).
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @returns the array.
  */
-export function quickPartialSort(k: number, arr: number[]): void {
-  const n = arr.length;
-  let p = 0;
-  let q = n - 1;
-  const m = ( n > N_SMALL_SORT ) ? new Array<number>(2) : null;
-  while (q - p >= N_SMALL_SORT) {
-    m[0] = p;
-    m[1] = q;
-    quickPartition(arr, m);
-    if (k < m[0]) {
-      q = m[0] - 1;
-    } else if (k > m[1]) {
-      p = m[1] + 1;
-    } else {
-      return;
-    }
-  }
-  insertionSort(arr, p, q);
-}
+export function rand(n1: number, n2: number): number[][];
 
 /**
- * Performs a binary search in a monotonic array of values.
- * <p>
- * Values are assumed to increase or decrease monotonically, with no equal
- * values.
- * <p>
- * Warning: this method does not ensure that the specified array is
- * monotonic; that check would be more costly than this search.
- * @param a the array of values, assumed to be monotonic.
- * @param x the value for which to search.
- * @param i the index at which to begin the search. If negative, this
- *          method interprets this index as if returned from a
- *          previous call.
- * @returns the index at which the specified value is found, or, if not
- *          found, -(i + 1), where i equals the index at which the
- *          specified value would be located if it was inserted into
- *          the monotonic array.
+ * Returns an array of random values uniformly distributed in [0, 1).
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @param n3 3rd array dimension.
+ * @returns the array.
  */
-export function binarySearch(a: number[], x: number, i?: number): number {
-  if (!i) { i = a.length; }
-  const n = a.length;
-  const nm1 = n - 1;
-  let low = 0;
-  let high = nm1;
-  const increasing = n < 2 || a[0] < a[1];
-  if (i < n) {
-    high = ( 0 <= i ) ? i : -( i + 1 );
-    low = high - 1;
-    let step = 1;
-    if (increasing) {
-      for (; 0 < low && x < a[low]; low -= step, step += step) { high = low; }
-      for (; high < nm1 && a[high] < x; high += step, step += step) { low = high; }
-    } else {
-      for (; 0 < low && x > a[low]; low -= step, step += step) { high = low; }
-      for (; high < nm1 && a[high] > x; high += step, step += step) { low = high; }
-    }
-    if (low < 0) { low = 0; }
-    if (high > nm1) { high = nm1; }
-  }
-  if (increasing) {
-    while (low <= high) {
-      const mid = ( low + high ) >> 1;
-      const amid = a[mid];
-      if (amid < x) {
-        low = mid + 1;
-      } else if (amid > x) {
-        high = mid - 1;
-      } else {
-        return mid;
-      }
-    }
-  } else {
-    while (low <= high) {
-      const mid = ( low + high ) >> 1;
-      const amid = a[mid];
-      if (amid > x) {
-        low = mid + 1;
-      } else if (amid < x) {
-        high = mid - 1;
-      } else {
-        return mid;
-      }
-    }
-  }
-  return -( low + 1 );
-}
+export function rand(n1: number, n2: number, n3: number): number[][][];
 
-/** @internal */
-function med3(a: number[], i: number, j: number, k: number): number {
-  return a[i] < a[j] ?
-    ( a[j] < a[k] ? j : a[i] < a[k] ? k : i ) :
-    ( a[j] > a[k] ? j : a[i] > a[k] ? k : i );
+/**
+ * Returns an array of random values uniformly distributed in [0, 1)
+ * drawn from a specified generator.
+ * @param random the generator.
+ * @param n1 1st array dimension.
+ * @returns the array.
+ */
+export function rand(random: Random, n1: number): number[];
+
+/**
+ * Returns an array of random values uniformly distributed in [0, 1)
+ * drawn from a specified generator.
+ * @param random the generator.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @returns the array.
+ */
+export function rand(random: Random, n1: number, n2: number): number[][];
+
+/**
+ * Returns an array of random values uniformly distributed in [0, 1)
+ * drawn from a specified generator.
+ * @param random the generator.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @param n3 3rd array dimension.
+ * @returns the array.
+ */
+export function rand(random: Random, n1: number, n2: number, n3: number): number[][][];
+
+export function rand(p1: Random | number, ...n: number[]): number[] | number[][] | number[][][] {
+  const r = ( p1 instanceof Random ) ? p1 : new Random();
+  return _random(( p1 instanceof Random ) ? n : [ p1, ...n ], () => r.uniform());
 }
 
-/** @internal */
-function swap(a: number[], i: number, j: number, n: number = 1): void {
-  while (n > 0) {
-    const ai = a[i];
-    a[i++] = a[j];
-    a[j++] = ai;
-    --n;
-  }
+/**
+ * Returns an array of random values with a normal distribution, with zero mean and unit variance.
+ * @param n1 1st array dimension.
+ * @returns the array.
+ */
+export function randn(n1: number): number[];
+
+/**
+ * Returns an array of random values with a normal distribution, with zero mean and unit variance.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @returns the array.
+ */
+export function randn(n1: number, n2: number): number[][];
+
+/**
+ * Returns an array of random values with a normal distribution, with zero mean and unit variance.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @param n3 3rd array dimension.
+ * @returns the array.
+ */
+export function randn(n1: number, n2: number, n3: number): number[][][];
+
+/**
+ * Returns an array of random values with a normal distribution, with zero mean and unit variance,
+ * drawn from a specified generator.
+ * @param random the generator.
+ * @param n1 1st array dimension.
+ * @returns the array.
+ */
+export function randn(random: Random, n1: number): number[];
+
+/**
+ * Returns an array of random values with a normal distribution, with zero mean and unit variance,
+ * drawn from a specified generator.
+ * @param random the generator.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @returns the array.
+ */
+export function randn(random: Random, n1: number, n2: number): number[][];
+
+/**
+ * Returns an array of random values with a normal distribution, with zero mean and unit variance,
+ * drawn from a specified generator.
+ * @param random the generator.
+ * @param n1 1st array dimension.
+ * @param n2 2nd array dimension.
+ * @param n3 3rd array dimension.
+ * @returns the array.
+ */
+export function randn(random: Random, n1: number, n2: number, n3: number): number[][][];
+
+export function randn(p1: Random | number, ...n: number[]): number[] | number[][] | number[][][] {
+  const r = ( p1 instanceof Random ) ? p1 : new Random();
+  return _random(( p1 instanceof Random ) ? n : [ p1, ...n ], () => r.normal());
 }
 
-/** @internal */
-function insertionSort(a: number[], p: number, q: number): void {
-  for (let i = p; i <= q; ++i) {
-    for (let j = i; j > p && a[j - 1] > a[j]; --j) {
-      swap(a, j, j - 1);
-    }
-  }
+/**
+ * Returns an array with specified dimensions [n1, n2, n3] of random values.
+ * @internal
+ */
+function _random(n: number[], draw: () => number): number[] | number[][] | number[][][] {
+  const [ n1, n2, n3 ] = n;
+  const r1 = (): number[] => Array.from({ length: n1 }, draw);
+  const r2 = (): number[][] => Array.from({ length: n2 }, r1);
+  return ( n3 !== undefined ) ? Array.from({ length: n3 }, r2) : ( n2 !== undefined ) ? r2() : r1();
 }
 
-/** @internal */
-function quickPartition(x: number[], m: number[]): void {
-  const p = m[0];
-  const q = m[1];
-  const n = q - p + 1;
-  let k = ( p + q ) / 2;
+///////////////////////////////////////////////////////////////////////////
+// elementwise binary operations
+///////////////////////////////////////////////////////////////////////////
+
+/**
+ * Returns the elementwise sum of two arrays, rx + ry.
+ * @param rx the 1st array.
+ * @param ry the 2nd array, with the same dimensions.
+ * @returns the array of results.
+ */
+export function add<T extends MultiArray>(rx: T, ry: T): T;
+
+/**
+ * Returns the elementwise sum of an array and a value, rx + ry.
+ * @param rx the array.
+ * @param rb the value.
+ * @returns the array of results.
+ */
+export function add<T extends MultiArray>(rx: T, rb: number): T;
+
+/**
+ * Returns the elementwise sum of a value and an array, rx + ry.
+ * @param ra the value.
+ * @param ry the array.
+ * @returns the array of results.
+ */
+export function add<T extends MultiArray>(ra: number, ry: T): T;
+
+/**
+ * Computes the elementwise sum of arrays or values, rx + ry.
+ * @param rx the 1st array or value.
+ * @param ry the 2nd array or value.
+ * @param rz the output array; may be the same as rx or ry.
+ */
+export function add<T extends MultiArray>(rx: T | number, ry: T | number, rz: T): void;
+
+export function add<T extends MultiArray>(rx: T | number, ry: T | number, rz?: T): T | void {
+  return _binary(rx, ry, rz, (x, y) => x + y);
+}
+
+/**
+ * Returns the elementwise difference of two arrays, rx - ry.
+ * @param rx the 1st array.
+ * @param ry the 2nd array, with the same dimensions.
+ * @returns the array of results.
+ */
+export function sub<T extends MultiArray>(rx: T, ry: T): T;
+
+/**
+ * Returns the elementwise difference of an array and a value, rx - ry.
+ * @param rx the array.
+ * @param rb the value.
+ * @returns the array of results.
+ */
+export function sub<T extends MultiArray>(rx: T, rb: number): T;
+
+/**
+ * Returns the elementwise difference of a value and an array, rx - ry.
+ * @param ra the value.
+ * @param ry the array.
+ * @returns the array of results.
+ */
+export function sub<T extends MultiArray>(ra: number, ry: T): T;
+
+/**
+ * Computes the elementwise difference of arrays or values, rx - ry.
+ * @param rx the 1st array or value.
+ * @param ry the 2nd array or value.
+ * @param rz the output array; may be the same as rx or ry.
+ */
+export function sub<T extends MultiArray>(rx: T | number, ry: T | number, rz: T): void;
+
+export function sub<T extends MultiArray>(rx: T | number, ry: T | number, rz?: T): T | void {
+  return _binary(rx, ry, rz, (x, y) => x - y);
+}
+
+/**
+ * Returns the elementwise product of two arrays, rx * ry.
+ * @param rx the 1st array.
+ * @param ry the 2nd array, with the same dimensions.
+ * @returns the array of results.
+ */
+export function mul<T extends MultiArray>(rx: T, ry: T): T;
+
+/**
+ * Returns the elementwise product of an array and a value, rx * ry.
+ * @param rx the array.
+ * @param rb the value.
+ * @returns the array of results.
+ */
+export function mul<T extends MultiArray>(rx: T, rb: number): T;
+
+/**
+ * Returns the elementwise product of a value and an array, rx * ry.
+ * @param ra the value.
+ * @param ry the array.
+ * @returns the array of results.
+ */
+export function mul<T extends MultiArray>(ra: number, ry: T): T;
+
+/**
+ * Computes the elementwise product of arrays or values, rx * ry.
+ * @param rx the 1st array or value.
+ * @param ry the 2nd array or value.
+ * @param rz the output array; may be the same as rx or ry.
+ */
+export function mul<T extends MultiArray>(rx: T | number, ry: T | number, rz: T): void;
+
+export function mul<T extends MultiArray>(rx: T | number, ry: T | number, rz?: T): T | void {
+  return _binary(rx, ry, rz, (x, y) => x * y);
+}
+
+/**
+ * Returns the elementwise quotient of two arrays, rx / ry.
+ * @param rx the 1st array.
+ * @param ry the 2nd array, with the same dimensions.
+ * @returns the array of results.
+ */
+export function div<T extends MultiArray>(rx: T, ry: T): T;
+
+/**
+ * Returns the elementwise quotient of an array and a value, rx / ry.
+ * @param rx the array.
+ * @param rb the value.
+ * @returns the array of results.
+ */
+export function div<T extends MultiArray>(rx: T, rb: number): T;
+
+/**
+ * Returns the elementwise quotient of a value and an array, rx / ry.
+ * @param ra the value.
+ * @param ry the array.
+ * @returns the array of results.
+ */
+export function div<T extends MultiArray>(ra: number, ry: T): T;
+
+/**
+ * Computes the elementwise quotient of arrays or values, rx / ry.
+ * @param rx the 1st array or value.
+ * @param ry the 2nd array or value.
+ * @param rz the output array; may be the same as rx or ry.
+ */
+export function div<T extends MultiArray>(rx: T | number, ry: T | number, rz: T): void;
+
+export function div<T extends MultiArray>(rx: T | number, ry: T | number, rz?: T): T | void {
+  return _binary(rx, ry, rz, (x, y) => x / y);
+}
+
+/**
+ * Returns the elementwise power of two arrays, rx raised to the power ry.
+ * @param rx the 1st array.
+ * @param ry the 2nd array, with the same dimensions.
+ * @returns the array of results.
+ */
+export function pow<T extends MultiArray>(rx: T, ry: T): T;
+
+/**
+ * Returns the elementwise power of an array and a value, rx raised to the power ry.
+ * @param rx the array.
+ * @param rb the value.
+ * @returns the array of results.
+ */
+export function pow<T extends MultiArray>(rx: T, rb: number): T;
+
+/**
+ * Returns the elementwise power of a value and an array, rx raised to the power ry.
+ * @param ra the value.
+ * @param ry the array.
+ * @returns the array of results.
+ */
+export function pow<T extends MultiArray>(ra: number, ry: T): T;
+
+/**
+ * Computes the elementwise power of arrays or values, rx raised to the power ry.
+ * @param rx the 1st array or value.
+ * @param ry the 2nd array or value.
+ * @param rz the output array; may be the same as rx or ry.
+ */
+export function pow<T extends MultiArray>(rx: T | number, ry: T | number, rz: T): void;
+
+export function pow<T extends MultiArray>(rx: T | number, ry: T | number, rz?: T): T | void {
+  return _binary(rx, ry, rz, (x, y) => Math.pow(x, y));
+}
+
+/**
+ * Returns the maximum value in an array.
+ * @param rx the array.
+ * @returns the maximum value.
+ */
+export function max(rx: MultiArray): number;
+
+/**
+ * Returns the elementwise maximum of two arrays, max(rx, ry).
+ * @param rx the 1st array.
+ * @param ry the 2nd array, with the same dimensions.
+ * @returns the array of results.
+ */
+export function max<T extends MultiArray>(rx: T, ry: T): T;
+
+/**
+ * Returns the elementwise maximum of an array and a value, max(rx, ry).
+ * @param rx the array.
+ * @param rb the value.
+ * @returns the array of results.
+ */
+export function max<T extends MultiArray>(rx: T, rb: number): T;
+
+/**
+ * Returns the elementwise maximum of a value and an array, max(rx, ry).
+ * @param ra the value.
+ * @param ry the array.
+ * @returns the array of results.
+ */
+export function max<T extends MultiArray>(ra: number, ry: T): T;
+
+/**
+ * Computes the elementwise maximum of arrays or values, max(rx, ry).
+ * @param rx the 1st array or value.
+ * @param ry the 2nd array or value.
+ * @param rz the output array; may be the same as rx or ry.
+ */
+export function max<T extends MultiArray>(rx: T | number, ry: T | number, rz: T): void;
+
+export function max<T extends MultiArray>(rx: T | number, ry?: T | number, rz?: T): T | number | void {
+  if (ry === undefined) {
+    return _reduce(rx as T, undefined, (a, x) => Math.max(a, x));
+  }
+  return _binary(rx, ry, rz, (x, y) => Math.max(x, y));
+}
+
+/**
+ * Returns the minimum value in an array.
+ * @param rx the array.
+ * @returns the minimum value.
+ */
+export function min(rx: MultiArray): number;
+
+/**
+ * Returns the elementwise minimum of two arrays, min(rx, ry).
+ * @param rx the 1st array.
+ * @param ry the 2nd array, with the same dimensions.
+ * @returns the array of results.
+ */
+export function min<T extends MultiArray>(rx: T, ry: T): T;
+
+/**
+ * Returns the elementwise minimum of an array and a value, min(rx, ry).
+ * @param rx the array.
+ * @param rb the value.
+ * @returns the array of results.
+ */
+export function min<T extends MultiArray>(rx: T, rb: number): T;
+
+/**
+ * Returns the elementwise minimum of a value and an array, min(rx, ry).
+ * @param ra the value.
+ * @param ry the array.
+ * @returns the array of results.
+ */
+export function min<T extends MultiArray>(ra: number, ry: T): T;
+
+/**
+ * Computes the elementwise minimum of arrays or values, min(rx, ry).
+ * @param rx the 1st array or value.
+ * @param ry the 2nd array or value.
+ * @param rz the output array; may be the same as rx or ry.
+ */
+export function min<T extends MultiArray>(rx: T | number, ry: T | number, rz: T): void;
+
+export function min<T extends MultiArray>(rx: T | number, ry?: T | number, rz?: T): T | number | void {
+  if (ry === undefined) {
+    return _reduce(rx as T, undefined, (a, x) => Math.min(a, x));
+  }
+  return _binary(rx, ry, rz, (x, y) => Math.min(x, y));
+}
+
+/**
+ * Applies a binary operation to elements of arrays or values, allocating
+ * the output array if not specified.
+ * @internal
+ */
+function _binary<T extends MultiArray>(rx: T | number, ry: T | number, rz: T,
+                                      f: (x: number, y: number) => number): T | void {
+  const allocate = ( rz === undefined );
+  const zip = (x: Nested, y: Nested, z: Nested[]): Nested[] => {
+    const a = ( typeof x === 'number' ) ? y as Nested[] : x;
+    const n = a.length;
+    Check.argument(typeof x === 'number' || typeof y === 'number' || x.length === y.length,
+      'array dimensions are equal');
+    if (z === undefined) {
+      z = new Array<Nested>(n);
+    } else {
+      Check.argument(z.length === n, 'array dimensions are equal');
+    }
+    if (n > 0 && a[0] instanceof Array) {
+      for (let i = 0; i < n; ++i) {
+        z[i] = zip(( typeof x === 'number' ) ? x : x[i], ( typeof y === 'number' ) ? y : y[i], z[i] as Nested[]);
+      }
+    } else {
+      for (let i = 0; i < n; ++i) {
+        z[i] = f(( typeof x === 'number' ) ? x : x[i] as number, ( typeof y === 'number' ) ? y : y[i] as number);
+      }
+    }
+    return z;
+  };
+  Check.argument(typeof rx !== 'number' || typeof ry !== 'number', 'rx or ry is an array');
+  Check.argument(typeof rx === 'number' || typeof ry === 'number' || arrayDimensions(rx) === arrayDimensions(ry),
+    'rx and ry have the same number of dimensions');
+  Check.argument(rz === undefined || arrayDimensions(rz) === arrayDimensions(( typeof rx === 'number' ) ? ry : rx),
+    'rz has the same number of dimensions as rx and ry');
+  const r = zip(rx, ry, rz) as T;
+  return ( allocate ) ? r : undefined;
+}
+
+///////////////////////////////////////////////////////////////////////////
+// reductions
+///////////////////////////////////////////////////////////////////////////
+
+/**
+ * Returns the sum of values in an array.
+ * @param rx the array.
+ * @returns the sum.
+ */
+export function sum(rx: MultiArray): number {
+  return _reduce(rx, 0.0, (a, x) => a + x);
+}
+
+/**
+ * Returns the product of values in an array.
+ * @param rx the array.
+ * @returns the product.
+ */
+export function prod(rx: MultiArray): number {
+  return _reduce(rx, 1.0, (a, x) => a * x);
+}
+
+/**
+ * Returns the indices of the maximum value in an array. If more than one
+ * value equals the maximum, returns the indices of the first such value.
+ * @param rx the array.
+ * @returns array of indices [i1], [i1, i2] or [i1, i2, i3], for arrays with
+ *          one, two or three dimensions.
+ */
+export function argmax(rx: MultiArray): number[] {
+  return _indexOf(rx, (x, a) => x > a);
+}
+
+/**
+ * Returns the indices of the minimum value in an array. If more than one
+ * value equals the minimum, returns the indices of the first such value.
+ * @param rx the array.
+ * @returns array of indices [i1], [i1, i2] or [i1, i2, i3], for arrays with
+ *          one, two or three dimensions.
+ */
+export function argmin(rx: MultiArray): number[] {
+  return _indexOf(rx, (x, a) => x < a);
+}
+
+/**
+ * Determines whether two arrays have the same dimensions and values.
+ * @param rx the 1st array.
+ * @param ry the 2nd array.
+ * @returns true, if equal; false, otherwise.
+ */
+export function equal(rx: MultiArray, ry: MultiArray): boolean;
+
+/**
+ * Determines whether two arrays have the same dimensions and values to
+ * within a specified tolerance.
+ * @param tolerance the tolerance for absolute differences of values.
+ * @param rx the 1st array.
+ * @param ry the 2nd array.
+ * @returns true, if equal; false, otherwise.
+ */
+export function equal(tolerance: number, rx: MultiArray, ry: MultiArray): boolean;
+
+export function equal(p1: number | MultiArray, p2: MultiArray, p3?: MultiArray): boolean {
+  const tolerance = ( typeof p1 === 'number' ) ? p1 : 0.0;
+  const rx = ( typeof p1 === 'number' ) ? p2 : p1;
+  const ry = ( typeof p1 === 'number' ) ? p3 : p2;
+  const same = (x: Nested, y: Nested): boolean => {
+    if (x instanceof Array && y instanceof Array) {
+      if (x.length !== y.length) {
+        return false;
+      }
+      for (let i = 0; i < x.length; ++i) {
+        if (!same(x[i], y[i])) { return false; }
+      }
+      return true;
+    }
+    return typeof x === 'number' && typeof y === 'number' && Math.abs(x - y) <= tolerance;
+  };
+  return same(rx, ry);
+}
+
+/**
+ * Accumulates the values of an array, beginning with a specified value or,
+ * if undefined, the first value in the array.
+ * @internal
+ */
+function _reduce(rx: MultiArray, a: number, f: (a: number, x: number) => number): number {
+  if (a === undefined) {
+    a = _first(rx);
+    Check.argument(a !== undefined, 'array is not empty');
+  }
+  const acc = (x: Nested[]): void => {
+    for (const xi of x) {
+      if (typeof xi === 'number') {
+        a = f(a, xi);
+      } else {
+        acc(xi);
+      }
+    }
+  };
+  acc(rx);
+  return a;
+}
+
+/**
+ * Returns the indices of the first value in an array that is preferred,
+ * by a specified comparison, to all other values.
+ * @internal
+ */
+function _indexOf(rx: MultiArray, better: (x: number, a: number) => boolean): number[] {
+  let index: number[] = null;
+  let a = 0.0;
+  const search = (x: Nested[], i: number[]): void => {
+    for (let j = 0; j < x.length; ++j) {
+      const xj = x[j];
+      if (typeof xj !== 'number') {
+        search(xj, [ j, ...i ]);
+      } else if (index === null || better(xj, a)) {
+        index = [ j, ...i ];
+        a = xj;
+      }
+    }
+  };
+  search(rx, []);
+  Check.argument(index !== null, 'array is not empty');
+  return index;
+}
+
+/**
+ * Returns the first value in an array, or undefined if the array has no
+ * values.
+ * @internal
+ */
+function _first(rx: Nested[]): number {
+  for (const x of rx) {
+    const v = ( typeof x === 'number' ) ? x : _first(x);
+    if (v !== undefined) { return v; }
+  }
+  return undefined;
+}
+
+///////////////////////////////////////////////////////////////////////////
+// elementwise unary operations
+///////////////////////////////////////////////////////////////////////////
+
+/**
+ * Returns an array of elementwise absolute values of array values.
+ * @param rx the array.
+ * @returns the array of results.
+ */
+export function abs<T extends MultiArray>(rx: T): T;
+
+/**
+ * Computes elementwise absolute values of array values.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function abs<T extends MultiArray>(rx: T, ry: T): void;
+
+export function abs<T extends MultiArray>(rx: T, ry?: T): T | void {
+  return _unary(rx, ry, x => Math.abs(x));
+}
+
+/**
+ * Returns an array of elementwise negatives of array values.
+ * @param rx the array.
+ * @returns the array of results.
+ */
+export function neg<T extends MultiArray>(rx: T): T;
+
+/**
+ * Computes elementwise negatives of array values.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function neg<T extends MultiArray>(rx: T, ry: T): void;
+
+export function neg<T extends MultiArray>(rx: T, ry?: T): T | void {
+  return _unary(rx, ry, x => -x);
+}
+
+/**
+ * Returns an array of elementwise signs of array values: 1, -1 or 0 for
+ * positive, negative or zero values.
+ * @param rx the array.
+ * @returns the array of results.
+ */
+export function sgn<T extends MultiArray>(rx: T): T;
+
+/**
+ * Computes elementwise signs of array values: 1, -1 or 0 for positive,
+ * negative or zero values.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function sgn<T extends MultiArray>(rx: T, ry: T): void;
+
+export function sgn<T extends MultiArray>(rx: T, ry?: T): T | void {
+  return _unary(rx, ry, x => ( x > 0.0 ) ? 1.0 : ( x < 0.0 ) ? -1.0 : 0.0);
+}
+
+/**
+ * Returns an array of elementwise square roots of array values.
+ * @param rx the array.
+ * @returns the array of results.
+ */
+export function sqrt<T extends MultiArray>(rx: T): T;
+
+/**
+ * Computes elementwise square roots of array values.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function sqrt<T extends MultiArray>(rx: T, ry: T): void;
+
+export function sqrt<T extends MultiArray>(rx: T, ry?: T): T | void {
+  return _unary(rx, ry, x => Math.sqrt(x));
+}
+
+/**
+ * Returns an array of elementwise exponentials of array values.
+ * @param rx the array.
+ * @returns the array of results.
+ */
+export function exp<T extends MultiArray>(rx: T): T;
+
+/**
+ * Computes elementwise exponentials of array values.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function exp<T extends MultiArray>(rx: T, ry: T): void;
+
+export function exp<T extends MultiArray>(rx: T, ry?: T): T | void {
+  return _unary(rx, ry, x => Math.exp(x));
+}
+
+/**
+ * Returns an array of elementwise natural logarithms of array values.
+ * @param rx the array.
+ * @returns the array of results.
+ */
+export function log<T extends MultiArray>(rx: T): T;
+
+/**
+ * Computes elementwise natural logarithms of array values.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function log<T extends MultiArray>(rx: T, ry: T): void;
+
+export function log<T extends MultiArray>(rx: T, ry?: T): T | void {
+  return _unary(rx, ry, x => Math.log(x));
+}
+
+/**
+ * Returns an array of elementwise base-10 logarithms of array values.
+ * @param rx the array.
+ * @returns the array of results.
+ */
+export function log10<T extends MultiArray>(rx: T): T;
+
+/**
+ * Computes elementwise base-10 logarithms of array values.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function log10<T extends MultiArray>(rx: T, ry: T): void;
+
+export function log10<T extends MultiArray>(rx: T, ry?: T): T | void {
+  return _unary(rx, ry, x => Math.log10(x));
+}
+
+/**
+ * Returns an array of elementwise sines of array values.
+ * @param rx the array.
+ * @returns the array of results.
+ */
+export function sin<T extends MultiArray>(rx: T): T;
+
+/**
+ * Computes elementwise sines of array values.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function sin<T extends MultiArray>(rx: T, ry: T): void;
+
+export function sin<T extends MultiArray>(rx: T, ry?: T): T | void {
+  return _unary(rx, ry, x => Math.sin(x));
+}
+
+/**
+ * Returns an array of elementwise cosines of array values.
+ * @param rx the array.
+ * @returns the array of results.
+ */
+export function cos<T extends MultiArray>(rx: T): T;
+
+/**
+ * Computes elementwise cosines of array values.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function cos<T extends MultiArray>(rx: T, ry: T): void;
+
+export function cos<T extends MultiArray>(rx: T, ry?: T): T | void {
+  return _unary(rx, ry, x => Math.cos(x));
+}
+
+/**
+ * Returns an array of array values clipped to a specified range.
+ * @param rxmin the minimum value.
+ * @param rxmax the maximum value.
+ * @param rx the array.
+ * @returns the array of clipped values.
+ */
+export function clip<T extends MultiArray>(rxmin: number, rxmax: number, rx: T): T;
+
+/**
+ * Clips array values to a specified range.
+ * @param rxmin the minimum value.
+ * @param rxmax the maximum value.
+ * @param rx the array.
+ * @param ry the output array; may be the same as rx.
+ */
+export function clip<T extends MultiArray>(rxmin: number, rxmax: number, rx: T, ry: T): void;
+
+export function clip<T extends MultiArray>(rxmin: number, rxmax: number, rx: T, ry?: T): T | void {
+  Check.argument(rxmin <= rxmax, 'rxmin <= rxmax');
+  return _unary(rx, ry, x => ( x < rxmin ) ? rxmin : ( x > rxmax ) ? rxmax : x);
+}
+
+/**
+ * Applies a unary operation to elements of an array, allocating the output
+ * array if not specified.
+ * @internal
+ */
+function _unary<T extends MultiArray>(rx: T, ry: T, f: (x: number) => number): T | void {
+  const allocate = ( ry === undefined );
+  const map = (x: Nested[], y: Nested[]): Nested[] => {
+    const n = x.length;
+    if (y === undefined) {
+      y = new Array<Nested>(n);
+    } else {
+      Check.argument(y.length === n, 'array dimensions are equal');
+    }
+    if (n > 0 && x[0] instanceof Array) {
+      for (let i = 0; i < n; ++i) {
+        y[i] = map(x[i] as Nested[], y[i] as Nested[]);
+      }
+    } else {
+      for (let i = 0; i < n; ++i) {
+        y[i] = f(x[i] as number);
+      }
+    }
+    return y;
+  };
+  Check.argument(ry === undefined || arrayDimensions(rx) === arrayDimensions(ry),
+    'rx and ry have the same number of dimensions');
+  const r = map(rx, ry) as T;
+  return ( allocate ) ? r : undefined;
+}
+
+///////////////////////////////////////////////////////////////////////////
+// complex elementwise operations
+///////////////////////////////////////////////////////////////////////////
+
+/**
+ * Returns the elementwise complex sum of two complex arrays, cx + cy.
+ * @param cx the 1st complex array.
+ * @param cy the 2nd complex array, with the same dimensions.
+ * @returns the complex array of results.
+ */
+export function cadd<T extends MultiArray>(cx: T, cy: T): T;
+
+/**
+ * Computes the elementwise complex sum of two complex arrays, cx + cy.
+ * @param cx the 1st complex array.
+ * @param cy the 2nd complex array, with the same dimensions.
+ * @param cz the output complex array; may be the same as cx or cy.
+ */
+export function cadd<T extends MultiArray>(cx: T, cy: T, cz: T): void;
+
+export function cadd<T extends MultiArray>(cx: T, cy: T, cz?: T): T | void {
+  return _complex([ cx, cy ], cz, true, true, ([ x, y ], z, ir, ii) => {
+    z[ir] = x[ir] + y[ir];
+    z[ii] = x[ii] + y[ii];
+  });
+}
+
+/**
+ * Returns the elementwise complex difference of two complex arrays, cx - cy.
+ * @param cx the 1st complex array.
+ * @param cy the 2nd complex array, with the same dimensions.
+ * @returns the complex array of results.
+ */
+export function csub<T extends MultiArray>(cx: T, cy: T): T;
+
+/**
+ * Computes the elementwise complex difference of two complex arrays, cx - cy.
+ * @param cx the 1st complex array.
+ * @param cy the 2nd complex array, with the same dimensions.
+ * @param cz the output complex array; may be the same as cx or cy.
+ */
+export function csub<T extends MultiArray>(cx: T, cy: T, cz: T): void;
+
+export function csub<T extends MultiArray>(cx: T, cy: T, cz?: T): T | void {
+  return _complex([ cx, cy ], cz, true, true, ([ x, y ], z, ir, ii) => {
+    z[ir] = x[ir] - y[ir];
+    z[ii] = x[ii] - y[ii];
+  });
+}
+
+/**
+ * Returns the elementwise complex product of two complex arrays, cx * cy.
+ * @param cx the 1st complex array.
+ * @param cy the 2nd complex array, with the same dimensions.
+ * @returns the complex array of results.
+ */
+export function cmul<T extends MultiArray>(cx: T, cy: T): T;
+
+/**
+ * Computes the elementwise complex product of two complex arrays, cx * cy.
+ * @param cx the 1st complex array.
+ * @param cy the 2nd complex array, with the same dimensions.
+ * @param cz the output complex array; may be the same as cx or cy.
+ */
+export function cmul<T extends MultiArray>(cx: T, cy: T, cz: T): void;
+
+export function cmul<T extends MultiArray>(cx: T, cy: T, cz?: T): T | void {
+  return _complex([ cx, cy ], cz, true, true, ([ x, y ], z, ir, ii) => {
+    const xr = x[ir], xi = x[ii], yr = y[ir], yi = y[ii];
+    z[ir] = xr * yr - xi * yi;
+    z[ii] = xr * yi + xi * yr;
+  });
+}
+
+/**
+ * Returns the elementwise complex quotient of two complex arrays, cx / cy.
+ * @param cx the 1st complex array.
+ * @param cy the 2nd complex array, with the same dimensions.
+ * @returns the complex array of results.
+ */
+export function cdiv<T extends MultiArray>(cx: T, cy: T): T;
+
+/**
+ * Computes the elementwise complex quotient of two complex arrays, cx / cy.
+ * @param cx the 1st complex array.
+ * @param cy the 2nd complex array, with the same dimensions.
+ * @param cz the output complex array; may be the same as cx or cy.
+ */
+export function cdiv<T extends MultiArray>(cx: T, cy: T, cz: T): void;
+
+export function cdiv<T extends MultiArray>(cx: T, cy: T, cz?: T): T | void {
+  return _complex([ cx, cy ], cz, true, true, ([ x, y ], z, ir, ii) => {
+    const xr = x[ir], xi = x[ii], yr = y[ir], yi = y[ii];
+    const s = 1.0 / ( yr * yr + yi * yi );
+    z[ir] = ( xr * yr + xi * yi ) * s;
+    z[ii] = ( xi * yr - xr * yi ) * s;
+  });
+}
+
+/**
+ * Returns a complex array of elementwise complex conjugates.
+ * @param cx the complex array.
+ * @returns the complex array of results.
+ */
+export function cconj<T extends MultiArray>(cx: T): T;
+
+/**
+ * Computes elementwise complex conjugates.
+ * @param cx the complex array.
+ * @param cy the output complex array; may be the same as cx.
+ */
+export function cconj<T extends MultiArray>(cx: T, cy: T): void;
+
+export function cconj<T extends MultiArray>(cx: T, cy?: T): T | void {
+  return _complex([ cx ], cy, true, true, ([ x ], z, ir, ii) => {
+    z[ir] = x[ir];
+    z[ii] = -x[ii];
+  });
+}
+
+/**
+ * Returns a complex array of elementwise complex exponentials.
+ * @param cx the complex array.
+ * @returns the complex array of results.
+ */
+export function cexp<T extends MultiArray>(cx: T): T;
+
+/**
+ * Computes elementwise complex exponentials.
+ * @param cx the complex array.
+ * @param cy the output complex array; may be the same as cx.
+ */
+export function cexp<T extends MultiArray>(cx: T, cy: T): void;
+
+export function cexp<T extends MultiArray>(cx: T, cy?: T): T | void {
+  return _complex([ cx ], cy, true, true, ([ x ], z, ir, ii) => {
+    const s = Math.exp(x[ir]), a = x[ii];
+    z[ir] = s * Math.cos(a);
+    z[ii] = s * Math.sin(a);
+  });
+}
+
+/**
+ * Returns a complex array of elementwise complex natural logarithms (principal values).
+ * @param cx the complex array.
+ * @returns the complex array of results.
+ */
+export function clog<T extends MultiArray>(cx: T): T;
+
+/**
+ * Computes elementwise complex natural logarithms (principal values).
+ * @param cx the complex array.
+ * @param cy the output complex array; may be the same as cx.
+ */
+export function clog<T extends MultiArray>(cx: T, cy: T): void;
+
+export function clog<T extends MultiArray>(cx: T, cy?: T): T | void {
+  return _complex([ cx ], cy, true, true, ([ x ], z, ir, ii) => {
+    const xr = x[ir], xi = x[ii];
+    z[ir] = Math.log(Math.hypot(xr, xi));
+    z[ii] = Math.atan2(xi, xr);
+  });
+}
+
+/**
+ * Returns a complex array of elementwise complex square roots (principal values).
+ * @param cx the complex array.
+ * @returns the complex array of results.
+ */
+export function csqrt<T extends MultiArray>(cx: T): T;
+
+/**
+ * Computes elementwise complex square roots (principal values).
+ * @param cx the complex array.
+ * @param cy the output complex array; may be the same as cx.
+ */
+export function csqrt<T extends MultiArray>(cx: T, cy: T): void;
+
+export function csqrt<T extends MultiArray>(cx: T, cy?: T): T | void {
+  return _complex([ cx ], cy, true, true, ([ x ], z, ir, ii) => {
+    const xr = x[ir], xi = x[ii];
+    const r = Math.hypot(xr, xi);
+    const t = Math.sqrt(0.5 * Math.max(0.0, r - xr));
+    z[ir] = Math.sqrt(0.5 * Math.max(0.0, r + xr));
+    z[ii] = ( xi < 0.0 ) ? -t : t;
+  });
+}
+
+/**
+ * Returns an array of elementwise magnitudes (absolute values) of complex values.
+ * @param cx the complex array.
+ * @returns the real array of results.
+ */
+export function cabs<T extends MultiArray>(cx: T): T;
+
+/**
+ * Computes elementwise magnitudes (absolute values) of complex values.
+ * @param cx the complex array.
+ * @param ry the output real array.
+ */
+export function cabs<T extends MultiArray>(cx: T, ry: T): void;
+
+export function cabs<T extends MultiArray>(cx: T, ry?: T): T | void {
+  return _complex([ cx ], ry, true, false, ([ x ], y, ir, ii, i) => {
+    y[i] = Math.hypot(x[ir], x[ii]);
+  });
+}
+
+/**
+ * Returns an array of elementwise arguments (phases), in radians in [-PI, PI], of complex values.
+ * @param cx the complex array.
+ * @returns the real array of results.
+ */
+export function carg<T extends MultiArray>(cx: T): T;
+
+/**
+ * Computes elementwise arguments (phases), in radians in [-PI, PI], of complex values.
+ * @param cx the complex array.
+ * @param ry the output real array.
+ */
+export function carg<T extends MultiArray>(cx: T, ry: T): void;
+
+export function carg<T extends MultiArray>(cx: T, ry?: T): T | void {
+  return _complex([ cx ], ry, true, false, ([ x ], y, ir, ii, i) => {
+    y[i] = Math.atan2(x[ii], x[ir]);
+  });
+}
+
+/**
+ * Returns an array of elementwise real parts of complex values.
+ * @param cx the complex array.
+ * @returns the real array of results.
+ */
+export function real<T extends MultiArray>(cx: T): T;
+
+/**
+ * Computes elementwise real parts of complex values.
+ * @param cx the complex array.
+ * @param ry the output real array.
+ */
+export function real<T extends MultiArray>(cx: T, ry: T): void;
+
+export function real<T extends MultiArray>(cx: T, ry?: T): T | void {
+  return _complex([ cx ], ry, true, false, ([ x ], y, ir, ii, i) => {
+    y[i] = x[ir];
+  });
+}
+
+/**
+ * Returns an array of elementwise imaginary parts of complex values.
+ * @param cx the complex array.
+ * @returns the real array of results.
+ */
+export function imag<T extends MultiArray>(cx: T): T;
+
+/**
+ * Computes elementwise imaginary parts of complex values.
+ * @param cx the complex array.
+ * @param ry the output real array.
+ */
+export function imag<T extends MultiArray>(cx: T, ry: T): void;
+
+export function imag<T extends MultiArray>(cx: T, ry?: T): T | void {
+  return _complex([ cx ], ry, true, false, ([ x ], y, ir, ii, i) => {
+    y[i] = x[ii];
+  });
+}
+
+/**
+ * Returns a complex array of values with specified real and imaginary parts.
+ * @param rx the array of real parts.
+ * @param ry the array of imaginary parts.
+ * @returns the complex array.
+ */
+export function cmplx<T extends MultiArray>(rx: T, ry: T): T;
+
+/**
+ * Computes a complex array of values with specified real and imaginary parts.
+ * @param rx the array of real parts.
+ * @param ry the array of imaginary parts.
+ * @param cz the output complex array.
+ */
+export function cmplx<T extends MultiArray>(rx: T, ry: T, cz: T): void;
+
+export function cmplx<T extends MultiArray>(rx: T, ry: T, cz?: T): T | void {
+  return _complex([ rx, ry ], cz, false, true, ([ x, y ], z, ir, ii, i) => {
+    z[ir] = x[i];
+    z[ii] = y[i];
+  });
+}
+
+/**
+ * Returns a complex array of values with specified magnitudes and arguments.
+ * @param rr the array of magnitudes.
+ * @param ra the array of arguments, in radians.
+ * @returns the complex array.
+ */
+export function polar<T extends MultiArray>(rr: T, ra: T): T;
+
+/**
+ * Computes a complex array of values with specified magnitudes and arguments.
+ * @param rr the array of magnitudes.
+ * @param ra the array of arguments, in radians.
+ * @param cz the output complex array.
+ */
+export function polar<T extends MultiArray>(rr: T, ra: T, cz: T): void;
+
+export function polar<T extends MultiArray>(rr: T, ra: T, cz?: T): T | void {
+  return _complex([ rr, ra ], cz, false, true, ([ x, y ], z, ir, ii, i) => {
+    z[ir] = x[i] * Math.cos(y[i]);
+    z[ii] = x[i] * Math.sin(y[i]);
+  });
+}
+
+/**
+ * Applies an elementwise operation to complex or real arrays with the same
+ * dimensions, allocating the output array if not specified. Complex arrays
+ * have interleaved real and imaginary parts; the operation is called for
+ * each complex or real element i, with indices ir = 2 * i and ii = 2 * i + 1
+ * of real and imaginary parts.
+ * @internal
+ */
+function _complex<T extends MultiArray>(xs: T[], rz: T, cin: boolean, cout: boolean,
+                                       f: (x: number[][], z: number[], ir: number, ii: number, i: number) => void): T | void {
+  const allocate = ( rz === undefined );
+  const apply = (x: Nested[][], z: Nested[]): Nested[] => {
+    const x0 = x[0];
+    x.forEach(xi => Check.argument(xi.length === x0.length, 'array dimensions are equal'));
+    if (x0.length > 0 && x0[0] instanceof Array) {
+      const n = x0.length;
+      if (z === undefined) {
+        z = new Array<Nested>(n);
+      }
+      Check.argument(z.length === n, 'array dimensions are equal');
+      for (let j = 0; j < n; ++j) {
+        z[j] = apply(x.map(xi => xi[j] as Nested[]), z[j] as Nested[]);
+      }
+    } else {
+      Check.argument(!cin || x0.length % 2 === 0, 'complex arrays have even lengths');
+      const n = ( cin ) ? x0.length / 2 : x0.length;
+      const nz = ( cout ) ? 2 * n : n;
+      if (z === undefined) {
+        z = new Array<number>(nz);
+      }
+      Check.argument(z.length === nz, 'array dimensions are consistent');
+      for (let i = 0, ir = 0, ii = 1; i < n; ++i, ir += 2, ii += 2) {
+        f(x as number[][], z as number[], ir, ii, i);
+      }
+    }
+    return z;
+  };
+  const r = apply(xs, rz) as T;
+  return ( allocate ) ? r : undefined;
+}
+
+///////////////////////////////////////////////////////////////////////////
+// real-to-complex
+///////////////////////////////////////////////////////////////////////////
+
+/** @internal */
+abstract class RealToComplex {
+
+  apply(rx: number[], ry: number[]): number[];
+  apply(rx: number[][], ry: number[][]): number[][];
+  apply(rx: number[][][], ry: number[][][]): number[][][];
+  apply(rx: number[], ry: number[], cz: number[]): void;
+  apply(rx: number[][], ry: number[][][], cz: number[][]): void;
+  apply(rx: number[][][], ry: number[][][], cz: number[][][]): void;
+
+  apply(rx: number[] | number[][] | number[][][],
+        ry: number[] | number[][] | number[][][],
+        cz?: number[] | number[][] | number[][][]): void | number[] | number[][] | number[][][] {
+    const cdim = arrayDimensions(cz);
+    const rdim = arrayDimensions(rx);
+
+    switch (arrayDimensions(rx)) {
+      case 1:
+      case 2:
+      default:
+
+    }
+  }
+}
+
+///////////////////////////////////////////////////////////////////////////
+// misc algorithms
+///////////////////////////////////////////////////////////////////////////
+
+/**
+ * Performs a quick partial sort.
+ * @param k
+ * @param arr
+ */
+export function quickPartialSort(k: number, arr: number[]): void {
+  const n = arr.length;
+  let p = 0;
+  let q = n - 1;
+  const m = ( n > N_SMALL_SORT ) ? new Array<number>(2) : null;
+  while (q - p >= N_SMALL_SORT) {
+    m[0] = p;
+    m[1] = q;
+    quickPartition(arr, m);
+    if (k < m[0]) {
+      q = m[0] - 1;
+    } else if (k > m[1]) {
+      p = m[1] + 1;
+    } else {
+      return;
+    }
+  }
+  insertionSort(arr, p, q);
+}
+
+/**
+ * Returns the indices that sort an array of values in increasing order.
+ * The array of values is not changed.
+ * @param a the array of values.
+ * @returns the array of indices i such that a[i[0]] <= a[i[1]] <= ...
+ */
+export function argsort(a: number[]): number[] {
+  const i: number[] = rampint(0, 1, a.length);
+  quickIndexSort(a, i);
+  return i;
+}
+
+/**
+ * Sorts an array of indices so that indexed values are in increasing
+ * order. The array of values is not changed.
+ * <p>
+ * Indices of NaN values are moved to the end of the array of indices, in
+ * their original order. The sort is not stable: indices of equal values
+ * may be reordered.
+ * @param a the array of values.
+ * @param i the array of indices to be sorted.
+ */
+export function quickIndexSort(a: number[], i: number[]): void {
+  const nan: number[] = [];
+  let n = 0;
+  for (const ij of i) {
+    if (isNaN(a[ij])) {
+      nan.push(ij);
+    } else {
+      i[n++] = ij;
+    }
+  }
+  for (let j = 0; j < nan.length; ++j) { i[n + j] = nan[j]; }
+  if (n > N_SMALL_SORT) {
+    quickIndexSortRange(a, i, 0, n - 1, new Array<number>(2));
+  } else {
+    insertionIndexSort(a, i, 0, n - 1);
+  }
+}
+
+/**
+ * Returns an array of values in reverse order.
+ * @param rx the array.
+ * @returns the reversed array.
+ */
+export function reverse(rx: number[]): number[] {
+  return rx.slice().reverse();
+}
+
+/**
+ * Returns the distinct values in an array, in increasing order.
+ * @param rx the array.
+ * @returns array of distinct values.
+ */
+export function distinct(rx: number[]): number[] {
+  const sorted = rx.slice().sort((x, y) => x - y);
+  return sorted.filter((x, i) => i === 0 || x !== sorted[i - 1]);
+}
+
+/**
+ * Performs a binary search in a monotonic array of values.
+ * <p>
+ * Values are assumed to increase or decrease monotonically, with no equal
+ * values.
+ * <p>
+ * Warning: this method does not ensure that the specified array is
+ * monotonic; that check would be more costly than this search.
+ * @param a the array of values, assumed to be monotonic.
+ * @param x the value for which to search.
+ * @param i the index at which to begin the search. If negative, this
+ *          method interprets this index as if returned from a
+ *          previous call.
+ * @returns the index at which the specified value is found, or, if not
+ *          found, -(i + 1), where i equals the index at which the
+ *          specified value would be located if it was inserted into
+ *          the monotonic array.
+ */
+export function binarySearch(a: number[], x: number, i?: number): number {
+  if (!i) { i = a.length; }
+  const n = a.length;
+  const nm1 = n - 1;
+  let low = 0;
+  let high = nm1;
+  const increasing = n < 2 || a[0] < a[1];
+  if (i < n) {
+    high = ( 0 <= i ) ? i : -( i + 1 );
+    low = high - 1;
+    let step = 1;
+    if (increasing) {
+      for (; 0 < low && x < a[low]; low -= step, step += step) { high = low; }
+      for (; high < nm1 && a[high] < x; high += step, step += step) { low = high; }
+    } else {
+      for (; 0 < low && x > a[low]; low -= step, step += step) { high = low; }
+      for (; high < nm1 && a[high] > x; high += step, step += step) { low = high; }
+    }
+    if (low < 0) { low = 0; }
+    if (high > nm1) { high = nm1; }
+  }
+  if (increasing) {
+    while (low <= high) {
+      const mid = ( low + high ) >> 1;
+      const amid = a[mid];
+      if (amid < x) {
+        low = mid + 1;
+      } else if (amid > x) {
+        high = mid - 1;
+      } else {
+        return mid;
+      }
+    }
+  } else {
+    while (low <= high) {
+      const mid = ( low + high ) >> 1;
+      const amid = a[mid];
+      if (amid > x) {
+        low = mid + 1;
+      } else if (amid < x) {
+        high = mid - 1;
+      } else {
+        return mid;
+      }
+    }
+  }
+  return -( low + 1 );
+}
+
+/** @internal */
+function med3(a: number[], i: number, j: number, k: number): number {
+  return a[i] < a[j] ?
+    ( a[j] < a[k] ? j : a[i] < a[k] ? k : i ) :
+    ( a[j] > a[k] ? j : a[i] > a[k] ? k : i );
+}
+
+/** @internal */
+function swap(a: number[], i: number, j: number, n: number = 1): void {
+  while (n > 0) {
+    const ai = a[i];
+    a[i++] = a[j];
+    a[j++] = ai;
+    --n;
+  }
+}
+
+/** @internal */
+function insertionSort(a: number[], p: number, q: number): void {
+  for (let i = p; i <= q; ++i) {
+    for (let j = i; j > p && a[j - 1] > a[j]; --j) {
+      swap(a, j, j - 1);
+    }
+  }
+}
+
+/** @internal */
+function quickPartition(x: number[], m: number[]): void {
+  const p = m[0];
+  const q = m[1];
+  const n = q - p + 1;
+  let k = ( p + q ) / 2;
   if (n > N_SMALL_SORT) {
     let j = q;
     let l = q;
@@ -1013,6 +2353,81 @@ function quickPartition(x: number[], m: number[]): void {
   m[1] = q - ( d - c ); //   x<y               x=y               x>y
 }
 
+/** @internal */
+function quickIndexSortRange(a: number[], i: number[], p: number, q: number, m: number[]): void {
+  if (q - p <= N_SMALL_SORT) {
+    insertionIndexSort(a, i, p, q);
+  } else {
+    m[0] = p;
+    m[1] = q;
+    quickIndexPartition(a, i, m);
+    const mp = m[0];
+    const mq = m[1];
+    if (p < mp) { quickIndexSortRange(a, i, p, mp - 1, m); }
+    if (mq < q) { quickIndexSortRange(a, i, mq + 1, q, m); }
+  }
+}
+
+/** @internal */
+function med3Index(a: number[], i: number[], j: number, k: number, l: number): number {
+  return a[i[j]] < a[i[k]] ?
+    ( a[i[k]] < a[i[l]] ? k : a[i[j]] < a[i[l]] ? l : j ) :
+    ( a[i[k]] > a[i[l]] ? k : a[i[j]] > a[i[l]] ? l : j );
+}
+
+/** @internal */
+function insertionIndexSort(a: number[], i: number[], p: number, q: number): void {
+  for (let j = p; j <= q; ++j) {
+    for (let k = j; k > p && a[i[k - 1]] > a[i[k]]; --k) {
+      swap(i, k, k - 1);
+    }
+  }
+}
+
+/** @internal */
+function quickIndexPartition(x: number[], i: number[], m: number[]): void {
+  const p = m[0];
+  const q = m[1];
+  const n = q - p + 1;
+  let k = ( p + q ) >> 1;
+  if (n > N_SMALL_SORT) {
+    let j = p;
+    let l = q;
+    if (n > N_LARGE_SORT) {
+      const s = n >> 3;
+      j = med3Index(x, i, j, j + s, j + 2 * s);
+      k = med3Index(x, i, k - s, k, k + s);
+      l = med3Index(x, i, l - 2 * s, l - s, l);
+    }
+    k = med3Index(x, i, j, k, l);
+  }
+  const y = x[i[k]];
+  let a = p, b = p;
+  let c = q, d = q;
+  while (true) {
+    while (b <= c && x[i[b]] <= y) {
+      if (x[i[b]] === y) { swap(i, a++, b); }
+      ++b;
+    }
+    while (c >= b && x[i[c]] >= y) {
+      if (x[i[c]] === y) { swap(i, c, d--); }
+      --c;
+    }
+    if (b > c) { break; }
+    swap(i, b, c);
+    ++b;
+    --c;
+  }
+
+  const r = Math.min(a - p, b - a);
+  const s = Math.min(d - c, q - d);
+  const t = q + 1;
+  swap(i, p, b - r, r);
+  swap(i, b, t - s, s);
+  m[0] = p + ( b - a ); // p --- m[0]-1 | m[0] --- m[1] | m[1]+1 --- q
+  m[1] = q - ( d - c ); //   x<y               x=y               x>y
+}
+
 /** @internal */
 function _copy1d(x: number[],
                  n1?: number, j1: number = 0, k1: number = 1,
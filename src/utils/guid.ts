@@ -1,3 +1,5 @@
+import { Random } from './random';
+
 /**
  * A GUID.
  */
@@ -8,10 +10,13 @@ export class Guid {
 
   /**
    * Creates a new Guid.
+   * @param random generator of random numbers (optional). If specified,
+   *               guids created with identically seeded generators are
+   *               equal; otherwise, Math.random is used.
    */
-  static Create(): Guid {
+  static Create(random?: Random): Guid {
     const value = 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-      const r = Math.random() * 16 | 0;
+      const r = ( random ) ? random.integer(16) : Math.random() * 16 | 0;
       const v = (c === 'x') ? r : (r & 0x3 | 0x8);
       return v.toString(16);
     });
@@ -1,4 +1,8 @@
 export { Check } from './check';
 export { Guid } from './guid';
+export { Random } from './random';
 export { UnitSphereSampling } from './unit-sphere-sampling';
 export * from './array-math';
+export { RunningStatistics } from './running-statistics';
+export { RunningCovariance } from './running-covariance';
+export * from './statistics';
@@ -0,0 +1,169 @@
+import { Check } from './check';
+
+/**
+ * A seeded generator of pseudo-random numbers.
+ * <p>
+ * Unlike Math.random, this generator may be seeded, so that sequences of
+ * pseudo-random numbers are reproducible. Numbers are generated with the
+ * xoshiro128** algorithm of Blackman and Vigna (2018), which has a period
+ * of 2^128 - 1 and passes common statistical tests. Its 128 bits of state
+ * are initialized from the seed with the splitmix32 algorithm.
+ * <p>
+ * Uniform draws of floating-point values use 53 random bits, the precision
+ * of a double. Normal draws use Marsaglia's polar method, and exponential
+ * draws use inversion of the exponential distribution function.
+ * <p>
+ * Reference: Blackman, D., and S. Vigna, 2018, Scrambled linear
+ * pseudorandom number generators: arXiv:1805.01407.
+ */
+export class Random {
+
+  private readonly _seed: number;
+  private readonly _s: Uint32Array = new Uint32Array(4);
+  private _spare = 0.0;
+  private _hasSpare = false;
+
+  /**
+   * Constructs a generator with a specified seed.
+   * @param seed the seed, a non-negative integer. If not specified, the
+   *             seed is chosen randomly with Math.random.
+   */
+  constructor(seed?: number) {
+    if (seed === undefined) {
+      seed = Math.floor(Math.random() * 4294967296);
+    }
+    Check.argument(Number.isSafeInteger(seed) && seed >= 0, 'seed is a non-negative integer');
+    this._seed = seed;
+
+    // Fold high bits of the seed into 32 bits for splitmix32.
+    let a = ( seed % 4294967296 ) ^ Math.imul(Math.floor(seed / 4294967296), 0x9e3779b9);
+    for (let i = 0; i < 4; ++i) {
+      a = ( a + 0x9e3779b9 ) | 0;
+      let t = a ^ ( a >>> 16 );
+      t = Math.imul(t, 0x21f0aaad);
+      t = t ^ ( t >>> 15 );
+      t = Math.imul(t, 0x735a2d97);
+      this._s[i] = t ^ ( t >>> 15 );
+    }
+  }
+
+  /**
+   * Gets the seed of this generator.
+   */
+  get seed(): number { return this._seed; }
+
+  /**
+   * Returns the next 32 random bits, as an unsigned integer.
+   * @returns an integer in the range [0, 2^32).
+   */
+  nextInt32(): number {
+    const s = this._s;
+    const r = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+    return r;
+  }
+
+  /**
+   * Returns a random value uniformly distributed in [0, 1).
+   * @returns the value.
+   */
+  uniform(): number;
+
+  /**
+   * Returns a random value uniformly distributed in [a, b).
+   * @param a the lower bound.
+   * @param b the upper bound.
+   * @returns the value.
+   */
+  uniform(a: number, b: number): number;
+
+  uniform(a?: number, b?: number): number {
+    const hi = this.nextInt32() >>> 5;
+    const lo = this.nextInt32() >>> 6;
+    const u = ( hi * 67108864 + lo ) / 9007199254740992;
+    return ( a === undefined ) ? u : a + ( b - a ) * u;
+  }
+
+  /**
+   * Returns a random value with a normal (Gaussian) distribution.
+   * @param mean the mean; default is zero.
+   * @param std the standard deviation; default is one.
+   * @returns the value.
+   */
+  normal(mean: number = 0.0, std: number = 1.0): number {
+    if (this._hasSpare) {
+      this._hasSpare = false;
+      return mean + std * this._spare;
+    }
+    let u: number, v: number, s: number;
+    do {
+      u = 2.0 * this.uniform() - 1.0;
+      v = 2.0 * this.uniform() - 1.0;
+      s = u * u + v * v;
+    } while (s >= 1.0 || s === 0.0);
+    const f = Math.sqrt(-2.0 * Math.log(s) / s);
+    this._spare = v * f;
+    this._hasSpare = true;
+    return mean + std * u * f;
+  }
+
+  /**
+   * Returns a random value with an exponential distribution.
+   * @param rate the rate; the mean is 1 / rate. Default is one.
+   * @returns the value.
+   */
+  exponential(rate: number = 1.0): number {
+    Check.argument(rate > 0.0, 'rate > 0');
+    return -Math.log(1.0 - this.uniform()) / rate;
+  }
+
+  /**
+   * Returns a random integer uniformly distributed in [0, n).
+   * @param n the upper bound.
+   * @returns the integer.
+   */
+  integer(n: number): number;
+
+  /**
+   * Returns a random integer uniformly distributed in [lo, hi).
+   * @param lo the lower bound.
+   * @param hi the upper bound.
+   * @returns the integer.
+   */
+  integer(lo: number, hi: number): number;
+
+  integer(lo: number, hi?: number): number {
+    if (hi === undefined) {
+      hi = lo;
+      lo = 0;
+    }
+    Check.argument(Number.isSafeInteger(lo) && Number.isSafeInteger(hi), 'bounds are integers');
+    Check.argument(lo < hi, 'lo < hi');
+    const n = hi - lo;
+    if (n > 4294967296) {
+      return lo + Math.floor(n * this.uniform());
+    }
+
+    // Reject values that would bias the remainder.
+    const limit = 4294967296 - 4294967296 % n;
+    let r = this.nextInt32();
+    while (r >= limit) {
+      r = this.nextInt32();
+    }
+    return lo + r % n;
+  }
+}
+
+/**
+ * Returns the bits of a 32-bit integer rotated left.
+ * @internal
+ */
+function rotl(x: number, k: number): number {
+  return ( x << k ) | ( x >>> ( 32 - k ) );
+}
@@ -0,0 +1,143 @@
+import { StatisticsArray } from './statistics';
+import { Check } from './check';
+
+/**
+ * Streaming covariance and correlation of pairs of values, accumulated one
+ * pair or one pair of arrays of values at a time.
+ * <p>
+ * Like {@link RunningStatistics}, covariance is updated with a numerically
+ * stable one-pass algorithm, and covariances accumulated separately may be
+ * combined with the method {@link merge}. Statistics of no pairs of values
+ * are NaN.
+ */
+export class RunningCovariance {
+
+  private readonly _ignoreNaN: boolean;
+  private _n = 0;
+  private _mx = 0.0;
+  private _my = 0.0;
+  private _sxx = 0.0;
+  private _syy = 0.0;
+  private _sxy = 0.0;
+
+  /**
+   * Constructs a covariance of no pairs of values.
+   * @param ignoreNaN true, to ignore pairs with NaN values; false,
+   *                  otherwise. Default is false.
+   */
+  constructor(ignoreNaN: boolean = false) {
+    this._ignoreNaN = ignoreNaN;
+  }
+
+  /**
+   * Gets the number of pairs of values accumulated.
+   */
+  get count(): number { return this._n; }
+
+  /**
+   * Gets the mean of 1st values accumulated.
+   */
+  get meanX(): number { return ( this._n > 0 ) ? this._mx : NaN; }
+
+  /**
+   * Gets the mean of 2nd values accumulated.
+   */
+  get meanY(): number { return ( this._n > 0 ) ? this._my : NaN; }
+
+  /**
+   * Gets the Pearson correlation coefficient of pairs accumulated.
+   */
+  get correlation(): number {
+    return ( this._n > 0 ) ? this._sxy / Math.sqrt(this._sxx * this._syy) : NaN;
+  }
+
+  /**
+   * Returns the covariance of pairs of values accumulated.
+   * @param ddof delta degrees of freedom; default is zero.
+   * @returns the covariance.
+   */
+  covariance(ddof: number = 0): number {
+    return ( this._n > 0 ) ? this._sxy / ( this._n - ddof ) : NaN;
+  }
+
+  /**
+   * Adds a pair of values.
+   * @param x the 1st value.
+   * @param y the 2nd value.
+   */
+  add(x: number, y: number): void;
+
+  /**
+   * Adds pairs of values in two arrays with the same number of values.
+   * @param x the array of 1st values.
+   * @param y the array of 2nd values.
+   */
+  add(x: StatisticsArray, y: StatisticsArray): void;
+
+  add(x: number | StatisticsArray, y: number | StatisticsArray): void {
+    if (typeof x === 'number') {
+      this._add(x, y as number);
+    } else {
+      const vx: number[] = [];
+      const vy: number[] = [];
+      collect(x, vx);
+      collect(y as StatisticsArray, vy);
+      Check.argument(vx.length === vy.length, 'x and y have the same number of values');
+      for (let i = 0; i < vx.length; ++i) {
+        this._add(vx[i], vy[i]);
+      }
+    }
+  }
+
+  /**
+   * Merges a covariance accumulated separately into this covariance.
+   * @param c the other covariance, which is not changed.
+   */
+  merge(c: RunningCovariance): void {
+    const na = this._n, nb = c._n;
+    if (nb === 0) {
+      return;
+    }
+    const n = na + nb;
+    const dx = c._mx - this._mx;
+    const dy = c._my - this._my;
+    const s = na * nb / n;
+    this._sxx += c._sxx + dx * dx * s;
+    this._syy += c._syy + dy * dy * s;
+    this._sxy += c._sxy + dx * dy * s;
+    this._mx += dx * nb / n;
+    this._my += dy * nb / n;
+    this._n = n;
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private _add(x: number, y: number): void {
+    if (this._ignoreNaN && ( isNaN(x) || isNaN(y) )) {
+      return;
+    }
+    const n = ++this._n;
+    const dx = x - this._mx;
+    const dy = y - this._my;
+    this._mx += dx / n;
+    this._my += dy / n;
+    this._sxx += dx * ( x - this._mx );
+    this._syy += dy * ( y - this._my );
+    this._sxy += dx * ( y - this._my );
+  }
+}
+
+/**
+ * Appends all values in an array to a 1D array.
+ * @internal
+ */
+function collect(x: StatisticsArray, v: number[]): void {
+  if (x.length > 0 && x[0] instanceof Array) {
+    for (const xi of x as number[][] | number[][][]) { collect(xi, v); }
+  } else {
+    for (let i = 0; i < x.length; ++i) {
+      v.push(( x as number[] )[i]);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { NumberArray } from '../types';
+import { StatisticsArray } from './statistics';
+
+/**
+ * Streaming statistics of values, accumulated one value or one array of
+ * values at a time.
+ * <p>
+ * Statistics are updated with Welford's online algorithm, extended to
+ * third and fourth central moments as described by Pebay (2008). This
+ * algorithm is numerically stable, and requires no storage of values, so
+ * that statistics may be computed for data that do not fit in memory at
+ * once. Statistics accumulated separately, for example for different
+ * chunks of data, may be combined with the method {@link merge}.
+ * <p>
+ * Statistics of no values, such as the mean, are NaN.
+ * <p>
+ * Reference: Pebay, P., 2008, Formulas for robust, one-pass parallel
+ * computation of covariances and arbitrary-order statistical moments:
+ * Sandia Report SAND2008-6212.
+ */
+export class RunningStatistics {
+
+  private readonly _ignoreNaN: boolean;
+  private _n = 0;
+  private _mean = 0.0;
+  private _m2 = 0.0;
+  private _m3 = 0.0;
+  private _m4 = 0.0;
+  private _min = Number.POSITIVE_INFINITY;
+  private _max = Number.NEGATIVE_INFINITY;
+
+  /**
+   * Constructs statistics of no values.
+   * @param ignoreNaN true, to ignore NaN values added; false, otherwise.
+   *                  Default is false.
+   */
+  constructor(ignoreNaN: boolean = false) {
+    this._ignoreNaN = ignoreNaN;
+  }
+
+  /**
+   * Gets the number of values accumulated.
+   */
+  get count(): number { return this._n; }
+
+  /**
+   * Gets the mean of values accumulated.
+   */
+  get mean(): number { return ( this._n > 0 ) ? this._mean : NaN; }
+
+  /**
+   * Gets the minimum value accumulated.
+   */
+  get min(): number { return ( this._n > 0 ) ? this._min : NaN; }
+
+  /**
+   * Gets the maximum value accumulated.
+   */
+  get max(): number { return ( this._n > 0 ) ? this._max : NaN; }
+
+  /**
+   * Gets the skewness of values accumulated.
+   */
+  get skewness(): number {
+    const n = this._n;
+    return ( n > 0 ) ? Math.sqrt(n) * this._m3 / Math.pow(this._m2, 1.5) : NaN;
+  }
+
+  /**
+   * Gets the excess kurtosis of values accumulated.
+   */
+  get kurtosis(): number {
+    const n = this._n;
+    return ( n > 0 ) ? n * this._m4 / ( this._m2 * this._m2 ) - 3.0 : NaN;
+  }
+
+  /**
+   * Returns the variance of values accumulated.
+   * @param ddof delta degrees of freedom; default is zero.
+   * @returns the variance.
+   */
+  variance(ddof: number = 0): number {
+    return ( this._n > 0 ) ? this._m2 / ( this._n - ddof ) : NaN;
+  }
+
+  /**
+   * Returns the standard deviation of values accumulated.
+   * @param ddof delta degrees of freedom; default is zero.
+   * @returns the standard deviation.
+   */
+  std(ddof: number = 0): number {
+    return Math.sqrt(this.variance(ddof));
+  }
+
+  /**
+   * Adds a value.
+   * @param x the value.
+   */
+  add(x: number): void;
+
+  /**
+   * Adds all values in an array.
+   * @param x the array of values.
+   */
+  add(x: StatisticsArray): void;
+
+  add(x: number | StatisticsArray): void {
+    if (typeof x === 'number') {
+      this._add(x);
+    } else if (x.length > 0 && x[0] instanceof Array) {
+      for (const xi of x as number[][] | number[][][]) { this.add(xi); }
+    } else {
+      for (const xi of x as NumberArray) {
+        this._add(xi);
+      }
+    }
+  }
+
+  /**
+   * Merges statistics accumulated separately into these statistics.
+   * @param s the other statistics, which are not changed.
+   */
+  merge(s: RunningStatistics): void {
+    const na = this._n, nb = s._n;
+    if (nb === 0) {
+      return;
+    }
+    const n = na + nb;
+    const d = s._mean - this._mean;
+    const d2 = d * d;
+    const m2a = this._m2, m2b = s._m2;
+    const m3a = this._m3, m3b = s._m3;
+    this._m4 += s._m4 + d2 * d2 * na * nb * ( na * na - na * nb + nb * nb ) / ( n * n * n ) +
+      6.0 * d2 * ( na * na * m2b + nb * nb * m2a ) / ( n * n ) + 4.0 * d * ( na * m3b - nb * m3a ) / n;
+    this._m3 += m3b + d2 * d * na * nb * ( na - nb ) / ( n * n ) + 3.0 * d * ( na * m2b - nb * m2a ) / n;
+    this._m2 += m2b + d2 * na * nb / n;
+    this._mean += d * nb / n;
+    this._n = n;
+    this._min = Math.min(this._min, s._min);
+    this._max = Math.max(this._max, s._max);
+  }
+
+  ///////////////////////////////////////////////////////////////////////////
+  // private
+
+  private _add(x: number): void {
+    if (this._ignoreNaN && isNaN(x)) {
+      return;
+    }
+    const n1 = this._n;
+    const n = ++this._n;
+    const d = x - this._mean;
+    const dn = d / n;
+    const dn2 = dn * dn;
+    const t = d * dn * n1;
+    this._mean += dn;
+    this._m4 += t * dn2 * ( n * n - 3 * n + 3 ) + 6.0 * dn2 * this._m2 - 4.0 * dn * this._m3;
+    this._m3 += t * dn * ( n - 2 ) - 3.0 * dn * this._m2;
+    this._m2 += t;
+    if (x < this._min || isNaN(x)) { this._min = x; }
+    if (x > this._max || isNaN(x)) { this._max = x; }
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Descriptive statistics of arrays of values
+ * @packageDocumentation
+ */
+
+import { NumberArray } from '../types';
+import { Check } from './check';
+import { quickPartialSort } from './array-math';
+
+/**
+ * An array of values, with one, two or three dimensions. Statistics are
+ * computed for all values in the array, regardless of dimensions.
+ */
+export type StatisticsArray = NumberArray | number[][] | number[][][];
+
+///////////////////////////////////////////////////////////////////////////
+// moments
+
+/**
+ * Returns the mean of values in an array.
+ * @param x the array of values.
+ * @returns the mean.
+ */
+export function mean(x: StatisticsArray): number {
+  return moments(values(x, false)).mean;
+}
+
+/**
+ * Returns the variance of values in an array.
+ * <p>
+ * The sum of squared deviations from the mean is divided by n - ddof, for
+ * n values. The default ddof = 0 yields the population variance; ddof = 1
+ * yields the unbiased sample variance.
+ * @param x the array of values.
+ * @param ddof delta degrees of freedom; default is zero.
+ * @returns the variance.
+ */
+export function variance(x: StatisticsArray, ddof: number = 0): number {
+  return moments(values(x, false)).variance(ddof);
+}
+
+/**
+ * Returns the standard deviation of values in an array, the square root
+ * of their variance.
+ * @param x the array of values.
+ * @param ddof delta degrees of freedom; default is zero.
+ * @returns the standard deviation.
+ */
+export function std(x: StatisticsArray, ddof: number = 0): number {
+  return Math.sqrt(variance(x, ddof));
+}
+
+/**
+ * Returns the skewness of values in an array, the third central moment
+ * divided by the 3/2 power of the second central moment.
+ * @param x the array of values.
+ * @returns the skewness.
+ */
+export function skewness(x: StatisticsArray): number {
+  return moments(values(x, false)).skewness;
+}
+
+/**
+ * Returns the excess kurtosis of values in an array, the fourth central
+ * moment divided by the square of the second central moment, minus three.
+ * The excess kurtosis of a normal distribution is zero.
+ * @param x the array of values.
+ * @returns the excess kurtosis.
+ */
+export function kurtosis(x: StatisticsArray): number {
+  return moments(values(x, false)).kurtosis;
+}
+
+/**
+ * Returns the covariance of values in two arrays with the same number of
+ * values. Values are paired in the order in which they are stored.
+ * @param x the 1st array of values.
+ * @param y the 2nd array of values.
+ * @param ddof delta degrees of freedom; default is zero.
+ * @returns the covariance.
+ */
+export function covariance(x: StatisticsArray, y: StatisticsArray, ddof: number = 0): number {
+  const [ vx, vy ] = pairs(x, y, false);
+  return comoments(vx, vy).covariance(ddof);
+}
+
+/**
+ * Returns the Pearson correlation coefficient of values in two arrays with
+ * the same number of values.
+ * @param x the 1st array of values.
+ * @param y the 2nd array of values.
+ * @returns the correlation coefficient, in the range [-1, 1].
+ */
+export function correlation(x: StatisticsArray, y: StatisticsArray): number {
+  const [ vx, vy ] = pairs(x, y, false);
+  return comoments(vx, vy).correlation;
+}
+
+///////////////////////////////////////////////////////////////////////////
+// order statistics
+
+/**
+ * Returns the median of values in an array. For an even number of values,
+ * the median is the mean of the two middle values.
+ * @param x the array of values.
+ * @returns the median; NaN, if any value is NaN.
+ */
+export function median(x: StatisticsArray): number {
+  return quantile(values(x, false), 0.5);
+}
+
+/**
+ * Returns the median absolute deviation (MAD) of values in an array, the
+ * median of absolute differences between values and their median.
+ * <p>
+ * For normally distributed values, the standard deviation may be estimated
+ * robustly as 1.4826 times the MAD.
+ * @param x the array of values.
+ * @returns the median absolute deviation; NaN, if any value is NaN.
+ */
+export function mad(x: StatisticsArray): number {
+  return deviation(values(x, false));
+}
+
+/**
+ * Returns a percentile of values in an array.
+ * <p>
+ * Percentiles are interpolated linearly between sorted values, so that the
+ * 0th and 100th percentiles are the minimum and maximum values, and the
+ * 50th percentile is the median.
+ * @param x the array of values.
+ * @param p the percentile, in the range [0, 100].
+ * @returns the percentile; NaN, if any value is NaN.
+ */
+export function percentile(x: StatisticsArray, p: number): number;
+
+/**
+ * Returns percentiles of values in an array.
+ * @param x the array of values.
+ * @param p array of percentiles, in the range [0, 100].
+ * @returns array of percentiles; NaN, if any value is NaN.
+ */
+export function percentile(x: StatisticsArray, p: number[]): number[];
+
+export function percentile(x: StatisticsArray, p: number | number[]): number | number[] {
+  return percentiles(values(x, false), p);
+}
+
+///////////////////////////////////////////////////////////////////////////
+// NaN-aware statistics
+
+/**
+ * Returns the mean of values in an array, ignoring NaN values.
+ * @param x the array of values.
+ * @returns the mean; NaN, if all values are NaN.
+ */
+export function nanmean(x: StatisticsArray): number {
+  return moments(values(x, true)).mean;
+}
+
+/**
+ * Returns the variance of values in an array, ignoring NaN values.
+ * @param x the array of values.
+ * @param ddof delta degrees of freedom; default is zero.
+ * @returns the variance; NaN, if all values are NaN.
+ */
+export function nanvariance(x: StatisticsArray, ddof: number = 0): number {
+  return moments(values(x, true)).variance(ddof);
+}
+
+/**
+ * Returns the standard deviation of values in an array, ignoring NaN
+ * values.
+ * @param x the array of values.
+ * @param ddof delta degrees of freedom; default is zero.
+ * @returns the standard deviation; NaN, if all values are NaN.
+ */
+export function nanstd(x: StatisticsArray, ddof: number = 0): number {
+  return Math.sqrt(nanvariance(x, ddof));
+}
+
+/**
+ * Returns the skewness of values in an array, ignoring NaN values.
+ * @param x the array of values.
+ * @returns the skewness; NaN, if all values are NaN.
+ */
+export function nanskewness(x: StatisticsArray): number {
+  return moments(values(x, true)).skewness;
+}
+
+/**
+ * Returns the excess kurtosis of values in an array, ignoring NaN values.
+ * @param x the array of values.
+ * @returns the excess kurtosis; NaN, if all values are NaN.
+ */
+export function nankurtosis(x: StatisticsArray): number {
+  return moments(values(x, true)).kurtosis;
+}
+
+/**
+ * Returns the covariance of values in two arrays, ignoring pairs of values
+ * for which either value is NaN.
+ * @param x the 1st array of values.
+ * @param y the 2nd array of values.
+ * @param ddof delta degrees of freedom; default is zero.
+ * @returns the covariance; NaN, if no pairs remain.
+ */
+export function nancovariance(x: StatisticsArray, y: StatisticsArray, ddof: number = 0): number {
+  const [ vx, vy ] = pairs(x, y, true);
+  return comoments(vx, vy).covariance(ddof);
+}
+
+/**
+ * Returns the correlation coefficient of values in two arrays, ignoring
+ * pairs of values for which either value is NaN.
+ * @param x the 1st array of values.
+ * @param y the 2nd array of values.
+ * @returns the correlation coefficient; NaN, if no pairs remain.
+ */
+export function nancorrelation(x: StatisticsArray, y: StatisticsArray): number {
+  const [ vx, vy ] = pairs(x, y, true);
+  return comoments(vx, vy).correlation;
+}
+
+/**
+ * Returns the median of values in an array, ignoring NaN values.
+ * @param x the array of values.
+ * @returns the median; NaN, if all values are NaN.
+ */
+export function nanmedian(x: StatisticsArray): number {
+  return quantile(values(x, true), 0.5);
+}
+
+/**
+ * Returns the median absolute deviation of values in an array, ignoring
+ * NaN values.
+ * @param x the array of values.
+ * @returns the median absolute deviation; NaN, if all values are NaN.
+ */
+export function nanmad(x: StatisticsArray): number {
+  return deviation(values(x, true));
+}
+
+/**
+ * Returns a percentile of values in an array, ignoring NaN values.
+ * @param x the array of values.
+ * @param p the percentile, in the range [0, 100].
+ * @returns the percentile; NaN, if all values are NaN.
+ */
+export function nanpercentile(x: StatisticsArray, p: number): number;
+
+/**
+ * Returns percentiles of values in an array, ignoring NaN values.
+ * @param x the array of values.
+ * @param p array of percentiles, in the range [0, 100].
+ * @returns array of percentiles; NaN, if all values are NaN.
+ */
+export function nanpercentile(x: StatisticsArray, p: number[]): number[];
+
+export function nanpercentile(x: StatisticsArray, p: number | number[]): number | number[] {
+  return percentiles(values(x, true), p);
+}
+
+///////////////////////////////////////////////////////////////////////////
+// private
+
+/**
+ * Returns all values in an array as a new 1D array, without NaN values if
+ * ignoreNaN is true. Values that are not ignored must not be empty.
+ * @internal
+ */
+function values(x: StatisticsArray, ignoreNaN: boolean): number[] {
+  const v: number[] = [];
+  const push = (a: StatisticsArray): void => {
+    for (const ai of a) {
+      if (typeof ai !== 'number') {
+        push(ai);
+      } else if (!ignoreNaN || !isNaN(ai)) {
+        v.push(ai);
+      }
+    }
+  };
+  push(x);
+  Check.argument(ignoreNaN || v.length > 0, 'array is not empty');
+  return v;
+}
+
+/**
+ * Returns paired values in two arrays, without pairs with NaN values if
+ * ignoreNaN is true.
+ * @internal
+ */
+function pairs(x: StatisticsArray, y: StatisticsArray, ignoreNaN: boolean): number[][] {
+  const vx = values(x, false);
+  const vy = values(y, false);
+  Check.argument(vx.length === vy.length, 'x and y have the same number of values');
+  if (!ignoreNaN) {
+    return [ vx, vy ];
+  }
+  const keep = vx.map((_, i) => !isNaN(vx[i]) && !isNaN(vy[i]));
+  return [ vx.filter((_, i) => keep[i]), vy.filter((_, i) => keep[i]) ];
+}
+
+/**
+ * Returns the mean and central moments of values, computed in two passes
+ * for accuracy.
+ * @internal
+ */
+function moments(v: number[]): { mean: number, variance: (ddof: number) => number, skewness: number, kurtosis: number } {
+  const n = v.length;
+  let m1 = 0.0;
+  for (const vi of v) { m1 += vi; }
+  m1 /= n;
+  let m2 = 0.0, m3 = 0.0, m4 = 0.0;
+  for (const vi of v) {
+    const d = vi - m1;
+    const d2 = d * d;
+    m2 += d2;
+    m3 += d2 * d;
+    m4 += d2 * d2;
+  }
+  return {
+    mean: m1,
+    variance: (ddof: number) => m2 / ( n - ddof ),
+    skewness: ( m3 / n ) / Math.pow(m2 / n, 1.5),
+    kurtosis: ( m4 / n ) / ( ( m2 / n ) * ( m2 / n ) ) - 3.0,
+  };
+}
+
+/**
+ * Returns the covariance and correlation of paired values.
+ * @internal
+ */
+function comoments(x: number[], y: number[]): { covariance: (ddof: number) => number, correlation: number } {
+  const n = x.length;
+  let mx = 0.0, my = 0.0;
+  for (let i = 0; i < n; ++i) {
+    mx += x[i];
+    my += y[i];
+  }
+  mx /= n;
+  my /= n;
+  let sxx = 0.0, syy = 0.0, sxy = 0.0;
+  for (let i = 0; i < n; ++i) {
+    const dx = x[i] - mx;
+    const dy = y[i] - my;
+    sxx += dx * dx;
+    syy += dy * dy;
+    sxy += dx * dy;
+  }
+  return {
+    covariance: (ddof: number) => sxy / ( n - ddof ),
+    correlation: sxy / Math.sqrt(sxx * syy),
+  };
+}
+
+/**
+ * Returns the quantile q in [0, 1] of values, interpolated linearly
+ * between sorted values. The order of values may be changed.
+ * @internal
+ */
+function quantile(v: number[], q: number): number {
+  const n = v.length;
+  if (n === 0 || v.some(isNaN)) {
+    return NaN;
+  }
+  const r = q * ( n - 1 );
+  const k = Math.ceil(r);
+  quickPartialSort(k, v);
+  const vk = v[k];
+  if (k === r) {
+    return vk;
+  }
+
+  // After partial sorting, the previous sorted value is the largest of
+  // values with indices less than k.
+  let vj = v[0];
+  for (let i = 1; i < k; ++i) {
+    if (v[i] > vj) { vj = v[i]; }
+  }
+  return vj + ( r - k + 1 ) * ( vk - vj );
+}
+
+/**
+ * Returns the median absolute deviation of values.
+ * @internal
+ */
+function deviation(v: number[]): number {
+  const m = quantile(v, 0.5);
+  return quantile(v.map(vi => Math.abs(vi - m)), 0.5);
+}
+
+/**
+ * Returns one or more percentiles of values.
+ * @internal
+ */
+function percentiles(v: number[], p: number | number[]): number | number[] {
+  const ps = ( typeof p === 'number' ) ? [ p ] : p;
+  ps.forEach(pi => Check.argument(0 <= pi && pi <= 100, 'p is in the range [0, 100]'));
+  let q: number[];
+  if (v.length === 0 || v.some(isNaN)) {
+    q = ps.map(() => NaN);
+  } else if (ps.length === 1) {
+    q = [ quantile(v, 0.01 * ps[0]) ];
+  } else {
+    const s = v.slice().sort((a, b) => a - b);
+    const nm1 = s.length - 1;
+    q = ps.map(pi => {
+      const r = 0.01 * pi * nm1;
+      const j = Math.floor(r);
+      const k = Math.min(j + 1, nm1);
+      return s[j] + ( r - j ) * ( s[k] - s[j] );
+    });
+  }
+  return ( typeof p === 'number' ) ? q[0] : q;
+}
@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import 'mocha';
+import { BandPassFilter } from '../../src/dsp';
+import { zero } from '../../src/utils';
+
+describe('Band-Pass Filter', () => {
+
+  const random1 = (n1: number): number[] => {
+    const x: number[] = zero(n1);
+    for (let i1 = 0; i1 < n1; ++i1) { x[i1] = Math.random() - 0.5; }
+    return x;
+  };
+
+  // Amplitude of the zero-phase filter h, centered in its array, at frequency f.
+  const amplitude = (h: number[], f: number): number => {
+    const nh = ( h.length - 1 ) / 2;
+    let a = 0.0;
+    for (let j = -nh; j <= nh; ++j) { a += h[nh + j] * Math.cos(2.0 * Math.PI * f * j); }
+    return a;
+  };
+
+  // Direct convolution of x with h, with zero values beyond the ends of x.
+  const convolve = (h: number[], x: number[]): number[] => {
+    const nh = ( h.length - 1 ) / 2;
+    const n = x.length;
+    const y: number[] = zero(n);
+    for (let i = 0; i < n; ++i) {
+      for (let j = -nh; j <= nh; ++j) {
+        if (0 <= i - j && i - j < n) { y[i] += h[nh + j] * x[i - j]; }
+      }
+    }
+    return y;
+  };
+
+  it('should have amplitudes within the error in pass and stop bands', () => {
+    const klower = 0.1, kupper = 0.3, kwidth = 0.05, aerror = 0.01;
+    const bpf = new BandPassFilter(klower, kupper, kwidth, aerror);
+    const h = bpf.coefficients;
+    expect(h.length % 2).to.equal(1);
+    for (let f = 0.0; f <= 0.5; f += 0.005) {
+      const a = amplitude(h, f);
+      if (klower + 0.5 * kwidth <= f && f <= kupper - 0.5 * kwidth) {
+        expect(a).to.be.closeTo(1.0, aerror);
+      } else if (f <= klower - 0.5 * kwidth || f >= kupper + 0.5 * kwidth) {
+        expect(a).to.be.closeTo(0.0, aerror);
+      }
+    }
+  });
+
+  it('should design low-pass and high-pass filters', () => {
+    const lpf = new BandPassFilter(0.0, 0.2, 0.1, 0.001);
+    expect(amplitude(lpf.coefficients, 0.0)).to.be.closeTo(1.0, 0.001);
+    expect(amplitude(lpf.coefficients, 0.3)).to.be.closeTo(0.0, 0.001);
+    const hpf = new BandPassFilter(0.2, 0.5, 0.1, 0.001);
+    expect(amplitude(hpf.coefficients, 0.5)).to.be.closeTo(1.0, 0.001);
+    expect(amplitude(hpf.coefficients, 0.1)).to.be.closeTo(0.0, 0.001);
+  });
+
+  it('should apply short and long filters by convolution', () => {
+    for (const kwidth of [ 0.2, 0.02 ]) {
+      const bpf = new BandPassFilter(0.05, 0.25, kwidth, 0.01);
+      const h = bpf.coefficients;
+      for (const n of [ 1, 50, 301 ]) {
+        const x = random1(n);
+        const e = convolve(h, x);
+        const y: number[] = zero(n);
+        bpf.apply(x, y);
+        for (let i = 0; i < n; ++i) { expect(y[i]).to.be.closeTo(e[i], 1.0e-6); }
+        bpf.apply(x, x);
+        for (let i = 0; i < n; ++i) { expect(x[i]).to.be.closeTo(e[i], 1.0e-6); }
+      }
+    }
+  });
+
+  it('should preserve constants with zero-slope extrapolation', () => {
+    for (const kwidth of [ 0.2, 0.02 ]) {
+      const lpf = new BandPassFilter(0.0, 0.25, kwidth, 0.001);
+      lpf.extrapolation = 'ZeroSlope';
+      const x: number[] = zero(40).map(() => 3.0);
+      const y: number[] = zero(40);
+      lpf.apply(x, y);
+      for (let i = 0; i < 40; ++i) { expect(y[i]).to.be.closeTo(3.0, 3.0 * 0.001); }
+    }
+  });
+
+  it('should filter 2D and 3D arrays along each dimension', () => {
+    const bpf = new BandPassFilter(0.1, 0.4, 0.15, 0.01);
+    const n1 = 7, n2 = 6, n3 = 5;
+    const x = [ ...Array(n3) ].map(() => [ ...Array(n2) ].map(() => random1(n1)));
+    for (let dim = 1; dim <= 3; ++dim) {
+      const y = x.map(x2 => x2.map(x1 => x1.slice()));
+      bpf.apply(y, y, dim);
+      const n = [ n1, n2, n3 ][dim - 1];
+      for (let i3 = 0; i3 < ( ( dim === 3 ) ? 1 : n3 ); ++i3) {
+        for (let i2 = 0; i2 < ( ( dim === 2 ) ? 1 : n2 ); ++i2) {
+          for (let i1 = 0; i1 < ( ( dim === 1 ) ? 1 : n1 ); ++i1) {
+            const index = (i: number) => ( dim === 1 ) ? [ i3, i2, i ] : ( dim === 2 ) ? [ i3, i, i1 ] : [ i, i2, i1 ];
+            const xl: number[] = zero(n);
+            for (let i = 0; i < n; ++i) { const [ j3, j2, j1 ] = index(i); xl[i] = x[j3][j2][j1]; }
+            const yl: number[] = zero(n);
+            bpf.apply(xl, yl);
+            for (let i = 0; i < n; ++i) {
+              const [ j3, j2, j1 ] = index(i);
+              expect(y[j3][j2][j1]).to.be.closeTo(yl[i], 1.0e-12);
+            }
+          }
+        }
+      }
+      if (dim < 3) {
+        const y2: number[][] = x[0].map(x1 => zero(x1.length));
+        bpf.apply(x[0], y2, dim);
+        const y3 = x.map(x2 => x2.map(x1 => x1.slice()));
+        bpf.apply(y3, y3, dim);
+        for (let i2 = 0; i2 < n2; ++i2) {
+          for (let i1 = 0; i1 < n1; ++i1) { expect(y2[i2][i1]).to.be.closeTo(y3[0][i2][i1], 1.0e-12); }
+        }
+      }
+    }
+  });
+
+  it('should require valid frequencies, width and error', () => {
+    expect(() => new BandPassFilter(0.3, 0.2, 0.05, 0.01)).to.throw();
+    expect(() => new BandPassFilter(0.1, 0.6, 0.05, 0.01)).to.throw();
+    expect(() => new BandPassFilter(0.1, 0.2, 0.0, 0.01)).to.throw();
+    expect(() => new BandPassFilter(0.1, 0.2, 0.05, 0.0)).to.throw();
+  });
+
+});
@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import 'mocha';
+import { ButterworthFilter } from '../../src/dsp';
+import { zero } from '../../src/utils';
+
+describe('Butterworth Filter', () => {
+
+  const random1 = (n1: number): number[] => {
+    const x: number[] = zero(n1);
+    for (let i1 = 0; i1 < n1; ++i1) { x[i1] = Math.random() - 0.5; }
+    return x;
+  };
+
+  // Complex DFT of x at frequency f, in cycles per sample.
+  const dft = (x: number[], f: number): number[] => {
+    let re = 0.0;
+    let im = 0.0;
+    for (let i = 0; i < x.length; ++i) {
+      re += x[i] * Math.cos(2.0 * Math.PI * f * i);
+      im -= x[i] * Math.sin(2.0 * Math.PI * f * i);
+    }
+    return [ re, im ];
+  };
+
+  it('should have amplitude 1 / sqrt(2) at the cutoff of a low-pass filter', () => {
+    const bf = new ButterworthFilter(0.1, 6, 'LowPass');
+    expect(bf.amplitudeResponse(0.0)).to.be.closeTo(1.0, 1.0e-12);
+    expect(bf.amplitudeResponse(0.1)).to.be.closeTo(Math.SQRT1_2, 1.0e-12);
+    expect(bf.amplitudeResponse(0.3)).to.be.below(1.0e-3);
+    let ap = 1.0;
+    for (let f = 0.0; f <= 0.5; f += 0.01) {
+      const a = bf.amplitudeResponse(f);
+      expect(a).to.be.at.most(ap + 1.0e-12);
+      ap = a;
+    }
+  });
+
+  it('should have amplitude 1 / sqrt(2) at the cutoff of a high-pass filter', () => {
+    const bf = new ButterworthFilter(0.25, 5, 'HighPass');
+    expect(bf.amplitudeResponse(0.5)).to.be.closeTo(1.0, 1.0e-12);
+    expect(bf.amplitudeResponse(0.25)).to.be.closeTo(Math.SQRT1_2, 1.0e-12);
+    expect(bf.amplitudeResponse(0.0)).to.be.closeTo(0.0, 1.0e-12);
+    expect(bf.amplitudeResponse(0.1)).to.be.below(0.01);
+  });
+
+  it('should have amplitude 1 / sqrt(2) at the cutoffs of a band-pass filter', () => {
+    const bf = new ButterworthFilter(0.05, 0.2, 4);
+    expect(bf.amplitudeResponse(0.05)).to.be.closeTo(Math.SQRT1_2, 1.0e-12);
+    expect(bf.amplitudeResponse(0.2)).to.be.closeTo(Math.SQRT1_2, 1.0e-12);
+    expect(bf.amplitudeResponse(0.1)).to.be.closeTo(1.0, 1.0e-3);
+    expect(bf.amplitudeResponse(0.0)).to.be.closeTo(0.0, 1.0e-12);
+    expect(bf.amplitudeResponse(0.5)).to.be.closeTo(0.0, 1.0e-12);
+  });
+
+  it('should have impulse responses consistent with frequency responses', () => {
+    const n = 400;
+    const x: number[] = zero(n);
+    x[0] = 1.0;
+    for (const bf of [ new ButterworthFilter(0.1, 5, 'LowPass'), new ButterworthFilter(0.1, 0.3, 3) ]) {
+      const y: number[] = zero(n);
+      bf.applyForward(x, y);
+      for (const f of [ 0.0, 0.07, 0.1, 0.2, 0.35 ]) {
+        const e = bf.frequencyResponse(f);
+        const a = dft(y, f);
+        expect(a[0]).to.be.closeTo(e[0], 1.0e-9);
+        expect(a[1]).to.be.closeTo(e[1], 1.0e-9);
+      }
+      bf.applyReverse(x.slice().reverse(), y);
+      y.reverse();
+      for (const f of [ 0.07, 0.2 ]) {
+        const e = bf.frequencyResponse(f);
+        const a = dft(y, f);
+        expect(a[0]).to.be.closeTo(e[0], 1.0e-9);
+        expect(a[1]).to.be.closeTo(e[1], 1.0e-9);
+      }
+    }
+  });
+
+  it('should have zero phase when applied forward and reverse', () => {
+    const n = 201;
+    const x: number[] = zero(n);
+    x[100] = 1.0;
+    const bf = new ButterworthFilter(0.15, 4, 'LowPass');
+    const y: number[] = zero(n);
+    bf.applyForwardReverse(x, y);
+    for (let i = 1; i < 60; ++i) {
+      expect(y[100 + i]).to.be.closeTo(y[100 - i], 1.0e-9);
+    }
+    const a = dft(y, 0.15);
+    expect(Math.sqrt(a[0] * a[0] + a[1] * a[1])).to.be.closeTo(0.5, 1.0e-6);
+  });
+
+  it('should filter 2D and 3D arrays along each dimension', () => {
+    const bf = new ButterworthFilter(0.2, 3, 'HighPass');
+    const n1 = 7, n2 = 6, n3 = 5;
+    const x = [ ...Array(n3) ].map(() => [ ...Array(n2) ].map(() => random1(n1)));
+    for (let dim = 1; dim <= 3; ++dim) {
+      const y = x.map(x2 => x2.map(x1 => x1.slice()));
+      bf.applyForwardReverse(y, y, dim);
+      const n = [ n1, n2, n3 ][dim - 1];
+      for (let i3 = 0; i3 < ( ( dim === 3 ) ? 1 : n3 ); ++i3) {
+        for (let i2 = 0; i2 < ( ( dim === 2 ) ? 1 : n2 ); ++i2) {
+          for (let i1 = 0; i1 < ( ( dim === 1 ) ? 1 : n1 ); ++i1) {
+            const index = (i: number) => ( dim === 1 ) ? [ i3, i2, i ] : ( dim === 2 ) ? [ i3, i, i1 ] : [ i, i2, i1 ];
+            const xl: number[] = zero(n);
+            for (let i = 0; i < n; ++i) { const [ j3, j2, j1 ] = index(i); xl[i] = x[j3][j2][j1]; }
+            const yl: number[] = zero(n);
+            bf.applyForwardReverse(xl, yl);
+            for (let i = 0; i < n; ++i) {
+              const [ j3, j2, j1 ] = index(i);
+              expect(y[j3][j2][j1]).to.be.closeTo(yl[i], 1.0e-12);
+            }
+          }
+        }
+      }
+      if (dim < 3) {
+        const y2 = x[0].map(x1 => x1.slice());
+        bf.applyForward(x[0], y2, dim);
+        const y3 = x.map(x2 => x2.map(x1 => x1.slice()));
+        bf.applyForward(y3, y3, dim);
+        for (let i2 = 0; i2 < n2; ++i2) {
+          for (let i1 = 0; i1 < n1; ++i1) { expect(y2[i2][i1]).to.be.closeTo(y3[0][i2][i1], 1.0e-12); }
+        }
+      }
+    }
+  });
+
+  it('should require valid cutoff frequencies and numbers of poles', () => {
+    expect(() => new ButterworthFilter(0.5, 2, 'LowPass')).to.throw();
+    expect(() => new ButterworthFilter(0.2, 0, 'HighPass')).to.throw();
+    expect(() => new ButterworthFilter(0.3, 0.2, 2)).to.throw();
+  });
+
+});
@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import 'mocha';
+import { ChirpZTransform, FftComplex, Sampling } from '../../src/dsp';
+import { czero, zero } from '../../src/utils';
+
+describe('Chirp Z Transform', () => {
+
+  // Direct evaluation of the z-transform X(z) = sum x[j] * z^(-j).
+  const ztransform = (cx: number[], z: number[]): number[] => {
+    const n = cx.length / 2;
+    const m = z.length / 2;
+    const cy: number[] = czero(m);
+    for (let k = 0; k < m; ++k) {
+      const r = Math.sqrt(z[2 * k] * z[2 * k] + z[2 * k + 1] * z[2 * k + 1]);
+      const t = Math.atan2(z[2 * k + 1], z[2 * k]);
+      for (let j = 0; j < n; ++j) {
+        const s = Math.pow(r, -j);
+        const p = -t * j;
+        cy[2 * k] += s * ( cx[2 * j] * Math.cos(p) - cx[2 * j + 1] * Math.sin(p) );
+        cy[2 * k + 1] += s * ( cx[2 * j] * Math.sin(p) + cx[2 * j + 1] * Math.cos(p) );
+      }
+    }
+    return cy;
+  };
+
+  const expectNear = (ca: number[], cb: number[], tolerance: number): void => {
+    expect(ca.length).to.equal(cb.length);
+    for (let i = 0; i < ca.length; ++i) { expect(ca[i]).to.be.closeTo(cb[i], tolerance); }
+  };
+
+  it('should evaluate z-transforms on spirals', () => {
+    const n = 37, m = 23;
+    const w = [ 0.99 * Math.cos(0.05), -0.99 * Math.sin(0.05) ];
+    const a = [ 0.9 * Math.cos(0.3), 0.9 * Math.sin(0.3) ];
+    const czt = new ChirpZTransform(n, m, w, a);
+    expect(czt.inputLength).to.equal(n);
+    expect(czt.outputLength).to.equal(m);
+    const z = czt.points;
+    expect(z[0]).to.be.closeTo(a[0], 1.0e-12);
+    expect(z[1]).to.be.closeTo(a[1], 1.0e-12);
+    const cx = czero(n).map(() => Math.random() - 0.5);
+    expectNear(czt.apply(cx), ztransform(cx, z), 1.0e-9);
+  });
+
+  it('should equal an FFT for the unit circle', () => {
+    const n = 16;
+    const fft = new FftComplex(n);
+    const cx = czero(n).map(() => Math.random() - 0.5);
+    const cy = cx.slice();
+    fft.complexToComplex(-1, cy, cy);
+    const czt = ChirpZTransform.Zoom(n, 0.0, 1.0 / n, n);
+    expectNear(czt.apply(cx), cy, 1.0e-8);
+  });
+
+  it('should zoom on a narrow band of frequencies', () => {
+    const n = 200;
+    const f = 0.123;
+    const x: number[] = zero(n).map((_, j) => Math.cos(2.0 * Math.PI * f * j));
+    const czt = ChirpZTransform.Zoom(n, 0.1, 0.0005, 101);
+    const cy = czt.applyReal(x);
+    const cx = czero(n);
+    x.forEach((xj, j) => cx[2 * j] = xj);
+    expectNear(czt.apply(cx), cy, 1.0e-12);
+    let kmax = 0;
+    for (let k = 0, amax = 0.0; k < 101; ++k) {
+      const a = Math.hypot(cy[2 * k], cy[2 * k + 1]);
+      if (a > amax) {
+        amax = a;
+        kmax = k;
+      }
+    }
+    expect(0.1 + 0.0005 * kmax).to.be.closeTo(f, 0.00026);
+  });
+
+  it('should account for signal and frequency samplings', () => {
+    const sx = new Sampling(50, 0.004, 0.1);
+    const sf = new Sampling(40, 0.5, 20.0);
+    const x: number[] = zero(sx.count).map(() => Math.random() - 0.5);
+    const y = ChirpZTransform.Zoom(sx, sf).applyReal(x);
+    for (let k = 0; k < sf.count; ++k) {
+      let yr = 0.0, yi = 0.0;
+      for (let j = 0; j < sx.count; ++j) {
+        const p = -2.0 * Math.PI * sf.valueAt(k) * sx.valueAt(j);
+        yr += x[j] * Math.cos(p);
+        yi += x[j] * Math.sin(p);
+      }
+      expect(y[2 * k]).to.be.closeTo(yr, 1.0e-9);
+      expect(y[2 * k + 1]).to.be.closeTo(yi, 1.0e-9);
+    }
+  });
+
+});
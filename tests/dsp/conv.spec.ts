@@ -0,0 +1,167 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Conv, Sampling } from '../../src/dsp';
+import { zero } from '../../src/utils';
+
+describe('Conv', () => {
+
+  const random1 = (n1: number): number[] => {
+    const x: number[] = zero(n1);
+    for (let i1 = 0; i1 < n1; ++i1) { x[i1] = Math.random() - 0.5; }
+    return x;
+  };
+  const random2 = (n1: number, n2: number): number[][] => {
+    const x = new Array<number[]>(n2);
+    for (let i2 = 0; i2 < n2; ++i2) { x[i2] = random1(n1); }
+    return x;
+  };
+  const random3 = (n1: number, n2: number, n3: number): number[][][] => {
+    const x = new Array<number[][]>(n3);
+    for (let i3 = 0; i3 < n3; ++i3) { x[i3] = random2(n1, n2); }
+    return x;
+  };
+
+  // Brute-force convolution (sign = -1) or correlation (sign = 1).
+  const simple1 = (sign: number,
+                   lx: number, kx: number, x: number[],
+                   ly: number, ky: number, y: number[],
+                   lz: number, kz: number): number[] => {
+    const z: number[] = zero(lz);
+    for (let iz = 0; iz < lz; ++iz) {
+      for (let ix = 0; ix < lx; ++ix) {
+        const iy = sign * ( ix + kx ) + iz + kz - ky;
+        if (0 <= iy && iy < ly) { z[iz] += x[ix] * y[iy]; }
+      }
+    }
+    return z;
+  };
+  const simple2 = (sign: number,
+                   l1: number[], k1: number[], l2: number[], k2: number[],
+                   x: number[][], y: number[][]): number[][] => {
+    const z: number[][] = zero(l1[2], l2[2]);
+    for (let iz2 = 0; iz2 < l2[2]; ++iz2) {
+      for (let ix2 = 0; ix2 < l2[0]; ++ix2) {
+        const iy2 = sign * ( ix2 + k2[0] ) + iz2 + k2[2] - k2[1];
+        if (0 <= iy2 && iy2 < l2[1]) {
+          const s = simple1(sign, l1[0], k1[0], x[ix2], l1[1], k1[1], y[iy2], l1[2], k1[2]);
+          for (let iz1 = 0; iz1 < l1[2]; ++iz1) { z[iz2][iz1] += s[iz1]; }
+        }
+      }
+    }
+    return z;
+  };
+  const simple3 = (sign: number,
+                   l1: number[], k1: number[], l2: number[], k2: number[], l3: number[], k3: number[],
+                   x: number[][][], y: number[][][]): number[][][] => {
+    const z = new Array<number[][]>(l3[2]);
+    for (let iz3 = 0; iz3 < l3[2]; ++iz3) {
+      z[iz3] = zero(l1[2], l2[2]);
+      for (let ix3 = 0; ix3 < l3[0]; ++ix3) {
+        const iy3 = sign * ( ix3 + k3[0] ) + iz3 + k3[2] - k3[1];
+        if (0 <= iy3 && iy3 < l3[1]) {
+          const s = simple2(sign, l1, k1, l2, k2, x[ix3], y[iy3]);
+          for (let iz2 = 0; iz2 < l2[2]; ++iz2) {
+            for (let iz1 = 0; iz1 < l1[2]; ++iz1) { z[iz3][iz2][iz1] += s[iz2][iz1]; }
+          }
+        }
+      }
+    }
+    return z;
+  };
+
+  const flatten2 = (x: number[][]): number[] => [].concat(...x);
+  const flatten3 = (x: number[][][]): number[] => [].concat(...x.map(flatten2));
+
+  const assertEqual = (e: number[], a: number[]): void => {
+    expect(a.length).to.equal(e.length);
+    for (let i = 0; i < e.length; ++i) { expect(a[i]).to.be.closeTo(e[i], 1.0e-6); }
+  };
+
+  // Lengths and first-sample indices of x, y and z.
+  const tests1 = [
+    { l: [ 5, 7, 11 ], k: [ 0, 0, 0 ] },
+    { l: [ 4, 9, 20 ], k: [ -2, 3, -5 ] },
+    { l: [ 3, 6, 4 ], k: [ 10, -1, 30 ] },
+    { l: [ 101, 77, 150 ], k: [ -3, 5, -20 ] },
+  ];
+
+  tests1.forEach(({ l, k }) => {
+
+    it(`should convolve and correlate 1D sequences (l = ${l}, k = ${k})`, () => {
+      const x = random1(l[0]);
+      const y = random1(l[1]);
+      const z: number[] = zero(l[2]);
+      Conv.Conv(l[0], k[0], x, l[1], k[1], y, l[2], k[2], z);
+      assertEqual(simple1(-1, l[0], k[0], x, l[1], k[1], y, l[2], k[2]), z);
+      Conv.Xcor(l[0], k[0], x, l[1], k[1], y, l[2], k[2], z);
+      assertEqual(simple1(1, l[0], k[0], x, l[1], k[1], y, l[2], k[2]), z);
+    });
+
+  });
+
+  const tests2 = [
+    { l1: [ 3, 4, 8 ], k1: [ 1, -2, -1 ], l2: [ 5, 2, 7 ], k2: [ 0, 3, 2 ] },
+    { l1: [ 11, 13, 20 ], k1: [ -5, 0, -8 ], l2: [ 9, 8, 12 ], k2: [ 2, -4, -3 ] },
+  ];
+
+  tests2.forEach(({ l1, k1, l2, k2 }) => {
+
+    it(`should convolve and correlate 2D sequences (l1 = ${l1}, l2 = ${l2})`, () => {
+      const x = random2(l1[0], l2[0]);
+      const y = random2(l1[1], l2[1]);
+      const z: number[][] = zero(l1[2], l2[2]);
+      Conv.Conv(l1[0], l2[0], k1[0], k2[0], x,
+                l1[1], l2[1], k1[1], k2[1], y,
+                l1[2], l2[2], k1[2], k2[2], z);
+      assertEqual(flatten2(simple2(-1, l1, k1, l2, k2, x, y)), flatten2(z));
+      Conv.Xcor(l1[0], l2[0], k1[0], k2[0], x,
+                l1[1], l2[1], k1[1], k2[1], y,
+                l1[2], l2[2], k1[2], k2[2], z);
+      assertEqual(flatten2(simple2(1, l1, k1, l2, k2, x, y)), flatten2(z));
+    });
+
+  });
+
+  const tests3 = [
+    { l1: [ 3, 2, 5 ], k1: [ 0, 1, 0 ], l2: [ 2, 4, 6 ], k2: [ -1, 0, -2 ], l3: [ 3, 3, 4 ], k3: [ 2, -2, 1 ] },
+    { l1: [ 6, 5, 9 ], k1: [ -2, 1, -3 ], l2: [ 4, 5, 7 ], k2: [ 0, -3, -1 ], l3: [ 5, 4, 6 ], k3: [ 1, 1, 0 ] },
+  ];
+
+  tests3.forEach(({ l1, k1, l2, k2, l3, k3 }) => {
+
+    it(`should convolve and correlate 3D sequences (l1 = ${l1}, l2 = ${l2}, l3 = ${l3})`, () => {
+      const x = random3(l1[0], l2[0], l3[0]);
+      const y = random3(l1[1], l2[1], l3[1]);
+      const z = random3(l1[2], l2[2], l3[2]);
+      Conv.Conv(l1[0], l2[0], l3[0], k1[0], k2[0], k3[0], x,
+                l1[1], l2[1], l3[1], k1[1], k2[1], k3[1], y,
+                l1[2], l2[2], l3[2], k1[2], k2[2], k3[2], z);
+      assertEqual(flatten3(simple3(-1, l1, k1, l2, k2, l3, k3, x, y)), flatten3(z));
+      Conv.Xcor(l1[0], l2[0], l3[0], k1[0], k2[0], k3[0], x,
+                l1[1], l2[1], l3[1], k1[1], k2[1], k3[1], y,
+                l1[2], l2[2], l3[2], k1[2], k2[2], k3[2], z);
+      assertEqual(flatten3(simple3(1, l1, k1, l2, k2, l3, k3, x, y)), flatten3(z));
+    });
+
+  });
+
+  it('should convolve sequences with samplings', () => {
+    const sx = new Sampling(4, 0.5, -1.0);
+    const sy = new Sampling(3, 0.5, 0.5);
+    const sz = new Sampling(8, 0.5, -1.0);
+    const x = random1(4);
+    const y = random1(3);
+    const z: number[] = zero(8);
+    Conv.Conv(sx, x, sy, y, sz, z);
+    assertEqual(simple1(-1, 4, -2, x, 3, 1, y, 8, -2), z);
+    Conv.Xcor(sx, x, sy, y, sz, z);
+    assertEqual(simple1(1, 4, -2, x, 3, 1, y, 8, -2), z);
+  });
+
+  it('should require samplings with equal deltas', () => {
+    const z: number[] = zero(4);
+    expect(() => Conv.Conv(new Sampling(2, 1.0), [ 1, 2 ], new Sampling(2, 0.5), [ 1, 2 ], new Sampling(4), z))
+      .to.throw();
+  });
+
+});
@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Dct } from '../../src/dsp';
+import { TrigTransformType } from '../../src/types';
+import { zero } from '../../src/utils';
+
+describe('Dct', () => {
+
+  // Direct evaluation of unscaled transforms.
+  const direct = (type: TrigTransformType, x: number[]): number[] => {
+    const n = x.length;
+    return zero(n).map((_, k) => {
+      let s = 0.0;
+      for (let i = 0; i < n; ++i) {
+        switch (type) {
+          case 1:
+            s += ( ( i === 0 || i === n - 1 ) ? 1.0 : 2.0 ) * x[i] * Math.cos(Math.PI * k * i / ( n - 1 ));
+            break;
+          case 2:
+            s += 2.0 * x[i] * Math.cos(Math.PI * k * ( 2 * i + 1 ) / ( 2 * n ));
+            break;
+          case 3:
+            s += ( ( i === 0 ) ? 1.0 : 2.0 ) * x[i] * Math.cos(Math.PI * i * ( 2 * k + 1 ) / ( 2 * n ));
+            break;
+          default:
+            s += 2.0 * x[i] * Math.cos(Math.PI * ( 2 * i + 1 ) * ( 2 * k + 1 ) / ( 4 * n ));
+        }
+      }
+      return s;
+    });
+  };
+
+  const random1 = (n: number): number[] => zero(n).map(() => Math.random() - 0.5);
+  const types: TrigTransformType[] = [ 1, 2, 3, 4 ];
+
+  it('should equal direct evaluation of transforms', () => {
+    for (const type of types) {
+      for (const n of [ 2, 3, 8, 13, 30 ]) {
+        const x = random1(n);
+        const y: number[] = zero(n);
+        new Dct(type).apply(x, y);
+        const e = direct(type, x);
+        for (let k = 0; k < n; ++k) { expect(y[k]).to.be.closeTo(e[k], 1.0e-8); }
+      }
+    }
+  });
+
+  it('should invert transforms, with and without orthonormal scaling', () => {
+    for (const type of types) {
+      for (const orthonormal of [ false, true ]) {
+        const dct = new Dct(type, orthonormal);
+        expect(dct.type).to.equal(type);
+        expect(dct.orthonormal).to.equal(orthonormal);
+        const x = random1(17);
+        const y = x.slice();
+        dct.apply(y, y);
+        dct.applyInverse(y, y);
+        for (let i = 0; i < x.length; ++i) { expect(y[i]).to.be.closeTo(x[i], 1.0e-8); }
+      }
+    }
+  });
+
+  it('should be orthogonal with orthonormal scaling', () => {
+    for (const type of types) {
+      const n = 11;
+      const dct = new Dct(type, true);
+      const inverse = new Dct(( type === 2 ) ? 3 : ( type === 3 ) ? 2 : type, true);
+      const x = random1(n);
+      const y: number[] = zero(n);
+      const z: number[] = zero(n);
+      dct.apply(x, y);
+      inverse.apply(y, z);
+      const energy = (a: number[]) => a.reduce((s, ai) => s + ai * ai, 0.0);
+      expect(energy(y)).to.be.closeTo(energy(x), 1.0e-8);
+      for (let i = 0; i < n; ++i) { expect(z[i]).to.be.closeTo(x[i], 1.0e-8); }
+    }
+  });
+
+  it('should transform all dimensions of 2D and 3D arrays', () => {
+    const n1 = 5, n2 = 4, n3 = 3;
+    const dct = new Dct(2, true);
+    const x3 = [ ...Array(n3) ].map(() => [ ...Array(n2) ].map(() => random1(n1)));
+    const y3 = x3.map(x2 => x2.map(x1 => x1.slice()));
+    dct.apply(y3, y3);
+
+    // Transform of dimension 1, then 2, then 3, one trace at a time.
+    const z3 = x3.map(x2 => x2.map(x1 => x1.slice()));
+    const trace = (get: (i: number) => number, set: (i: number, v: number) => void, n: number) => {
+      const t = zero(n).map((_, i) => get(i));
+      dct.apply(t, t);
+      t.forEach((v, i) => set(i, v));
+    };
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) { trace(i => z3[i3][i2][i], (i, v) => z3[i3][i2][i] = v, n1); }
+      for (let i1 = 0; i1 < n1; ++i1) { trace(i => z3[i3][i][i1], (i, v) => z3[i3][i][i1] = v, n2); }
+    }
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) { trace(i => z3[i][i2][i1], (i, v) => z3[i][i2][i1] = v, n3); }
+    }
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) { expect(y3[i3][i2][i1]).to.be.closeTo(z3[i3][i2][i1], 1.0e-8); }
+      }
+    }
+
+    const y2: number[][] = [ ...Array(n2) ].map(() => zero(n1));
+    dct.apply(x3[0], y2);
+    dct.applyInverse(y2, y2);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) { expect(y2[i2][i1]).to.be.closeTo(x3[0][i2][i1], 1.0e-8); }
+    }
+  });
+
+});
@@ -1,5 +1,6 @@
 import { expect } from 'chai';
 import 'mocha';
+import { EigenSolver } from '../../src/dsp';
 
 describe('Eigen Solver', () => {
 
@@ -7,5 +8,44 @@ describe('Eigen Solver', () => {
     expect(true).to.be.true;
   });
 
-});
+  // Asserts that A * v = d * v for all eigenvectors v and eigenvalues d.
+  const assertEigen = (a: number[][], v: number[][], d: number[]): void => {
+    const n = d.length;
+    for (let k = 0; k < n; ++k) {
+      for (let i = 0; i < n; ++i) {
+        let avi = 0.0;
+        for (let j = 0; j < n; ++j) { avi += a[i][j] * v[k][j]; }
+        expect(avi).to.be.closeTo(d[k] * v[k][i], 1.0e-12);
+      }
+      if (k > 0) { expect(d[k - 1]).to.be.at.least(d[k]); }
+    }
+  };
+
+  it('should solve symmetric 2x2', () => {
+    const a = [ [ 2.0, 1.0 ], [ 1.0, 2.0 ] ];
+    const v = [ [ 0, 0 ], [ 0, 0 ] ];
+    const d = [ 0, 0 ];
+    EigenSolver.SolveSymmetric2x2(a, v, d);
+    expect(d[0]).to.be.closeTo(3.0, 1.0e-12);
+    expect(d[1]).to.be.closeTo(1.0, 1.0e-12);
+    assertEigen(a, v, d);
+  });
 
+  it('should solve symmetric 3x3', () => {
+    const as = [
+      [ [ 4.0, 1.0, 0.5 ], [ 1.0, 3.0, 0.2 ], [ 0.5, 0.2, 1.0 ] ],
+      [ [ 1.0, 0.0, 0.3 ], [ 0.0, 2.0, 0.0 ], [ 0.3, 0.0, 5.0 ] ],
+      [ [ 2.0, 1.0, 0.0 ], [ 1.0, 2.0, 0.0 ], [ 0.0, 0.0, 3.0 ] ],
+      [ [ 1.0, 1.0, 1.0 ], [ 1.0, 1.0, 1.0 ], [ 1.0, 1.0, 1.0 ] ],
+    ];
+    for (const a of as) {
+      for (const useJacobi of [ false, true ]) {
+        const v = [ [ 0, 0, 0 ], [ 0, 0, 0 ], [ 0, 0, 0 ] ];
+        const d = [ 0, 0, 0 ];
+        EigenSolver.SolveSymmetric3x3(a, v, d, useJacobi);
+        assertEigen(a, v, d);
+      }
+    }
+  });
+
+});
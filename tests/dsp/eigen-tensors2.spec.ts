@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import 'mocha';
+import { EigenTensors2 } from '../../src/dsp';
+import { fill } from '../../src/utils';
+
+describe('Eigen-Tensors 2', () => {
+
+  const assertTensorEqual = (e: number[], a: number[], tolerance: number): void => {
+    for (let i = 0; i < e.length; ++i) {
+      expect(a[i]).to.be.closeTo(e[i], tolerance);
+    }
+  };
+
+  it('should set and get tensors', () => {
+    const et = new EigenTensors2(3, 4);
+    const a = [ 4.0, 1.0, 3.0 ];
+    et.setTensor(2, 3, a);
+    assertTensorEqual(a, et.getTensor(2, 3) as number[], 1.0e-12);
+    et.setTensor(1, 2, 1.0, -0.5, 2.0);
+    assertTensorEqual([ 1.0, -0.5, 2.0 ], et.getTensor(1, 2) as number[], 1.0e-12);
+    expect(et.getTensor(0, 0)).to.deep.equal([ 0, 0, 0 ]);
+  });
+
+  it('should set and get eigenvalues and eigenvectors', () => {
+    const et = new EigenTensors2(2, 2);
+    const c = Math.cos(0.3);
+    const s = Math.sin(0.3);
+    et.setEigenvectorU(1, 1, c, s);
+    et.setEigenvalues(1, 1, 3.0, 1.0);
+    assertTensorEqual([ c, s ], et.getEigenvectorU(1, 1) as number[], 1.0e-12);
+    assertTensorEqual([ -s, c ], et.getEigenvectorV(1, 1) as number[], 1.0e-12);
+    assertTensorEqual([ 3.0, 1.0 ], et.getEigenvalues(1, 1) as number[], 1.0e-12);
+    const a = et.getTensor(1, 1) as number[];
+    assertTensorEqual([ 2.0 * c * c + 1.0, 2.0 * c * s, 2.0 * s * s + 1.0 ], a, 1.0e-12);
+  });
+
+  it('should approximate tensors with compressed storage', () => {
+    const et = new EigenTensors2(3, 4, true);
+    expect(et.compressed).to.be.true;
+    const a = [ 4.0, 1.0, 3.0 ];
+    et.setTensor(2, 3, a);
+    assertTensorEqual(a, et.getTensor(2, 3) as number[], 1.0e-3);
+  });
+
+  it('should scale and invert eigenvalues', () => {
+    const et = new EigenTensors2(2, 3);
+    et.setEigenvectorU(0, 2, 1.0, 0.0);
+    et.setEigenvalues(0, 2, [ 4.0, 2.0 ]);
+    et.scale(fill(0.5, 2, 3));
+    assertTensorEqual([ 2.0, 1.0 ], et.getEigenvalues(0, 2) as number[], 1.0e-12);
+    et.invert();
+    assertTensorEqual([ 0.5, 1.0 ], et.getEigenvalues(0, 2) as number[], 1.0e-12);
+  });
+
+  it('should invert structure tensors', () => {
+    const et = new EigenTensors2(2, 1);
+    et.setEigenvalues(0, 0, 4.0, 1.0);
+    et.setEigenvalues(1, 0, 2.0, 2.0);
+    et.invertStructure(0.0, 1.0);
+    assertTensorEqual([ 0.25, 1.0 ], et.getEigenvalues(0, 0) as number[], 1.0e-12);
+    assertTensorEqual([ 1.0, 1.0 ], et.getEigenvalues(1, 0) as number[], 1.0e-12);
+  });
+
+});
@@ -1,5 +1,7 @@
 import { expect } from 'chai';
 import 'mocha';
+import { EigenTensors3 } from '../../src/dsp';
+import { fill } from '../../src/utils';
 
 describe('Eigen-Tensors 3', () => {
 
@@ -7,5 +9,43 @@ describe('Eigen-Tensors 3', () => {
     expect(true).to.be.true;
   });
 
-});
+  it('should set and get tensors', () => {
+    const et = new EigenTensors3(3, 4, 5);
+    const a = [ 4.0, 1.0, 0.5, 3.0, 0.2, 1.0 ];
+    et.setTensor(2, 3, 4, a);
+    const b = et.getTensor(2, 3, 4) as number[];
+    for (let i = 0; i < 6; ++i) {
+      expect(b[i]).to.be.closeTo(a[i], 1.0e-12);
+    }
+    const e = et.getEigenvalues(2, 3, 4) as number[];
+    expect(e[0] + e[1] + e[2]).to.be.closeTo(a[0] + a[3] + a[5], 1.0e-12);
+    expect(et.getTensor(0, 0, 0)).to.deep.equal([ 0, 0, 0, 0, 0, 0 ]);
+  });
+
+  it('should approximate tensors with compressed storage', () => {
+    const et = new EigenTensors3(3, 4, 5, true);
+    expect(et.compressed).to.be.true;
+    const a = [ 4.0, 1.0, 0.5, 3.0, 0.2, 1.0 ];
+    et.setTensor(2, 3, 4, a);
+    const b = et.getTensor(2, 3, 4) as number[];
+    for (let i = 0; i < 6; ++i) {
+      expect(b[i]).to.be.closeTo(a[i], 0.02);
+    }
+  });
 
+  it('should scale and invert eigenvalues', () => {
+    const et = new EigenTensors3(2, 2, 2);
+    et.setEigenvalues(1, 1, 1, [ 8.0, 4.0, 2.0 ]);
+    et.scale(fill(0.5, 2, 2, 2));
+    expect(et.getEigenvalues(1, 1, 1)).to.deep.equal([ 4.0, 2.0, 1.0 ]);
+    et.invert();
+    expect(et.getEigenvalues(1, 1, 1)).to.deep.equal([ 0.25, 0.5, 1.0 ]);
+    et.setEigenvalues(1, 1, 1, 8.0, 4.0, 2.0);
+    et.invertStructure(0.0, 1.0, 1.0);
+    const e = et.getEigenvalues(1, 1, 1) as number[];
+    expect(e[0]).to.be.closeTo(0.25, 1.0e-12);
+    expect(e[1]).to.be.closeTo(0.5, 1.0e-12);
+    expect(e[2]).to.be.closeTo(1.0, 1.0e-12);
+  });
+
+});
@@ -26,6 +26,65 @@ describe('FFT Complex', () => {
     }
   };
 
+  // Direct evaluation of the discrete Fourier transform of complex cx.
+  const direct = (sign: number, cx: number[]): number[] => {
+    const n1 = cx.length / 2;
+    const cy: number[] = czero(n1);
+    for (let k = 0; k < n1; ++k) {
+      for (let j = 0; j < n1; ++j) {
+        const p = sign * 2.0 * Math.PI * j * k / n1;
+        cy[2 * k] += cx[2 * j] * Math.cos(p) - cx[2 * j + 1] * Math.sin(p);
+        cy[2 * k + 1] += cx[2 * j] * Math.sin(p) + cx[2 * j + 1] * Math.cos(p);
+      }
+    }
+    return cy;
+  };
+
+  const random = (n1: number): number[] => [ ...Array(2 * n1) ].map(() => Math.random() - 0.5);
+
+  it('should match the discrete Fourier transform', () => {
+    for (const nfft of [ 6, 10, 12, 20, 30, 35, 63, 120 ]) {
+      const fft = new FftComplex(nfft);
+      const cx = random(nfft);
+      const cy: number[] = czero(nfft);
+      fft.complexToComplex(-1, cx, cy);
+      expectNear(cy, direct(-1, cx));
+    }
+  });
+
+  it('should transform all rows of 2D arrays', () => {
+    const nfft = 12, n2 = 5, n3 = 3;
+    const fft = new FftComplex(nfft);
+    const cx = [ ...Array(n2) ].map(() => random(nfft));
+    const cy = [ ...Array(n2) ].map(() => czero(nfft));
+    fft.complexToComplex1(1, cx, cy, n2);
+    for (let i2 = 0; i2 < n2; ++i2) { expectNear(cy[i2], direct(1, cx[i2])); }
+
+    const cz = [ ...Array(n3) ].map(() => [ ...Array(n2) ].map(() => random(nfft)));
+    const cw = cz.map(c2 => c2.map(c1 => ccopy(c1)));
+    fft.complexToComplex1(1, cw, cw, n2, n3);
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) { expectNear(cw[i3][i2], direct(1, cz[i3][i2])); }
+    }
+  });
+
+  it('should transform all columns of 2D arrays', () => {
+    const nfft = 10, n1 = 3;
+    const fft = new FftComplex(nfft);
+    const cx = [ ...Array(nfft) ].map(() => random(n1));
+    const cy = [ ...Array(nfft) ].map(() => czero(n1));
+    fft.complexToComplex2(-1, cx, cy, n1);
+    for (let i1 = 0; i1 < n1; ++i1) {
+      const column: number[] = [];
+      for (const c of cx) { column.push(c[2 * i1], c[2 * i1 + 1]); }
+      const expected = direct(-1, column);
+      for (let i2 = 0; i2 < nfft; ++i2) {
+        expect(cy[i2][2 * i1]).to.be.closeTo(expected[2 * i2], 1.0e-8);
+        expect(cy[i2][2 * i1 + 1]).to.be.closeTo(expected[2 * i2 + 1], 1.0e-8);
+      }
+    }
+  });
+
   it('should make round-trip', () => {
     const nmax = 100;
     for (let n = 31; n < nmax; ++n) {
@@ -53,5 +112,113 @@ describe('FFT Complex', () => {
     }
   });
 
-});
+  it('should transform typed arrays like arrays of numbers', () => {
+    const nfft = FftComplex.SmallNFFT(50);
+    const fft = new FftComplex(nfft);
+    const c: number[] = czero(nfft).map(() => Math.random() - 0.5);
+    const c64 = Float64Array.from(c);
+    const c32 = Float32Array.from(c);
+    const cy = new Float64Array(2 * nfft);
+    fft.complexToComplex(-1, c, c);
+    fft.complexToComplex(-1, c64, cy);
+    fft.complexToComplex(-1, c32, c32);
+    for (let i = 0; i < 2 * nfft; ++i) {
+      expect(cy[i]).to.be.closeTo(c[i], 1.0e-9);
+      expect(c32[i]).to.be.closeTo(c[i], 1.0e-4);
+    }
+    fft.complexToComplex(1, cy, cy);
+    fft.scale(cy, nfft);
+    for (let i = 0; i < 2 * nfft; ++i) { expect(cy[i]).to.be.closeTo(c64[i], 1.0e-6); }
+  });
+
+  it('should transform flat arrays like arrays of arrays', () => {
+    const n1 = 5, n2 = 4, n3 = 3;
+    const random3 = (m1: number, m2: number, m3: number): number[][][] =>
+      [ ...Array(m3) ].map(() => [ ...Array(m2) ].map(() => czero(m1).map(() => Math.random() - 0.5)));
+    const flat = (c: number[][][]): Float64Array => Float64Array.from([].concat(...c.map(c2 => [].concat(...c2))));
+    const expectFlat = (c: number[][][], f: Float64Array): void => {
+      const g = flat(c);
+      for (let i = 0; i < g.length; ++i) { expect(f[i]).to.be.closeTo(g[i], 1.0e-9); }
+    };
+
+    const fft1 = new FftComplex(n1);
+    const c1 = random3(n1, n2, n3);
+    const f1 = flat(c1);
+    fft1.complexToComplex1(-1, c1, c1, n2, n3);
+    fft1.complexToComplex1(-1, f1, f1, n2, n3);
+    expectFlat(c1, f1);
+    const g1 = Array.from(flat(c1));
+    fft1.complexToComplex1(1, g1, g1, n2 * n3);
+    fft1.complexToComplex1(1, c1, c1, n2, n3);
+    expectFlat(c1, Float64Array.from(g1));
+
+    const fft2 = new FftComplex(n2);
+    const c2 = random3(n1, n2, n3);
+    const f2 = flat(c2);
+    const y2 = new Float32Array(f2.length);
+    fft2.complexToComplex2(-1, c2, c2, n1, n3);
+    fft2.complexToComplex2(-1, f2, y2, n1, n3);
+    const e2 = flat(c2);
+    for (let i = 0; i < e2.length; ++i) { expect(y2[i]).to.be.closeTo(e2[i], 1.0e-5); }
+
+    const fft3 = new FftComplex(n3);
+    const c3 = random3(n1, n2, n3);
+    const f3 = flat(c3);
+    fft3.complexToComplex3(-1, c3, c3, n1, n2);
+    fft3.complexToComplex3(-1, f3, f3, n1, n2);
+    expectFlat(c3, f3);
+  });
 
+  it('should transform arbitrary lengths exactly', () => {
+    const dft = (sign: number, cx: number[]): number[] => {
+      const n = cx.length / 2;
+      const cy: number[] = czero(n);
+      for (let k = 0; k < n; ++k) {
+        for (let j = 0; j < n; ++j) {
+          const a = sign * 2.0 * Math.PI * ( ( j * k ) % n ) / n;
+          cy[2 * k] += cx[2 * j] * Math.cos(a) - cx[2 * j + 1] * Math.sin(a);
+          cy[2 * k + 1] += cx[2 * j] * Math.sin(a) + cx[2 * j + 1] * Math.cos(a);
+        }
+      }
+      return cy;
+    };
+    expect(() => new FftComplex(17)).to.throw();
+    for (const n of [ 1, 2, 17, 32, 97, 100, 256, 1009 ]) {
+      const fft = new FftComplex(n, true);
+      expect(fft.nfft).to.equal(n);
+      expect(fft.exact).to.be.true;
+      const cx = czero(n).map(() => Math.random() - 0.5);
+      for (const sign of [ -1, 1 ]) {
+        const cy: number[] = czero(n);
+        fft.complexToComplex(sign, cx, cy);
+        expectNear(cy, dft(sign, cx));
+      }
+      const cz = ccopy(cx);
+      fft.complexToComplex(-1, cz, cz);
+      fft.complexToComplex(1, cz, cz);
+      fft.scale(cz, n);
+      expectNear(cz, cx);
+    }
+  });
+
+  it('should transform dimension 2 of arbitrary lengths exactly', () => {
+    const n1 = 3, n2 = 11;
+    const fft = new FftComplex(n2, true);
+    const cx = [ ...Array(n2) ].map(() => czero(n1).map(() => Math.random() - 0.5));
+    const cy = cx.map(c => c.slice());
+    fft.complexToComplex2(-1, cy, cy, n1);
+    for (let i1 = 0; i1 < n1; ++i1) {
+      const c: number[] = czero(n2);
+      for (let i2 = 0; i2 < n2; ++i2) {
+        c[2 * i2] = cx[i2][2 * i1];
+        c[2 * i2 + 1] = cx[i2][2 * i1 + 1];
+      }
+      fft.complexToComplex(-1, c, c);
+      for (let i2 = 0; i2 < n2; ++i2) {
+        expect(cy[i2][2 * i1]).to.be.closeTo(c[2 * i2], 1.0e-12);
+        expect(cy[i2][2 * i1 + 1]).to.be.closeTo(c[2 * i2 + 1], 1.0e-12);
+      }
+    }
+  });
+
+});
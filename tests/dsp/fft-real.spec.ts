@@ -1,7 +1,7 @@
 import { expect } from 'chai';
 import 'mocha';
 import { FftReal } from '../../src/dsp';
-import { ccopy, czero, fill, ramp } from '../../src/utils';
+import { ccopy, czero, fill, ramp, zero } from '../../src/utils';
 
 describe('FFT Real', () => {
 
@@ -67,5 +67,105 @@ describe('FFT Real', () => {
     }
   });
 
-});
+  it('should transform typed arrays like arrays of numbers', () => {
+    const nfft = FftReal.SmallNFFT(37);
+    const fft = new FftReal(nfft);
+    const r: number[] = czero(nfft / 2 + 1).map(() => Math.random() - 0.5);
+    const r32 = Float32Array.from(r);
+    fft.realToComplex(-1, r, r);
+    fft.realToComplex(-1, r32, r32);
+    for (let i = 0; i < nfft + 2; ++i) { expect(r32[i]).to.be.closeTo(r[i], 1.0e-4); }
+    fft.complexToReal(1, r32, r32);
+    fft.scale(r32, nfft);
+    const c = new Float64Array(r);
+    const y = new Float64Array(nfft);
+    fft.complexToReal(1, c, y);
+    fft.scale(y, nfft);
+    for (let i = 0; i < nfft; ++i) { expect(r32[i]).to.be.closeTo(y[i], 1.0e-4); }
+  });
+
+  it('should transform flat arrays like arrays of arrays', () => {
+    const nfft = 8, n2 = 3, n3 = 2;
+    const fft = new FftReal(nfft);
+    const rx = [ ...Array(n3) ].map(() => [ ...Array(n2) ].map(() => czero(nfft / 2 + 1).map(() => Math.random())));
+    const flat = Float64Array.from([].concat(...rx.map(r2 => [].concat(...r2.map(r1 => r1.slice(0, nfft))))));
+    const f = new Float64Array(n3 * n2 * ( nfft + 2 ));
+    f.set(flat);
+    fft.realToComplex1(-1, rx, rx, n2, n3);
+    fft.realToComplex1(-1, f, f, n2, n3);
+    for (let i3 = 0, i = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < nfft + 2; ++i1, ++i) { expect(f[i]).to.be.closeTo(rx[i3][i2][i1], 1.0e-12); }
+      }
+    }
+    fft.complexToReal1(1, f, f, n2 * n3);
+    fft.scale(f, nfft * n2 * n3);
+    for (let i = 0; i < flat.length; ++i) { expect(f[i]).to.be.closeTo(flat[i], 1.0e-6); }
+
+    // Dimension 2.
+    const n1 = 3;
+    const r2 = [ ...Array(nfft) ].map(() => zero(n1).map(() => Math.random()));
+    const s2 = [ ...Array(nfft / 2 + 1) ].map(() => czero(n1));
+    const f2 = Float32Array.from([].concat(...r2));
+    const c2 = new Float32Array(( nfft + 2 ) * n1);
+    const x2 = Float64Array.from(f2);
+    fft.realToComplex2(-1, n1, r2, s2);
+    fft.realToComplex2(-1, n1, f2, c2);
+    for (let k2 = 0, i = 0; k2 <= nfft / 2; ++k2) {
+      for (let i1 = 0; i1 < 2 * n1; ++i1, ++i) { expect(c2[i]).to.be.closeTo(s2[k2][i1], 1.0e-5); }
+    }
+    const y2 = new Float64Array(nfft * n1);
+    fft.complexToReal2(1, n1, Float64Array.from(c2), y2);
+    fft.scale(y2, nfft * n1);
+    for (let i = 0; i < y2.length; ++i) { expect(y2[i]).to.be.closeTo(x2[i], 1.0e-5); }
+  });
 
+  it('should transform arbitrary even lengths exactly', () => {
+    expect(() => new FftReal(34)).to.throw();
+    expect(() => new FftReal(35, true)).to.throw();
+    for (const nfft of [ 2, 34, 64, 202, 256 ]) {
+      const fft = new FftReal(nfft, true);
+      expect(fft.exact).to.be.true;
+      const rx: number[] = zero(nfft).map(() => Math.random() - 0.5);
+      const cy: number[] = czero(nfft / 2 + 1);
+      fft.realToComplex(-1, rx, cy);
+      for (let k = 0; k <= nfft / 2; ++k) {
+        let re = 0.0, im = 0.0;
+        for (let j = 0; j < nfft; ++j) {
+          const a = -2.0 * Math.PI * ( ( j * k ) % nfft ) / nfft;
+          re += rx[j] * Math.cos(a);
+          im += rx[j] * Math.sin(a);
+        }
+        expect(cy[2 * k]).to.be.closeTo(re, 1.0e-10);
+        expect(cy[2 * k + 1]).to.be.closeTo(im, 1.0e-10);
+      }
+      const ry: number[] = zero(nfft);
+      fft.complexToReal(1, cy, ry);
+      fft.scale(ry, nfft);
+      for (let j = 0; j < nfft; ++j) { expect(ry[j]).to.be.closeTo(rx[j], 1.0e-12); }
+    }
+  });
+
+  it('should transform dimension 2 of arbitrary even lengths exactly', () => {
+    const n1 = 3, nfft = 34;
+    const fft = new FftReal(nfft, true);
+    const rx = [ ...Array(nfft) ].map(() => zero(n1).map(() => Math.random() - 0.5));
+    const cy = [ ...Array(nfft / 2 + 1) ].map(() => czero(n1));
+    fft.realToComplex2(-1, n1, rx, cy);
+    for (let i1 = 0; i1 < n1; ++i1) {
+      const c: number[] = czero(nfft / 2 + 1);
+      fft.realToComplex(-1, rx.map(r => r[i1]), c);
+      for (let k2 = 0; k2 <= nfft / 2; ++k2) {
+        expect(cy[k2][2 * i1]).to.be.closeTo(c[2 * k2], 1.0e-12);
+        expect(cy[k2][2 * i1 + 1]).to.be.closeTo(c[2 * k2 + 1], 1.0e-12);
+      }
+    }
+    const ry = [ ...Array(nfft) ].map(() => zero(n1));
+    fft.complexToReal2(1, n1, cy, ry);
+    fft.scale(ry, n1, nfft);
+    for (let i2 = 0; i2 < nfft; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) { expect(ry[i2][i1]).to.be.closeTo(rx[i2][i1], 1.0e-12); }
+    }
+  });
+
+});
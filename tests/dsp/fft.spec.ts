@@ -0,0 +1,210 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Fft, Sampling } from '../../src/dsp';
+
+describe('Fft', () => {
+
+  // Direct evaluation of the transform of a 2D or 3D array at the
+  // frequencies of the frequency samplings of an FFT, with sign -1.
+  const direct = (fft: Fft, f: number[][][], complex: boolean): number[][][] => {
+    const sk1 = fft.frequencySampling1;
+    const sk2 = fft.frequencySampling2;
+    const sk3 = fft.frequencySampling3 || new Sampling(1, 1.0, 0.0);
+    const n3 = f.length, n2 = f[0].length, n1 = f[0][0].length / ( ( complex ) ? 2 : 1 );
+    const g: number[][][] = [];
+    for (let j3 = 0; j3 < sk3.count; ++j3) {
+      const k3 = sk3.first + j3 * sk3.delta;
+      g.push([]);
+      for (let j2 = 0; j2 < sk2.count; ++j2) {
+        const k2 = sk2.first + j2 * sk2.delta;
+        g[j3].push([]);
+        for (let j1 = 0; j1 < sk1.count; ++j1) {
+          const k1 = sk1.first + j1 * sk1.delta;
+          let gr = 0.0, gi = 0.0;
+          for (let i3 = 0; i3 < n3; ++i3) {
+            for (let i2 = 0; i2 < n2; ++i2) {
+              for (let i1 = 0; i1 < n1; ++i1) {
+                const p = -2.0 * Math.PI * ( k1 * i1 + k2 * i2 + k3 * i3 );
+                const fr = ( complex ) ? f[i3][i2][2 * i1] : f[i3][i2][i1];
+                const fi = ( complex ) ? f[i3][i2][2 * i1 + 1] : 0.0;
+                gr += fr * Math.cos(p) - fi * Math.sin(p);
+                gi += fr * Math.sin(p) + fi * Math.cos(p);
+              }
+            }
+          }
+          g[j3][j2].push(gr, gi);
+        }
+      }
+    }
+    return g;
+  };
+
+  const expectNear = (a: number[][][], b: number[][][], tolerance: number = 1.0e-8): void => {
+    expect(a.length).to.equal(b.length);
+    for (let i3 = 0; i3 < a.length; ++i3) {
+      expect(a[i3].length).to.equal(b[i3].length);
+      for (let i2 = 0; i2 < a[i3].length; ++i2) {
+        expect(a[i3][i2].length).to.equal(b[i3][i2].length);
+        for (let i1 = 0; i1 < a[i3][i2].length; ++i1) {
+          expect(a[i3][i2][i1]).to.be.closeTo(b[i3][i2][i1], tolerance);
+        }
+      }
+    }
+  };
+
+  const random = (n1: number, n2: number, n3: number): number[][][] =>
+    [ ...Array(n3) ].map(() => [ ...Array(n2) ].map(() => [ ...Array(n1) ].map(() => Math.random() - 0.5)));
+
+  it('should construct from dimensions and arrays', () => {
+    const fft = new Fft(5, 3);
+    expect(fft.frequencySampling1.count).to.equal(new Fft(new Sampling(5)).frequencySampling1.count);
+    expect(fft.frequencySampling2).to.not.be.undefined;
+    const f = random(6, 4, 1)[0];
+    expect(new Fft(f).frequencySampling1.count).to.equal(new Fft(6, 4).frequencySampling1.count);
+    expect(new Fft(f, true).frequencySampling1.count).to.equal(new Fft(3, 4, true).frequencySampling1.count);
+    expect(new Fft(f[0]).frequencySampling1.count).to.equal(new Fft(6).frequencySampling1.count);
+  });
+
+  it('should transform 2D arrays, with and without centering', () => {
+    for (const complex of [ false, true ]) {
+      for (const center of [ false, true ]) {
+        const n1 = 5, n2 = 6;
+        const f = random(( complex ) ? 2 * n1 : n1, n2, 1);
+        const fft = new Fft(n1, n2, complex);
+        fft.center = center;
+        const g = fft.applyForward(f[0]);
+        expect(fft.frequencySampling2.count).to.equal(g.length);
+        expectNear([ g ], direct(fft, f, complex));
+        expectNear([ fft.applyInverse(g) ], f);
+      }
+    }
+  });
+
+  it('should transform 3D arrays, with and without centering', () => {
+    for (const complex of [ false, true ]) {
+      for (const center of [ false, true ]) {
+        const n1 = 4, n2 = 3, n3 = 5;
+        const f = random(( complex ) ? 2 * n1 : n1, n2, n3);
+        const fft = new Fft(n1, n2, n3, complex);
+        fft.center = center;
+        const g = fft.applyForward(f);
+        expectNear(g, direct(fft, f, complex));
+        expectNear(fft.applyInverse(g), f);
+      }
+    }
+  });
+
+  it('should pad arrays with zeros', () => {
+    const n1 = 5, n2 = 3, n3 = 2;
+    const f = random(n1, n2, n3);
+    const fft = new Fft(n1, n2, n3);
+    fft.padding = 4;
+    fft.center = true;
+    const g = fft.applyForward(f);
+    expect(fft.frequencySampling3.count).to.be.greaterThan(n3 + 4);
+    expectNear(g, direct(fft, f, false));
+    expectNear(fft.applyInverse(g), f);
+
+    const fft2 = new Fft(n1, n2);
+    fft2.padding = 3;
+    expectNear([ fft2.applyForward(f[0]) ], direct(fft2, [ f[0] ], false));
+  });
+
+  it('should unpack transformed arrays into parts, amplitudes and phases', () => {
+    const g = [ 1.0, 0.0, 0.0, 2.0, -3.0, -4.0 ];
+    expect(Fft.Real(g)).to.deep.equal([ 1.0, 0.0, -3.0 ]);
+    expect(Fft.Imag(g)).to.deep.equal([ 0.0, 2.0, -4.0 ]);
+    expect(Fft.Amplitude(g)).to.deep.equal([ 1.0, 2.0, 5.0 ]);
+    const p = Fft.Phase(g);
+    expect(p[0]).to.equal(0.0);
+    expect(p[1]).to.be.closeTo(0.5 * Math.PI, 1.0e-12);
+    expect(p[2]).to.be.closeTo(Math.atan2(-4.0, -3.0), 1.0e-12);
+    const g3 = [ [ g, g ], [ g, g ] ];
+    expect(Fft.Amplitude(g3)[1][0]).to.deep.equal([ 1.0, 2.0, 5.0 ]);
+    expect(Fft.Real([ g ])).to.deep.equal([ [ 1.0, 0.0, -3.0 ] ]);
+  });
+
+  it('should shift zero frequency to the middle and back', () => {
+    expect(Fft.FftShift([ 0, 1, 2, 3, 4, 5 ])).to.deep.equal([ 3, 4, 5, 0, 1, 2 ]);
+    expect(Fft.FftShift([ 0, 1, 2, 3, 4 ])).to.deep.equal([ 3, 4, 0, 1, 2 ]);
+    expect(Fft.IfftShift([ 3, 4, 0, 1, 2 ])).to.deep.equal([ 0, 1, 2, 3, 4 ]);
+    expect(Fft.FftShift([ 0, 10, 1, 11, 2, 12 ], true)).to.deep.equal([ 2, 12, 0, 10, 1, 11 ]);
+    expect(Fft.FftShift([ [ 0, 1 ], [ 2, 3 ], [ 4, 5 ] ])).to.deep.equal([ [ 5, 4 ], [ 1, 0 ], [ 3, 2 ] ]);
+    const f = [ [ [ 1, 2, 3 ], [ 4, 5, 6 ] ], [ [ 7, 8, 9 ], [ 10, 11, 12 ] ], [ [ 13, 14, 15 ], [ 16, 17, 18 ] ] ];
+    const s = Fft.FftShift(f);
+    expect(s[1][1][1]).to.equal(1);
+    expect(Fft.IfftShift(s)).to.deep.equal(f);
+  });
+
+  it('should provide frequencies for values in transformed arrays', () => {
+    const sx1 = new Sampling(10, 0.5, 0.0);
+    const sx2 = new Sampling(7, 2.0, 0.0);
+    const fft = new Fft(sx1, sx2);
+    const g = fft.applyForward([ ...Array(7) ].map(() => [ ...Array(10) ].map(() => Math.random())));
+    const k1 = fft.frequencies1;
+    const k2 = fft.frequencies2;
+    expect(k1.length).to.equal(g[0].length / 2);
+    expect(k2.length).to.equal(g.length);
+    expect(k1[0]).to.equal(0.0);
+    expect(k1[1]).to.be.closeTo(fft.frequencySampling1.delta, 1.0e-12);
+    expect(k1[k1.length - 1]).to.be.closeTo(1.0, 1.0e-12);
+    fft.center2 = true;
+    const k2c = fft.frequencies2;
+    expect(k2c[( k2c.length - 1 ) / 2]).to.be.closeTo(0.0, 1.0e-12);
+  });
+
+  it('should transform flat typed arrays', () => {
+    const n1 = 9, n2 = 5;
+    const x = [ ...Array(n2) ].map(() => [ ...Array(n1) ].map(() => Math.random() - 0.5));
+    const xf = Float64Array.from([].concat(...x));
+    const fft = new Fft(n1, n2);
+    const g = fft.applyForward(x);
+    const gf = fft.applyForward(xf);
+    expect(gf).to.be.an.instanceof(Float64Array);
+    expect(gf.length).to.equal(g.length * g[0].length);
+    for (let i2 = 0, i = 0; i2 < g.length; ++i2) {
+      for (let i1 = 0; i1 < g[0].length; ++i1, ++i) { expect(gf[i]).to.be.closeTo(g[i2][i1], 1.0e-12); }
+    }
+    const yf = fft.applyInverse(gf);
+    for (let i = 0; i < xf.length; ++i) { expect(yf[i]).to.be.closeTo(xf[i], 1.0e-6); }
+
+    const fft1 = new Fft(n1);
+    const x1 = Float32Array.from(x[0]);
+    const y1 = fft1.applyInverse(fft1.applyForward(x1));
+    expect(y1).to.be.an.instanceof(Float32Array);
+    for (let i = 0; i < n1; ++i) { expect(y1[i]).to.be.closeTo(x1[i], 1.0e-6); }
+  });
+
+  it('should transform Float32Array arrays like arrays of arrays', () => {
+    const flat = (a: number[][][]): Float32Array => Float32Array.from([].concat(...[].concat(...a)));
+    for (const complex of [ false, true ]) {
+      for (const center of [ false, true ]) {
+        const n1 = 5, n2 = 4, n3 = 3;
+        const m1 = ( complex ) ? 2 : 1;
+        const f = random(m1 * n1, n2, n3).map(f3 => f3.map(f32 => Array.from(Float32Array.from(f32))));
+
+        const fft2 = new Fft(n1, n2, complex);
+        fft2.center = center;
+        fft2.padding = 2;
+        const g2 = fft2.applyForward(f[0]);
+        const g2f = fft2.applyForward(flat([ f[0] ]));
+        expect(g2f).to.be.an.instanceof(Float32Array);
+        expectNear([ [ Array.from(g2f) ] ], [ [ [].concat(...g2) ] ], 1.0e-5);
+        const h2f = fft2.applyInverse(g2f);
+        expect(h2f).to.be.an.instanceof(Float32Array);
+        expectNear([ [ Array.from(h2f) ] ], [ [ [].concat(...f[0]) ] ], 1.0e-5);
+
+        const fft3 = new Fft(n1, n2, n3, complex);
+        fft3.center = center;
+        fft3.padding = 2;
+        const g3 = fft3.applyForward(f);
+        const g3f = fft3.applyForward(flat(f));
+        expect(g3f).to.be.an.instanceof(Float32Array);
+        expectNear([ [ Array.from(g3f) ] ], [ [ [].concat(...[].concat(...g3)) ] ], 1.0e-5);
+        const h3f = fft3.applyInverse(g3f);
+        expectNear([ [ Array.from(h3f) ] ], [ [ [].concat(...[].concat(...f)) ] ], 1.0e-5);
+      }
+    }
+  });
+
+});
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import 'mocha';
+import { HilbertTransformFilter } from '../../src/dsp';
+import { zero } from '../../src/utils';
+
+describe('Hilbert Transform Filter', () => {
+
+  // A cosine with slowly varying amplitude, and its Hilbert transform.
+  const n = 400;
+  const f = 0.1;
+  const amp = (i: number) => 1.0 + 0.5 * Math.exp(-0.5 * ( i - 200 ) * ( i - 200 ) / 2500.0);
+  const x: number[] = zero(n).map((_, i) => amp(i) * Math.cos(2.0 * Math.PI * f * i));
+  const h: number[] = zero(n).map((_, i) => amp(i) * Math.sin(2.0 * Math.PI * f * i));
+
+  // Interior samples, away from edge effects.
+  const i0 = 100;
+  const i1 = 300;
+
+  it('should transform cosines to sines', () => {
+    const htf = new HilbertTransformFilter();
+    const y: number[] = zero(n);
+    htf.apply(x, y);
+    for (let i = i0; i < i1; ++i) { expect(y[i]).to.be.closeTo(h[i], 0.02); }
+    const z = x.slice();
+    htf.apply(z, z);
+    for (let i = 0; i < n; ++i) { expect(z[i]).to.equal(y[i]); }
+  });
+
+  it('should compute analytic signal, envelope, phase and frequency', () => {
+    const htf = new HilbertTransformFilter();
+    const z = htf.analyticSignal(x);
+    expect(z.length).to.equal(2 * n);
+    const e: number[] = zero(n);
+    const p: number[] = zero(n);
+    const q: number[] = zero(n);
+    htf.envelope(x, e);
+    htf.phase(x, p);
+    htf.frequency(x, q);
+    for (let i = i0; i < i1; ++i) {
+      expect(z[2 * i]).to.equal(x[i]);
+      expect(e[i]).to.be.closeTo(amp(i), 0.02);
+      const dp = Math.atan2(Math.sin(p[i] - 2.0 * Math.PI * f * i), Math.cos(p[i] - 2.0 * Math.PI * f * i));
+      expect(dp).to.be.closeTo(0.0, 0.02);
+      expect(q[i]).to.be.closeTo(f, 0.002);
+    }
+  });
+
+  it('should process each trace of 2D and 3D arrays', () => {
+    const htf = new HilbertTransformFilter();
+    const t = zero(n).map((_, i) => Math.sin(0.07 * i) * Math.exp(-0.01 * i));
+    const x2 = [ x, t ];
+    const x3 = [ x2, [ t, x ] ];
+    const y1: number[] = zero(n);
+    const y2: number[][] = [ zero(n), zero(n) ];
+    const y3: number[][][] = [ [ zero(n), zero(n) ], [ zero(n), zero(n) ] ];
+    htf.envelope(t, y1);
+    htf.envelope(x2, y2);
+    htf.envelope(x3, y3);
+    const z3 = htf.analyticSignal(x3);
+    const zt = htf.analyticSignal(t);
+    for (let i = 0; i < n; ++i) {
+      expect(y2[1][i]).to.equal(y1[i]);
+      expect(y3[1][0][i]).to.equal(y1[i]);
+      expect(y3[0][0][i]).to.equal(y3[1][1][i]);
+      expect(z3[1][0][2 * i + 1]).to.equal(zt[2 * i + 1]);
+    }
+  });
+
+  it('should have zero frequency for a single sample', () => {
+    const htf = new HilbertTransformFilter();
+    const y = [ 1.0 ];
+    htf.frequency([ 2.0 ], y);
+    expect(y[0]).to.equal(0.0);
+  });
+
+});
@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Histogram, HistogramEqualizer } from '../../src/dsp';
+
+describe('Histogram Equalizer', () => {
+
+  const flatten = (x: number[][]): number[] => [].concat(...x);
+
+  // Values with a skewed distribution in [0, 1].
+  const skewed = (n1: number, n2: number): number[][] =>
+    [ ...Array(n2) ].map((_, i2) => [ ...Array(n1) ].map((__, i1) => Math.pow(( i1 + n1 * i2 ) / ( n1 * n2 - 1 ), 2)));
+
+  it('should equalize histograms of 2D arrays', () => {
+    const x = skewed(40, 50);
+    const y = x.map(x1 => x1.slice());
+    const he = new HistogramEqualizer();
+    expect(he.binCount).to.equal(256);
+    expect(he.clipLimit).to.equal(0.0);
+    he.equalize(x, y);
+    const h = new Histogram(flatten(y), 8, 0, 1);
+    h.densities.forEach(d => expect(d).to.be.closeTo(0.125, 0.02));
+    expect(Math.min(...flatten(y))).to.be.closeTo(0.0, 1.0e-12);
+    expect(Math.max(...flatten(y))).to.be.closeTo(1.0, 1.0e-12);
+
+    // Equalization preserves the order of values.
+    const vx = flatten(x), vy = flatten(y);
+    for (let i = 1; i < vx.length; ++i) { expect(vy[i]).to.be.at.least(vy[i - 1]); }
+  });
+
+  it('should limit contrast with clipped histograms', () => {
+    const x = skewed(40, 50);
+    const y = x.map(x1 => x1.slice());
+    const z = x.map(x1 => x1.slice());
+    const he = new HistogramEqualizer(64);
+    he.equalize(x, y);
+    he.clipLimit = 2.0;
+    expect(he.clipLimit).to.equal(2.0);
+    he.equalize(x, z);
+
+    // Clipping limits slopes of mappings from input to output values.
+    const slope = (v: number[]): number => {
+      const vx = flatten(x);
+      let smax = 0.0;
+      for (let i = 1; i < vx.length; ++i) { smax = Math.max(smax, ( v[i] - v[i - 1] ) / ( vx[i] - vx[i - 1] )); }
+      return smax;
+    };
+    expect(slope(flatten(y))).to.be.above(3.0);
+    expect(slope(flatten(z))).to.be.at.most(3.0 + 1.0e-9);
+    expect(() => he.clipLimit = 0.5).to.throw();
+    expect(() => he.binCount = 0).to.throw();
+  });
+
+  it('should equalize adaptively 2D and 3D arrays', () => {
+    const n1 = 32, n2 = 24;
+    const x = [ ...Array(n2) ].map((_, i2) => [ ...Array(n1) ].map((__, i1) =>
+      ( ( i1 < n1 / 2 ) ? 0.0 : 10.0 ) + 0.1 * ( ( i1 * 7 + i2 * 3 ) % 11 )));
+    const y = x.map(x1 => x1.slice());
+    const he = new HistogramEqualizer(32);
+    he.clipLimit = 4.0;
+    he.equalizeAdaptive(x, y, 4, 3);
+
+    // Local contrast is enhanced in both halves.
+    const left = flatten(y.map(y1 => y1.slice(0, 4)));
+    const right = flatten(y.map(y1 => y1.slice(n1 - 4)));
+    expect(Math.max(...left) - Math.min(...left)).to.be.above(0.3);
+    expect(Math.max(...right) - Math.min(...right)).to.be.above(0.3);
+    flatten(y).forEach(v => expect(v).to.be.within(x[0][0] - 1.0e-12, 11.0 + 1.0e-12));
+
+    // One tile is global equalization.
+    const z = x.map(x1 => x1.slice());
+    const g = x.map(x1 => x1.slice());
+    he.equalizeAdaptive(x, z, 1, 1);
+    he.equalize(x, g);
+    expect(z).to.deep.equal(g);
+
+    const x3 = [ x, x, x ];
+    const y3 = x3.map(x2 => x2.map(x1 => x1.slice()));
+    he.equalizeAdaptive(x3, y3, 4, 3, 1);
+    expect(y3[1]).to.deep.equal(y);
+    expect(() => he.equalizeAdaptive(x, y, n1 + 1, 1)).to.throw();
+  });
+
+  it('should match histograms to reference arrays', () => {
+    const x = skewed(30, 20);
+    const r = [ ...Array(10) ].map((_, i2) => [ ...Array(50) ].map((__, i1) => 5.0 + 2.0 * ( i1 + 50 * i2 ) / 499));
+    const y = x.map(x1 => x1.slice());
+    new HistogramEqualizer(100).match(x, r, y);
+    const hy = new Histogram(flatten(y), 4, 5, 7);
+    hy.densities.forEach(d => expect(d).to.be.closeTo(0.25, 0.02));
+    expect(hy.lowCount + hy.highCount).to.equal(0);
+
+    const x3 = [ x, x ];
+    const y3 = x3.map(x2 => x2.map(x1 => x1.slice()));
+    new HistogramEqualizer(100).match(x3, [ r ], y3);
+    expect(y3[0]).to.deep.equal(y);
+  });
+
+});
@@ -83,4 +83,49 @@ describe('Histogram', () => {
   it('should trim if no computed min or max', () => {
     const h: Histogram = new Histogram([0, 1, 2, 3, 4], 5, 0, 4);
   });
+
+  it('should sum weights of weighted values', () => {
+    const v: number[] = [ 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10 ];
+    const w: number[] = v.map(vi => ( vi < 5 ) ? 2.0 : 1.0);
+    const h: Histogram = new Histogram(v, w, 5);
+    expect(h.inCount).to.equal(11);
+    expect(h.counts[0]).to.equal(4);
+    expect(h.counts[4]).to.equal(3);
+    const densities = h.densities;
+    expect(densities[0]).to.be.closeTo(4 / 16, 1.0e-12);
+    expect(densities.reduce((s, d) => s + d, 0)).to.be.closeTo(1.0, 1.0e-12);
+    expect(() => new Histogram(v, [ 1, 2 ], 5)).to.throw();
+  });
+
+  it('should compute numbers of bins with rules', () => {
+    const v: number[] = [ ...Array(1000) ].map((_, i) => i);
+    const sturges: Histogram = new Histogram(v, 'Sturges');
+    expect(sturges.binCount).to.equal(11);
+    expect(sturges.inCount).to.equal(1000);
+    const fd: Histogram = new Histogram(v, 'FreedmanDiaconis');
+    const h0: Histogram = new Histogram(v, 0);
+    expect(fd.binCount).to.equal(h0.binCount);
+    expect(fd.binCount).to.equal(10);
+  });
+
+  it('should compute cumulative distributions and percentiles', () => {
+    const v: number[] = [ ...Array(1001) ].map((_, i) => i / 1000);
+    const h: Histogram = new Histogram(v, 10, 0, 1);
+    const c = h.cumulative;
+    expect(c.length).to.equal(10);
+    expect(c[9]).to.be.closeTo(1.0, 1.0e-12);
+    for (let i = 1; i < c.length; ++i) { expect(c[i]).to.be.at.least(c[i - 1]); }
+    expect(h.percentile(0)).to.equal(0);
+    expect(h.percentile(100)).to.equal(1);
+    expect(h.percentile(50)).to.be.closeTo(0.5, 0.01);
+    expect(h.quantile(0.99)).to.be.closeTo(0.99, 0.01);
+    expect(() => h.percentile(101)).to.throw();
+  });
+
+  it('should bin values with a minimum value of zero', () => {
+    const h: Histogram = new Histogram([ -1, 0, 1, 2, 3, 4 ], 2, 0, 2);
+    expect(h.min).to.equal(0);
+    expect(h.lowCount).to.equal(1);
+    expect(h.highCount).to.equal(2);
+  });
 });
@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Histogram2, Sampling } from '../../src/dsp';
+
+describe('Histogram2', () => {
+
+  it('should count pairs of values in joint bins', () => {
+    const v1: number[] = [ 0.0, 0.1, 1.0, 1.9, 2.0, 5.0 ];
+    const v2: number[] = [ 0.0, 0.0, 1.0, 1.0, 0.9, 0.0 ];
+    const s1 = new Sampling(3, 1.0, 0.0);
+    const s2 = new Sampling(2, 1.0, 0.0);
+    const h = new Histogram2(v1, v2, s1, s2);
+    expect(h.sampling1).to.equal(s1);
+    expect(h.sampling2).to.equal(s2);
+    expect(h.inCount).to.equal(5);
+    expect(h.outCount).to.equal(1);
+    expect(h.counts).to.deep.equal([ [ 2, 0, 0 ], [ 0, 1, 2 ] ]);
+    const d = h.densities;
+    expect(d[1][2]).to.be.closeTo(0.4, 1.0e-12);
+    const m1 = h.marginal1;
+    const m2 = h.marginal2;
+    expect(m1[0]).to.be.closeTo(0.4, 1.0e-12);
+    expect(m1[2]).to.be.closeTo(0.4, 1.0e-12);
+    expect(m2[0]).to.be.closeTo(0.4, 1.0e-12);
+    expect(m2[1]).to.be.closeTo(0.6, 1.0e-12);
+  });
+
+  it('should sum weights of weighted pairs', () => {
+    const s = new Sampling(2, 1.0, 0.0);
+    const h = new Histogram2([ 0, 1, 1 ], [ 0, 1, 1 ], s, s, [ 2.0, 0.5, 1.5 ]);
+    expect(h.counts).to.deep.equal([ [ 2, 0 ], [ 0, 2 ] ]);
+    expect(h.densities[0][0]).to.be.closeTo(0.5, 1.0e-12);
+    expect(() => new Histogram2([ 0 ], [ 0, 1 ], s, s)).to.throw();
+  });
+
+});
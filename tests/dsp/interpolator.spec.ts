@@ -0,0 +1,139 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Interpolator, Sampling } from '../../src/dsp';
+import { InterpolationMethod } from '../../src/types';
+
+describe('Interpolator', () => {
+
+  const sample1 = (s: Sampling, f: (x: number) => number): number[] => {
+    return s.values().map(f);
+  };
+  const sample2 = (s1: Sampling, s2: Sampling, f: (x1: number, x2: number) => number): number[][] => {
+    return s2.values().map(x2 => s1.values().map(x1 => f(x1, x2)));
+  };
+  const sample3 = (s1: Sampling, s2: Sampling, s3: Sampling,
+                   f: (x1: number, x2: number, x3: number) => number): number[][][] => {
+    return s3.values().map(x3 => sample2(s1, s2, (x1, x2) => f(x1, x2, x3)));
+  };
+
+  const methods: InterpolationMethod[] = [ 'Nearest', 'Linear', 'Monotonic', 'Spline' ];
+
+  methods.forEach(method => {
+
+    it(`should reproduce sample values (${method})`, () => {
+      const s1 = new Sampling(7, 0.5, -1.0);
+      const s2 = new Sampling(5, 2.0, 3.0);
+      const s3 = new Sampling(4, 1.0, 0.0);
+      const f = (x1: number, x2: number, x3: number) => Math.sin(x1) + Math.cos(x2 * x3);
+      const y1 = sample1(s1, x1 => f(x1, 0.0, 0.0));
+      const y2 = sample2(s1, s2, (x1, x2) => f(x1, x2, 0.0));
+      const y3 = sample3(s1, s2, s3, f);
+      const i1 = new Interpolator(s1, y1, method);
+      const i2 = new Interpolator(s1, s2, y2, method);
+      const i3 = new Interpolator(s1, s2, s3, y3, method);
+      expect(i1.method).to.equal(method);
+      for (let j3 = 0; j3 < s3.count; ++j3) {
+        const x3 = s3.valueAt(j3);
+        for (let j2 = 0; j2 < s2.count; ++j2) {
+          const x2 = s2.valueAt(j2);
+          for (let j1 = 0; j1 < s1.count; ++j1) {
+            const x1 = s1.valueAt(j1);
+            expect(i1.interpolate(x1)).to.be.closeTo(y1[j1], 1.0e-12);
+            expect(i2.interpolate(x1, x2)).to.be.closeTo(y2[j2][j1], 1.0e-12);
+            expect(i3.interpolate(x1, x2, x3)).to.be.closeTo(y3[j3][j2][j1], 1.0e-12);
+          }
+        }
+      }
+    });
+
+  });
+
+  it('should interpolate nearest values', () => {
+    const s = new Sampling(3, 1.0, 0.0);
+    const i = new Interpolator(s, [ 1.0, 2.0, 4.0 ], 'Nearest');
+    expect(i.interpolate(0.4)).to.equal(1.0);
+    expect(i.interpolate(0.6)).to.equal(2.0);
+    expect(i.interpolate(1.7)).to.equal(4.0);
+  });
+
+  [ 'Linear', 'Monotonic', 'Spline' ].forEach((method: InterpolationMethod) => {
+
+    it(`should interpolate bilinear functions exactly (${method})`, () => {
+      const s1 = new Sampling(6, 0.5, 1.0);
+      const s2 = new Sampling(5, 0.25, -1.0);
+      const s3 = new Sampling(4, 2.0, 0.0);
+      const f = (x1: number, x2: number, x3: number) => 1.0 + 2.0 * x1 - 3.0 * x2 + 0.5 * x1 * x2 + x3;
+      const i1 = new Interpolator(s1, sample1(s1, x1 => f(x1, 0.0, 0.0)), method);
+      const i2 = new Interpolator(s1, s2, sample2(s1, s2, (x1, x2) => f(x1, x2, 0.0)), method);
+      const i3 = new Interpolator(s1, s2, s3, sample3(s1, s2, s3, f), method);
+      for (const [ x1, x2, x3 ] of [ [ 1.1, -0.9, 0.3 ], [ 2.37, 0.0, 5.9 ], [ 3.49, -0.01, 1.0 ] ]) {
+        expect(i1.interpolate(x1)).to.be.closeTo(f(x1, 0.0, 0.0), 1.0e-12);
+        expect(i2.interpolate(x1, x2)).to.be.closeTo(f(x1, x2, 0.0), 1.0e-12);
+        expect(i3.interpolate(x1, x2, x3)).to.be.closeTo(f(x1, x2, x3), 1.0e-12);
+      }
+    });
+
+  });
+
+  it('should interpolate smooth functions accurately with splines', () => {
+    const s = new Sampling(101, 0.1, 0.0);
+    const i = new Interpolator(s, sample1(s, Math.sin), 'Spline');
+    for (let x = 1.0; x < 9.0; x += 0.033) {
+      expect(i.interpolate(x)).to.be.closeTo(Math.sin(x), 1.0e-5);
+    }
+  });
+
+  it('should have zero second derivatives at the ends of natural splines', () => {
+    const s = new Sampling(5);
+    const i = new Interpolator(s, [ 0.0, 1.0, 0.0, 2.0, 5.0 ], 'Spline');
+    const h = 1.0e-3;
+    for (const x of [ h, 4.0 - h ]) {
+      const d2 = ( i.interpolate(x - h) - 2.0 * i.interpolate(x) + i.interpolate(x + h) ) / ( h * h );
+      expect(d2).to.be.closeTo(0.0, 1.0e-2);
+    }
+  });
+
+  it('should not overshoot monotonic values', () => {
+    const s = new Sampling(8);
+    const y = [ 0.0, 0.0, 0.0, 0.1, 1.0, 1.0, 1.0, 1.0 ];
+    const monotonic = new Interpolator(s, y, 'Monotonic');
+    const spline = new Interpolator(s, y, 'Spline');
+    let yp = monotonic.interpolate(0.0);
+    let overshoot = false;
+    for (let x = 0.0; x <= 7.0; x += 0.01) {
+      const yi = monotonic.interpolate(x);
+      expect(yi).to.be.at.least(yp - 1.0e-12);
+      expect(yi).to.be.within(0.0, 1.0);
+      yp = yi;
+      const ys = spline.interpolate(x);
+      overshoot = overshoot || ys < 0.0 || ys > 1.0;
+    }
+    expect(overshoot).to.be.true;
+  });
+
+  it('should extrapolate with zero values by default', () => {
+    const s1 = new Sampling(3, 1.0, 1.0);
+    const s2 = new Sampling(2, 1.0, 0.0);
+    const i = new Interpolator(s1, s2, [ [ 1.0, 2.0, 3.0 ], [ 4.0, 5.0, 6.0 ] ], 'Linear');
+    expect(i.extrapolation).to.equal('ZeroValue');
+    expect(i.interpolate(0.5, 0.5)).to.equal(0.0);
+    expect(i.interpolate(2.0, 1.5)).to.equal(0.0);
+    expect(i.interpolate(3.0, 1.0)).to.equal(6.0);
+  });
+
+  it('should extrapolate with zero slopes', () => {
+    const s1 = new Sampling(3, 1.0, 1.0);
+    const s2 = new Sampling(2, 1.0, 0.0);
+    const i = new Interpolator(s1, s2, [ [ 1.0, 2.0, 3.0 ], [ 4.0, 5.0, 6.0 ] ], 'Spline');
+    i.extrapolation = 'ZeroSlope';
+    expect(i.interpolate(-5.0, 0.0)).to.be.closeTo(1.0, 1.0e-12);
+    expect(i.interpolate(10.0, 2.0)).to.be.closeTo(6.0, 1.0e-12);
+    expect(i.interpolate(1.5, -1.0)).to.be.closeTo(1.5, 1.0e-12);
+  });
+
+  it('should require array dimensions that match samplings', () => {
+    expect(() => new Interpolator(new Sampling(3), [ 1.0, 2.0 ])).to.throw();
+    expect(() => new Interpolator(new Sampling(2), new Sampling(2), [ 1.0, 2.0 ] as any)).to.throw();
+  });
+
+});
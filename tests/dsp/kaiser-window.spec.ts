@@ -0,0 +1,48 @@
+import { expect } from 'chai';
+import 'mocha';
+import { KaiserWindow } from '../../src/dsp';
+
+describe('Kaiser Window', () => {
+
+  it('should design consistent windows from any two parameters', () => {
+    const error = 0.001;
+    const width = 0.05;
+    const kw = KaiserWindow.FromErrorAndWidth(error, width);
+    const kl = KaiserWindow.FromErrorAndLength(error, kw.length);
+    const kwl = KaiserWindow.FromWidthAndLength(width, kw.length);
+    expect(kl.width).to.be.closeTo(width, 1.0e-12);
+    expect(kwl.error).to.be.closeTo(error, 1.0e-9);
+    for (let x = -0.6 * kw.length; x <= 0.6 * kw.length; x += 0.7) {
+      expect(kl.evaluate(x)).to.be.closeTo(kw.evaluate(x), 1.0e-12);
+      expect(kwl.evaluate(x)).to.be.closeTo(kw.evaluate(x), 1.0e-9);
+    }
+  });
+
+  it('should be symmetric, one at zero, and zero beyond half its length', () => {
+    const kw = KaiserWindow.FromErrorAndLength(0.01, 20.0);
+    expect(kw.evaluate(0.0)).to.be.closeTo(1.0, 1.0e-12);
+    expect(kw.evaluate(10.01)).to.equal(0.0);
+    expect(kw.evaluate(-10.01)).to.equal(0.0);
+    expect(kw.evaluate(10.0)).to.be.above(0.0);
+    let wp = 1.0;
+    for (let x = 0.0; x <= 10.0; x += 0.5) {
+      const w = kw.evaluate(x);
+      expect(kw.evaluate(-x)).to.equal(w);
+      expect(w).to.be.at.most(wp);
+      wp = w;
+    }
+  });
+
+  it('should be rectangular for large errors', () => {
+    const kw = KaiserWindow.FromErrorAndLength(0.2, 8.0);
+    expect(kw.evaluate(3.9)).to.be.closeTo(1.0, 1.0e-12);
+  });
+
+  it('should require valid parameters', () => {
+    expect(() => KaiserWindow.FromErrorAndWidth(0.0, 0.1)).to.throw();
+    expect(() => KaiserWindow.FromErrorAndWidth(0.01, 0.0)).to.throw();
+    expect(() => KaiserWindow.FromErrorAndLength(1.0, 10.0)).to.throw();
+    expect(() => KaiserWindow.FromWidthAndLength(0.1, -1.0)).to.throw();
+  });
+
+});
@@ -0,0 +1,135 @@
+import { expect } from 'chai';
+import 'mocha';
+import { LocalOrientFilter } from '../../src/dsp';
+import { zero } from '../../src/utils';
+
+describe('Local Orient Filter', () => {
+
+  // Plane waves with normal vector (u1,u2) or (u1,u2,u3).
+  const makeImage2 = (n1: number, n2: number, u1: number, u2: number): number[][] => {
+    const x: number[][] = zero(n1, n2);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        x[i2][i1] = Math.sin(0.5 * ( u1 * i1 + u2 * i2 ));
+      }
+    }
+    return x;
+  };
+
+  const makeImage3 = (n1: number, n2: number, n3: number, u1: number, u2: number, u3: number): number[][][] => {
+    const x: number[][][] = zero(n1, n2, n3);
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          x[i3][i2][i1] = Math.sin(0.5 * ( u1 * i1 + u2 * i2 + u3 * i3 ));
+        }
+      }
+    }
+    return x;
+  };
+
+  it('should estimate orientation of 2D linear features', () => {
+    const n1 = 41;
+    const n2 = 42;
+    const theta = 0.3;
+    const u1 = Math.cos(theta);
+    const u2 = Math.sin(theta);
+    const x = makeImage2(n1, n2, u1, u2);
+    const lof = new LocalOrientFilter(4.0);
+    const t: number[][] = zero(n1, n2);
+    const v1: number[][] = zero(n1, n2);
+    const v2: number[][] = zero(n1, n2);
+    const el: number[][] = zero(n1, n2);
+    lof.apply(x, t, null, null, v1, v2, null, null, el);
+    const p2: number[][] = zero(n1, n2);
+    lof.applyForSlopes(x, p2);
+    for (let i2 = 15; i2 < n2 - 15; ++i2) {
+      for (let i1 = 15; i1 < n1 - 15; ++i1) {
+        expect(t[i2][i1]).to.be.closeTo(theta, 0.01);
+        expect(v1[i2][i1]).to.be.closeTo(-u2, 0.01);
+        expect(v2[i2][i1]).to.be.closeTo(u1, 0.01);
+        expect(el[i2][i1]).to.be.closeTo(1.0, 0.01);
+        expect(p2[i2][i1]).to.be.closeTo(-u2 / u1, 0.01);
+      }
+    }
+  });
+
+  it('should compute 2D structure tensors', () => {
+    const n1 = 31;
+    const n2 = 32;
+    const theta = -0.4;
+    const u1 = Math.cos(theta);
+    const u2 = Math.sin(theta);
+    const x = makeImage2(n1, n2, u1, u2);
+    const lof = new LocalOrientFilter(3.0);
+    for (const compressed of [ false, true ]) {
+      const et = lof.applyForTensors(x, compressed);
+      const ui: number[] = [ 0, 0 ];
+      const ei: number[] = [ 0, 0 ];
+      for (let i2 = 10; i2 < n2 - 10; ++i2) {
+        for (let i1 = 10; i1 < n1 - 10; ++i1) {
+          et.getEigenvectorU(i1, i2, ui);
+          et.getEigenvalues(i1, i2, ei);
+          expect(ui[0]).to.be.closeTo(u1, 0.01);
+          expect(ui[1]).to.be.closeTo(u2, 0.01);
+          expect(ei[1] / ei[0]).to.be.closeTo(0.0, 0.01);
+        }
+      }
+    }
+  });
+
+  it('should clip slopes to the maximum slope', () => {
+    const n1 = 21;
+    const n2 = 22;
+    const x = makeImage2(n1, n2, 0.0, 1.0);
+    const lof = new LocalOrientFilter(2.0);
+    lof.maxSlope = 5.0;
+    const p2: number[][] = zero(n1, n2);
+    lof.applyForSlopes(x, p2);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        expect(Math.abs(p2[i2][i1])).to.be.at.most(5.0);
+      }
+    }
+  });
+
+  it('should estimate orientation of 3D planar features', () => {
+    const n1 = 21;
+    const n2 = 22;
+    const n3 = 23;
+    const c1 = 0.8;
+    const c2 = 0.36;
+    const c3 = -0.48;
+    const x = makeImage3(n1, n2, n3, c1, c2, c3);
+    const lof = new LocalOrientFilter(3.0);
+    const u1: number[][][] = zero(n1, n2, n3);
+    const u2: number[][][] = zero(n1, n2, n3);
+    const u3: number[][][] = zero(n1, n2, n3);
+    const ep: number[][][] = zero(n1, n2, n3);
+    lof.applyForNormalPlanar(x, u1, u2, u3, ep);
+    const p2: number[][][] = zero(n1, n2, n3);
+    const p3: number[][][] = zero(n1, n2, n3);
+    lof.applyForSlopes(x, p2, p3);
+    const et = lof.applyForTensors(x);
+    const ui: number[] = [ 0, 0, 0 ];
+    for (let i3 = 9; i3 < n3 - 9; ++i3) {
+      for (let i2 = 9; i2 < n2 - 9; ++i2) {
+        for (let i1 = 9; i1 < n1 - 9; ++i1) {
+          expect(u1[i3][i2][i1]).to.be.closeTo(c1, 0.01);
+          expect(u2[i3][i2][i1]).to.be.closeTo(c2, 0.01);
+          expect(u3[i3][i2][i1]).to.be.closeTo(c3, 0.01);
+          expect(ep[i3][i2][i1]).to.be.closeTo(1.0, 0.01);
+          expect(p2[i3][i2][i1]).to.be.closeTo(-c2 / c1, 0.02);
+          expect(p3[i3][i2][i1]).to.be.closeTo(-c3 / c1, 0.02);
+
+          // Tensors store u with a non-negative 3rd component.
+          et.getEigenvectorU(i1, i2, i3, ui);
+          expect(ui[0]).to.be.closeTo(-c1, 0.01);
+          expect(ui[1]).to.be.closeTo(-c2, 0.01);
+          expect(ui[2]).to.be.closeTo(-c3, 0.01);
+        }
+      }
+    }
+  });
+
+});
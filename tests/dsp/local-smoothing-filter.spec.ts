@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import 'mocha';
+import { EigenTensors2, EigenTensors3, LocalSmoothingFilter } from '../../src/dsp';
+import { fill, zero } from '../../src/utils';
+
+describe('Local Smoothing Filter', () => {
+
+  const sum2 = (x: number[][]): number => {
+    return x.reduce((s, xi) => s + xi.reduce((a, b) => a + b, 0.0), 0.0);
+  };
+
+  const sum3 = (x: number[][][]): number => {
+    return x.reduce((s, xi) => s + sum2(xi), 0.0);
+  };
+
+  const random2 = (n1: number, n2: number): number[][] => {
+    const x: number[][] = zero(n1, n2);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        x[i2][i1] = Math.random() - 0.5;
+      }
+    }
+    return x;
+  };
+
+  it('should smooth isotropically and preserve the sum', () => {
+    const n1 = 31;
+    const n2 = 32;
+    const x = random2(n1, n2);
+    const y: number[][] = zero(n1, n2);
+    const lsf = new LocalSmoothingFilter(1.0e-6, 1000);
+    lsf.apply(null, 4.0, x, y);
+    expect(sum2(y)).to.be.closeTo(sum2(x), 1.0e-4);
+    expect(sum2(y.map(yi => yi.map(v => v * v)))).to.be.lessThan(0.5 * sum2(x.map(xi => xi.map(v => v * v))));
+  });
+
+  it('should give the same result with and without the preconditioner', () => {
+    const n1 = 21;
+    const n2 = 22;
+    const x = random2(n1, n2);
+    const y1: number[][] = zero(n1, n2);
+    const y2: number[][] = zero(n1, n2);
+    const lsf = new LocalSmoothingFilter(1.0e-8, 1000);
+    lsf.apply(null, 2.0, fill(0.5, n1, n2), x, y1);
+    lsf.preconditioner = false;
+    lsf.apply(null, 1.0, x, y2);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        expect(y1[i2][i1]).to.be.closeTo(y2[i2][i1], 1.0e-6);
+      }
+    }
+  });
+
+  it('should smooth only along eigenvectors v of 2D tensors', () => {
+    const n1 = 21;
+    const n2 = 22;
+    const et = new EigenTensors2(n1, n2);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        et.setEigenvectorU(i1, i2, 1.0, 0.0);
+        et.setEigenvalues(i1, i2, 0.0, 1.0);
+      }
+    }
+    const x: number[][] = zero(n1, n2);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        x[i2][i1] = Math.sin(i1);
+      }
+    }
+    const y: number[][] = zero(n1, n2);
+    const lsf = new LocalSmoothingFilter(1.0e-12, 1000);
+    lsf.apply(et, 10.0, x, y);
+    for (let i2 = 0; i2 < n2; ++i2) {
+      for (let i1 = 0; i1 < n1; ++i1) {
+        expect(y[i2][i1]).to.be.closeTo(x[i2][i1], 1.0e-9);
+      }
+    }
+  });
+
+  it('should smooth only along eigenvectors v and w of 3D tensors', () => {
+    const n1 = 11;
+    const n2 = 12;
+    const n3 = 13;
+    const et = new EigenTensors3(n1, n2, n3);
+    const x: number[][][] = zero(n1, n2, n3);
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          et.setEigenvectorU(i1, i2, i3, 1.0, 0.0, 0.0);
+          et.setEigenvectorW(i1, i2, i3, 0.0, 0.0, 1.0);
+          et.setEigenvalues(i1, i2, i3, 0.0, 1.0, 1.0);
+          x[i3][i2][i1] = Math.sin(i1);
+        }
+      }
+    }
+    const y: number[][][] = zero(n1, n2, n3);
+    const lsf = new LocalSmoothingFilter(1.0e-12, 1000);
+    lsf.apply(et, 10.0, x, y);
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          expect(y[i3][i2][i1]).to.be.closeTo(x[i3][i2][i1], 1.0e-9);
+        }
+      }
+    }
+
+    // Random images are smoothed, but their sums are preserved.
+    for (let i3 = 0; i3 < n3; ++i3) {
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) {
+          x[i3][i2][i1] = Math.random() - 0.5;
+        }
+      }
+    }
+    new LocalSmoothingFilter(1.0e-6, 1000).apply(null, 4.0, x, y);
+    expect(sum3(y)).to.be.closeTo(sum3(x), 1.0e-4);
+  });
+
+});
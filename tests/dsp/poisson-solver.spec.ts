@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import 'mocha';
+import { PoissonSolver, Sampling } from '../../src/dsp';
+import { BoundaryCondition } from '../../src/types';
+import { zero } from '../../src/utils';
+
+describe('Poisson Solver', () => {
+
+  const boundaries: BoundaryCondition[] = [ 'Dirichlet', 'Neumann', 'Periodic' ];
+
+  // Index of a neighbor sample, or -1 for a zero value beyond the ends.
+  const neighbor = (boundary: BoundaryCondition, i: number, n: number): number => {
+    if (0 <= i && i < n) { return i; }
+    switch (boundary) {
+      case 'Dirichlet': return -1;
+      case 'Neumann': return ( i < 0 ) ? 0 : n - 1;
+      default: return ( i + n ) % n;
+    }
+  };
+
+  // Second difference of values get(i) in one dimension.
+  const diff2 = (boundary: BoundaryCondition, get: (i: number) => number, i: number, n: number, d: number): number => {
+    const im = neighbor(boundary, i - 1, n);
+    const ip = neighbor(boundary, i + 1, n);
+    const um = ( im < 0 ) ? 0.0 : get(im);
+    const up = ( ip < 0 ) ? 0.0 : get(ip);
+    return ( um - 2.0 * get(i) + up ) / ( d * d );
+  };
+
+  const random2 = (n1: number, n2: number): number[][] =>
+    [ ...Array(n2) ].map(() => zero(n1).map(() => Math.random() - 0.5));
+
+  const removeMean = (u: number[][][]): void => {
+    const values = [].concat(...u.map(u2 => [].concat(...u2)));
+    const mean = values.reduce((s, v) => s + v, 0.0) / values.length;
+    u.forEach(u2 => u2.forEach(u1 => u1.forEach((_, i1) => u1[i1] -= mean)));
+  };
+
+  it('should solve Poisson equations for 2D grids', () => {
+    const s1 = new Sampling(9, 0.5, 0.0);
+    const s2 = new Sampling(7, 2.0, 1.0);
+    const n1 = s1.count, n2 = s2.count;
+    for (const boundary of boundaries) {
+      const u = random2(n1, n2);
+      if (boundary !== 'Dirichlet') { removeMean([ u ]); }
+      const f = u.map((u1, i2) => u1.map((_, i1) =>
+        diff2(boundary, i => u[i2][i], i1, n1, s1.delta) +
+        diff2(boundary, i => u[i][i1], i2, n2, s2.delta)));
+      const ps = new PoissonSolver(s1, s2, boundary);
+      expect(ps.boundary).to.equal(boundary);
+      expect(ps.helmholtz).to.equal(0.0);
+      ps.solve(f, f);
+      for (let i2 = 0; i2 < n2; ++i2) {
+        for (let i1 = 0; i1 < n1; ++i1) { expect(f[i2][i1]).to.be.closeTo(u[i2][i1], 1.0e-8); }
+      }
+    }
+  });
+
+  it('should solve Helmholtz equations for 3D grids', () => {
+    const s1 = new Sampling(6, 1.0, 0.0);
+    const s2 = new Sampling(5, 0.25, 0.0);
+    const s3 = new Sampling(4, 1.5, 0.0);
+    const n1 = s1.count, n2 = s2.count, n3 = s3.count;
+    const a = -0.7;
+    for (const boundary of boundaries) {
+      const u = [ ...Array(n3) ].map(() => random2(n1, n2));
+      const f = u.map((u2, i3) => u2.map((u1, i2) => u1.map((ui, i1) =>
+        diff2(boundary, i => u[i3][i2][i], i1, n1, s1.delta) +
+        diff2(boundary, i => u[i3][i][i1], i2, n2, s2.delta) +
+        diff2(boundary, i => u[i][i2][i1], i3, n3, s3.delta) + a * ui)));
+      const ps = new PoissonSolver(s1, s2, s3, boundary);
+      ps.helmholtz = a;
+      const v = u.map(u2 => u2.map(() => zero(n1)));
+      ps.solve(f, v);
+      for (let i3 = 0; i3 < n3; ++i3) {
+        for (let i2 = 0; i2 < n2; ++i2) {
+          for (let i1 = 0; i1 < n1; ++i1) { expect(v[i3][i2][i1]).to.be.closeTo(u[i3][i2][i1], 1.0e-8); }
+        }
+      }
+    }
+  });
+
+  it('should have zero-mean solutions for Neumann boundaries', () => {
+    const s1 = new Sampling(8);
+    const s2 = new Sampling(8);
+    const f = random2(8, 8);
+    const u = random2(8, 8);
+    new PoissonSolver(s1, s2, 'Neumann').solve(f, u);
+    const sum = u.reduce((s, u1) => s + u1.reduce((t, ui) => t + ui, 0.0), 0.0);
+    expect(sum).to.be.closeTo(0.0, 1.0e-8);
+    expect(() => new PoissonSolver(s1, s2).solve(random2(8, 7), u)).to.throw();
+  });
+
+});
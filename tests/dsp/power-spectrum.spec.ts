@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import 'mocha';
+import { PowerSpectrum, Sampling } from '../../src/dsp';
+import { zero } from '../../src/utils';
+
+describe('Power Spectrum', () => {
+
+  const random1 = (n1: number): number[] => {
+    const x: number[] = zero(n1);
+    for (let i1 = 0; i1 < n1; ++i1) { x[i1] = Math.random() - 0.5; }
+    return x;
+  };
+
+  const meanSquare = (x: number[]): number => x.reduce((s, xi) => s + xi * xi, 0.0) / x.length;
+
+  const total = (ps: PowerSpectrum): number => ps.power.reduce((s, p) => s + p, 0.0) * ps.frequencySampling.delta;
+
+  it('should have periodograms consistent with Parseval\'s theorem', () => {
+    const sx = new Sampling(150, 0.002, 0.0);
+    const x = random1(sx.count);
+    const p1 = PowerSpectrum.Periodogram(sx, x);
+    const p2 = PowerSpectrum.Periodogram(sx, x, 'Rectangular', 'TwoSided');
+    const s1 = p1.frequencySampling;
+    const s2 = p2.frequencySampling;
+    expect(s1.first).to.equal(0.0);
+    expect(s1.last).to.be.closeTo(250.0, 1.0e-9);
+    expect(s2.count).to.equal(2 * ( s1.count - 1 ));
+    expect(s2.first).to.be.closeTo(-250.0, 1.0e-9);
+    expect(total(p1)).to.be.closeTo(meanSquare(x), 1.0e-9);
+    expect(total(p2)).to.be.closeTo(meanSquare(x), 1.0e-9);
+    const a1 = p1.amplitude;
+    const q1 = p1.power;
+    for (let k = 0; k < s1.count; ++k) { expect(a1[k] * a1[k]).to.be.closeTo(q1[k], 1.0e-12); }
+  });
+
+  it('should locate the frequency of a sinusoid', () => {
+    const sx = new Sampling(256, 0.01, 0.0);
+    const f = 12.5;
+    const x: number[] = zero(256).map((_, i) => 2.0 * Math.cos(2.0 * Math.PI * f * sx.valueAt(i) + 0.3));
+    for (const ps of [ PowerSpectrum.Periodogram(sx, x, 'Hann'),
+                       PowerSpectrum.Welch(sx, x, 64, 32),
+                       PowerSpectrum.Multitaper(sx, x, 3.0) ]) {
+      const p = ps.power;
+      const sf = ps.frequencySampling;
+      let kmax = 0;
+      for (let k = 1; k < p.length; ++k) { if (p[k] > p[kmax]) { kmax = k; } }
+      expect(sf.valueAt(kmax)).to.be.closeTo(f, sf.delta);
+      expect(total(ps)).to.be.closeTo(2.0, 0.1);
+    }
+  });
+
+  it('should estimate the level of white noise', () => {
+    const n = 4096;
+    const sx = new Sampling(n, 0.5, 0.0);
+    const x = random1(n);
+    const level = 2.0 * meanSquare(x) * sx.delta;
+    for (const ps of [ PowerSpectrum.Welch(sx, x, 128, 64, 'Hann', 'OneSided'),
+                       PowerSpectrum.Multitaper(sx, x, 4.0, 7) ]) {
+      const p = ps.power;
+      let mean = 0.0;
+      for (let k = 1; k < p.length - 1; ++k) { mean += p[k]; }
+      mean /= p.length - 2;
+      expect(mean).to.be.closeTo(level, 0.1 * level);
+    }
+  });
+
+  it('should compute orthonormal and concentrated DPSS tapers', () => {
+    const n = 64;
+    const nw = 3.0;
+    const w = nw / n;
+    const v = PowerSpectrum.Dpss(n, nw, 5);
+    for (let j = 0; j < 5; ++j) {
+      for (let k = 0; k < 5; ++k) {
+        let s = 0.0;
+        for (let i = 0; i < n; ++i) { s += v[j][i] * v[k][i]; }
+        expect(s).to.be.closeTo(( j === k ) ? 1.0 : 0.0, 1.0e-9);
+      }
+      const parity = ( j % 2 === 0 ) ? 1.0 : -1.0;
+      for (let i = 0; i < n; ++i) { expect(v[j][n - 1 - i]).to.be.closeTo(parity * v[j][i], 1.0e-9); }
+      let sign = 0.0;
+      for (let i = 0; i < n; ++i) { sign += ( ( j % 2 === 0 ) ? 1.0 : n - 1 - 2 * i ) * v[j][i]; }
+      expect(sign).to.be.above(0.0);
+
+      // Energy concentration in the band [-w, w].
+      let c = 0.0;
+      for (let i = 0; i < n; ++i) {
+        for (let l = 0; l < n; ++l) {
+          const a = ( i === l ) ? 2.0 * w : Math.sin(2.0 * Math.PI * w * ( i - l )) / ( Math.PI * ( i - l ) );
+          c += v[j][i] * a * v[j][l];
+        }
+      }
+      expect(c).to.be.above(( j < 4 ) ? 0.99 : 0.9);
+    }
+  });
+
+  it('should require valid arguments', () => {
+    const sx = new Sampling(10);
+    const x = random1(10);
+    expect(() => PowerSpectrum.Periodogram(sx, random1(9))).to.throw();
+    expect(() => PowerSpectrum.Welch(sx, x, 11, 5)).to.throw();
+    expect(() => PowerSpectrum.Welch(sx, x, 4, 0)).to.throw();
+    expect(() => PowerSpectrum.Dpss(10, 5.0, 2)).to.throw();
+    expect(() => PowerSpectrum.Periodogram(new Sampling([ 0.0, 1.0, 3.0 ]), [ 1.0, 2.0, 3.0 ])).to.throw();
+  });
+
+});
@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Recursive2ndOrderFilter } from '../../src/dsp';
+
+describe('Recursive 2nd-Order Filter', () => {
+
+  it('should apply a 1st-order filter in either direction', () => {
+    const rf = new Recursive2ndOrderFilter(1.0, 0.0, 0.0, -0.5, 0.0);
+    const x = [ 0.0, 1.0, 0.0, 0.0, 0.0 ];
+    const y = x.slice();
+    rf.applyForward(y, y);
+    expect(y).to.deep.equal([ 0.0, 1.0, 0.5, 0.25, 0.125 ]);
+    rf.applyReverse(x, y);
+    expect(y).to.deep.equal([ 0.5, 1.0, 0.0, 0.0, 0.0 ]);
+  });
+
+
+  it('should filter 2D and 3D arrays along the specified dimension', () => {
+    const rf = new Recursive2ndOrderFilter(1.0, 0.0, 0.0, -0.5, 0.0);
+    const x = [ [ 1.0, 0.0, 0.0 ], [ 0.0, 0.0, 0.0 ] ];
+    const y = [ [ 0.0, 0.0, 0.0 ], [ 0.0, 0.0, 0.0 ] ];
+    rf.applyForward(x, y, 1);
+    expect(y).to.deep.equal([ [ 1.0, 0.5, 0.25 ], [ 0.0, 0.0, 0.0 ] ]);
+    rf.applyForward(x, y, 2);
+    expect(y).to.deep.equal([ [ 1.0, 0.0, 0.0 ], [ 0.5, 0.0, 0.0 ] ]);
+
+    const x3 = [ [ [ 0.0, 0.0 ] ], [ [ 0.0, 0.0 ] ], [ [ 0.0, 1.0 ] ] ];
+    const y3 = [ [ [ 0.0, 0.0 ] ], [ [ 0.0, 0.0 ] ], [ [ 0.0, 0.0 ] ] ];
+    rf.applyReverse(x3, y3, 3);
+    expect(y3).to.deep.equal([ [ [ 0.0, 0.25 ] ], [ [ 0.0, 0.5 ] ], [ [ 0.0, 1.0 ] ] ]);
+    rf.applyReverse(x3, y3, 1);
+    expect(y3).to.deep.equal([ [ [ 0.0, 0.0 ] ], [ [ 0.0, 0.0 ] ], [ [ 0.5, 1.0 ] ] ]);
+    expect(() => rf.applyForward(x3, y3, 4)).to.throw();
+  });
+
+  it('should apply a zero-phase filter forward and reverse', () => {
+    const rf = new Recursive2ndOrderFilter(1.0, 0.0, 0.0, -0.5, 0.0);
+    const x = [ 0.0, 0.0, 1.0, 0.0, 0.0 ];
+    const y = x.slice();
+    rf.applyForwardReverse(y, y);
+    expect(y).to.deep.equal([ 0.328125, 0.65625, 1.3125, 0.625, 0.25 ]);
+
+    const y2 = [ x.slice(), x.slice() ];
+    rf.applyForwardReverse([ x, x ], y2, 1);
+    for (const y2i of y2) {
+      expect(y2i).to.deep.equal(y);
+    }
+  });
+
+});
@@ -0,0 +1,38 @@
+import { expect } from 'chai';
+import 'mocha';
+import { RecursiveCascadeFilter } from '../../src/dsp';
+
+describe('Recursive Cascade Filter', () => {
+
+  it('should cascade poles and zeros into 2nd-order sections', () => {
+    const r = 0.8;
+    const t = Math.PI / 5.0;
+    const poles = [ [ r * Math.cos(t), r * Math.sin(t) ], [ r * Math.cos(t), -r * Math.sin(t) ], [ 0.3, 0.0 ] ];
+    const zeros = [ [ -1.0, 0.0 ] ];
+    const rf = new RecursiveCascadeFilter(poles, zeros, 2.0);
+    const f = 0.13;
+    const zi = [ Math.cos(2.0 * Math.PI * f), -Math.sin(2.0 * Math.PI * f) ];
+    let hr = 2.0;
+    let hi = 0.0;
+    const factor = (c: number[], inverse: boolean) => {
+      const ar = 1.0 - ( c[0] * zi[0] - c[1] * zi[1] );
+      const ai = -( c[0] * zi[1] + c[1] * zi[0] );
+      const s = ( inverse ) ? 1.0 / ( ar * ar + ai * ai ) : 1.0;
+      const br = ar * s;
+      const bi = ( inverse ) ? -ai * s : ai;
+      const tr = hr * br - hi * bi;
+      hi = hr * bi + hi * br;
+      hr = tr;
+    };
+    zeros.forEach(z => factor(z, false));
+    poles.forEach(p => factor(p, true));
+    const h = rf.frequencyResponse(f);
+    expect(h[0]).to.be.closeTo(hr, 1.0e-12);
+    expect(h[1]).to.be.closeTo(hi, 1.0e-12);
+  });
+
+  it('should require complex poles in conjugate pairs', () => {
+    expect(() => new RecursiveCascadeFilter([ [ 0.5, 0.5 ], [ 0.5, 0.4 ] ], [], 1.0)).to.throw();
+  });
+
+});
@@ -0,0 +1,165 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Fft, RecursiveGaussianFilter } from '../../src/dsp';
+import { zero } from '../../src/utils';
+import { RecursiveGaussianMethod } from '../../src/types';
+
+describe('Recursive Gaussian Filter', () => {
+
+  // Multiplies a complex value in frequency by the transfer function of a
+  // Gaussian with specified sigma and derivative order d, where w = 2*pi*k.
+  const gaussianDerivative = (sigma: number, d: number, w: number, cr: number, ci: number): number[] => {
+    const s = Math.exp(-0.5 * w * w * sigma * sigma);
+    let hr = s;
+    let hi = 0.0;
+    for (let i = 0; i < d; ++i) {
+      const tr = -hi * w;
+      const ti = hr * w;
+      hr = tr;
+      hi = ti;
+    }
+    return [ hr * cr - hi * ci, hr * ci + hi * cr ];
+  };
+
+  // Applies a Gaussian derivative filter via multiplication in frequency.
+  const fftGaussian1 = (sigma: number, d1: number, x: number[]): number[] => {
+    const fft = new Fft(x);
+    fft.center = true;
+    const g = fft.applyForward(x);
+    const sk1 = fft.frequencySampling1;
+    for (let ik1 = 0; ik1 < sk1.count; ++ik1) {
+      const w1 = 2.0 * Math.PI * sk1.valueAt(ik1);
+      const c = gaussianDerivative(sigma, d1, w1, g[2 * ik1], g[2 * ik1 + 1]);
+      g[2 * ik1] = c[0];
+      g[2 * ik1 + 1] = c[1];
+    }
+    return fft.applyInverse(g);
+  };
+
+  const fftGaussian2 = (sigma: number, d1: number, d2: number, x: number[][]): number[][] => {
+    const fft = new Fft(x);
+    fft.center = true;
+    const g = fft.applyForward(x);
+    const sk1 = fft.frequencySampling1;
+    const sk2 = fft.frequencySampling2;
+    for (let ik2 = 0; ik2 < sk2.count; ++ik2) {
+      const w2 = 2.0 * Math.PI * sk2.valueAt(ik2);
+      for (let ik1 = 0; ik1 < sk1.count; ++ik1) {
+        const w1 = 2.0 * Math.PI * sk1.valueAt(ik1);
+        let c = gaussianDerivative(sigma, d1, w1, g[ik2][2 * ik1], g[ik2][2 * ik1 + 1]);
+        c = gaussianDerivative(sigma, d2, w2, c[0], c[1]);
+        g[ik2][2 * ik1] = c[0];
+        g[ik2][2 * ik1 + 1] = c[1];
+      }
+    }
+    return fft.applyInverse(g);
+  };
+
+  const fftGaussian3 = (sigma: number, d1: number, d2: number, d3: number, x: number[][][]): number[][][] => {
+    const fft = new Fft(x);
+    fft.center = true;
+    const g = fft.applyForward(x);
+    const sk1 = fft.frequencySampling1;
+    const sk2 = fft.frequencySampling2;
+    const sk3 = fft.frequencySampling3;
+    for (let ik3 = 0; ik3 < sk3.count; ++ik3) {
+      const w3 = 2.0 * Math.PI * sk3.valueAt(ik3);
+      for (let ik2 = 0; ik2 < sk2.count; ++ik2) {
+        const w2 = 2.0 * Math.PI * sk2.valueAt(ik2);
+        for (let ik1 = 0; ik1 < sk1.count; ++ik1) {
+          const w1 = 2.0 * Math.PI * sk1.valueAt(ik1);
+          let c = gaussianDerivative(sigma, d1, w1, g[ik3][ik2][2 * ik1], g[ik3][ik2][2 * ik1 + 1]);
+          c = gaussianDerivative(sigma, d2, w2, c[0], c[1]);
+          c = gaussianDerivative(sigma, d3, w3, c[0], c[1]);
+          g[ik3][ik2][2 * ik1] = c[0];
+          g[ik3][ik2][2 * ik1 + 1] = c[1];
+        }
+      }
+    }
+    return fft.applyInverse(g);
+  };
+
+  // Asserts arrays are equal to within a fraction of the maximum magnitude.
+  const assertRelativelyEqual = (e: number[], a: number[], fraction: number): void => {
+    let emax = 0.0;
+    for (const ei of e) { emax = Math.max(emax, Math.abs(ei)); }
+    const tolerance = fraction * emax;
+    for (let i = 0; i < e.length; ++i) {
+      expect(a[i]).to.be.closeTo(e[i], tolerance);
+    }
+  };
+
+  const flatten2 = (x: number[][]): number[] => [].concat(...x);
+  const flatten3 = (x: number[][][]): number[] => [].concat(...x.map(flatten2));
+
+  const tests: Array<{ method: RecursiveGaussianMethod, sigma: number, tolerance: number }> = [
+    { method: 'Deriche', sigma: 2.0, tolerance: 0.01 },
+    { method: 'Deriche', sigma: 8.0, tolerance: 0.01 },
+    { method: 'VanVliet', sigma: 8.0, tolerance: 0.03 },
+    { method: 'VanVliet', sigma: 40.0, tolerance: 0.03 },
+  ];
+
+  tests.forEach(({ method, sigma, tolerance }) => {
+
+    it(`should match FFT for 1D derivatives (${method}, sigma = ${sigma})`, () => {
+      const n1 = 1 + 2 * Math.ceil(10.0 * sigma);
+      const x: number[] = zero(n1);
+      x[Math.floor(n1 / 2)] = 1.0;
+      const rgf = new RecursiveGaussianFilter(sigma, method);
+      const y: number[] = zero(n1);
+      rgf.apply0(x, y);
+      assertRelativelyEqual(fftGaussian1(sigma, 0, x), y, tolerance);
+      rgf.apply1(x, y);
+      assertRelativelyEqual(fftGaussian1(sigma, 1, x), y, tolerance);
+      rgf.apply2(x, y);
+      assertRelativelyEqual(fftGaussian1(sigma, 2, x), y, tolerance);
+    });
+
+  });
+
+  it('should match FFT for 2D derivatives', () => {
+    const sigma = 3.0;
+    const n1 = 61;
+    const n2 = 63;
+    const x: number[][] = zero(n1, n2);
+    x[Math.floor(n2 / 2)][Math.floor(n1 / 2)] = 1.0;
+    const rgf = new RecursiveGaussianFilter(sigma, 'Deriche');
+    const y: number[][] = zero(n1, n2);
+    rgf.apply00(x, y);
+    assertRelativelyEqual(flatten2(fftGaussian2(sigma, 0, 0, x)), flatten2(y), 0.01);
+    rgf.apply10(x, y);
+    assertRelativelyEqual(flatten2(fftGaussian2(sigma, 1, 0, x)), flatten2(y), 0.01);
+    rgf.apply01(x, y);
+    assertRelativelyEqual(flatten2(fftGaussian2(sigma, 0, 1, x)), flatten2(y), 0.01);
+    rgf.apply11(x, y);
+    assertRelativelyEqual(flatten2(fftGaussian2(sigma, 1, 1, x)), flatten2(y), 0.01);
+    rgf.apply20(x, y);
+    assertRelativelyEqual(flatten2(fftGaussian2(sigma, 2, 0, x)), flatten2(y), 0.01);
+    rgf.apply02(x, y);
+    assertRelativelyEqual(flatten2(fftGaussian2(sigma, 0, 2, x)), flatten2(y), 0.01);
+  });
+
+  it('should match FFT for 3D derivatives', () => {
+    const sigma = 1.5;
+    const n1 = 19;
+    const n2 = 21;
+    const n3 = 23;
+    const x: number[][][] = zero(n1, n2, n3);
+    x[Math.floor(n3 / 2)][Math.floor(n2 / 2)][Math.floor(n1 / 2)] = 1.0;
+    const rgf = new RecursiveGaussianFilter(sigma, 'Deriche');
+    const y: number[][][] = zero(n1, n2, n3);
+    rgf.apply000(x, y);
+    assertRelativelyEqual(flatten3(fftGaussian3(sigma, 0, 0, 0, x)), flatten3(y), 0.01);
+    rgf.apply100(x, y);
+    assertRelativelyEqual(flatten3(fftGaussian3(sigma, 1, 0, 0, x)), flatten3(y), 0.01);
+    rgf.apply011(x, y);
+    assertRelativelyEqual(flatten3(fftGaussian3(sigma, 0, 1, 1, x)), flatten3(y), 0.01);
+    rgf.apply002(x, y);
+    assertRelativelyEqual(flatten3(fftGaussian3(sigma, 0, 0, 2, x)), flatten3(y), 0.01);
+  });
+
+  it('should require sigma not less than one', () => {
+    expect(() => new RecursiveGaussianFilter(0.5)).to.throw();
+  });
+
+});
@@ -196,4 +196,118 @@ describe('Sampling', () => {
     expect(() => s.interpolate(1.5)).to.throw('m is an integer');
   });
 
+  describe('non-uniform', () => {
+
+    let u: Sampling;
+
+    beforeEach(() => {
+      u = new Sampling([ 1.0, 1.5, 3.0, 3.25, 5.0 ]);
+    });
+
+    it('should construct a non-uniform sampling from values', () => {
+      expect(u.isUniform()).to.be.false;
+      expect(u.count).to.equal(5);
+      expect(u.first).to.equal(1.0);
+      expect(u.last).to.equal(5.0);
+      expect(u.delta).to.equal(1.0);
+      expect(u.values()).to.deep.equal([ 1.0, 1.5, 3.0, 3.25, 5.0 ]);
+      expect(u.valueAt(3)).to.equal(3.25);
+    });
+
+    it('should construct a uniform sampling from uniform values', () => {
+      const t = new Sampling([ 2.0, 2.5, 3.0 + 1.0e-9, 3.5 ]);
+      expect(t.isUniform()).to.be.true;
+      expect(t.delta).to.equal(0.5);
+      expect(t.valueAt(2)).to.equal(3.0);
+      expect(new Sampling([ 7.0 ]).isUniform()).to.be.true;
+      expect(s.isUniform()).to.be.true;
+    });
+
+    it('should require increasing values', () => {
+      expect(() => new Sampling([ 1.0, 2.0, 2.0 ])).to.throw('v is increasing');
+      expect(() => new Sampling([ 3.0, 2.0 ])).to.throw('v is increasing');
+      expect(() => new Sampling([])).to.throw('v.length > 0');
+    });
+
+    it('should get indices of values', () => {
+      expect(u.indexOf(1.5)).to.equal(1);
+      expect(u.indexOf(3.25 + 1.0e-9)).to.equal(3);
+      expect(u.indexOf(5.0)).to.equal(4);
+      expect(u.indexOf(2.0)).to.equal(-1);
+      expect(u.indexOf(6.0)).to.equal(-1);
+    });
+
+    it('should get indices of nearest values', () => {
+      expect(u.indexOfNearest(0.0)).to.equal(0);
+      expect(u.indexOfNearest(2.0)).to.equal(1);
+      expect(u.indexOfNearest(2.6)).to.equal(2);
+      expect(u.indexOfNearest(3.2)).to.equal(3);
+      expect(u.indexOfNearest(4.5)).to.equal(4);
+      expect(u.indexOfNearest(9.0)).to.equal(4);
+      expect(u.valueOfNearest(3.1)).to.equal(3.0);
+    });
+
+    it('should decimate and interpolate values', () => {
+      expect(u.decimate(2).values()).to.deep.equal([ 1.0, 3.0, 5.0 ]);
+      expect(u.decimate(3).values()).to.deep.equal([ 1.0, 3.25 ]);
+      const t = u.interpolate(2);
+      expect(t.isUniform()).to.be.false;
+      expect(t.values()).to.deep.equal([ 1.0, 1.25, 1.5, 2.25, 3.0, 3.125, 3.25, 4.125, 5.0 ]);
+    });
+
+    it('should shift values', () => {
+      expect(u.shift(1.0).values()).to.deep.equal([ 2.0, 2.5, 4.0, 4.25, 6.0 ]);
+    });
+
+    it('should not prepend or append values', () => {
+      expect(() => u.prepend(1)).to.throw('sampling is uniform');
+      expect(() => u.append(1)).to.throw('sampling is uniform');
+    });
+
+  });
+
+  describe('compatibility', () => {
+
+    it('should determine whether samplings overlap', () => {
+      const a = new Sampling(5, 1.0, 0.0);
+      expect(a.overlaps(new Sampling(3, 1.0, 4.0))).to.be.true;
+      expect(a.overlaps(new Sampling(3, 1.0, -1.5))).to.be.true;
+      expect(a.overlaps(new Sampling(3, 1.0, 4.5))).to.be.false;
+      expect(a.overlaps(new Sampling([ -3.0, -2.0, -0.5 ]))).to.be.false;
+    });
+
+    it('should determine whether samplings are compatible', () => {
+      const a = new Sampling(5, 1.0, 0.0);
+      expect(a.isCompatible(new Sampling(4, 1.0, 2.0))).to.be.true;
+      expect(a.isCompatible(new Sampling(3, 1.0, 10.5))).to.be.true;
+      expect(a.isCompatible(new Sampling(3, 1.0, 2.5))).to.be.false;
+      expect(a.isCompatible(new Sampling(3, 2.0, 0.0))).to.be.false;
+      expect(a.isCompatible(new Sampling(3, 0.5, 0.0))).to.be.false;
+      expect(a.isCompatible(new Sampling([ 1.0, 2.0, 3.0, 4.0, 7.0 ]))).to.be.true;
+      expect(a.isCompatible(new Sampling([ 1.0, 2.0, 3.0, 7.0 ]))).to.be.false;
+      expect(a.isCompatible(new Sampling([ 1.0, 2.5, 3.0, 7.0 ]))).to.be.false;
+      expect(new Sampling([ 1.0, 2.5, 3.0, 7.0 ]).isCompatible(a)).to.be.false;
+    });
+
+    it('should merge compatible samplings', () => {
+      const a = new Sampling(5, 1.0, 0.0);
+      const b = a.mergeWith(new Sampling(4, 1.0, 3.0));
+      expect(b.isUniform()).to.be.true;
+      expect(b.count).to.equal(7);
+      expect(b.first).to.equal(0.0);
+      expect(b.last).to.equal(6.0);
+      const c = a.mergeWith(new Sampling([ 4.0, 6.5, 9.0 ]));
+      expect(c.isUniform()).to.be.false;
+      expect(c.values()).to.deep.equal([ 0.0, 1.0, 2.0, 3.0, 4.0, 6.5, 9.0 ]);
+      const d = new Sampling(2, 1.0, 10.0).mergeWith(a);
+      expect(d.values()).to.deep.equal([ 0.0, 1.0, 2.0, 3.0, 4.0, 10.0, 11.0 ]);
+    });
+
+    it('should not merge incompatible samplings', () => {
+      const a = new Sampling(5, 1.0, 0.0);
+      expect(() => a.mergeWith(new Sampling(3, 1.0, 2.5))).to.throw('samplings are compatible');
+    });
+
+  });
+
 });
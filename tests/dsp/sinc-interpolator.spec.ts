@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Sampling, SincInterpolator } from '../../src/dsp';
+
+describe('Sinc Interpolator', () => {
+
+  const cosine = (f: number, x: number): number => Math.cos(2.0 * Math.PI * f * x + 0.3);
+
+  it('should interpolate band-limited values in 1D', () => {
+    const s = new Sampling(201, 0.5, -50.0);
+    const f = 0.3 / s.delta;
+    const si = new SincInterpolator(s, s.values().map(x => cosine(f, x)));
+    expect(si.length).to.equal(8);
+    expect(si.maxFrequency).to.equal(0.3);
+    for (let x = -25.0; x < 25.0; x += 0.0173) {
+      expect(si.interpolate(x)).to.be.closeTo(cosine(f, x), 0.01);
+    }
+  });
+
+  it('should be more accurate for longer sincs', () => {
+    const s = new Sampling(201);
+    const si = new SincInterpolator(s, s.values().map(x => cosine(0.1, x)));
+    si.length = 16;
+    si.maxFrequency = 0.1;
+    for (let x = 50.0; x < 150.0; x += 0.0371) {
+      expect(si.interpolate(x)).to.be.closeTo(cosine(0.1, x), 1.0e-4);
+    }
+  });
+
+  it('should interpolate band-limited values in 2D and 3D', () => {
+    const s1 = new Sampling(41);
+    const s2 = new Sampling(43);
+    const s3 = new Sampling(21);
+    const f = (x1: number, x2: number, x3: number) => cosine(0.2, x1) * cosine(0.1, x2) * cosine(0.05, x3);
+    const y3 = s3.values().map(x3 => s2.values().map(x2 => s1.values().map(x1 => f(x1, x2, x3))));
+    const y2 = y3[0];
+    const si2 = new SincInterpolator(s1, s2, y2);
+    const si3 = new SincInterpolator(s1, s2, s3, y3);
+    for (const [ x1, x2, x3 ] of [ [ 10.3, 20.7, 8.5 ], [ 19.9, 13.01, 9.3 ], [ 25.5, 30.25, 11.0 ] ]) {
+      expect(si2.interpolate(x1, x2)).to.be.closeTo(f(x1, x2, 0.0), 0.02);
+      expect(si3.interpolate(x1, x2, x3)).to.be.closeTo(f(x1, x2, x3), 0.03);
+    }
+  });
+
+  it('should reproduce sample values', () => {
+    const s = new Sampling(5, 2.0, 1.0);
+    const y = [ 3.0, -1.0, 4.0, 1.0, -5.0 ];
+    const si = new SincInterpolator(s, y);
+    for (let i = 0; i < y.length; ++i) {
+      expect(si.interpolate(s.valueAt(i))).to.equal(y[i]);
+    }
+  });
+
+  it('should extrapolate with zero values or zero slopes', () => {
+    const s = new Sampling(5);
+    const si = new SincInterpolator(s, [ 2.0, 2.0, 2.0, 2.0, 2.0 ]);
+    expect(si.extrapolation).to.equal('ZeroValue');
+    expect(si.interpolate(-0.5)).to.equal(0.0);
+    expect(si.interpolate(4.5)).to.equal(0.0);
+    expect(si.interpolate(3.5)).to.not.be.closeTo(2.0, 0.01);
+    si.extrapolation = 'ZeroSlope';
+    expect(si.interpolate(-0.5)).to.equal(2.0);
+    expect(si.interpolate(3.5)).to.be.closeTo(2.0, 0.02);
+  });
+
+  it('should require a valid length and maximum frequency', () => {
+    const si = new SincInterpolator(new Sampling(2), [ 1.0, 2.0 ]);
+    expect(() => { si.length = 7; }).to.throw();
+    expect(() => { si.maxFrequency = 0.5; }).to.throw();
+  });
+
+});
@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Sampling, Stft } from '../../src/dsp';
+import { zero } from '../../src/utils';
+
+describe('Short-Time Fourier Transform', () => {
+
+  const random1 = (n1: number): number[] => {
+    const x: number[] = zero(n1);
+    for (let i1 = 0; i1 < n1; ++i1) { x[i1] = Math.random() - 0.5; }
+    return x;
+  };
+
+  it('should reconstruct signals exactly by overlap-add', () => {
+    for (const [ nx, nwin, hop ] of [ [ 100, 16, 4 ], [ 101, 15, 7 ], [ 37, 20, 20 ], [ 5, 32, 8 ] ]) {
+      for (const window of [ 'Hann', 'Hamming', 'Blackman', 'Rectangular' ] as const) {
+        if (window !== 'Rectangular' && window !== 'Hamming' && hop === nwin) { continue; }
+        const stft = new Stft(nx, nwin, hop, window);
+        const x = random1(nx);
+        const c = stft.applyForward(x);
+        expect(c.length).to.equal(stft.timeSampling.count);
+        expect(c[0].length).to.equal(2 * stft.frequencySampling.count);
+        const y = stft.applyInverse(c);
+        for (let i = 0; i < nx; ++i) { expect(y[i]).to.be.closeTo(x[i], 1.0e-6); }
+      }
+    }
+  });
+
+  it('should have time and frequency samplings consistent with the signal', () => {
+    const sx = new Sampling(200, 0.004, 1.0);
+    const stft = new Stft(sx, 50, 10);
+    const st = stft.timeSampling;
+    const sf = stft.frequencySampling;
+    expect(st.count).to.equal(21);
+    expect(st.delta).to.be.closeTo(0.04, 1.0e-12);
+    expect(st.first).to.equal(1.0);
+    expect(st.last).to.be.at.least(sx.last);
+    expect(sf.first).to.equal(0.0);
+    expect(sf.count).to.equal(stft.nfft / 2 + 1);
+    expect(sf.last).to.be.closeTo(0.5 / sx.delta, 1.0e-9);
+    expect(stft.nfft).to.be.at.least(50);
+  });
+
+  it('should locate a chirp in its spectrogram', () => {
+    const nx = 512;
+    const x: number[] = zero(nx);
+    for (let i = 0; i < nx; ++i) {
+      x[i] = Math.cos(2.0 * Math.PI * ( 0.05 * i + 0.15 * i * i / nx ));
+    }
+    const stft = new Stft(nx, 64, 16);
+    const p = stft.spectrogram(x);
+    const st = stft.timeSampling;
+    const sf = stft.frequencySampling;
+    for (let it = 4; it < st.count - 4; ++it) {
+      let kmax = 0;
+      for (let kf = 1; kf < sf.count; ++kf) { if (p[it][kf] > p[it][kmax]) { kmax = kf; } }
+      const f = 0.05 + 0.3 * st.valueAt(it) / nx;
+      expect(sf.valueAt(kmax)).to.be.closeTo(f, 2.0 * sf.delta);
+    }
+  });
+
+  it('should accept custom windows and require valid parameters', () => {
+    const w = [ 0.5, 1.0, 1.0, 0.5 ];
+    const stft = new Stft(10, 4, 2, w);
+    expect(stft.window).to.deep.equal(w);
+    const x = random1(10);
+    const y = stft.applyInverse(stft.applyForward(x));
+    for (let i = 0; i < 10; ++i) { expect(y[i]).to.be.closeTo(x[i], 1.0e-6); }
+    expect(() => new Stft(10, 4, 5)).to.throw();
+    expect(() => new Stft(10, 4, 4, 'Hann')).to.throw();
+    expect(() => new Stft(10, 4, 2, [ 1.0, 1.0 ])).to.throw();
+    expect(() => new Stft(new Sampling([ 0.0, 1.0, 3.0 ]), 2, 1)).to.throw();
+  });
+
+});
@@ -1,21 +1,67 @@
 import { expect } from 'chai';
 import 'mocha';
 import {
+  abs,
+  add,
   almostEqual,
+  argmax,
+  argmin,
+  argsort,
   arrayDimensions,
   binarySearch,
+  cabs,
+  cadd,
+  carg,
   ccopy,
+  cconj,
+  cdiv,
+  cexp,
+  clip,
+  clog,
+  cmplx,
+  cmul,
   copy,
+  cos,
   cosFromSin,
+  csqrt,
+  csub,
+  distinct,
+  div,
+  equal,
+  exp,
+  imag,
   isDecreasing,
   isIncreasing,
   isMonotonic,
+  log,
+  log10,
+  max,
+  min,
+  mul,
+  neg,
+  polar,
+  pow,
+  prod,
+  quickIndexSort,
   quickPartialSort,
   ramp,
+  rampint,
+  rand,
+  randfloat,
+  randn,
+  Random,
+  real,
+  reverse,
+  sgn,
+  sin,
+  sqrt,
+  sub,
+  sum,
   toDegrees,
   toRadians,
 } from '../../src/utils';
 import { czero, fill, zero } from '../../src/utils/array-math';
+import { MultiArray } from '../../src/types';
 
 describe('Array Math', () => {
 
@@ -162,6 +208,11 @@ describe('Array Math', () => {
       expect(arrayDimensions(a2)).to.equal(2);
       expect(arrayDimensions(a3)).to.equal(3);
     });
+
+    it('should get dimensions of typed arrays', () => {
+      expect(arrayDimensions(new Float32Array(4))).to.equal(1);
+      expect(arrayDimensions([ new Float64Array(2), new Float64Array(2) ])).to.equal(2);
+    });
   });
 
   describe('#copy()', () => {
@@ -806,5 +857,276 @@ describe('Array Math', () => {
       }
     }
   });
+
+  describe('#add(), #sub(), #mul(), #div()', () => {
+    it('should compute elementwise binary operations of arrays and values', () => {
+      const rx = [ 1, 2, 3 ];
+      const ry = [ 4, 5, 6 ];
+      expect(add(rx, ry)).to.deep.equal([ 5, 7, 9 ]);
+      expect(add(rx, 1)).to.deep.equal([ 2, 3, 4 ]);
+      expect(sub(rx, ry)).to.deep.equal([ -3, -3, -3 ]);
+      expect(sub(10, rx)).to.deep.equal([ 9, 8, 7 ]);
+      expect(mul(rx, ry)).to.deep.equal([ 4, 10, 18 ]);
+      expect(mul(2, rx)).to.deep.equal([ 2, 4, 6 ]);
+      expect(div(ry, 2)).to.deep.equal([ 2, 2.5, 3 ]);
+      expect(div(ry, rx)).to.deep.equal([ 4, 2.5, 2 ]);
+      expect(pow(rx, 2)).to.deep.equal([ 1, 4, 9 ]);
+      expect(pow(2, rx)).to.deep.equal([ 2, 4, 8 ]);
+      expect(max(rx, 2)).to.deep.equal([ 2, 2, 3 ]);
+      expect(min([ 1, 7, 3 ], ry)).to.deep.equal([ 1, 5, 3 ]);
+      expect(rx).to.deep.equal([ 1, 2, 3 ]);
+      expect(() => add(rx, [ 1, 2 ])).to.throw();
+    });
+
+    it('should compute elementwise binary operations of 2D and 3D arrays', () => {
+      const rx = [ [ 1, 2 ], [ 3, 4 ] ];
+      expect(add(rx, rx)).to.deep.equal([ [ 2, 4 ], [ 6, 8 ] ]);
+      expect(sub(rx, 1)).to.deep.equal([ [ 0, 1 ], [ 2, 3 ] ]);
+      const r3 = [ rx, rx ];
+      expect(mul(r3, 3)).to.deep.equal([ [ [ 3, 6 ], [ 9, 12 ] ], [ [ 3, 6 ], [ 9, 12 ] ] ]);
+      expect(() => add(rx, [ [ 1, 2 ] ])).to.throw();
+    });
+
+    it('should require arrays with the same number of dimensions', () => {
+      const r1 = [ 1, 2 ] as MultiArray;
+      const r2 = [ [ 1, 2 ], [ 3, 4 ] ] as MultiArray;
+      const r3 = [ [ [ 1, 2 ] ], [ [ 3, 4 ] ] ] as MultiArray;
+      expect(() => add(r2, r1)).to.throw();
+      expect(() => mul(r1, r3)).to.throw();
+      expect(() => add(r2, 1, r1)).to.throw();
+      expect(() => abs(r1, r2)).to.throw();
+    });
+
+    it('should compute elementwise binary operations in place', () => {
+      const rx = [ [ 1, 2 ], [ 3, 4 ] ];
+      const rz = zero(2, 2);
+      expect(add(rx, 1, rz)).to.be.undefined;
+      expect(rz).to.deep.equal([ [ 2, 3 ], [ 4, 5 ] ]);
+      mul(rx, rx, rx);
+      expect(rx).to.deep.equal([ [ 1, 4 ], [ 9, 16 ] ]);
+      div(1, rx[0], rx[0]);
+      expect(rx[0]).to.deep.equal([ 1, 0.25 ]);
+      expect(() => sub(rx, 1, [ [ 0, 0 ] ])).to.throw();
+    });
+  });
+
+  describe('#abs(), #neg(), #sgn(), #sqrt(), #exp(), #log(), #log10(), #sin(), #cos()', () => {
+    it('should compute elementwise unary operations', () => {
+      const rx = [ -2, 0, 3 ];
+      expect(abs(rx)).to.deep.equal([ 2, 0, 3 ]);
+      expect(neg(rx)).to.deep.equal([ 2, -0, -3 ]);
+      expect(sgn(rx)).to.deep.equal([ -1, 0, 1 ]);
+      expect(sqrt([ 4, 9 ])).to.deep.equal([ 2, 3 ]);
+      expect(exp([ 0, 1 ])).to.deep.equal([ 1, Math.E ]);
+      expect(log([ 1, Math.E ])).to.deep.equal([ 0, 1 ]);
+      expect(log10([ [ 1, 10 ], [ 100, 1000 ] ])).to.deep.equal([ [ 0, 1 ], [ 2, 3 ] ]);
+      expect(sin([ 0 ])).to.deep.equal([ 0 ]);
+      expect(cos([ [ [ 0 ] ] ])).to.deep.equal([ [ [ 1 ] ] ]);
+      expect(rx).to.deep.equal([ -2, 0, 3 ]);
+    });
+
+    it('should compute elementwise unary operations in place', () => {
+      const rx = [ [ -1, 4 ], [ 9, -16 ] ];
+      abs(rx, rx);
+      expect(rx).to.deep.equal([ [ 1, 4 ], [ 9, 16 ] ]);
+      const ry = zero(2, 2);
+      expect(sqrt(rx, ry)).to.be.undefined;
+      expect(ry).to.deep.equal([ [ 1, 2 ], [ 3, 4 ] ]);
+      expect(() => neg(rx, zero(2, 3))).to.throw();
+    });
+  });
+
+  describe('#clip()', () => {
+    it('should clip array values', () => {
+      const rx = [ [ -2, 0 ], [ 1, 5 ] ];
+      expect(clip(-1, 2, rx)).to.deep.equal([ [ -1, 0 ], [ 1, 2 ] ]);
+      clip(0, 1, rx, rx);
+      expect(rx).to.deep.equal([ [ 0, 0 ], [ 1, 1 ] ]);
+      expect(() => clip(1, 0, rx)).to.throw();
+    });
+  });
+
+  describe('#sum(), #prod(), #max(), #min()', () => {
+    it('should reduce 1D, 2D and 3D arrays', () => {
+      const r1 = [ 3, -1, 4, 1, 5 ];
+      const r2 = [ [ 3, -1 ], [ 4, 1 ], [ 5, 9 ] ];
+      const r3 = [ r2, [ [ 2, 6 ], [ -5, 3 ], [ 5, 8 ] ] ];
+      expect(sum(r1)).to.equal(12);
+      expect(sum(r2)).to.equal(21);
+      expect(sum(r3)).to.equal(40);
+      expect(sum([])).to.equal(0);
+      expect(prod(r1)).to.equal(-60);
+      expect(prod([ [ 2, 3 ], [ 4 ] ])).to.equal(24);
+      expect(max(r1)).to.equal(5);
+      expect(min(r2)).to.equal(-1);
+      expect(max(r3)).to.equal(9);
+      expect(min(r3)).to.equal(-5);
+      expect(() => max([])).to.throw();
+    });
+
+    it('should find indices of minimum and maximum values', () => {
+      const r2 = [ [ 3, -1 ], [ 9, 1 ], [ 5, 9 ] ];
+      const r3 = [ r2, [ [ 2, 6 ], [ -5, 3 ], [ 5, 8 ] ] ];
+      expect(argmax([ 1, 7, 7, 2 ])).to.deep.equal([ 1 ]);
+      expect(argmin([ 1, 7, 0, 2 ])).to.deep.equal([ 2 ]);
+      expect(argmax(r2)).to.deep.equal([ 0, 1 ]);
+      expect(argmin(r2)).to.deep.equal([ 1, 0 ]);
+      expect(argmax(r3)).to.deep.equal([ 0, 1, 0 ]);
+      expect(argmin(r3)).to.deep.equal([ 0, 1, 1 ]);
+      expect(() => argmin([ [] ])).to.throw();
+    });
+  });
+
+  describe('#equal()', () => {
+    it('should compare arrays with and without tolerance', () => {
+      expect(equal([ 1, 2 ], [ 1, 2 ])).to.be.true;
+      expect(equal([ 1, 2 ], [ 1, 2.001 ])).to.be.false;
+      expect(equal(0.01, [ 1, 2 ], [ 1, 2.001 ])).to.be.true;
+      expect(equal([ [ 1 ], [ 2, 3 ] ], [ [ 1 ], [ 2, 3 ] ])).to.be.true;
+      expect(equal([ [ 1 ], [ 2, 3 ] ], [ [ 1 ], [ 2 ] ])).to.be.false;
+      expect(equal([ [ [ 1 ] ] ], [ [ 1 ] ])).to.be.false;
+      expect(equal(0.1, [ [ [ 1, 2 ] ] ], [ [ [ 1.05, 1.95 ] ] ])).to.be.true;
+    });
+  });
+
+  describe('#argsort(), #quickIndexSort(), #reverse(), #distinct()', () => {
+    it('should sort indices of values', () => {
+      const a = [ 3, 1, 4, 1, 5, 9, 2, 6 ];
+      const i = argsort(a);
+      expect(i.map(j => a[j])).to.deep.equal([ 1, 1, 2, 3, 4, 5, 6, 9 ]);
+      expect(a).to.deep.equal([ 3, 1, 4, 1, 5, 9, 2, 6 ]);
+      const k = [ 0, 2, 4 ];
+      quickIndexSort([ 5, 0, 3, 0, 1 ], k);
+      expect(k).to.deep.equal([ 4, 2, 0 ]);
+    });
+
+    it('should sort indices of many values, with NaN values last', () => {
+      const n = 500;
+      const a = rampint(0, 1, n).map(j => ( j % 50 === 7 ) ? NaN : ( j * 37 ) % 101);
+      const i = argsort(a);
+      expect(i.slice().sort((j, k) => j - k)).to.deep.equal(rampint(0, 1, n));
+      const v = i.map(j => a[j]);
+      for (let j = 1; j < n - 10; ++j) { expect(v[j - 1]).to.be.at.most(v[j]); }
+      expect(i.slice(n - 10)).to.deep.equal(rampint(7, 50, 10));
+      expect(argsort([ NaN, 2, NaN, 1 ])).to.deep.equal([ 3, 1, 0, 2 ]);
+    });
+
+    it('should reverse arrays and find distinct values', () => {
+      const a = [ 3, 1, 4, 1, 5 ];
+      expect(reverse(a)).to.deep.equal([ 5, 1, 4, 1, 3 ]);
+      expect(distinct(a)).to.deep.equal([ 1, 3, 4, 5 ]);
+      expect(distinct([])).to.deep.equal([]);
+      expect(a).to.deep.equal([ 3, 1, 4, 1, 5 ]);
+    });
+  });
+
+  describe('#rampint(), #randfloat()', () => {
+    it('should ramp arrays of integers', () => {
+      expect(rampint(1, 2, 4)).to.deep.equal([ 1, 3, 5, 7 ]);
+      expect(rampint(0, 1, 10, 3, 2)).to.deep.equal([ [ 0, 1, 2 ], [ 10, 11, 12 ] ]);
+      expect(rampint(0, 1, 10, 100, 2, 2, 2)[1]).to.deep.equal([ [ 100, 101 ], [ 110, 111 ] ]);
+      expect(() => rampint(0.5, 1, 3)).to.throw();
+    });
+
+    it('should generate arrays of random values', () => {
+      const r1 = randfloat(100);
+      expect(r1.length).to.equal(100);
+      r1.forEach(r => expect(r).to.be.within(0, 1));
+      const r3 = randfloat(4, 3, 2);
+      expect(r3.length).to.equal(2);
+      expect(r3[1].length).to.equal(3);
+      expect(r3[1][2].length).to.equal(4);
+      expect(randfloat(2, 5).length).to.equal(5);
+      expect(randfloat(new Random(3), 4, 2)).to.deep.equal(randfloat(new Random(3), 4, 2));
+      expect(randfloat(new Random(3), 4)).to.deep.equal(rand(new Random(3), 4));
+    });
+  });
+
+  describe('#cadd(), #csub(), #cmul(), #cdiv()', () => {
+    it('should compute elementwise operations of complex arrays', () => {
+      const cx = [ 1, 2, 3, -4 ];
+      const cy = [ 3, 4, 0, 1 ];
+      expect(cadd(cx, cy)).to.deep.equal([ 4, 6, 3, -3 ]);
+      expect(csub(cx, cy)).to.deep.equal([ -2, -2, 3, -5 ]);
+      expect(cmul(cx, cy)).to.deep.equal([ -5, 10, 4, 3 ]);
+      const cz = cdiv(cx, cy);
+      [ 0.44, 0.08, -4, -3 ].forEach((c, i) => expect(cz[i]).to.be.closeTo(c, EPS));
+      expect(() => cadd(cx, [ 1, 2 ])).to.throw();
+      expect(() => cmul([ 1, 2, 3 ], [ 1, 2, 3 ])).to.throw();
+    });
+
+    it('should compute operations of 2D and 3D complex arrays in place', () => {
+      const cx = [ [ 1, 2, 3, 4 ], [ 0, 1, 1, 0 ] ];
+      const cy = czero(2, 2);
+      cmul(cx, cx, cy);
+      expect(cy).to.deep.equal([ [ -3, 4, -7, 24 ], [ -1, 0, 1, 0 ] ]);
+      cdiv(cy, cx, cy);
+      expect(equal(EPS, cy, cx)).to.be.true;
+      const c3 = [ cx, cx ];
+      expect(cadd(c3, c3)[1]).to.deep.equal([ [ 2, 4, 6, 8 ], [ 0, 2, 2, 0 ] ]);
+    });
+  });
+
+  describe('#cconj(), #cexp(), #clog(), #csqrt()', () => {
+    it('should compute elementwise functions of complex values', () => {
+      const cx = [ 3, 4, -4, 0, 0, -2 ];
+      expect(cconj(cx)).to.deep.equal([ 3, -4, -4, -0, 0, 2 ]);
+      const cs = csqrt(cx);
+      [ 2, 1, 0, 2, 1, -1 ].forEach((c, i) => expect(cs[i]).to.be.closeTo(c, EPS));
+      const cl = clog(cx);
+      [ Math.log(5), Math.atan2(4, 3), Math.log(4), Math.PI, Math.log(2), -Math.PI / 2 ]
+        .forEach((c, i) => expect(cl[i]).to.be.closeTo(c, EPS));
+      const ce = cexp([ 0, Math.PI, 1, 0 ]);
+      [ -1, 0, Math.E, 0 ].forEach((c, i) => expect(ce[i]).to.be.closeTo(c, EPS));
+      const cy = [ [ [ 1, 1 ] ] ];
+      cexp(clog(cy), cy);
+      expect(equal(EPS, cy, [ [ [ 1, 1 ] ] ])).to.be.true;
+      expect(() => cconj(cx, [ 0, 0 ])).to.throw();
+    });
+  });
+
+  describe('#cabs(), #carg(), #real(), #imag(), #cmplx(), #polar()', () => {
+    it('should convert between complex and real arrays', () => {
+      const cx = [ [ 3, 4, 0, -2 ], [ -1, 0, 1, 1 ] ];
+      expect(cabs(cx)).to.deep.equal([ [ 5, 2 ], [ 1, Math.SQRT2 ] ]);
+      expect(carg(cx)).to.deep.equal([ [ Math.atan2(4, 3), -Math.PI / 2 ], [ Math.PI, Math.PI / 4 ] ]);
+      const rx = real(cx);
+      const ix = imag(cx);
+      expect(rx).to.deep.equal([ [ 3, 0 ], [ -1, 1 ] ]);
+      expect(ix).to.deep.equal([ [ 4, -2 ], [ 0, 1 ] ]);
+      expect(cmplx(rx, ix)).to.deep.equal(cx);
+      const cy = czero(2, 2);
+      polar(cabs(cx), carg(cx), cy);
+      expect(equal(EPS, cy, cx)).to.be.true;
+      const ry = zero(2, 2);
+      real(cx, ry);
+      expect(ry).to.deep.equal(rx);
+      expect(() => real(cx, zero(4, 2))).to.throw();
+      expect(() => cmplx([ 1, 2 ], [ 1 ])).to.throw();
+    });
+  });
+
+  describe('#rand(), #randn()', () => {
+    it('should generate arrays of random values', () => {
+      const r1 = rand(1000);
+      expect(r1.length).to.equal(1000);
+      r1.forEach(r => expect(r).to.be.within(0, 1));
+      const r3 = randn(4, 3, 2);
+      expect(r3.length).to.equal(2);
+      expect(r3[1].length).to.equal(3);
+      expect(r3[1][2].length).to.equal(4);
+      expect(rand(2, 5).length).to.equal(5);
+    });
+
+    it('should generate reproducible arrays with seeded generators', () => {
+      expect(rand(new Random(7), 3, 2)).to.deep.equal(rand(new Random(7), 3, 2));
+      expect(randn(new Random(7), 5)).to.deep.equal(randn(new Random(7), 5));
+      const r = new Random(7);
+      const u = r.uniform();
+      expect(rand(new Random(7), 1, 1, 1)).to.deep.equal([ [ [ u ] ] ]);
+      const g = randn(new Random(8), 10000);
+      expect(sum(g) / g.length).to.be.closeTo(0, 0.05);
+    });
+  });
 });
 
@@ -1,6 +1,6 @@
 import { expect } from 'chai';
 import 'mocha';
-import { Guid } from '../../src/utils';
+import { Guid, Random } from '../../src/utils';
 
 describe('GUID', () => {
   it('should return guid value', () => {
@@ -18,4 +18,13 @@ describe('GUID', () => {
     expect(guid2.equals(guid3)).to.be.false;
     expect(guid1.equals(guid4)).to.be.false;
   });
+
+  it('should create reproducible guids with seeded generators', () => {
+    const guid1 = Guid.Create(new Random(42));
+    const guid2 = Guid.Create(new Random(42));
+    const guid3 = Guid.Create(new Random(43));
+    expect(guid1.value).to.match(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(guid1.equals(guid2)).to.be.true;
+    expect(guid1.equals(guid3)).to.be.false;
+  });
 });
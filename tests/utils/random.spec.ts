@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Random, kurtosis, mean, std } from '../../src/utils';
+
+describe('Random', () => {
+
+  const draws = (n: number, f: () => number): number[] => [ ...Array(n) ].map(f);
+
+  it('should generate reproducible sequences for a seed', () => {
+    const r1 = new Random(12345);
+    const r2 = new Random(12345);
+    const r3 = new Random(12346);
+    expect(r1.seed).to.equal(12345);
+    const s1 = draws(100, () => r1.nextInt32());
+    expect(draws(100, () => r2.nextInt32())).to.deep.equal(s1);
+    expect(draws(100, () => r3.nextInt32())).to.not.deep.equal(s1);
+    s1.forEach(s => expect(Number.isInteger(s) && 0 <= s && s < 4294967296).to.be.true);
+    expect(new Random(2 ** 40).nextInt32()).to.not.equal(new Random(0).nextInt32());
+    expect(() => new Random(-1)).to.throw();
+    expect(() => new Random(0.5)).to.throw();
+    expect(new Random().seed).to.be.within(0, 4294967295);
+  });
+
+  it('should draw uniform values', () => {
+    const r = new Random(1);
+    const u = draws(10000, () => r.uniform());
+    u.forEach(ui => expect(ui).to.be.within(0, 1).and.not.equal(1));
+    expect(mean(u)).to.be.closeTo(0.5, 0.01);
+    expect(std(u)).to.be.closeTo(Math.sqrt(1 / 12), 0.01);
+    const v = draws(1000, () => r.uniform(-2, 3));
+    v.forEach(vi => expect(vi).to.be.within(-2, 3));
+  });
+
+  it('should draw normal and exponential values', () => {
+    const r = new Random(2);
+    const g = draws(20000, () => r.normal());
+    expect(mean(g)).to.be.closeTo(0, 0.03);
+    expect(std(g)).to.be.closeTo(1, 0.03);
+    expect(kurtosis(g)).to.be.closeTo(0, 0.1);
+    const h = draws(20000, () => r.normal(10, 2));
+    expect(mean(h)).to.be.closeTo(10, 0.06);
+    expect(std(h)).to.be.closeTo(2, 0.06);
+    const e = draws(20000, () => r.exponential(4));
+    e.forEach(ei => expect(ei).to.be.at.least(0));
+    expect(mean(e)).to.be.closeTo(0.25, 0.01);
+    expect(() => r.exponential(0)).to.throw();
+  });
+
+  it('should draw uniform integers', () => {
+    const r = new Random(3);
+    const counts = [ 0, 0, 0, 0, 0, 0 ];
+    draws(6000, () => r.integer(6)).forEach(k => counts[k] += 1);
+    counts.forEach(c => expect(c).to.be.closeTo(1000, 100));
+    const k = draws(1000, () => r.integer(-3, 2));
+    k.forEach(ki => expect(Number.isInteger(ki) && -3 <= ki && ki < 2).to.be.true);
+    expect(new Set(k).size).to.equal(5);
+    expect(r.integer(2 ** 40)).to.be.below(2 ** 40);
+    expect(() => r.integer(3, 3)).to.throw();
+    expect(() => r.integer(1.5)).to.throw();
+  });
+
+});
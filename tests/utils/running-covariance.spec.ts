@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import 'mocha';
+import { RunningCovariance, correlation, covariance, mean } from '../../src/utils';
+
+describe('Running Covariance', () => {
+
+  const EPS = 1.0e-10;
+  const x = [ ...Array(500) ].map(() => Math.random());
+  const y = x.map(xi => xi * xi + 0.1 * Math.random());
+
+  it('should accumulate covariances of pairs of values', () => {
+    const c = new RunningCovariance();
+    expect(c.covariance()).to.be.NaN;
+    x.forEach((xi, i) => c.add(xi, y[i]));
+    expect(c.count).to.equal(500);
+    expect(c.meanX).to.be.closeTo(mean(x), EPS);
+    expect(c.meanY).to.be.closeTo(mean(y), EPS);
+    expect(c.covariance()).to.be.closeTo(covariance(x, y), EPS);
+    expect(c.covariance(1)).to.be.closeTo(covariance(x, y, 1), EPS);
+    expect(c.correlation).to.be.closeTo(correlation(x, y), EPS);
+  });
+
+  it('should accumulate arrays and merge covariances', () => {
+    const a = new RunningCovariance();
+    const b = new RunningCovariance();
+    a.add(x.slice(0, 200), y.slice(0, 200));
+    b.add([ x.slice(200) ], y.slice(200));
+    a.merge(b);
+    expect(a.count).to.equal(500);
+    expect(a.covariance()).to.be.closeTo(covariance(x, y), EPS);
+    expect(a.correlation).to.be.closeTo(correlation(x, y), EPS);
+    expect(() => a.add([ 1, 2 ], [ 3 ])).to.throw();
+  });
+
+  it('should ignore pairs with NaN values if specified', () => {
+    const c = new RunningCovariance(true);
+    c.add([ 1, NaN, 2, 3 ], [ 2, 5, NaN, 6 ]);
+    expect(c.count).to.equal(2);
+    expect(c.covariance()).to.be.closeTo(2, EPS);
+  });
+
+});
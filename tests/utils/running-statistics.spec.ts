@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import 'mocha';
+import { RunningStatistics, kurtosis, mean, skewness, variance } from '../../src/utils';
+
+describe('Running Statistics', () => {
+
+  const EPS = 1.0e-10;
+  const x = [ ...Array(1000) ].map(() => Math.exp(Math.random()));
+
+  it('should accumulate statistics of values', () => {
+    const s = new RunningStatistics();
+    expect(s.count).to.equal(0);
+    expect(s.mean).to.be.NaN;
+    expect(s.variance()).to.be.NaN;
+    x.forEach(xi => s.add(xi));
+    expect(s.count).to.equal(1000);
+    expect(s.mean).to.be.closeTo(mean(x), EPS);
+    expect(s.variance()).to.be.closeTo(variance(x), EPS);
+    expect(s.std(1)).to.be.closeTo(Math.sqrt(variance(x, 1)), EPS);
+    expect(s.skewness).to.be.closeTo(skewness(x), EPS);
+    expect(s.kurtosis).to.be.closeTo(kurtosis(x), EPS);
+    expect(s.min).to.equal(Math.min(...x));
+    expect(s.max).to.equal(Math.max(...x));
+  });
+
+  it('should be accurate for values with a large mean', () => {
+    const s = new RunningStatistics();
+    s.add([ 4, 7, 13, 16 ].map(xi => 1.0e9 + xi));
+    expect(s.mean).to.equal(1.0e9 + 10);
+    expect(s.variance(1)).to.be.closeTo(30, 1.0e-6);
+  });
+
+  it('should accumulate arrays and merge statistics', () => {
+    const a = new RunningStatistics();
+    const b = new RunningStatistics();
+    const c = new RunningStatistics();
+    a.add(x.slice(0, 300));
+    b.add([ x.slice(300, 600), x.slice(600) ]);
+    c.add(new Float64Array(x));
+    a.merge(b);
+    a.merge(new RunningStatistics());
+    for (const s of [ a, c ]) {
+      expect(s.count).to.equal(1000);
+      expect(s.mean).to.be.closeTo(mean(x), EPS);
+      expect(s.variance()).to.be.closeTo(variance(x), EPS);
+      expect(s.skewness).to.be.closeTo(skewness(x), EPS);
+      expect(s.kurtosis).to.be.closeTo(kurtosis(x), EPS);
+      expect(s.min).to.equal(Math.min(...x));
+    }
+  });
+
+  it('should ignore NaN values if specified', () => {
+    const s = new RunningStatistics(true);
+    s.add([ [ 1, NaN ], [ 3, 5 ] ]);
+    expect(s.count).to.equal(3);
+    expect(s.mean).to.equal(3);
+    const t = new RunningStatistics();
+    t.add([ 1, NaN, 3 ]);
+    expect(t.count).to.equal(3);
+    expect(t.mean).to.be.NaN;
+    expect(t.max).to.be.NaN;
+  });
+
+});
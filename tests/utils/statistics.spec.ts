@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import 'mocha';
+import {
+  correlation,
+  covariance,
+  kurtosis,
+  mad,
+  mean,
+  median,
+  nancorrelation,
+  nancovariance,
+  nankurtosis,
+  nanmad,
+  nanmean,
+  nanmedian,
+  nanpercentile,
+  nanskewness,
+  nanstd,
+  nanvariance,
+  percentile,
+  skewness,
+  std,
+  variance,
+} from '../../src/utils';
+
+describe('Statistics', () => {
+
+  const EPS = 1.0e-12;
+  const x = [ 2, 4, 4, 4, 5, 5, 7, 9 ];
+
+  it('should compute moments of 1D arrays', () => {
+    expect(mean(x)).to.equal(5);
+    expect(variance(x)).to.be.closeTo(4, EPS);
+    expect(variance(x, 1)).to.be.closeTo(32 / 7, EPS);
+    expect(std(x)).to.be.closeTo(2, EPS);
+    expect(std(new Float64Array(x), 1)).to.be.closeTo(Math.sqrt(32 / 7), EPS);
+    expect(skewness(x)).to.be.closeTo(0.65625, EPS);
+    expect(kurtosis(x)).to.be.closeTo(-0.21875, EPS);
+    expect(skewness([ 1, 2, 3 ])).to.be.closeTo(0, EPS);
+    expect(() => mean([])).to.throw();
+  });
+
+  it('should compute statistics of all values in 2D and 3D arrays', () => {
+    const x2 = [ [ 2, 4, 4, 4 ], [ 5, 5, 7, 9 ] ];
+    const x3 = [ [ [ 2, 4 ], [ 4, 4 ] ], [ [ 5, 5 ], [ 7, 9 ] ] ];
+    for (const xn of [ x2, x3 ]) {
+      expect(mean(xn)).to.equal(5);
+      expect(variance(xn)).to.be.closeTo(4, EPS);
+      expect(median(xn)).to.equal(4.5);
+      expect(percentile(xn, 100)).to.equal(9);
+    }
+    const empty: number[][][] = [ [], [ [ 2, 4, 4, 4 ] ], [ [], [ 5, 5, 7, 9 ] ] ];
+    expect(mean(empty)).to.equal(5);
+    expect(median(empty)).to.equal(4.5);
+  });
+
+  it('should compute order statistics', () => {
+    expect(median(x)).to.equal(4.5);
+    expect(median([ 3, 1, 2 ])).to.equal(2);
+    expect(mad(x)).to.equal(0.5);
+    expect(percentile(x, 0)).to.equal(2);
+    expect(percentile(x, 100)).to.equal(9);
+    expect(percentile(x, 25)).to.be.closeTo(4, EPS);
+    expect(percentile(x, 90)).to.be.closeTo(7.6, EPS);
+    expect(percentile(x, [ 0, 50, 90 ])).to.deep.equal([ 2, 4.5, percentile(x, 90) ]);
+    expect(x).to.deep.equal([ 2, 4, 4, 4, 5, 5, 7, 9 ]);
+    expect(median([ 1, NaN, 2 ])).to.be.NaN;
+    expect(() => percentile(x, 101)).to.throw();
+
+    const r = [ ...Array(1001) ].map(() => Math.random());
+    const s = r.slice().sort((a, b) => a - b);
+    expect(median(r)).to.equal(s[500]);
+    expect(percentile(r, 37.5)).to.be.closeTo(s[375], EPS);
+  });
+
+  it('should compute covariances and correlations', () => {
+    const y = x.map(xi => 3 - 2 * xi);
+    expect(covariance(x, y)).to.be.closeTo(-8, EPS);
+    expect(covariance(x, y, 1)).to.be.closeTo(-64 / 7, EPS);
+    expect(covariance(x, x)).to.be.closeTo(variance(x), EPS);
+    expect(correlation(x, y)).to.be.closeTo(-1, EPS);
+    expect(correlation([ [ 1, 2 ], [ 3, 4 ] ], [ 1, 3, 2, 4 ])).to.be.closeTo(0.8, EPS);
+    expect(() => covariance(x, [ 1, 2 ])).to.throw();
+  });
+
+  it('should ignore NaN values in NaN-aware statistics', () => {
+    const xn = [ [ 2, NaN, 4, 4 ], [ 4, 5, 5, NaN ], [ 7, 9, NaN, NaN ] ];
+    expect(mean(xn)).to.be.NaN;
+    expect(nanmean(xn)).to.equal(5);
+    expect(nanvariance(xn)).to.be.closeTo(4, EPS);
+    expect(nanstd(xn, 1)).to.be.closeTo(std(x, 1), EPS);
+    expect(nanskewness(xn)).to.be.closeTo(skewness(x), EPS);
+    expect(nankurtosis(xn)).to.be.closeTo(kurtosis(x), EPS);
+    expect(nanmedian(xn)).to.equal(4.5);
+    expect(nanmad(xn)).to.equal(0.5);
+    expect(nanpercentile(xn, 90)).to.be.closeTo(7.6, EPS);
+    expect(nanpercentile(xn, [ 0, 100 ])).to.deep.equal([ 2, 9 ]);
+    expect(nanmean([ NaN, NaN ])).to.be.NaN;
+    expect(nanmedian([ NaN ])).to.be.NaN;
+
+    const y = [ 1, 2, NaN, 4 ];
+    const z = [ 2, NaN, 6, 8 ];
+    expect(nancovariance(y, z)).to.be.closeTo(covariance([ 1, 4 ], [ 2, 8 ]), EPS);
+    expect(nancorrelation(y, z)).to.be.closeTo(1, EPS);
+  });
+
+});